@@ -1,74 +1,140 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
+import {
+  BrowserRouter,
+  Navigate,
+  Route,
+  Routes,
+  useLocation,
+  useNavigate,
+  useParams,
+} from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { I18nProvider, useI18n } from './contexts/I18nContext';
+import { NotificationsProvider } from './contexts/NotificationsContext';
 import { Header } from './components/Layout/Header';
 import { Hero } from './components/Home/Hero';
 import { SignIn } from './components/Auth/SignIn';
 import { SignUp } from './components/Auth/SignUp';
+import { ForgotPassword } from './components/Auth/ForgotPassword';
+import { ResetPassword } from './components/Auth/ResetPassword';
+import { AuthNotices } from './components/Auth/AuthNotices';
+import { RequireRole } from './components/Auth/RequireRole';
 import { ProjectList } from './components/Projects/ProjectList';
 import { ProjectDetail } from './components/Projects/ProjectDetail';
 import { CreateProject } from './components/Projects/CreateProject';
 import { Dashboard } from './components/Dashboard/Dashboard';
 import { AdminPanel } from './components/Admin/AdminPanel';
+import { ProfileSettings } from './components/Profile/ProfileSettings';
+import { NotificationCenter } from './components/Notifications/NotificationCenter';
 import { DonationModal } from './components/Donation/DonationModal';
 import { Loader } from 'lucide-react';
 
-type Page = 'home' | 'signin' | 'signup' | 'projects' | 'project-detail' | 'create' | 'edit' | 'dashboard' | 'admin';
+const pagePaths: Record<string, string> = {
+  home: '/',
+  signin: '/signin',
+  signup: '/signup',
+  'forgot-password': '/forgot-password',
+  'reset-password': '/reset-password',
+  projects: '/projects',
+  create: '/projects/new',
+  dashboard: '/dashboard',
+  settings: '/settings',
+  notifications: '/notifications',
+  admin: '/admin',
+};
+
+function getCurrentPage(pathname: string) {
+  if (pathname === '/projects/new') return 'create';
+  if (/^\/projects\/[^/]+\/edit$/.test(pathname)) return 'edit';
+  if (/^\/projects\/[^/]+$/.test(pathname)) return 'project-detail';
+  const page = Object.keys(pagePaths).find((key) => pagePaths[key] === pathname);
+  return page || 'home';
+}
+
+function ProjectDetailRoute({
+  onDonate,
+}: {
+  onDonate: (projectId: string, projectTitle: string, projectCurrency: string) => void;
+}) {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  if (!id) return <Navigate to="/projects" replace />;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <ProjectDetail
+        projectId={id}
+        onBack={() => navigate('/projects')}
+        onDonate={(projectTitle, projectCurrency) => onDonate(id, projectTitle, projectCurrency)}
+      />
+    </div>
+  );
+}
+
+function EditProjectRoute() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  if (!id) return <Navigate to="/dashboard" replace />;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+      <CreateProject projectId={id} onSuccess={() => navigate('/dashboard')} />
+    </div>
+  );
+}
 
 function AppContent() {
-  const { loading } = useAuth();
-  const [currentPage, setCurrentPage] = useState<Page>('home');
-  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
-  const [editProjectId, setEditProjectId] = useState<string | null>(null);
+  const { loading, passwordRecovery } = useAuth();
+  const { t } = useI18n();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [showDonationModal, setShowDonationModal] = useState(false);
-  const [donationProject, setDonationProject] = useState<{ id: string; title: string } | null>(null);
+  const [donationProject, setDonationProject] = useState<{ id: string; title: string; currency: string } | null>(null);
+  const [donationVersion, setDonationVersion] = useState(0);
 
-  const handleNavigate = (page: Page) => {
-    setCurrentPage(page);
-    setSelectedProjectId(null);
-    setEditProjectId(null);
+  useEffect(() => {
     window.scrollTo(0, 0);
+  }, [location.pathname]);
+
+  // A recovery link signs the user in; send them to choose a new password first
+  useEffect(() => {
+    if (passwordRecovery && location.pathname !== '/reset-password') {
+      navigate('/reset-password', { replace: true });
+    }
+  }, [passwordRecovery, location.pathname]);
+
+  const handleNavigate = (page: string) => {
+    navigate(pagePaths[page] || '/');
+  };
+
+  const handleSignedIn = () => {
+    const from = (location.state as { from?: string } | null)?.from;
+    navigate(from || '/', { replace: true });
   };
 
   const handleProjectClick = (projectId: string) => {
-    setSelectedProjectId(projectId);
-    setCurrentPage('project-detail');
-    window.scrollTo(0, 0);
+    navigate(`/projects/${projectId}`);
   };
 
   const handleEditProject = (projectId: string) => {
-    setEditProjectId(projectId);
-    setCurrentPage('edit');
-    window.scrollTo(0, 0);
+    navigate(`/projects/${projectId}/edit`);
   };
 
-  const handleDonate = (projectId: string, projectTitle: string) => {
-    setDonationProject({ id: projectId, title: projectTitle });
+  const handleDonate = (projectId: string, projectTitle: string, projectCurrency: string) => {
+    setDonationProject({ id: projectId, title: projectTitle, currency: projectCurrency });
     setShowDonationModal(true);
   };
 
   const handleDonationSuccess = () => {
-    if (selectedProjectId) {
-      setCurrentPage('project-detail');
-    }
+    setDonationVersion((version) => version + 1);
   };
 
-  useEffect(() => {
-    const handlePopState = () => {
-      setCurrentPage('home');
-      setSelectedProjectId(null);
-      setEditProjectId(null);
-    };
-
-    window.addEventListener('popstate', handlePopState);
-    return () => window.removeEventListener('popstate', handlePopState);
-  }, []);
-
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50">
         <div className="text-center">
           <Loader className="h-12 w-12 animate-spin text-emerald-600 mx-auto mb-4" />
-          <p className="text-gray-600">Loading Hope Bridge...</p>
+          <p className="text-gray-600">{t('app.loading')}</p>
         </div>
       </div>
     );
@@ -76,93 +142,143 @@ function AppContent() {
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <Header onNavigate={handleNavigate} currentPage={currentPage} />
+      <Header onNavigate={handleNavigate} currentPage={getCurrentPage(location.pathname)} />
+      <AuthNotices />
 
       <main>
-        {currentPage === 'home' && (
-          <>
-            <Hero
-              onGetStarted={() => handleNavigate('signup')}
-              onExplore={() => handleNavigate('projects')}
-            />
-            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-              <div className="mb-8">
-                <h2 className="text-3xl font-bold text-gray-900 mb-2">Active Projects</h2>
-                <p className="text-gray-600">Support verified projects making real impact</p>
+        <Routes>
+          <Route
+            path="/"
+            element={
+              <>
+                <Hero
+                  onGetStarted={() => handleNavigate('signup')}
+                  onExplore={() => handleNavigate('projects')}
+                />
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                  <div className="mb-8">
+                    <h2 className="text-3xl font-bold text-gray-900 mb-2">{t('home.activeProjects')}</h2>
+                    <p className="text-gray-600">{t('home.activeProjectsIntro')}</p>
+                  </div>
+                  <ProjectList
+                    onProjectClick={handleProjectClick}
+                    filterStatus={['active', 'fully_funded']}
+                  />
+                </div>
+              </>
+            }
+          />
+
+          <Route
+            path="/signin"
+            element={
+              <SignIn onNavigate={(page) => (page === 'home' ? handleSignedIn() : handleNavigate(page))} />
+            }
+          />
+
+          <Route path="/signup" element={<SignUp onNavigate={handleNavigate} />} />
+
+          <Route path="/forgot-password" element={<ForgotPassword onNavigate={handleNavigate} />} />
+
+          <Route path="/reset-password" element={<ResetPassword onNavigate={handleNavigate} />} />
+
+          <Route
+            path="/projects"
+            element={
+              <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                <div className="mb-8">
+                  <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('projects.title')}</h1>
+                  <p className="text-gray-600">{t('projects.intro')}</p>
+                </div>
+                <ProjectList
+                  onProjectClick={handleProjectClick}
+                  filterStatus={['active', 'fully_funded', 'completed']}
+                />
               </div>
-              <ProjectList
-                onProjectClick={handleProjectClick}
-                filterStatus={['active', 'fully_funded']}
-              />
-            </div>
-          </>
-        )}
+            }
+          />
 
-        {currentPage === 'signin' && <SignIn onNavigate={handleNavigate} />}
+          <Route
+            path="/projects/new"
+            element={
+              <RequireRole roles={['project_creator', 'admin']}>
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                  <CreateProject onSuccess={() => handleNavigate('dashboard')} />
+                </div>
+              </RequireRole>
+            }
+          />
 
-        {currentPage === 'signup' && <SignUp onNavigate={handleNavigate} />}
+          <Route
+            path="/projects/:id"
+            element={<ProjectDetailRoute key={donationVersion} onDonate={handleDonate} />}
+          />
 
-        {currentPage === 'projects' && (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <div className="mb-8">
-              <h1 className="text-3xl font-bold text-gray-900 mb-2">All Projects</h1>
-              <p className="text-gray-600">Discover and support poverty alleviation initiatives</p>
-            </div>
-            <ProjectList
-              onProjectClick={handleProjectClick}
-              filterStatus={['active', 'fully_funded', 'completed']}
-            />
-          </div>
-        )}
-
-        {currentPage === 'project-detail' && selectedProjectId && (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <ProjectDetail
-              projectId={selectedProjectId}
-              onBack={() => handleNavigate('projects')}
-              onDonate={() => {
-                const projectTitle = document.title;
-                handleDonate(selectedProjectId, projectTitle);
-              }}
-            />
-          </div>
-        )}
+          <Route
+            path="/projects/:id/edit"
+            element={
+              <RequireRole roles={['project_creator', 'admin']}>
+                <EditProjectRoute />
+              </RequireRole>
+            }
+          />
 
-        {currentPage === 'create' && (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <CreateProject onSuccess={() => handleNavigate('dashboard')} />
-          </div>
-        )}
-
-        {currentPage === 'edit' && editProjectId && (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <CreateProject
-              projectId={editProjectId}
-              onSuccess={() => handleNavigate('dashboard')}
-            />
-          </div>
-        )}
-
-        {currentPage === 'dashboard' && (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <Dashboard
-              onEditProject={handleEditProject}
-              onViewProject={handleProjectClick}
-            />
-          </div>
-        )}
+          <Route
+            path="/dashboard"
+            element={
+              <RequireRole>
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                  <Dashboard
+                    onEditProject={handleEditProject}
+                    onViewProject={handleProjectClick}
+                  />
+                </div>
+              </RequireRole>
+            }
+          />
 
-        {currentPage === 'admin' && (
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-            <AdminPanel onViewProject={handleProjectClick} />
-          </div>
-        )}
+          <Route
+            path="/settings"
+            element={
+              <RequireRole>
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                  <ProfileSettings onAccountDeleted={() => navigate('/', { replace: true })} />
+                </div>
+              </RequireRole>
+            }
+          />
+
+          <Route
+            path="/notifications"
+            element={
+              <RequireRole>
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                  <NotificationCenter onViewProject={handleProjectClick} />
+                </div>
+              </RequireRole>
+            }
+          />
+
+          <Route
+            path="/admin"
+            element={
+              <RequireRole roles={['admin']}>
+                <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
+                  <AdminPanel onViewProject={handleProjectClick} />
+                </div>
+              </RequireRole>
+            }
+          />
+
+          <Route path="*" element={<Navigate to="/" replace />} />
+        </Routes>
       </main>
 
       {showDonationModal && donationProject && (
         <DonationModal
           projectId={donationProject.id}
           projectTitle={donationProject.title}
+          projectCurrency={donationProject.currency}
           onClose={() => setShowDonationModal(false)}
           onSuccess={handleDonationSuccess}
         />
@@ -178,52 +294,47 @@ function AppContent() {
                 </div>
                 <span className="text-xl font-bold text-gray-900">Hope Bridge</span>
               </div>
-              <p className="text-gray-600 mb-4 max-w-md">
-                Connecting communities through transparent crowdfunding for poverty alleviation
-                projects worldwide.
-              </p>
-              <p className="text-sm text-gray-500">
-                Built for social impact. All projects are verified and monitored for transparency.
-              </p>
+              <p className="text-gray-600 mb-4 max-w-md">{t('footer.about')}</p>
+              <p className="text-sm text-gray-500">{t('footer.tagline')}</p>
             </div>
 
             <div>
-              <h3 className="font-semibold text-gray-900 mb-4">Platform</h3>
+              <h3 className="font-semibold text-gray-900 mb-4">{t('footer.platform')}</h3>
               <ul className="space-y-2 text-gray-600">
                 <li>
                   <button onClick={() => handleNavigate('projects')} className="hover:text-emerald-600">
-                    Browse Projects
+                    {t('footer.browse')}
                   </button>
                 </li>
                 <li>
                   <button onClick={() => handleNavigate('signup')} className="hover:text-emerald-600">
-                    Start a Project
+                    {t('footer.startProject')}
                   </button>
                 </li>
                 <li>
-                  <button className="hover:text-emerald-600">How It Works</button>
+                  <button className="hover:text-emerald-600">{t('footer.howItWorks')}</button>
                 </li>
               </ul>
             </div>
 
             <div>
-              <h3 className="font-semibold text-gray-900 mb-4">Legal</h3>
+              <h3 className="font-semibold text-gray-900 mb-4">{t('footer.legal')}</h3>
               <ul className="space-y-2 text-gray-600">
                 <li>
-                  <button className="hover:text-emerald-600">Terms of Service</button>
+                  <button className="hover:text-emerald-600">{t('footer.terms')}</button>
                 </li>
                 <li>
-                  <button className="hover:text-emerald-600">Privacy Policy</button>
+                  <button className="hover:text-emerald-600">{t('footer.privacy')}</button>
                 </li>
                 <li>
-                  <button className="hover:text-emerald-600">Contact Us</button>
+                  <button className="hover:text-emerald-600">{t('footer.contact')}</button>
                 </li>
               </ul>
             </div>
           </div>
 
           <div className="border-t border-gray-200 mt-8 pt-8 text-center text-sm text-gray-500">
-            <p>&copy; 2024 Hope Bridge. Built for educational purposes as a final project.</p>
+            <p>{t('footer.copyright')}</p>
           </div>
         </div>
       </footer>
@@ -233,9 +344,15 @@ function AppContent() {
 
 function App() {
   return (
-    <AuthProvider>
-      <AppContent />
-    </AuthProvider>
+    <BrowserRouter>
+      <AuthProvider>
+        <I18nProvider>
+          <NotificationsProvider>
+            <AppContent />
+          </NotificationsProvider>
+        </I18nProvider>
+      </AuthProvider>
+    </BrowserRouter>
   );
 }
 
@@ -1,6 +1,14 @@
 import { useEffect, useState } from 'react';
-import { CheckCircle, XCircle, Loader, Eye, Shield } from 'lucide-react';
+import { Loader, Eye, Shield, RefreshCw } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useI18n } from '../../contexts/I18nContext';
+import { RefundRequests } from './RefundRequests';
+import { ReviewQueue } from './ReviewQueue';
+import { VerificationApplications } from './VerificationApplications';
+import { UserManagement } from './UserManagement';
+import { EmailPreview } from './EmailPreview';
+import { DataExport } from '../Dashboard/DataExport';
+import { projectStatusKeys } from '../../lib/projectLifecycle';
 import type { Database } from '../../lib/database.types';
 
 type Project = Database['public']['Tables']['projects']['Row'] & {
@@ -13,31 +21,32 @@ interface AdminPanelProps {
 }
 
 export function AdminPanel({ onViewProject }: AdminPanelProps) {
+  const { t, formatCurrency } = useI18n();
   const [projects, setProjects] = useState<Project[]>([]);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'pending' | 'all'>('pending');
+  const [activeTab, setActiveTab] = useState<
+    'pending' | 'all' | 'verifications' | 'users' | 'refunds' | 'emails' | 'exports'
+  >('pending');
+  const [reconciling, setReconciling] = useState(false);
+  const [reconcileMessage, setReconcileMessage] = useState('');
 
   useEffect(() => {
-    loadProjects();
+    if (activeTab === 'all' || activeTab === 'exports') {
+      loadProjects();
+    }
   }, [activeTab]);
 
   const loadProjects = async () => {
     setLoading(true);
     try {
-      let query = supabase
+      const { data, error } = await supabase
         .from('projects')
         .select(`
           *,
-          profiles (full_name),
+          profiles!projects_creator_id_fkey (full_name),
           categories (name)
         `)
         .order('created_at', { ascending: false });
-
-      if (activeTab === 'pending') {
-        query = query.eq('status', 'pending_review');
-      }
-
-      const { data, error } = await query;
       if (error) throw error;
       setProjects(data || []);
     } catch (error) {
@@ -47,31 +56,25 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
     }
   };
 
-  const handleApprove = async (projectId: string) => {
+  const handleReconcile = async () => {
+    setReconciling(true);
+    setReconcileMessage('');
     try {
-      const { error } = await supabase
-        .from('projects')
-        .update({ status: 'active', start_date: new Date().toISOString() })
-        .eq('id', projectId);
-
-      if (error) throw error;
-      loadProjects();
-    } catch (error) {
-      console.error('Error approving project:', error);
-    }
-  };
-
-  const handleReject = async (projectId: string) => {
-    try {
-      const { error } = await supabase
-        .from('projects')
-        .update({ status: 'cancelled' })
-        .eq('id', projectId);
-
+      const { data, error } = await supabase.rpc('reconcile_raised_amounts');
       if (error) throw error;
+      setReconcileMessage(
+        data.length === 0
+          ? t('admin.reconcileClean')
+          : data.length === 1
+            ? t('admin.reconcileFixedOne')
+            : t('admin.reconcileFixedMany', { count: data.length })
+      );
       loadProjects();
     } catch (error) {
-      console.error('Error rejecting project:', error);
+      console.error('Error reconciling project totals:', error);
+      setReconcileMessage(t('admin.reconcileFailed'));
+    } finally {
+      setReconciling(false);
     }
   };
 
@@ -89,16 +92,32 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
 
   return (
     <div className="max-w-7xl mx-auto space-y-8">
-      <div className="flex items-center space-x-3">
-        <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-          <Shield className="h-6 w-6 text-blue-600" />
-        </div>
-        <div>
-          <h1 className="text-3xl font-bold text-gray-900">Admin Panel</h1>
-          <p className="text-gray-600">Review and manage projects</p>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
+            <Shield className="h-6 w-6 text-blue-600" />
+          </div>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{t('admin.title')}</h1>
+            <p className="text-gray-600">{t('admin.subtitle')}</p>
+          </div>
         </div>
+        <button
+          onClick={handleReconcile}
+          disabled={reconciling}
+          className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <RefreshCw className={`h-4 w-4 ${reconciling ? 'animate-spin' : ''}`} />
+          <span>{t('admin.reconcile')}</span>
+        </button>
       </div>
 
+      {reconcileMessage && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+          {reconcileMessage}
+        </div>
+      )}
+
       <div className="bg-white rounded-xl shadow-md p-2 inline-flex space-x-2">
         <button
           onClick={() => setActiveTab('pending')}
@@ -108,7 +127,7 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
               : 'text-gray-600 hover:bg-gray-100'
           }`}
         >
-          Pending Review
+          {t('admin.tab.review')}
         </button>
         <button
           onClick={() => setActiveTab('all')}
@@ -118,25 +137,81 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
               : 'text-gray-600 hover:bg-gray-100'
           }`}
         >
-          All Projects
+          {t('admin.tab.projects')}
+        </button>
+        <button
+          onClick={() => setActiveTab('verifications')}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'verifications'
+              ? 'bg-emerald-600 text-white'
+              : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {t('admin.tab.verifications')}
+        </button>
+        <button
+          onClick={() => setActiveTab('users')}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'users'
+              ? 'bg-emerald-600 text-white'
+              : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {t('admin.tab.users')}
+        </button>
+        <button
+          onClick={() => setActiveTab('refunds')}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'refunds'
+              ? 'bg-emerald-600 text-white'
+              : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {t('admin.tab.refunds')}
+        </button>
+        <button
+          onClick={() => setActiveTab('emails')}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'emails'
+              ? 'bg-emerald-600 text-white'
+              : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {t('admin.tab.emails')}
+        </button>
+        <button
+          onClick={() => setActiveTab('exports')}
+          className={`px-6 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'exports'
+              ? 'bg-emerald-600 text-white'
+              : 'text-gray-600 hover:bg-gray-100'
+          }`}
+        >
+          {t('admin.tab.exports')}
         </button>
       </div>
 
-      {loading ? (
+      {activeTab === 'exports' ? (
+        <DataExport projects={projects} showsAnonymousDonors />
+      ) : activeTab === 'emails' ? (
+        <EmailPreview />
+      ) : activeTab === 'refunds' ? (
+        <RefundRequests />
+      ) : activeTab === 'verifications' ? (
+        <VerificationApplications />
+      ) : activeTab === 'users' ? (
+        <UserManagement />
+      ) : activeTab === 'pending' ? (
+        <ReviewQueue onViewProject={onViewProject} />
+      ) : loading ? (
         <div className="flex justify-center items-center py-20">
           <Loader className="h-8 w-8 animate-spin text-emerald-600" />
         </div>
       ) : projects.length === 0 ? (
         <div className="bg-white rounded-xl shadow-md p-12 text-center">
           <Shield className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-xl font-semibold text-gray-900 mb-2">
-            {activeTab === 'pending' ? 'No pending projects' : 'No projects yet'}
-          </h3>
-          <p className="text-gray-600">
-            {activeTab === 'pending'
-              ? 'All projects have been reviewed.'
-              : 'No projects have been created yet.'}
-          </p>
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">{t('admin.noProjects')}</h3>
+          <p className="text-gray-600">{t('admin.noProjectsHint')}</p>
         </div>
       ) : (
         <div className="bg-white rounded-xl shadow-md overflow-hidden">
@@ -145,22 +220,22 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
               <thead className="bg-gray-50 border-b border-gray-200">
                 <tr>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Project
+                    {t('admin.project')}
                   </th>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Creator
+                    {t('admin.creator')}
                   </th>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Category
+                    {t('admin.category')}
                   </th>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Goal
+                    {t('admin.goal')}
                   </th>
                   <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Status
+                    {t('admin.status')}
                   </th>
                   <th className="px-6 py-4 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Actions
+                    {t('admin.actions')}
                   </th>
                 </tr>
               </thead>
@@ -174,22 +249,24 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{project.profiles?.full_name || 'Unknown'}</div>
+                      <div className="text-sm text-gray-900">{project.profiles?.full_name || t('admin.unknownCreator')}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{project.categories?.name || 'Uncategorized'}</div>
+                      <div className="text-sm text-gray-900">{project.categories?.name || t('admin.uncategorized')}</div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">
-                        ${project.goal_amount.toLocaleString()}
+                        {formatCurrency(project.goal_amount, project.currency)}
                       </div>
                       <div className="text-xs text-gray-500">
-                        ${project.raised_amount.toLocaleString()} raised
+                        {t('admin.raised', { amount: formatCurrency(project.raised_amount, project.currency) })}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
-                        {project.status.replace('_', ' ').toUpperCase()}
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium uppercase ${getStatusColor(project.status)}`}
+                      >
+                        {t(projectStatusKeys[project.status])}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
@@ -197,28 +274,10 @@ export function AdminPanel({ onViewProject }: AdminPanelProps) {
                         <button
                           onClick={() => onViewProject(project.id)}
                           className="p-2 text-gray-600 hover:text-emerald-600 transition-colors"
-                          title="View Details"
+                          title={t('admin.viewDetails')}
                         >
                           <Eye className="h-5 w-5" />
                         </button>
-                        {project.status === 'pending_review' && (
-                          <>
-                            <button
-                              onClick={() => handleApprove(project.id)}
-                              className="p-2 text-green-600 hover:text-green-700 transition-colors"
-                              title="Approve"
-                            >
-                              <CheckCircle className="h-5 w-5" />
-                            </button>
-                            <button
-                              onClick={() => handleReject(project.id)}
-                              className="p-2 text-red-600 hover:text-red-700 transition-colors"
-                              title="Reject"
-                            >
-                              <XCircle className="h-5 w-5" />
-                            </button>
-                          </>
-                        )}
                       </div>
                     </td>
                   </tr>
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader, Mail } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import {
+  EMAIL_LOCALES,
+  emailSamples,
+  renderEmail,
+  type EmailLocale,
+  type EmailTemplate,
+} from '../../lib/email';
+import { useI18n } from '../../contexts/I18nContext';
+import type { MessageKey } from '../../lib/i18n';
+import type { Database, EmailStatus } from '../../lib/database.types';
+
+type EmailDelivery = Database['public']['Tables']['email_deliveries']['Row'];
+
+const templateKeys: Record<EmailTemplate, MessageKey> = {
+  donation_receipt: 'emails.template.donationReceipt',
+  review_decision: 'emails.template.reviewDecision',
+  deadline_reminder: 'emails.template.deadlineReminder',
+  update_digest: 'emails.template.updateDigest',
+  notification: 'emails.template.notification',
+};
+
+const statusKeys: Record<EmailStatus, MessageKey> = {
+  queued: 'emails.status.queued',
+  sending: 'emails.status.sending',
+  sent: 'emails.status.sent',
+  failed: 'emails.status.failed',
+  bounced: 'emails.status.bounced',
+  suppressed: 'emails.status.suppressed',
+};
+
+const statusStyles: Record<EmailStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-emerald-100 text-emerald-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-orange-100 text-orange-800',
+  suppressed: 'bg-yellow-100 text-yellow-800',
+};
+
+export function EmailPreview() {
+  const { t, formatDate } = useI18n();
+  const [template, setTemplate] = useState<EmailTemplate>('donation_receipt');
+  const [locale, setLocale] = useState<EmailLocale>('en');
+  const [view, setView] = useState<'html' | 'text'>('html');
+  const [deliveries, setDeliveries] = useState<EmailDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, []);
+
+  const loadDeliveries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('email_deliveries')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setDeliveries(data || []);
+    } catch (error) {
+      console.error('Error loading email deliveries:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Rendered in the browser with the same code the email worker runs
+  const rendered = useMemo(
+    () =>
+      renderEmail(template, emailSamples[template], {
+        locale,
+        siteUrl: window.location.origin,
+        recipientName: 'Amina',
+      }),
+    [template, locale]
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('emails.template')}</label>
+            <select
+              value={template}
+              onChange={(e) => setTemplate(e.target.value as EmailTemplate)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+            >
+              {(Object.keys(templateKeys) as EmailTemplate[]).map((key) => (
+                <option key={key} value={key}>
+                  {t(templateKeys[key])}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('emails.language')}</label>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as EmailLocale)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+            >
+              {EMAIL_LOCALES.map((code) => (
+                <option key={code} value={code}>
+                  {code.toUpperCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm md:ml-auto">
+            <button
+              onClick={() => setView('html')}
+              className={`px-4 py-2 ${view === 'html' ? 'bg-emerald-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              {t('emails.html')}
+            </button>
+            <button
+              onClick={() => setView('text')}
+              className={`px-4 py-2 ${view === 'text' ? 'bg-emerald-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            >
+              {t('emails.plainText')}
+            </button>
+          </div>
+        </div>
+
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="bg-gray-50 border-b border-gray-200 px-4 py-2 text-sm">
+            <span className="text-gray-500">{t('emails.subject')}</span>{' '}
+            <span className="font-medium text-gray-900">{rendered.subject}</span>
+          </div>
+          {view === 'html' ? (
+            <iframe
+              title={t('emails.previewTitle')}
+              srcDoc={rendered.html}
+              sandbox=""
+              className="w-full h-[640px] bg-white"
+            />
+          ) : (
+            <pre className="p-4 text-sm text-gray-800 whitespace-pre-wrap font-mono">{rendered.text}</pre>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="font-semibold text-gray-900">{t('emails.recentDeliveries')}</h3>
+        </div>
+        {loading ? (
+          <div className="flex justify-center items-center py-12">
+            <Loader className="h-8 w-8 animate-spin text-emerald-600" />
+          </div>
+        ) : deliveries.length === 0 ? (
+          <div className="p-12 text-center">
+            <Mail className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+            <p className="text-gray-600">{t('emails.empty')}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('emails.recipient')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('emails.template')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('emails.status')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('emails.attempts')}
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('emails.queued')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id}>
+                    <td className="px-6 py-3 text-gray-900">{delivery.to_email}</td>
+                    <td className="px-6 py-3 text-gray-600">
+                      {delivery.template in templateKeys
+                        ? t(templateKeys[delivery.template as EmailTemplate])
+                        : delivery.template}
+                    </td>
+                    <td className="px-6 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[delivery.status]}`}>
+                        {t(statusKeys[delivery.status])}
+                      </span>
+                      {(delivery.bounce_reason || delivery.last_error) && (
+                        <p className="text-xs text-gray-500 mt-1">{delivery.bounce_reason || delivery.last_error}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">{delivery.attempts}</td>
+                    <td className="px-6 py-3 text-gray-600">
+                      {formatDate(delivery.created_at, {
+                        year: 'numeric',
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
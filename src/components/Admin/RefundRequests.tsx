@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Loader, RotateCcw } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useI18n } from '../../contexts/I18nContext';
+import { reviewRefundRequest } from '../../lib/refunds';
+import type { Database } from '../../lib/database.types';
+
+type RefundRequest = Database['public']['Tables']['refund_requests']['Row'] & {
+  donations?: {
+    amount: number;
+    currency: string;
+    created_at: string;
+    projects?: { title: string; status: string } | null;
+  } | null;
+  requester?: { full_name: string } | null;
+};
+
+export function RefundRequests() {
+  const { t, formatCurrency, formatDate } = useI18n();
+  const [requests, setRequests] = useState<RefundRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  const loadRequests = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('refund_requests')
+        .select(`
+          *,
+          donations (amount, currency, created_at, projects (title, status)),
+          requester:profiles!refund_requests_requested_by_fkey (full_name)
+        `)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      console.error('Error loading refund requests:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (requestId: string, action: 'approve' | 'deny') => {
+    setError('');
+    setProcessingId(requestId);
+    try {
+      await reviewRefundRequest(requestId, action, notes[requestId] || '');
+      loadRequests();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('refunds.reviewFailed'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader className="h-8 w-8 animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (requests.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-12 text-center">
+        <RotateCcw className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">{t('refunds.empty')}</h3>
+        <p className="text-gray-600">{t('refunds.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+      )}
+
+      {requests.map((request) => (
+        <div key={request.id} className="bg-white rounded-xl shadow-md p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-semibold text-gray-900">
+                {request.donations?.projects?.title || t('refunds.project')}
+              </h3>
+              <p className="text-sm text-gray-500">
+                {request.requester?.full_name || t('refunds.unknownDonor')}
+                {request.donations && ` · ${t('refunds.donated', { date: formatDate(request.donations.created_at) })}`}
+                {` · ${t('refunds.requested', { date: formatDate(request.created_at) })}`}
+              </p>
+            </div>
+            <div className="text-right">
+              <div className="text-lg font-semibold text-gray-900">
+                {request.donations && formatCurrency(request.donations.amount, request.donations.currency)}
+              </div>
+              {request.donations?.projects?.status === 'fully_funded' && (
+                <p className="text-xs text-yellow-700">{t('refunds.mayReactivate')}</p>
+              )}
+            </div>
+          </div>
+
+          <p className="text-gray-700 bg-gray-50 rounded-lg p-4 mb-4 whitespace-pre-line">{request.reason}</p>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <input
+              type="text"
+              value={notes[request.id] || ''}
+              onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+              placeholder={t('refunds.notePlaceholder')}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+            />
+            <div className="flex space-x-2">
+              <button
+                onClick={() => handleReview(request.id, 'approve')}
+                disabled={processingId === request.id}
+                className="flex items-center space-x-1 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <CheckCircle className="h-4 w-4" />
+                <span>{t('refunds.approve')}</span>
+              </button>
+              <button
+                onClick={() => handleReview(request.id, 'deny')}
+                disabled={processingId === request.id}
+                className="flex items-center space-x-1 px-4 py-2 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <XCircle className="h-4 w-4" />
+                <span>{t('refunds.deny')}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
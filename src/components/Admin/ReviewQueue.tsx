@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Loader, Eye, Shield, ClipboardCheck, Undo2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import {
+  claimProjectReview,
+  getReviewChecklist,
+  releaseProjectReview,
+  reviewDecisionKeys,
+  submitProjectReview,
+  type ChecklistItem,
+} from '../../lib/projectReviews';
+import type { Database, ProjectReviewDecision } from '../../lib/database.types';
+
+type QueuedProject = Database['public']['Tables']['projects']['Row'] & {
+  creator?: { full_name: string } | null;
+  reviewer?: { full_name: string } | null;
+  categories?: { name: string } | null;
+  project_reviews?: { id: string; decision: ProjectReviewDecision; reason: string; created_at: string }[];
+};
+
+interface ReviewQueueProps {
+  onViewProject: (projectId: string) => void;
+}
+
+export function ReviewQueue({ onViewProject }: ReviewQueueProps) {
+  const { user } = useAuth();
+  const { t, formatCurrency, formatDate } = useI18n();
+  const [projects, setProjects] = useState<QueuedProject[]>([]);
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [checked, setChecked] = useState<Record<string, Record<string, boolean>>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('projects')
+        .select(`
+          *,
+          creator:profiles!projects_creator_id_fkey (full_name),
+          reviewer:profiles!projects_review_claimed_by_fkey (full_name),
+          categories (name),
+          project_reviews (id, decision, reason, created_at)
+        `)
+        .eq('status', 'pending_review')
+        .order('updated_at', { ascending: true });
+
+      if (error) throw error;
+      setProjects(data || []);
+      setChecklist(await getReviewChecklist());
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (projectId: string, action: () => Promise<unknown>) => {
+    setError('');
+    setProcessingId(projectId);
+    try {
+      await action();
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('reviewQueue.updateFailed'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleDecision = (projectId: string, decision: ProjectReviewDecision) =>
+    runAction(projectId, () =>
+      submitProjectReview(projectId, decision, reasons[projectId] || '', checked[projectId] || {})
+    );
+
+  const toggleItem = (projectId: string, itemId: string) => {
+    const current = checked[projectId] || {};
+    setChecked({ ...checked, [projectId]: { ...current, [itemId]: !current[itemId] } });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader className="h-8 w-8 animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (projects.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-12 text-center">
+        <Shield className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">{t('reviewQueue.empty')}</h3>
+        <p className="text-gray-600">{t('reviewQueue.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+      )}
+
+      {projects.map((project) => {
+        const claimedByMe = !!user && project.review_claimed_by === user.id;
+        const allChecked = checklist.every((item) => checked[project.id]?.[item.id]);
+        const history = [...(project.project_reviews || [])].sort((a, b) => b.created_at.localeCompare(a.created_at));
+        const busy = processingId === project.id;
+
+        return (
+          <div key={project.id} className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="font-semibold text-gray-900">{project.title}</h3>
+                <p className="text-sm text-gray-500">
+                  {project.creator?.full_name || t('admin.unknownCreator')} ·{' '}
+                  {project.categories?.name || t('admin.uncategorized')} · {project.location} ·{' '}
+                  {t('reviewQueue.submitted', { date: formatDate(project.updated_at) })}
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <div className="text-lg font-semibold text-gray-900">
+                  {formatCurrency(project.goal_amount, project.currency)}
+                </div>
+                <button
+                  onClick={() => onViewProject(project.id)}
+                  className="p-2 text-gray-600 hover:text-emerald-600 transition-colors"
+                  title={t('admin.viewDetails')}
+                >
+                  <Eye className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            {history.length > 0 && (
+              <div className="mb-4 text-sm text-gray-600 space-y-1">
+                {history.map((review) => (
+                  <p key={review.id}>
+                    <span className="font-medium">{t(reviewDecisionKeys[review.decision])}</span>{' '}
+                    {t('reviewQueue.historyEntry', { date: formatDate(review.created_at) })}
+                    {review.reason && `: ${review.reason}`}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {!claimedByMe ? (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-gray-500">
+                  {project.review_claimed_by
+                    ? t('reviewQueue.claimedBy', {
+                        name: project.reviewer?.full_name || t('reviewQueue.anotherAdmin'),
+                      })
+                    : t('reviewQueue.unclaimed')}
+                </p>
+                <button
+                  onClick={() => runAction(project.id, () => claimProjectReview(project.id))}
+                  disabled={busy}
+                  className="flex items-center space-x-1 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <ClipboardCheck className="h-4 w-4" />
+                  <span>{project.review_claimed_by ? t('reviewQueue.takeOver') : t('reviewQueue.claim')}</span>
+                </button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="bg-gray-50 rounded-lg p-4 space-y-2">
+                  {checklist.map((item) => (
+                    <label key={item.id} className="flex items-center space-x-2 cursor-pointer text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={!!checked[project.id]?.[item.id]}
+                        onChange={() => toggleItem(project.id, item.id)}
+                        className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                      />
+                      <span>{item.label}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <textarea
+                  value={reasons[project.id] || ''}
+                  onChange={(e) => setReasons({ ...reasons, [project.id]: e.target.value })}
+                  rows={2}
+                  placeholder={t('reviewQueue.reasonPlaceholder')}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+                />
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  <button
+                    onClick={() => runAction(project.id, () => releaseProjectReview(project.id))}
+                    disabled={busy}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <span>{t('reviewQueue.release')}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDecision(project.id, 'changes_requested')}
+                    disabled={busy}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-yellow-800 border border-yellow-300 rounded-lg hover:bg-yellow-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                    <span>{t('reviewQueue.requestChanges')}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDecision(project.id, 'rejected')}
+                    disabled={busy}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    <span>{t('reviewQueue.reject')}</span>
+                  </button>
+                  <button
+                    onClick={() => handleDecision(project.id, 'approved')}
+                    disabled={busy || !allChecked}
+                    title={allChecked ? undefined : t('reviewQueue.checklistIncomplete')}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    <span>{t('reviewQueue.approve')}</span>
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
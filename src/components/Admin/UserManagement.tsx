@@ -0,0 +1,251 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Loader, Search, UserCheck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { reviewRoleChangeRequest, roleKeys, setUserRole, setUserVerification } from '../../lib/roles';
+import type { MessageKey } from '../../lib/i18n';
+import type { Database, UserRole } from '../../lib/database.types';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type RoleChangeRequest = Database['public']['Tables']['role_change_requests']['Row'] & {
+  requester?: { full_name: string } | null;
+};
+
+const USER_PAGE_SIZE = 50;
+
+export function UserManagement() {
+  const { profile: currentProfile } = useAuth();
+  const { t, formatDate, locale } = useI18n();
+  const [requests, setRequests] = useState<RoleChangeRequest[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRequests();
+  }, []);
+
+  useEffect(() => {
+    const timeout = setTimeout(loadUsers, 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const loadRequests = async () => {
+    const { data, error } = await supabase
+      .from('role_change_requests')
+      .select('*, requester:profiles!role_change_requests_user_id_fkey (full_name)')
+      .eq('status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading role change requests:', error);
+    }
+    setRequests(data || []);
+  };
+
+  const loadUsers = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from('profiles')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(USER_PAGE_SIZE);
+      if (search.trim()) query = query.ilike('full_name', `%${search.trim()}%`);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setUsers(data || []);
+    } catch (error) {
+      console.error('Error loading users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (id: string, action: () => Promise<unknown>, fallback: MessageKey) => {
+    setError('');
+    setProcessingId(id);
+    try {
+      await action();
+      await Promise.all([loadRequests(), loadUsers()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t(fallback));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+      )}
+
+      {requests.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-xl font-semibold text-gray-900">{t('users.creatorRequests')}</h2>
+          {requests.map((request) => (
+            <div key={request.id} className="bg-white rounded-xl shadow-md p-6">
+              <div className="mb-3">
+                <h3 className="font-semibold text-gray-900">
+                  {request.requester?.full_name || t('users.unknownUser')}
+                </h3>
+                <p className="text-sm text-gray-500">
+                  {t('users.requestedRole', {
+                    role: t(roleKeys[request.requested_role]).toLocaleLowerCase(locale),
+                    date: formatDate(request.created_at),
+                  })}
+                </p>
+              </div>
+              {request.reason && <p className="text-sm text-gray-700 mb-4 whitespace-pre-line">{request.reason}</p>}
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <input
+                  type="text"
+                  value={notes[request.id] || ''}
+                  onChange={(e) => setNotes({ ...notes, [request.id]: e.target.value })}
+                  placeholder={t('users.notePlaceholder')}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() =>
+                      run(
+                        request.id,
+                        () => reviewRoleChangeRequest(request.id, true, notes[request.id] || ''),
+                        'users.approveFailed'
+                      )
+                    }
+                    disabled={processingId === request.id}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    <span>{t('users.approve')}</span>
+                  </button>
+                  <button
+                    onClick={() =>
+                      run(
+                        request.id,
+                        () => reviewRoleChangeRequest(request.id, false, notes[request.id] || ''),
+                        'users.rejectFailed'
+                      )
+                    }
+                    disabled={processingId === request.id}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    <span>{t('users.reject')}</span>
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="p-4 border-b border-gray-200">
+          <div className="relative max-w-sm">
+            <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t('users.searchPlaceholder')}
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader className="h-8 w-8 animate-spin text-emerald-600" />
+          </div>
+        ) : users.length === 0 ? (
+          <p className="p-12 text-center text-gray-600">{t('users.noResults')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('users.user')}
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('users.role')}
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('users.verification')}
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {t('users.joined')}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {users.map((user) => {
+                  const isSelf = user.id === currentProfile?.id;
+                  // The badge itself, not isVerificationCurrent, which treats every admin as verified
+                  const verified =
+                    user.is_verified && (!user.verified_until || new Date(user.verified_until).getTime() > Date.now());
+                  return (
+                    <tr key={user.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">{user.full_name}</div>
+                        {user.location && <div className="text-xs text-gray-500">{user.location}</div>}
+                      </td>
+                      <td className="px-6 py-4">
+                        <select
+                          value={user.role}
+                          onChange={(e) =>
+                            run(user.id, () => setUserRole(user.id, e.target.value as UserRole), 'users.changeRoleFailed')
+                          }
+                          disabled={isSelf || processingId === user.id}
+                          title={isSelf ? t('users.ownRole') : undefined}
+                          className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 disabled:bg-gray-100"
+                        >
+                          {(Object.keys(roleKeys) as UserRole[]).map((role) => (
+                            <option key={role} value={role}>
+                              {t(roleKeys[role])}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-6 py-4">
+                        <button
+                          onClick={() =>
+                            run(user.id, () => setUserVerification(user.id, !verified), 'users.verificationFailed')
+                          }
+                          disabled={processingId === user.id}
+                          className={`flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium disabled:opacity-50 transition-colors ${
+                            verified
+                              ? 'bg-green-100 text-green-800 hover:bg-green-200'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          <UserCheck className="h-3 w-3" />
+                          <span>
+                            {verified
+                              ? user.verified_until
+                                ? t('users.verifiedUntil', { date: formatDate(user.verified_until) })
+                                : t('users.verified')
+                              : t('users.notVerified')}
+                          </span>
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">{formatDate(user.created_at)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
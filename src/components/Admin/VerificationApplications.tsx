@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, XCircle, Loader, BadgeCheck, FileText, Clock } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useI18n } from '../../contexts/I18nContext';
+import {
+  getVerificationDocumentUrl,
+  reviewVerificationApplication,
+  verificationStatusKeys,
+} from '../../lib/verification';
+import type { Database, VerificationStatus } from '../../lib/database.types';
+
+type Application = Database['public']['Tables']['verification_applications']['Row'] & {
+  applicant?: { full_name: string } | null;
+};
+
+export function VerificationApplications() {
+  const { t, formatDate } = useI18n();
+  const [applications, setApplications] = useState<Application[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadApplications();
+  }, []);
+
+  const loadApplications = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('verification_applications')
+        .select('*, applicant:profiles!verification_applications_applicant_id_fkey (full_name)')
+        .in('status', ['pending', 'approved'])
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      // Pending applications first, then current approvals that may need expiring
+      setApplications((data || []).sort((a, b) => Number(a.status !== 'pending') - Number(b.status !== 'pending')));
+    } catch (error) {
+      console.error('Error loading verification applications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReview = async (applicationId: string, decision: Exclude<VerificationStatus, 'pending'>) => {
+    setError('');
+    setProcessingId(applicationId);
+    try {
+      await reviewVerificationApplication(applicationId, decision, notes[applicationId] || '');
+      loadApplications();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('verificationReview.reviewFailed'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const openDocument = async (path: string) => {
+    setError('');
+    try {
+      window.open(await getVerificationDocumentUrl(path), '_blank', 'noopener');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('verificationReview.openFailed'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center py-20">
+        <Loader className="h-8 w-8 animate-spin text-emerald-600" />
+      </div>
+    );
+  }
+
+  if (applications.length === 0) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-12 text-center">
+        <BadgeCheck className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">{t('verificationReview.emptyTitle')}</h3>
+        <p className="text-gray-600">{t('verificationReview.emptyText')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>
+      )}
+
+      {applications.map((application) => (
+        <div key={application.id} className="bg-white rounded-xl shadow-md p-6">
+          <div className="flex items-start justify-between mb-4">
+            <div>
+              <h3 className="font-semibold text-gray-900">{application.organization_name}</h3>
+              <p className="text-sm text-gray-500">
+                {application.applicant?.full_name || t('verificationReview.unknownCreator')} ·{' '}
+                {t('verificationReview.applied', { date: formatDate(application.created_at) })}
+                {application.status === 'approved' &&
+                  application.expires_at &&
+                  ` · ${t('verificationReview.verifiedUntil', { date: formatDate(application.expires_at) })}`}
+              </p>
+            </div>
+            <span
+              className={`px-2 py-1 rounded-full text-xs font-medium ${
+                application.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+              }`}
+            >
+              {t(verificationStatusKeys[application.status])}
+            </span>
+          </div>
+
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm mb-4">
+            <div>
+              <dt className="text-gray-500">{t('verificationReview.registrationNumber')}</dt>
+              <dd className="text-gray-900">{application.registration_number || '—'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t('verificationReview.taxId')}</dt>
+              <dd className="text-gray-900">{application.tax_id}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t('verificationReview.payoutAccount')}</dt>
+              <dd className="text-gray-900">
+                {application.bank_account_name} · {application.bank_name}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">{t('verificationReview.accountNumber')}</dt>
+              <dd className="text-gray-900">
+                {application.bank_account_number}
+                {application.bank_routing_code && ` (${application.bank_routing_code})`}
+              </dd>
+            </div>
+          </dl>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {application.document_paths.map((path) => (
+              <button
+                key={path}
+                onClick={() => openDocument(path)}
+                className="inline-flex items-center space-x-1 px-3 py-1 bg-gray-100 rounded-full text-xs text-gray-700 hover:bg-gray-200 transition-colors"
+              >
+                <FileText className="h-3 w-3" />
+                <span>{path.split('/').pop()?.replace(/^[0-9a-f-]{36}-/, '')}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <input
+              type="text"
+              value={notes[application.id] || ''}
+              onChange={(e) => setNotes({ ...notes, [application.id]: e.target.value })}
+              placeholder={
+                application.status === 'pending'
+                  ? t('verificationReview.notePending')
+                  : t('verificationReview.noteExpire')
+              }
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+            />
+            <div className="flex space-x-2">
+              {application.status === 'pending' ? (
+                <>
+                  <button
+                    onClick={() => handleReview(application.id, 'approved')}
+                    disabled={processingId === application.id}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    <span>{t('verificationReview.approve')}</span>
+                  </button>
+                  <button
+                    onClick={() => handleReview(application.id, 'rejected')}
+                    disabled={processingId === application.id}
+                    className="flex items-center space-x-1 px-4 py-2 text-sm text-red-700 border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    <span>{t('verificationReview.reject')}</span>
+                  </button>
+                </>
+              ) : (
+                <button
+                  onClick={() => handleReview(application.id, 'expired')}
+                  disabled={processingId === application.id}
+                  className="flex items-center space-x-1 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Clock className="h-4 w-4" />
+                  <span>{t('verificationReview.expire')}</span>
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
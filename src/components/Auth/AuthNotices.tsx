@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { AlertCircle, Mail, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { getAuthErrorKey, getAuthErrorMessage } from '../../lib/authErrors';
+
+// Site-wide banners for failed email links and accounts whose address is not yet confirmed
+export function AuthNotices() {
+  const { user, linkError, clearLinkError, resendConfirmation } = useAuth();
+  const { t } = useI18n();
+  const [dismissed, setDismissed] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [resendStatus, setResendStatus] = useState('');
+
+  const unconfirmed = !!user?.email && !user.email_confirmed_at && !dismissed;
+
+  const handleResend = async () => {
+    if (!user?.email) return;
+    setSending(true);
+    try {
+      await resendConfirmation(user.email);
+      setResendStatus(t('auth.confirmationSent', { email: user.email }));
+    } catch (err) {
+      setResendStatus(getAuthErrorMessage(err, t, 'forgotPassword.failed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!linkError && !unconfirmed) return null;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 pt-4 space-y-2">
+      {linkError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="flex-1 text-sm text-red-800">{t(getAuthErrorKey(linkError) || 'authError.linkExpired')}</p>
+          <button onClick={clearLinkError} aria-label={t('auth.dismiss')} className="text-red-500 hover:text-red-700">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {unconfirmed && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 flex items-start space-x-3">
+          <Mail className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+          <div className="flex-1 text-sm text-amber-900">
+            <p>{t('auth.unverifiedBanner', { email: user.email || '' })}</p>
+            {resendStatus ? (
+              <p className="mt-1 text-amber-800">{resendStatus}</p>
+            ) : (
+              <button
+                onClick={handleResend}
+                disabled={sending}
+                className="mt-1 font-medium text-amber-800 underline hover:text-amber-900 disabled:opacity-50"
+              >
+                {sending ? t('auth.sending') : t('auth.resendConfirmation')}
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setDismissed(true)}
+            aria-label={t('auth.dismiss')}
+            className="text-amber-600 hover:text-amber-800"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
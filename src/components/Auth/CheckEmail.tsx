@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Mail } from 'lucide-react';
+import { useI18n } from '../../contexts/I18nContext';
+import { getAuthErrorMessage } from '../../lib/authErrors';
+import type { MessageKey } from '../../lib/i18n';
+
+interface CheckEmailProps {
+  message: string;
+  onBack: () => void;
+  // Offered as "send it again" when the email may not have arrived
+  onResend?: () => Promise<void>;
+  resendLabel?: MessageKey;
+  resentMessage?: string;
+}
+
+export function CheckEmail({
+  message,
+  onBack,
+  onResend,
+  resendLabel = 'auth.resendConfirmation',
+  resentMessage,
+}: CheckEmailProps) {
+  const { t } = useI18n();
+  const [sending, setSending] = useState(false);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const handleResend = async () => {
+    if (!onResend) return;
+    setStatus(null);
+    setSending(true);
+    try {
+      await onResend();
+      setStatus({ type: 'success', text: resentMessage || message });
+    } catch (err) {
+      setStatus({ type: 'error', text: getAuthErrorMessage(err, t, 'forgotPassword.failed') });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="text-center space-y-4">
+      <div className="w-14 h-14 bg-emerald-100 rounded-full flex items-center justify-center mx-auto">
+        <Mail className="h-7 w-7 text-emerald-600" />
+      </div>
+      <h3 className="text-xl font-semibold text-gray-900">{t('auth.checkEmailTitle')}</h3>
+      <p className="text-sm text-gray-600">{message}</p>
+
+      {status && (
+        <p className={`text-sm ${status.type === 'success' ? 'text-emerald-700' : 'text-red-600'}`}>
+          {status.text}
+        </p>
+      )}
+
+      <div className="flex flex-col items-center space-y-2">
+        {onResend && (
+          <button
+            onClick={handleResend}
+            disabled={sending}
+            className="text-sm text-emerald-600 font-medium hover:text-emerald-700 disabled:opacity-50 transition-colors"
+          >
+            {sending ? t('auth.sending') : t(resendLabel)}
+          </button>
+        )}
+        <button onClick={onBack} className="text-sm text-gray-600 hover:text-emerald-600 transition-colors">
+          {t('auth.backToSignIn')}
+        </button>
+      </div>
+    </div>
+  );
+}
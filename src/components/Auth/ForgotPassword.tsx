@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Heart, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { getAuthErrorMessage } from '../../lib/authErrors';
+import { CheckEmail } from './CheckEmail';
+
+interface ForgotPasswordProps {
+  onNavigate: (page: string) => void;
+}
+
+export function ForgotPassword({ onNavigate }: ForgotPasswordProps) {
+  const { sendPasswordReset } = useAuth();
+  const { t } = useI18n();
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      await sendPasswordReset(email);
+      setSent(true);
+    } catch (err) {
+      setError(getAuthErrorMessage(err, t, 'forgotPassword.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <Heart className="h-12 w-12 text-emerald-600" fill="currentColor" />
+            <span className="text-3xl font-bold text-gray-900">Hope Bridge</span>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('forgotPassword.title')}</h2>
+          <p className="text-gray-600 mt-2">{t('forgotPassword.subtitle')}</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          {sent ? (
+            <CheckEmail
+              message={t('forgotPassword.sent', { email })}
+              onBack={() => onNavigate('signin')}
+              onResend={() => sendPasswordReset(email)}
+              resendLabel="forgotPassword.submit"
+            />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+                  <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('auth.email')}
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                  placeholder={t('auth.emailPlaceholder')}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? t('auth.sending') : t('forgotPassword.submit')}
+              </button>
+
+              <button
+                type="button"
+                onClick={() => onNavigate('signin')}
+                className="w-full text-sm text-gray-600 hover:text-emerald-600 transition-colors"
+              >
+                {t('auth.backToSignIn')}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
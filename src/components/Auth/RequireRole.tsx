@@ -0,0 +1,23 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import type { UserRole } from '../../lib/database.types';
+
+interface RequireRoleProps {
+  roles?: UserRole[];
+  children: React.ReactNode;
+}
+
+export function RequireRole({ roles, children }: RequireRoleProps) {
+  const { user, profile } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/signin" replace state={{ from: location.pathname + location.search }} />;
+  }
+
+  if (roles && (!profile || !roles.includes(profile.role))) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Heart, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { getAuthErrorMessage } from '../../lib/authErrors';
+
+interface ResetPasswordProps {
+  onNavigate: (page: string) => void;
+}
+
+// Reached from the reset email; the link signs the user in before this page loads
+export function ResetPassword({ onNavigate }: ResetPasswordProps) {
+  const { user, updatePassword } = useAuth();
+  const { t } = useI18n();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password !== confirmPassword) {
+      setError(t('resetPassword.mismatch'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await updatePassword(password);
+      onNavigate('dashboard');
+    } catch (err) {
+      setError(getAuthErrorMessage(err, t, 'resetPassword.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-emerald-50 to-teal-50 flex items-center justify-center px-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <Heart className="h-12 w-12 text-emerald-600" fill="currentColor" />
+            <span className="text-3xl font-bold text-gray-900">Hope Bridge</span>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900">{t('resetPassword.title')}</h2>
+          <p className="text-gray-600 mt-2">{t('resetPassword.subtitle')}</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          {!user ? (
+            <div className="text-center space-y-4">
+              <p className="text-sm text-gray-700">{t('resetPassword.invalidLink')}</p>
+              <button
+                onClick={() => onNavigate('forgot-password')}
+                className="text-emerald-600 font-medium hover:text-emerald-700 transition-colors"
+              >
+                {t('resetPassword.requestNew')}
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+                  <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('resetPassword.newPassword')}
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                  placeholder={t('signUp.passwordPlaceholder')}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('resetPassword.confirmPassword')}
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  minLength={6}
+                  autoComplete="new-password"
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {loading ? t('resetPassword.submitting') : t('resetPassword.submit')}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
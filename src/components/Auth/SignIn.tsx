@@ -1,28 +1,56 @@
 import { useState } from 'react';
-import { Heart, AlertCircle } from 'lucide-react';
+import { Heart, AlertCircle, CheckCircle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { getAuthErrorCode, getAuthErrorMessage } from '../../lib/authErrors';
 
 interface SignInProps {
   onNavigate: (page: string) => void;
 }
 
 export function SignIn({ onNavigate }: SignInProps) {
-  const { signIn } = useAuth();
+  const { signIn, sendMagicLink, resendConfirmation } = useAuth();
+  const { t } = useI18n();
+  const [mode, setMode] = useState<'password' | 'magicLink'>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [unconfirmed, setUnconfirmed] = useState(false);
   const [loading, setLoading] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
+    setUnconfirmed(false);
     setLoading(true);
 
     try {
-      await signIn(email, password);
-      onNavigate('home');
+      if (mode === 'magicLink') {
+        await sendMagicLink(email);
+        setNotice(t('signIn.magicLinkSent', { email }));
+      } else {
+        await signIn(email, password);
+        onNavigate('home');
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setUnconfirmed(getAuthErrorCode(err) === 'email_not_confirmed');
+      setError(getAuthErrorMessage(err, t, 'signIn.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      await resendConfirmation(email);
+      setUnconfirmed(false);
+      setNotice(t('auth.confirmationSent', { email }));
+    } catch (err) {
+      setError(getAuthErrorMessage(err, t, 'signIn.failed'));
     } finally {
       setLoading(false);
     }
@@ -36,8 +64,8 @@ export function SignIn({ onNavigate }: SignInProps) {
             <Heart className="h-12 w-12 text-emerald-600" fill="currentColor" />
             <span className="text-3xl font-bold text-gray-900">Hope Bridge</span>
           </div>
-          <h2 className="text-2xl font-bold text-gray-900">Welcome Back</h2>
-          <p className="text-gray-600 mt-2">Sign in to continue making a difference</p>
+          <h2 className="text-2xl font-bold text-gray-900">{t('signIn.title')}</h2>
+          <p className="text-gray-600 mt-2">{t('signIn.subtitle')}</p>
         </div>
 
         <div className="bg-white rounded-2xl shadow-xl p-8">
@@ -45,13 +73,32 @@ export function SignIn({ onNavigate }: SignInProps) {
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
                 <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
-                <p className="text-sm text-red-800">{error}</p>
+                <div className="text-sm text-red-800">
+                  <p>{error}</p>
+                  {unconfirmed && (
+                    <button
+                      type="button"
+                      onClick={handleResend}
+                      disabled={loading}
+                      className="mt-2 font-medium text-red-900 underline hover:no-underline disabled:opacity-50"
+                    >
+                      {t('auth.resendConfirmation')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {notice && (
+              <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 flex items-start space-x-3">
+                <CheckCircle className="h-5 w-5 text-emerald-600 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-emerald-800">{notice}</p>
               </div>
             )}
 
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
+                {t('auth.email')}
               </label>
               <input
                 id="email"
@@ -60,42 +107,71 @@ export function SignIn({ onNavigate }: SignInProps) {
                 onChange={(e) => setEmail(e.target.value)}
                 required
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
-                placeholder="you@example.com"
+                placeholder={t('auth.emailPlaceholder')}
               />
             </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
-                placeholder="Enter your password"
-              />
-            </div>
+            {mode === 'password' && (
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                    {t('auth.password')}
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => onNavigate('forgot-password')}
+                    className="text-sm text-emerald-600 hover:text-emerald-700 transition-colors"
+                  >
+                    {t('signIn.forgotPassword')}
+                  </button>
+                </div>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                  placeholder={t('signIn.passwordPlaceholder')}
+                />
+              </div>
+            )}
 
             <button
               type="submit"
               disabled={loading}
               className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
-              {loading ? 'Signing in...' : 'Sign In'}
+              {mode === 'magicLink'
+                ? loading
+                  ? t('auth.sending')
+                  : t('signIn.sendMagicLink')
+                : loading
+                  ? t('signIn.submitting')
+                  : t('signIn.submit')}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setMode(mode === 'password' ? 'magicLink' : 'password');
+                setError('');
+                setNotice('');
+              }}
+              className="w-full text-sm text-gray-600 hover:text-emerald-600 transition-colors"
+            >
+              {mode === 'password' ? t('signIn.useMagicLink') : t('signIn.usePassword')}
             </button>
           </form>
 
           <div className="mt-6 text-center">
             <p className="text-sm text-gray-600">
-              Don't have an account?{' '}
+              {t('signIn.noAccount')}{' '}
               <button
                 onClick={() => onNavigate('signup')}
                 className="text-emerald-600 font-medium hover:text-emerald-700 transition-colors"
               >
-                Sign up here
+                {t('signIn.signUpLink')}
               </button>
             </p>
           </div>
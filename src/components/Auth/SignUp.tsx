@@ -1,19 +1,24 @@
 import { useState } from 'react';
 import { Heart, AlertCircle } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { getAuthErrorMessage } from '../../lib/authErrors';
+import { CheckEmail } from './CheckEmail';
 
 interface SignUpProps {
   onNavigate: (page: string) => void;
 }
 
 export function SignUp({ onNavigate }: SignUpProps) {
-  const { signUp } = useAuth();
+  const { signUp, resendConfirmation } = useAuth();
+  const { locale, t } = useI18n();
   const [fullName, setFullName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [role, setRole] = useState<'donor' | 'project_creator'>('donor');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [awaitingConfirmation, setAwaitingConfirmation] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -21,10 +26,14 @@ export function SignUp({ onNavigate }: SignUpProps) {
     setLoading(true);
 
     try {
-      await signUp(email, password, fullName, role);
-      onNavigate('home');
+      const { needsConfirmation } = await signUp(email, password, fullName, role, locale);
+      if (needsConfirmation) {
+        setAwaitingConfirmation(true);
+      } else {
+        onNavigate('home');
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to sign up');
+      setError(getAuthErrorMessage(err, t, 'signUp.failed'));
     } finally {
       setLoading(false);
     }
@@ -38,119 +47,133 @@ export function SignUp({ onNavigate }: SignUpProps) {
             <Heart className="h-12 w-12 text-emerald-600" fill="currentColor" />
             <span className="text-3xl font-bold text-gray-900">Hope Bridge</span>
           </div>
-          <h2 className="text-2xl font-bold text-gray-900">Join Our Community</h2>
-          <p className="text-gray-600 mt-2">Start making a difference today</p>
+          <h2 className="text-2xl font-bold text-gray-900">{t('signUp.title')}</h2>
+          <p className="text-gray-600 mt-2">{t('signUp.subtitle')}</p>
         </div>
 
         <div className="bg-white rounded-2xl shadow-xl p-8">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
-                <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
-                <p className="text-sm text-red-800">{error}</p>
-              </div>
-            )}
-
-            <div>
-              <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
-                Full Name
-              </label>
-              <input
-                id="fullName"
-                type="text"
-                value={fullName}
-                onChange={(e) => setFullName(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
-                placeholder="John Doe"
-              />
-            </div>
-
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
-                placeholder="you@example.com"
-              />
-            </div>
+          {awaitingConfirmation ? (
+            <CheckEmail
+              message={t('signUp.confirmEmail', { email })}
+              onBack={() => onNavigate('signin')}
+              onResend={() => resendConfirmation(email)}
+              resentMessage={t('auth.confirmationSent', { email })}
+            />
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+                    <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                    <p className="text-sm text-red-800">{error}</p>
+                  </div>
+                )}
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={6}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
-                placeholder="At least 6 characters"
-              />
-            </div>
+                <div>
+                  <label htmlFor="fullName" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('signUp.fullName')}
+                  </label>
+                  <input
+                    id="fullName"
+                    type="text"
+                    value={fullName}
+                    onChange={(e) => setFullName(e.target.value)}
+                    required
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                    placeholder={t('signUp.fullNamePlaceholder')}
+                  />
+                </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                I want to:
-              </label>
-              <div className="space-y-3">
-                <label className="flex items-start space-x-3 p-4 border-2 border-gray-200 rounded-lg cursor-pointer hover:border-emerald-500 transition-colors">
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('auth.email')}
+                  </label>
                   <input
-                    type="radio"
-                    value="donor"
-                    checked={role === 'donor'}
-                    onChange={(e) => setRole(e.target.value as 'donor')}
-                    className="mt-1 text-emerald-600 focus:ring-emerald-500"
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                    placeholder={t('auth.emailPlaceholder')}
                   />
-                  <div>
-                    <p className="font-medium text-gray-900">Support Projects</p>
-                    <p className="text-sm text-gray-600">Donate to projects and make an impact</p>
-                  </div>
-                </label>
-                <label className="flex items-start space-x-3 p-4 border-2 border-gray-200 rounded-lg cursor-pointer hover:border-emerald-500 transition-colors">
+                </div>
+
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('auth.password')}
+                  </label>
                   <input
-                    type="radio"
-                    value="project_creator"
-                    checked={role === 'project_creator'}
-                    onChange={(e) => setRole(e.target.value as 'project_creator')}
-                    className="mt-1 text-emerald-600 focus:ring-emerald-500"
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={6}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent transition-all"
+                    placeholder={t('signUp.passwordPlaceholder')}
                   />
-                  <div>
-                    <p className="font-medium text-gray-900">Create Projects</p>
-                    <p className="text-sm text-gray-600">Launch campaigns to fund poverty alleviation initiatives</p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-3">
+                    {t('signUp.role')}
+                  </label>
+                  <div className="space-y-3">
+                    <label className="flex items-start space-x-3 p-4 border-2 border-gray-200 rounded-lg cursor-pointer hover:border-emerald-500 transition-colors">
+                      <input
+                        type="radio"
+                        value="donor"
+                        checked={role === 'donor'}
+                        onChange={(e) => setRole(e.target.value as 'donor')}
+                        className="mt-1 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      <div>
+                        <p className="font-medium text-gray-900">{t('signUp.donorTitle')}</p>
+                        <p className="text-sm text-gray-600">{t('signUp.donorText')}</p>
+                      </div>
+                    </label>
+                    <label className="flex items-start space-x-3 p-4 border-2 border-gray-200 rounded-lg cursor-pointer hover:border-emerald-500 transition-colors">
+                      <input
+                        type="radio"
+                        value="project_creator"
+                        checked={role === 'project_creator'}
+                        onChange={(e) => setRole(e.target.value as 'project_creator')}
+                        className="mt-1 text-emerald-600 focus:ring-emerald-500"
+                      />
+                      <div>
+                        <p className="font-medium text-gray-900">{t('signUp.creatorTitle')}</p>
+                        <p className="text-sm text-gray-600">{t('signUp.creatorText')}</p>
+                        {role === 'project_creator' && (
+                          <p className="text-xs text-gray-500 mt-1">{t('signUp.creatorReview')}</p>
+                        )}
+                      </div>
+                    </label>
                   </div>
-                </label>
-              </div>
-            </div>
+                </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {loading ? 'Creating account...' : 'Create Account'}
-            </button>
-          </form>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loading ? t('signUp.submitting') : t('signUp.submit')}
+                </button>
+              </form>
 
-          <div className="mt-6 text-center">
-            <p className="text-sm text-gray-600">
-              Already have an account?{' '}
-              <button
-                onClick={() => onNavigate('signin')}
-                className="text-emerald-600 font-medium hover:text-emerald-700 transition-colors"
-              >
-                Sign in here
-              </button>
-            </p>
-          </div>
+              <div className="mt-6 text-center">
+                <p className="text-sm text-gray-600">
+                  {t('signUp.haveAccount')}{' '}
+                  <button
+                    onClick={() => onNavigate('signin')}
+                    className="text-emerald-600 font-medium hover:text-emerald-700 transition-colors"
+                  >
+                    {t('signUp.signInLink')}
+                  </button>
+                </p>
+              </div>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -1,12 +1,47 @@
 import { useEffect, useState } from 'react';
-import { Heart, Target, TrendingUp, Loader, Edit2 } from 'lucide-react';
+import { Heart, Target, TrendingUp, Loader, Edit2, RotateCcw, Megaphone, ClipboardCheck, FileText } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import type { Database } from '../../lib/database.types';
+import { useI18n } from '../../contexts/I18nContext';
+import { sumByCurrency } from '../../lib/currency';
+import { canFileFinalReport, projectStatusKeys } from '../../lib/projectLifecycle';
+import { getRefundWindowDays, isWithinRefundWindow, requestRefund } from '../../lib/refunds';
+import { downloadReceipt, downloadStatement, hasReceipt, statementYears } from '../../lib/receipts';
+import { reviewDecisionKeys } from '../../lib/projectReviews';
+import { isVerificationCurrent } from '../../lib/verification';
+import { subscribeToFunding, type FundingEvent } from '../../lib/fundingFeed';
+import { DonationTicker } from '../Projects/DonationTicker';
+import { UpdateComposer } from './UpdateComposer';
+import { RecurringPledges } from './RecurringPledges';
+import { DataExport } from './DataExport';
+import { RoleRequestPanel } from './RoleRequestPanel';
+import { VerificationPanel } from './VerificationPanel';
+import type { MessageKey } from '../../lib/i18n';
+import type { Database, DonationStatus, ProjectReviewDecision, RefundRequestStatus } from '../../lib/database.types';
 
-type Project = Database['public']['Tables']['projects']['Row'];
-type Donation = Database['public']['Tables']['donations']['Row'] & {
+type Project = Database['public']['Tables']['projects']['Row'] & {
+  project_reviews?: { id: string; decision: ProjectReviewDecision; reason: string; created_at: string }[];
+};
+type Donation = Pick<
+  Database['public']['Tables']['donations']['Row'],
+  'id' | 'project_id' | 'amount' | 'currency' | 'status' | 'created_at' | 'completed_at' | 'receipt_number' | 'receipt_voided_at'
+> & {
   projects?: { title: string } | null;
+  refund_requests?: { id: string; status: RefundRequestStatus; review_note: string; created_at: string }[];
+};
+
+const donationStatusKeys: Record<DonationStatus, MessageKey> = {
+  pending: 'donationStatus.pending',
+  completed: 'donationStatus.completed',
+  refunded: 'donationStatus.refunded',
+  failed: 'donationStatus.failed',
+};
+
+const refundStatusKeys: Record<RefundRequestStatus, MessageKey> = {
+  pending: 'dashboard.refund.pending',
+  processing: 'dashboard.refund.processing',
+  approved: 'dashboard.refund.approved',
+  denied: 'dashboard.refund.denied',
 };
 
 interface DashboardProps {
@@ -16,10 +51,27 @@ interface DashboardProps {
 
 export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
   const { profile } = useAuth();
+  const { t, formatDate, formatCurrency, formatCurrencyTotals } = useI18n();
   const [projects, setProjects] = useState<Project[]>([]);
   const [donations, setDonations] = useState<Donation[]>([]);
   const [loading, setLoading] = useState(true);
-  const [stats, setStats] = useState({ totalRaised: 0, projectCount: 0, donationCount: 0 });
+  const [stats, setStats] = useState<{ totalRaised: Record<string, number>; projectCount: number; donationCount: number }>({
+    totalRaised: {},
+    projectCount: 0,
+    donationCount: 0,
+  });
+  const [refundWindowDays, setRefundWindowDays] = useState(0);
+  const [refundDonationId, setRefundDonationId] = useState<string | null>(null);
+  const [refundReason, setRefundReason] = useState('');
+  const [refundError, setRefundError] = useState('');
+  const [submittingRefund, setSubmittingRefund] = useState(false);
+  const [composerProjectId, setComposerProjectId] = useState<string | null>(null);
+  const [publishedProjectId, setPublishedProjectId] = useState<string | null>(null);
+  const [historyProjectId, setHistoryProjectId] = useState<string | null>(null);
+  const [latestDonation, setLatestDonation] = useState<FundingEvent | null>(null);
+  const [downloadingDocument, setDownloadingDocument] = useState<string | null>(null);
+  const [documentError, setDocumentError] = useState('');
+  const creatorProjectIds = projects.map((project) => project.id).join(',');
 
   useEffect(() => {
     if (profile?.role === 'project_creator' || profile?.role === 'admin') {
@@ -29,20 +81,40 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
     }
   }, [profile]);
 
+  useEffect(() => {
+    if (!creatorProjectIds) return;
+    return subscribeToFunding(creatorProjectIds.split(','), {
+      onProject: (progress) =>
+        setProjects((current) =>
+          current.map((project) => (project.id === progress.id ? { ...project, ...progress } : project))
+        ),
+      onDonation: setLatestDonation,
+    });
+  }, [creatorProjectIds]);
+
+  // Keep the creator's total in step with live progress
+  useEffect(() => {
+    if (projects.length === 0) return;
+    setStats((current) => ({
+      ...current,
+      totalRaised: sumByCurrency(projects.map((p) => ({ amount: p.raised_amount, currency: p.currency }))),
+    }));
+  }, [projects]);
+
   const loadCreatorData = async () => {
+    if (!profile) return;
     setLoading(true);
     try {
       const { data: projectData } = await supabase
         .from('projects')
-        .select('*')
-        .eq('creator_id', profile?.id)
+        .select('*, project_reviews (id, decision, reason, created_at)')
+        .eq('creator_id', profile.id)
         .order('created_at', { ascending: false });
 
       if (projectData) {
         setProjects(projectData);
-        const totalRaised = projectData.reduce((sum, p) => sum + p.raised_amount, 0);
         setStats({
-          totalRaised,
+          totalRaised: sumByCurrency(projectData.map((p) => ({ amount: p.raised_amount, currency: p.currency }))),
           projectCount: projectData.length,
           donationCount: 0,
         });
@@ -55,24 +127,26 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
   };
 
   const loadDonorData = async () => {
+    if (!profile) return;
     setLoading(true);
     try {
+      // Signed-in users cannot read guest identity columns, so `*` is not allowed here
       const { data: donationData } = await supabase
         .from('donations')
         .select(`
-          *,
-          projects (title)
+          id, project_id, amount, currency, status, created_at, completed_at, receipt_number, receipt_voided_at,
+          projects (title),
+          refund_requests (id, status, review_note, created_at)
         `)
-        .eq('donor_id', profile?.id)
+        .eq('donor_id', profile.id)
         .order('created_at', { ascending: false });
 
+      setRefundWindowDays(await getRefundWindowDays());
+
       if (donationData) {
         setDonations(donationData);
-        const totalDonated = donationData
-          .filter((d) => d.status === 'completed')
-          .reduce((sum, d) => sum + d.amount, 0);
         setStats({
-          totalRaised: totalDonated,
+          totalRaised: sumByCurrency(donationData.filter((d) => d.status === 'completed')),
           projectCount: 0,
           donationCount: donationData.length,
         });
@@ -84,6 +158,49 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
     }
   };
 
+  const handleRequestRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!refundDonationId) return;
+
+    setRefundError('');
+    setSubmittingRefund(true);
+    try {
+      await requestRefund(refundDonationId, refundReason);
+      setRefundDonationId(null);
+      setRefundReason('');
+      loadDonorData();
+    } catch (err) {
+      setRefundError(err instanceof Error ? err.message : t('dashboard.refundFailed'));
+    } finally {
+      setSubmittingRefund(false);
+    }
+  };
+
+  const handleDownload = async (key: string, download: () => Promise<void>) => {
+    setDocumentError('');
+    setDownloadingDocument(key);
+    try {
+      await download();
+    } catch (err) {
+      setDocumentError(err instanceof Error ? err.message : t('dashboard.downloadFailed'));
+    } finally {
+      setDownloadingDocument(null);
+    }
+  };
+
+  const getRefundState = (donation: Donation) => {
+    const requests = [...(donation.refund_requests || [])].sort((a, b) =>
+      b.created_at.localeCompare(a.created_at)
+    );
+    const latest = requests[0];
+    const canRequest =
+      donation.status === 'completed' &&
+      latest?.status !== 'pending' &&
+      latest?.status !== 'processing' &&
+      isWithinRefundWindow(donation.completed_at || donation.created_at, refundWindowDays);
+    return { latest, canRequest };
+  };
+
   const getStatusColor = (status: string) => {
     const colors = {
       active: 'bg-green-100 text-green-800',
@@ -109,9 +226,9 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
   return (
     <div className="max-w-7xl mx-auto space-y-8">
       <div>
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard</h1>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('dashboard.title')}</h1>
         <p className="text-gray-600">
-          {isCreator ? 'Manage your projects and track performance' : 'View your donation history and impact'}
+          {isCreator ? t('dashboard.creatorIntro') : t('dashboard.donorIntro')}
         </p>
       </div>
 
@@ -123,10 +240,10 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
             </div>
           </div>
           <div className="text-3xl font-bold text-gray-900 mb-1">
-            ${stats.totalRaised.toLocaleString()}
+            {formatCurrencyTotals(stats.totalRaised)}
           </div>
           <div className="text-sm text-gray-600">
-            {isCreator ? 'Total Raised' : 'Total Donated'}
+            {isCreator ? t('dashboard.totalRaised') : t('dashboard.totalDonated')}
           </div>
         </div>
 
@@ -138,7 +255,7 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
               </div>
             </div>
             <div className="text-3xl font-bold text-gray-900 mb-1">{stats.projectCount}</div>
-            <div className="text-sm text-gray-600">Total Projects</div>
+            <div className="text-sm text-gray-600">{t('dashboard.totalProjects')}</div>
           </div>
         ) : (
           <div className="bg-white rounded-xl shadow-md p-6">
@@ -148,7 +265,7 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
               </div>
             </div>
             <div className="text-3xl font-bold text-gray-900 mb-1">{stats.donationCount}</div>
-            <div className="text-sm text-gray-600">Projects Supported</div>
+            <div className="text-sm text-gray-600">{t('dashboard.projectsSupported')}</div>
           </div>
         )}
 
@@ -159,18 +276,28 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
             </div>
           </div>
           <div className="text-3xl font-bold text-gray-900 mb-1">
-            {profile?.is_verified ? 'Verified' : 'Pending'}
+            {profile && isVerificationCurrent(profile) ? t('dashboard.verified') : t('dashboard.pending')}
           </div>
-          <div className="text-sm text-gray-600">Account Status</div>
+          <div className="text-sm text-gray-600">{t('dashboard.accountStatus')}</div>
         </div>
       </div>
 
+      {profile?.role === 'project_creator' && <VerificationPanel applicantId={profile.id} />}
+      {profile?.role === 'donor' && <RoleRequestPanel userId={profile.id} />}
+
       {isCreator && projects.length > 0 && (
         <div className="bg-white rounded-xl shadow-md p-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Projects</h2>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">{t('dashboard.yourProjects')}</h2>
+            <DonationTicker event={latestDonation} />
+          </div>
           <div className="space-y-4">
             {projects.map((project) => {
               const progress = (project.raised_amount / project.goal_amount) * 100;
+              const reviews = [...(project.project_reviews || [])].sort((a, b) =>
+                b.created_at.localeCompare(a.created_at)
+              );
+              const latestReview = reviews[0];
               return (
                 <div
                   key={project.id}
@@ -185,24 +312,44 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
                         >
                           {project.title}
                         </h3>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
-                          {project.status.replace('_', ' ').toUpperCase()}
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium uppercase ${getStatusColor(project.status)}`}
+                        >
+                          {t(projectStatusKeys[project.status])}
                         </span>
                       </div>
                       <p className="text-gray-600 text-sm line-clamp-2">{project.description}</p>
                     </div>
-                    <button
-                      onClick={() => onEditProject(project.id)}
-                      className="ml-4 p-2 text-gray-600 hover:text-emerald-600 transition-colors"
-                    >
-                      <Edit2 className="h-5 w-5" />
-                    </button>
+                    <div className="ml-4 flex items-center">
+                      {['active', 'fully_funded', 'completed'].includes(project.status) && (
+                        <button
+                          onClick={() => {
+                            setComposerProjectId(project.id);
+                            setPublishedProjectId(null);
+                          }}
+                          className="p-2 text-gray-600 hover:text-emerald-600 transition-colors"
+                          title={t('dashboard.postUpdate')}
+                        >
+                          <Megaphone className="h-5 w-5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onEditProject(project.id)}
+                        className="p-2 text-gray-600 hover:text-emerald-600 transition-colors"
+                        title={t('dashboard.editProject')}
+                      >
+                        <Edit2 className="h-5 w-5" />
+                      </button>
+                    </div>
                   </div>
 
                   <div className="space-y-2">
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">
-                        ${project.raised_amount.toLocaleString()} of ${project.goal_amount.toLocaleString()}
+                        {t('dashboard.raisedOf', {
+                          raised: formatCurrency(project.raised_amount, project.currency),
+                          goal: formatCurrency(project.goal_amount, project.currency),
+                        })}
                       </span>
                       <span className="text-emerald-600 font-medium">{progress.toFixed(0)}%</span>
                     </div>
@@ -213,6 +360,73 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
                       />
                     </div>
                   </div>
+
+                  {latestReview && latestReview.decision !== 'approved' && ['draft', 'cancelled'].includes(project.status) && (
+                    <div
+                      className={`mt-4 rounded-lg p-4 text-sm ${
+                        latestReview.decision === 'rejected'
+                          ? 'bg-red-50 border border-red-200 text-red-800'
+                          : 'bg-yellow-50 border border-yellow-200 text-yellow-800'
+                      }`}
+                    >
+                      <p className="font-medium">{t(reviewDecisionKeys[latestReview.decision])}</p>
+                      <p className="whitespace-pre-line">{latestReview.reason}</p>
+                      {latestReview.decision === 'changes_requested' && (
+                        <p className="mt-1">{t('dashboard.resubmitHint')}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {reviews.length > 0 && (
+                    <div className="mt-4">
+                      <button
+                        onClick={() => setHistoryProjectId(historyProjectId === project.id ? null : project.id)}
+                        className="inline-flex items-center space-x-1 text-sm text-gray-600 hover:text-emerald-600 transition-colors"
+                      >
+                        <ClipboardCheck className="h-4 w-4" />
+                        <span>
+                          {historyProjectId === project.id
+                            ? t('dashboard.hideHistory', { count: reviews.length })
+                            : t('dashboard.showHistory', { count: reviews.length })}
+                        </span>
+                      </button>
+                      {historyProjectId === project.id && (
+                        <ul className="mt-2 space-y-2 text-sm text-gray-600">
+                          {reviews.map((review) => (
+                            <li key={review.id} className="border-l-2 border-gray-200 pl-3">
+                              <span className="font-medium text-gray-900">{t(reviewDecisionKeys[review.decision])}</span>{' '}
+                              · {formatDate(review.created_at)}
+                              {review.reason && <p className="whitespace-pre-line">{review.reason}</p>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  {canFileFinalReport(project) && composerProjectId !== project.id && (
+                    <p className="mt-4 text-sm text-gray-600">
+                      {project.closed_at ? t('dashboard.endedReportHint') : t('dashboard.fundedReportHint')}
+                    </p>
+                  )}
+
+                  {publishedProjectId === project.id && (
+                    <p className="mt-4 text-sm text-emerald-700">{t('dashboard.updatePublished')}</p>
+                  )}
+
+                  {composerProjectId === project.id && (
+                    <UpdateComposer
+                      projectId={project.id}
+                      projectTitle={project.title}
+                      canFileFinalReport={canFileFinalReport(project)}
+                      onClose={() => setComposerProjectId(null)}
+                      onPublished={() => {
+                        setComposerProjectId(null);
+                        setPublishedProjectId(project.id);
+                        loadCreatorData();
+                      }}
+                    />
+                  )}
                 </div>
               );
             })}
@@ -220,27 +434,131 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
         </div>
       )}
 
+      {profile?.role === 'project_creator' && projects.length > 0 && <DataExport projects={projects} />}
+
+      {!isCreator && profile && <RecurringPledges donorId={profile.id} onViewProject={onViewProject} />}
+
       {!isCreator && donations.length > 0 && (
         <div className="bg-white rounded-xl shadow-md p-8">
-          <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Donations</h2>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">{t('dashboard.yourDonations')}</h2>
+            {statementYears(donations).length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="text-gray-600">{t('dashboard.annualStatements')}</span>
+                {statementYears(donations).map((year) => (
+                  <button
+                    key={year}
+                    onClick={() => handleDownload(`statement:${year}`, () => downloadStatement(year))}
+                    disabled={downloadingDocument !== null}
+                    className="inline-flex items-center space-x-1 px-3 py-1 border border-gray-300 rounded-lg text-gray-700 hover:border-emerald-600 hover:text-emerald-600 disabled:opacity-50 transition-colors"
+                  >
+                    <FileText className="h-3 w-3" />
+                    <span>{downloadingDocument === `statement:${year}` ? t('dashboard.preparing') : year}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {documentError && <p className="text-sm text-red-600 mb-4">{documentError}</p>}
           <div className="space-y-4">
-            {donations.map((donation) => (
-              <div
-                key={donation.id}
-                className="flex items-center justify-between py-4 border-b last:border-b-0"
-              >
-                <div className="flex-1">
-                  <h3 className="font-medium text-gray-900">{donation.projects?.title || 'Project'}</h3>
-                  <p className="text-sm text-gray-500">{new Date(donation.created_at).toLocaleDateString()}</p>
-                </div>
-                <div className="text-right">
-                  <div className="font-semibold text-emerald-600">${donation.amount.toLocaleString()}</div>
-                  <div className={`text-xs ${donation.status === 'completed' ? 'text-green-600' : 'text-yellow-600'}`}>
-                    {donation.status.toUpperCase()}
+            {donations.map((donation) => {
+              const { latest, canRequest } = getRefundState(donation);
+              return (
+                <div key={donation.id} className="py-4 border-b last:border-b-0">
+                  <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                      <h3 className="font-medium text-gray-900">{donation.projects?.title || t('dashboard.projectFallback')}</h3>
+                      <p className="text-sm text-gray-500">{formatDate(donation.created_at)}</p>
+                      {latest && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          {latest.review_note
+                            ? t('dashboard.refundWithNote', {
+                                status: t(refundStatusKeys[latest.status]),
+                                note: latest.review_note,
+                              })
+                            : t(refundStatusKeys[latest.status])}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right">
+                      <div className="font-semibold text-emerald-600">{formatCurrency(donation.amount, donation.currency)}</div>
+                      <div
+                        className={`text-xs uppercase ${
+                          donation.status === 'completed'
+                            ? 'text-green-600'
+                            : donation.status === 'pending'
+                              ? 'text-yellow-600'
+                              : 'text-red-600'
+                        }`}
+                      >
+                        {t(donationStatusKeys[donation.status])}
+                      </div>
+                      {hasReceipt(donation) && (
+                        <div>
+                          <button
+                            onClick={() => handleDownload(donation.id, () => downloadReceipt(donation))}
+                            disabled={downloadingDocument !== null}
+                            className="mt-1 inline-flex items-center space-x-1 text-xs text-gray-600 hover:text-emerald-600 disabled:opacity-50 transition-colors"
+                          >
+                            <FileText className="h-3 w-3" />
+                            <span>
+                              {downloadingDocument === donation.id
+                                ? t('dashboard.preparing')
+                                : donation.receipt_voided_at
+                                  ? t('dashboard.voidedReceipt')
+                                  : t('dashboard.receipt')}
+                            </span>
+                          </button>
+                        </div>
+                      )}
+                      {canRequest && refundDonationId !== donation.id && (
+                        <button
+                          onClick={() => {
+                            setRefundDonationId(donation.id);
+                            setRefundReason('');
+                            setRefundError('');
+                          }}
+                          className="mt-1 inline-flex items-center space-x-1 text-xs text-gray-600 hover:text-emerald-600 transition-colors"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          <span>{t('dashboard.requestRefund')}</span>
+                        </button>
+                      )}
+                    </div>
                   </div>
+
+                  {refundDonationId === donation.id && (
+                    <form onSubmit={handleRequestRefund} className="mt-4 space-y-3">
+                      {refundError && <p className="text-sm text-red-600">{refundError}</p>}
+                      <textarea
+                        value={refundReason}
+                        onChange={(e) => setRefundReason(e.target.value)}
+                        required
+                        rows={2}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+                        placeholder={t('dashboard.refundPlaceholder')}
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setRefundDonationId(null)}
+                          className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          {t('dashboard.cancel')}
+                        </button>
+                        <button
+                          type="submit"
+                          disabled={submittingRefund}
+                          className="px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                          {submittingRefund ? t('dashboard.submitting') : t('dashboard.submitRequest')}
+                        </button>
+                      </div>
+                    </form>
+                  )}
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
@@ -250,12 +568,10 @@ export function Dashboard({ onEditProject, onViewProject }: DashboardProps) {
           <div className="max-w-md mx-auto">
             <Target className="h-16 w-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-xl font-semibold text-gray-900 mb-2">
-              {isCreator ? 'No projects yet' : 'No donations yet'}
+              {isCreator ? t('dashboard.noProjects') : t('dashboard.noDonations')}
             </h3>
             <p className="text-gray-600">
-              {isCreator
-                ? 'Create your first project to start raising funds for poverty alleviation initiatives.'
-                : 'Support a project today and start making a difference in the fight against poverty.'}
+              {isCreator ? t('dashboard.noProjectsHint') : t('dashboard.noDonationsHint')}
             </p>
           </div>
         </div>
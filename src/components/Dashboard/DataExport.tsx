@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { useI18n } from '../../contexts/I18nContext';
+import {
+  downloadExport,
+  exportStatusKeys,
+  exportStatuses,
+  type ExportDataset,
+  type ExportFormat,
+} from '../../lib/exports';
+
+interface DataExportProps {
+  projects: { id: string; title: string }[];
+  showsAnonymousDonors?: boolean;
+}
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm';
+
+export function DataExport({ projects, showsAnonymousDonors = false }: DataExportProps) {
+  const { t } = useI18n();
+  const [dataset, setDataset] = useState<ExportDataset>('donations');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [projectId, setProjectId] = useState('');
+  const [status, setStatus] = useState('');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState('');
+
+  const handleExport = async (format: ExportFormat) => {
+    setError('');
+    setExporting(format);
+    try {
+      await downloadExport(dataset, format, { from, to, projectId, status });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('export.failed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-2">{t('export.title')}</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        {dataset === 'donations' ? t('export.introDonations') : t('export.introProjects')}{' '}
+        {dataset === 'donations' &&
+          (showsAnonymousDonors ? t('export.anonymousIncluded') : t('export.anonymousHidden'))}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.data')}</label>
+          <select
+            value={dataset}
+            onChange={(e) => {
+              setDataset(e.target.value as ExportDataset);
+              setStatus('');
+            }}
+            className={inputClass}
+          >
+            <option value="donations">{t('export.donations')}</option>
+            <option value="projects">{t('export.projects')}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.from')}</label>
+          <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.to')}</label>
+          <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.project')}</label>
+          <select value={projectId} onChange={(e) => setProjectId(e.target.value)} className={inputClass}>
+            <option value="">{t('export.allProjects')}</option>
+            {projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.title}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('export.status')}</label>
+          <select value={status} onChange={(e) => setStatus(e.target.value)} className={inputClass}>
+            <option value="">{t('export.allStatuses')}</option>
+            {exportStatuses[dataset].map((value) => (
+              <option key={value} value={value}>
+                {t(exportStatusKeys[value])}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="flex flex-wrap gap-3">
+        {(['csv', 'xlsx'] as const).map((format) => (
+          <button
+            key={format}
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            <Download className="h-4 w-4" />
+            <span>{exporting === format ? t('export.exporting') : t('export.download', { format: format.toUpperCase() })}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
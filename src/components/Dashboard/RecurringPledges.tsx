@@ -0,0 +1,242 @@
+import { useEffect, useState } from 'react';
+import { Repeat, Pause, Play, XCircle, Edit2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useI18n } from '../../contexts/I18nContext';
+import type { Database, PledgeCadence, PledgeStatus } from '../../lib/database.types';
+import type { MessageKey } from '../../lib/i18n';
+
+type Pledge = Database['public']['Tables']['recurring_pledges']['Row'] & {
+  projects?: { title: string } | null;
+};
+
+interface RecurringPledgesProps {
+  donorId: string;
+  onViewProject: (projectId: string) => void;
+}
+
+const cadenceKeys: Record<PledgeCadence, MessageKey> = {
+  monthly: 'pledges.cadence.monthly',
+  quarterly: 'pledges.cadence.quarterly',
+  yearly: 'pledges.cadence.yearly',
+};
+
+const amountPerKeys: Record<PledgeCadence, MessageKey> = {
+  monthly: 'pledges.amountPer.monthly',
+  quarterly: 'pledges.amountPer.quarterly',
+  yearly: 'pledges.amountPer.yearly',
+};
+
+const statusKeys: Record<PledgeStatus, MessageKey> = {
+  active: 'pledges.status.active',
+  paused: 'pledges.status.paused',
+  cancelled: 'pledges.status.cancelled',
+  ended: 'pledges.status.ended',
+};
+
+const statusColors: Record<PledgeStatus, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-red-100 text-red-800',
+  ended: 'bg-gray-100 text-gray-800',
+};
+
+export function RecurringPledges({ donorId, onViewProject }: RecurringPledgesProps) {
+  const { t, formatCurrency, formatDate } = useI18n();
+  const [pledges, setPledges] = useState<Pledge[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editAmount, setEditAmount] = useState('');
+  const [editCadence, setEditCadence] = useState<PledgeCadence>('monthly');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadPledges();
+  }, [donorId]);
+
+  const loadPledges = async () => {
+    const { data, error: loadError } = await supabase
+      .from('recurring_pledges')
+      .select('*, projects (title)')
+      .eq('donor_id', donorId)
+      .order('created_at', { ascending: false });
+
+    if (loadError) {
+      console.error('Error loading pledges:', loadError);
+      return;
+    }
+    setPledges(data || []);
+  };
+
+  const updatePledge = async (
+    pledgeId: string,
+    updates: Database['public']['Tables']['recurring_pledges']['Update']
+  ) => {
+    setError('');
+    const { error: updateError } = await supabase
+      .from('recurring_pledges')
+      .update(updates)
+      .eq('id', pledgeId);
+
+    if (updateError) {
+      setError(updateError.message);
+      return false;
+    }
+    await loadPledges();
+    return true;
+  };
+
+  const startEditing = (pledge: Pledge) => {
+    setEditingId(pledge.id);
+    setEditAmount(pledge.amount.toString());
+    setEditCadence(pledge.cadence);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId) return;
+
+    const amount = parseFloat(editAmount);
+    if (isNaN(amount) || amount <= 0) {
+      setError(t('pledges.invalidAmount'));
+      return;
+    }
+
+    if (await updatePledge(editingId, { amount, cadence: editCadence })) {
+      setEditingId(null);
+    }
+  };
+
+  const handleCancel = async (pledgeId: string) => {
+    if (!confirm(t('pledges.confirmCancel'))) return;
+    await updatePledge(pledgeId, { status: 'cancelled' });
+  };
+
+  if (pledges.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-8">
+      <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('pledges.title')}</h2>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800 mb-6">{error}</div>
+      )}
+
+      <div className="space-y-4">
+        {pledges.map((pledge) => {
+          const isOpen = pledge.status === 'active' || pledge.status === 'paused';
+          return (
+            <div key={pledge.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between">
+                <div className="flex items-start space-x-3">
+                  <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center flex-shrink-0">
+                    <Repeat className="h-5 w-5 text-emerald-600" />
+                  </div>
+                  <div>
+                    <p
+                      className="font-medium text-gray-900 cursor-pointer hover:text-emerald-600"
+                      onClick={() => onViewProject(pledge.project_id)}
+                    >
+                      {pledge.projects?.title || t('pledges.unknownProject')}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {t(amountPerKeys[pledge.cadence], { amount: formatCurrency(pledge.amount, pledge.currency) })}
+                      {pledge.status === 'active' &&
+                        ` · ${t('pledges.nextPayment', { date: formatDate(pledge.next_charge_date) })}`}
+                    </p>
+                    {pledge.status === 'paused' && pledge.failed_attempts >= 3 && (
+                      <p className="text-sm text-yellow-700 mt-1">
+                        {t('pledges.pausedAfterFailures')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium uppercase ${statusColors[pledge.status]}`}>
+                  {t(statusKeys[pledge.status])}
+                </span>
+              </div>
+
+              {isOpen && editingId !== pledge.id && (
+                <div className="flex flex-wrap gap-2 mt-4">
+                  <button
+                    onClick={() => startEditing(pledge)}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                    <span>{t('pledges.change')}</span>
+                  </button>
+                  {pledge.status === 'active' ? (
+                    <button
+                      onClick={() => updatePledge(pledge.id, { status: 'paused' })}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Pause className="h-4 w-4" />
+                      <span>{t('pledges.pause')}</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => updatePledge(pledge.id, { status: 'active' })}
+                      className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      <Play className="h-4 w-4" />
+                      <span>{t('pledges.resume')}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleCancel(pledge.id)}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm border border-red-200 text-red-700 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    <XCircle className="h-4 w-4" />
+                    <span>{t('pledges.cancel')}</span>
+                  </button>
+                </div>
+              )}
+
+              {editingId === pledge.id && (
+                <form onSubmit={handleSave} className="flex flex-wrap items-end gap-3 mt-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('pledges.amount')}</label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="0.01"
+                      value={editAmount}
+                      onChange={(e) => setEditAmount(e.target.value)}
+                      required
+                      className="w-32 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">{t('pledges.every')}</label>
+                    <select
+                      value={editCadence}
+                      onChange={(e) => setEditCadence(e.target.value as PledgeCadence)}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    >
+                      {(Object.keys(cadenceKeys) as PledgeCadence[]).map((value) => (
+                        <option key={value} value={value}>
+                          {t(cadenceKeys[value])}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 bg-emerald-600 text-white text-sm font-medium rounded-lg hover:bg-emerald-700 transition-colors"
+                  >
+                    {t('pledges.save')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    {t('pledges.discard')}
+                  </button>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { Rocket } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { requestRoleChange, roleRequestStatusKeys } from '../../lib/roles';
+import { useI18n } from '../../contexts/I18nContext';
+import type { Database, RoleRequestStatus } from '../../lib/database.types';
+
+type RoleChangeRequest = Database['public']['Tables']['role_change_requests']['Row'];
+
+interface RoleRequestPanelProps {
+  userId: string;
+}
+
+const statusColors: Record<RoleRequestStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+export function RoleRequestPanel({ userId }: RoleRequestPanelProps) {
+  const { t, formatDate } = useI18n();
+  const [latest, setLatest] = useState<RoleChangeRequest | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadRequest();
+  }, [userId]);
+
+  const loadRequest = async () => {
+    const { data, error: loadError } = await supabase
+      .from('role_change_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (loadError) {
+      console.error('Error loading role change request:', loadError);
+    }
+    setLatest(data);
+    setLoaded(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      setLatest(await requestRoleChange(reason));
+      setShowForm(false);
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('roleRequest.failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-8">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-start space-x-3">
+          <Rocket className="h-6 w-6 text-emerald-600 flex-shrink-0" />
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('roleRequest.title')}</h2>
+            <p className="text-sm text-gray-600">{t('roleRequest.intro')}</p>
+          </div>
+        </div>
+        {latest && (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[latest.status]}`}>
+            {t(roleRequestStatusKeys[latest.status])}
+          </span>
+        )}
+      </div>
+
+      {latest?.status === 'pending' && (
+        <p className="text-sm text-gray-700">
+          {t('roleRequest.pendingNotice', { date: formatDate(latest.created_at) })}
+        </p>
+      )}
+      {latest?.status === 'rejected' && (
+        <p className="text-sm text-gray-700">
+          {latest.review_note
+            ? t('roleRequest.rejectedNoticeWithNote', { note: latest.review_note })
+            : t('roleRequest.rejectedNotice')}
+        </p>
+      )}
+
+      {latest?.status !== 'pending' && !showForm && (
+        <button
+          onClick={() => setShowForm(true)}
+          className="mt-4 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors"
+        >
+          {latest ? t('roleRequest.askAgain') : t('roleRequest.become')}
+        </button>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            required
+            rows={3}
+            placeholder={t('roleRequest.reasonPlaceholder')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t('roleRequest.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? t('roleRequest.sending') : t('roleRequest.send')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import Markdown from 'react-markdown';
+import { AlertCircle, ImagePlus, Loader, Send, Flag, X, FileCheck } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useI18n } from '../../contexts/I18nContext';
+import { IMAGE_TYPES } from '../../lib/images';
+
+interface UpdateComposerProps {
+  projectId: string;
+  projectTitle: string;
+  canFileFinalReport?: boolean;
+  onClose: () => void;
+  onPublished: () => void;
+}
+
+// Matches the limits on the project-updates bucket
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export function UpdateComposer({
+  projectId,
+  projectTitle,
+  canFileFinalReport = false,
+  onClose,
+  onPublished,
+}: UpdateComposerProps) {
+  const { t } = useI18n();
+  const [title, setTitle] = useState('');
+  const [content, setContent] = useState('');
+  const [imageUrls, setImageUrls] = useState<string[]>([]);
+  const [isMilestone, setIsMilestone] = useState(false);
+  const [milestoneLabel, setMilestoneLabel] = useState('');
+  const [isFinalReport, setIsFinalReport] = useState(false);
+  const [tab, setTab] = useState<'write' | 'preview'>('write');
+  const [uploading, setUploading] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setError('');
+    setUploading(true);
+    try {
+      const uploaded: string[] = [];
+      for (const file of files) {
+        if (!IMAGE_TYPES.includes(file.type)) throw new Error(t('updates.imageType', { name: file.name }));
+        if (file.size > MAX_IMAGE_BYTES) throw new Error(t('updates.imageTooLarge', { name: file.name }));
+
+        const path = `${projectId}/${crypto.randomUUID()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+        const { error: uploadError } = await supabase.storage.from('project-updates').upload(path, file);
+        if (uploadError) throw uploadError;
+
+        uploaded.push(supabase.storage.from('project-updates').getPublicUrl(path).data.publicUrl);
+      }
+      setImageUrls((current) => [...current, ...uploaded]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('updates.uploadFailed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setPublishing(true);
+
+    try {
+      const { error: insertError } = await supabase.from('project_updates').insert({
+        project_id: projectId,
+        title: title.trim(),
+        content: content.trim(),
+        image_urls: imageUrls,
+        is_milestone: isMilestone,
+        milestone_label: isMilestone ? milestoneLabel.trim() : '',
+        is_final_report: isFinalReport,
+      });
+
+      if (insertError) throw insertError;
+      onPublished();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('updates.publishFailed'));
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handlePublish} className="mt-4 pt-4 border-t border-gray-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">{t('updates.composerTitle', { title: projectTitle })}</h4>
+        <button type="button" onClick={onClose} className="p-1 text-gray-500 hover:text-gray-700">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        required
+        placeholder={t('updates.titlePlaceholder')}
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+      />
+
+      <div>
+        <div className="flex space-x-4 border-b border-gray-200 mb-2 text-sm">
+          {(['write', 'preview'] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setTab(value)}
+              className={`pb-2 font-medium transition-colors ${
+                tab === value ? 'text-emerald-600 border-b-2 border-emerald-600' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {t(value === 'write' ? 'updates.write' : 'updates.preview')}
+            </button>
+          ))}
+        </div>
+        {tab === 'write' ? (
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            required
+            rows={8}
+            placeholder={t('updates.contentPlaceholder')}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent font-mono text-sm"
+          />
+        ) : (
+          <div className="prose max-w-none min-h-[12rem] px-4 py-3 border border-gray-200 rounded-lg bg-gray-50">
+            {content.trim() ? <Markdown>{content}</Markdown> : <p className="text-gray-400">{t('updates.nothingToPreview')}</p>}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex flex-wrap gap-3">
+          {imageUrls.map((url) => (
+            <div key={url} className="relative w-24 h-24 rounded-lg overflow-hidden border border-gray-200">
+              <img src={url} alt="" className="w-full h-full object-cover" />
+              <button
+                type="button"
+                onClick={() => setImageUrls((current) => current.filter((item) => item !== url))}
+                className="absolute top-1 right-1 p-0.5 bg-white rounded-full shadow"
+              >
+                <X className="h-3 w-3 text-gray-600" />
+              </button>
+            </div>
+          ))}
+          <label className="w-24 h-24 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg cursor-pointer text-gray-500 hover:border-emerald-500 hover:text-emerald-600 transition-colors">
+            {uploading ? <Loader className="h-5 w-5 animate-spin" /> : <ImagePlus className="h-5 w-5" />}
+            <span className="text-xs mt-1">{t('updates.addImages')}</span>
+            <input type="file" accept={IMAGE_TYPES.join(',')} multiple onChange={handleImageSelect} className="hidden" disabled={uploading} />
+          </label>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isMilestone}
+            onChange={(e) => setIsMilestone(e.target.checked)}
+            className="w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+          />
+          <Flag className="h-4 w-4 text-emerald-600" />
+          <span className="text-sm font-medium text-gray-900">{t('updates.milestone')}</span>
+        </label>
+        {isMilestone && (
+          <input
+            type="text"
+            value={milestoneLabel}
+            onChange={(e) => setMilestoneLabel(e.target.value)}
+            placeholder={t('updates.milestonePlaceholder')}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+          />
+        )}
+      </div>
+
+      {canFileFinalReport && (
+        <label className="flex items-start space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isFinalReport}
+            onChange={(e) => setIsFinalReport(e.target.checked)}
+            className="mt-0.5 w-4 h-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+          />
+          <FileCheck className="h-4 w-4 text-emerald-600 mt-0.5" />
+          <span className="text-sm">
+            <span className="font-medium text-gray-900">{t('updates.finalReport')}</span>
+            <span className="block text-gray-600">{t('updates.finalReportHint')}</span>
+          </span>
+        </label>
+      )}
+
+      <p className="text-xs text-gray-500">{t('updates.notifyNotice')}</p>
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={publishing || uploading}
+          className="flex items-center space-x-2 px-6 py-2 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Send className="h-4 w-4" />
+          <span>{publishing ? t('updates.publishing') : t('updates.publish')}</span>
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,294 @@
+import { useEffect, useState } from 'react';
+import { BadgeCheck, FileUp, Loader, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useI18n } from '../../contexts/I18nContext';
+import {
+  submitVerificationApplication,
+  uploadVerificationDocument,
+  verificationStatusKeys,
+  type VerificationDetails,
+} from '../../lib/verification';
+import type { Database, VerificationStatus } from '../../lib/database.types';
+
+type Application = Database['public']['Tables']['verification_applications']['Row'];
+
+interface VerificationPanelProps {
+  applicantId: string;
+}
+
+const statusColors: Record<VerificationStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  expired: 'bg-gray-100 text-gray-800',
+};
+
+const emptyDetails: VerificationDetails = {
+  organizationName: '',
+  registrationNumber: '',
+  taxId: '',
+  bankAccountName: '',
+  bankName: '',
+  bankAccountNumber: '',
+  bankRoutingCode: '',
+};
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm';
+
+// Reapplying is offered this long before an approval lapses
+const RENEWAL_WINDOW_DAYS = 30;
+
+export function VerificationPanel({ applicantId }: VerificationPanelProps) {
+  const { t, formatDate } = useI18n();
+  const [latest, setLatest] = useState<Application | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [details, setDetails] = useState<VerificationDetails>(emptyDetails);
+  const [documents, setDocuments] = useState<{ name: string; path: string }[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadApplication();
+  }, [applicantId]);
+
+  const loadApplication = async () => {
+    const { data, error: loadError } = await supabase
+      .from('verification_applications')
+      .select('*')
+      .eq('applicant_id', applicantId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (loadError) {
+      console.error('Error loading verification application:', loadError);
+    }
+    setLatest(data);
+    setLoaded(true);
+  };
+
+  const handleDocumentSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setError('');
+    setUploading(true);
+    try {
+      const uploaded: { name: string; path: string }[] = [];
+      for (const file of files) {
+        uploaded.push({ name: file.name, path: await uploadVerificationDocument(applicantId, file) });
+      }
+      setDocuments((current) => [...current, ...uploaded]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('verification.uploadFailed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      await submitVerificationApplication(
+        details,
+        documents.map((document) => document.path)
+      );
+      setShowForm(false);
+      setDetails(emptyDetails);
+      setDocuments([]);
+      loadApplication();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('verification.submitFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!loaded) return null;
+
+  const expiresSoon =
+    latest?.status === 'approved' &&
+    !!latest.expires_at &&
+    new Date(latest.expires_at).getTime() - Date.now() < RENEWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const canApply = !latest || latest.status === 'rejected' || latest.status === 'expired' || expiresSoon;
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-8">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('verification.title')}</h2>
+          <p className="text-sm text-gray-600">{t('verification.intro')}</p>
+        </div>
+        {latest && (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusColors[latest.status]}`}>
+            {t(verificationStatusKeys[latest.status])}
+          </span>
+        )}
+      </div>
+
+      {latest?.status === 'approved' && latest.expires_at && (
+        <p className="text-sm text-gray-700 flex items-center space-x-2">
+          <BadgeCheck className="h-4 w-4 text-emerald-600" />
+          <span>
+            {t('verification.verifiedUntil', {
+              organization: latest.organization_name,
+              date: formatDate(latest.expires_at),
+            })}
+          </span>
+        </p>
+      )}
+      {latest?.status === 'pending' && (
+        <p className="text-sm text-gray-700">
+          {t('verification.pendingNotice', {
+            organization: latest.organization_name,
+            date: formatDate(latest.created_at),
+          })}
+        </p>
+      )}
+      {(latest?.status === 'rejected' || latest?.status === 'expired') && (
+        <p className="text-sm text-gray-700">
+          {latest.review_note
+            ? t(latest.status === 'rejected' ? 'verification.rejectedNoticeWithNote' : 'verification.expiredNoticeWithNote', {
+                note: latest.review_note,
+              })
+            : t(latest.status === 'rejected' ? 'verification.rejectedNotice' : 'verification.expiredNotice')}
+        </p>
+      )}
+      {!latest && <p className="text-sm text-gray-700">{t('verification.notApplied')}</p>}
+
+      {canApply && !showForm && (
+        <button
+          onClick={() => setShowForm(true)}
+          className="mt-4 px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors"
+        >
+          {latest ? t('verification.applyAgain') : t('verification.apply')}
+        </button>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mt-6 space-y-4">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              value={details.organizationName}
+              onChange={(e) => setDetails({ ...details, organizationName: e.target.value })}
+              required
+              placeholder={t('verification.organizationName')}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={details.registrationNumber}
+              onChange={(e) => setDetails({ ...details, registrationNumber: e.target.value })}
+              placeholder={t('verification.registrationNumber')}
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={details.taxId}
+              onChange={(e) => setDetails({ ...details, taxId: e.target.value })}
+              required
+              placeholder={t('verification.taxId')}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">{t('verification.documents')}</p>
+            <div className="flex flex-wrap gap-2">
+              {documents.map((document) => (
+                <span
+                  key={document.path}
+                  className="inline-flex items-center space-x-1 px-3 py-1 bg-gray-100 rounded-full text-xs text-gray-700"
+                >
+                  <span>{document.name}</span>
+                  <button
+                    type="button"
+                    onClick={() => setDocuments(documents.filter((d) => d.path !== document.path))}
+                    className="text-gray-500 hover:text-red-600"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+              <label className="inline-flex items-center space-x-1 px-3 py-1 border border-dashed border-gray-300 rounded-full text-xs text-gray-600 hover:border-emerald-500 hover:text-emerald-600 cursor-pointer transition-colors">
+                {uploading ? <Loader className="h-3 w-3 animate-spin" /> : <FileUp className="h-3 w-3" />}
+                <span>{t('verification.uploadDocument')}</span>
+                <input
+                  type="file"
+                  accept="application/pdf,image/jpeg,image/png"
+                  multiple
+                  onChange={handleDocumentSelect}
+                  className="hidden"
+                  disabled={uploading}
+                />
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">{t('verification.payoutAccount')}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="text"
+                value={details.bankAccountName}
+                onChange={(e) => setDetails({ ...details, bankAccountName: e.target.value })}
+                required
+                placeholder={t('verification.accountName')}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={details.bankName}
+                onChange={(e) => setDetails({ ...details, bankName: e.target.value })}
+                required
+                placeholder={t('verification.bankName')}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={details.bankAccountNumber}
+                onChange={(e) => setDetails({ ...details, bankAccountNumber: e.target.value })}
+                required
+                placeholder={t('verification.accountNumber')}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={details.bankRoutingCode}
+                onChange={(e) => setDetails({ ...details, bankRoutingCode: e.target.value })}
+                placeholder={t('verification.routingCode')}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              {t('verification.cancel')}
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || uploading || documents.length === 0}
+              className="px-4 py-2 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? t('verification.submitting') : t('verification.submit')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
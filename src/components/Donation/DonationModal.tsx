@@ -1,32 +1,74 @@
 import { useState } from 'react';
-import { X, Heart, AlertCircle, CreditCard } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { X, Heart, AlertCircle, CreditCard, CheckCircle, Printer, Repeat } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { SUPPORTED_CURRENCIES, getPresetAmounts } from '../../lib/currency';
+import { confirmDonation, createDonation, paymentProvider, paymentsAvailable, stripePromise } from '../../lib/payments';
+import { StripePayment } from './StripePayment';
 
 interface DonationModalProps {
   projectId: string;
   projectTitle: string;
+  projectCurrency: string;
   onClose: () => void;
   onSuccess: () => void;
 }
 
-export function DonationModal({ projectId, projectTitle, onClose, onSuccess }: DonationModalProps) {
+interface Receipt {
+  receiptNumber: string | null;
+  amount: number;
+  currency: string;
+  date: string;
+  monthly: boolean;
+}
+
+interface Checkout {
+  donationId: string;
+  clientSecret: string;
+  guestToken: string | null;
+}
+
+export function DonationModal({ projectId, projectTitle, projectCurrency, onClose, onSuccess }: DonationModalProps) {
   const { user } = useAuth();
+  const { t, formatCurrency, formatDate, getCurrencySymbol } = useI18n();
   const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(projectCurrency);
   const [message, setMessage] = useState('');
   const [isAnonymous, setIsAnonymous] = useState(false);
+  const [giveMonthly, setGiveMonthly] = useState(false);
+  const [guestName, setGuestName] = useState('');
+  const [guestEmail, setGuestEmail] = useState('');
+  const [checkout, setCheckout] = useState<Checkout | null>(null);
+  const [receipt, setReceipt] = useState<Receipt | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const presetAmounts = [10, 25, 50, 100, 250, 500];
+  const presetAmounts = getPresetAmounts(currency);
+  const monthly = !!user && giveMonthly;
+
+  // The server settles the donation from the payment result and issues the receipt
+  const completeDonation = async (donationId: string, guestToken: string | null, declineMessage?: string) => {
+    const { status, receiptNumber } = await confirmDonation(donationId, { guestToken });
+    if (status === 'failed') {
+      throw new Error(declineMessage || t('donation.declined'));
+    }
+
+    onSuccess();
+    setReceipt({
+      receiptNumber,
+      amount: parseFloat(amount),
+      currency,
+      date: formatDate(new Date()),
+      monthly,
+    });
+  };
 
   const handleDonate = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user) return;
 
     const donationAmount = parseFloat(amount);
     if (isNaN(donationAmount) || donationAmount <= 0) {
-      setError('Please enter a valid amount');
+      setError(t('donation.invalidAmount'));
       return;
     }
 
@@ -34,34 +76,48 @@ export function DonationModal({ projectId, projectTitle, onClose, onSuccess }: D
     setLoading(true);
 
     try {
-      const { error: donationError } = await supabase.from('donations').insert([
-        {
-          donor_id: user.id,
-          project_id: projectId,
-          amount: donationAmount,
-          message,
-          is_anonymous: isAnonymous,
-          status: 'completed',
-          transaction_id: `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        },
-      ]);
-
-      if (donationError) throw donationError;
-
-      onSuccess();
-      onClose();
+      const { donationId, provider, clientSecret, guestToken } = await createDonation({
+        projectId,
+        amount: donationAmount,
+        currency,
+        message,
+        isAnonymous,
+        ...(user ? {} : { guestName, guestEmail }),
+        ...(monthly ? { cadence: 'monthly' as const } : {}),
+      });
+
+      // Stripe payments are confirmed in the browser, so ask for payment details next
+      if (provider === 'stripe') {
+        if (!stripePromise || !clientSecret) throw new Error(t('donation.paymentUnavailable'));
+        setCheckout({ donationId, clientSecret, guestToken });
+      } else {
+        await completeDonation(donationId, guestToken);
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to process donation');
+      setError(err instanceof Error ? err.message : t('donation.failed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const handlePaymentAttempted = async (declineMessage?: string) => {
+    if (!checkout) return;
+    try {
+      await completeDonation(checkout.donationId, checkout.guestToken, declineMessage);
+    } catch (err) {
+      // A declined payment fails its donation; trying again starts a new one
+      setCheckout(null);
+      setError(err instanceof Error ? err.message : t('donation.failed'));
+    }
+  };
+
+  const submitLabel = monthly ? t('donation.donateMonthly') : t('donation.donateNow');
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
-          <h2 className="text-2xl font-bold text-gray-900">Support This Project</h2>
+          <h2 className="text-2xl font-bold text-gray-900">{t('donation.title')}</h2>
           <button
             onClick={onClose}
             className="p-2 hover:bg-gray-100 rounded-full transition-colors"
@@ -70,118 +126,277 @@ export function DonationModal({ projectId, projectTitle, onClose, onSuccess }: D
           </button>
         </div>
 
-        <div className="p-6">
-          <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 mb-6">
-            <div className="flex items-start space-x-3">
-              <Heart className="h-5 w-5 text-emerald-600 flex-shrink-0 mt-0.5" />
-              <div>
-                <p className="font-medium text-emerald-900">You're supporting:</p>
-                <p className="text-sm text-emerald-800 mt-1">{projectTitle}</p>
-              </div>
+        {receipt ? (
+          <div className="p-6 space-y-6">
+            <div className="text-center">
+              <CheckCircle className="h-12 w-12 text-emerald-600 mx-auto mb-3" />
+              <h3 className="text-xl font-bold text-gray-900">{t('donation.thankYou')}</h3>
             </div>
-          </div>
 
-          <form onSubmit={handleDonate} className="space-y-6">
-            {error && (
-              <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
-                <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
-                <p className="text-sm text-red-800">{error}</p>
+            <dl className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{t('donation.receipt')}</dt>
+                <dd className="font-medium text-gray-900">{receipt.receiptNumber || t('donation.receiptPending')}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{t('donation.project')}</dt>
+                <dd className="font-medium text-gray-900 text-right">{projectTitle}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{t('donation.amount')}</dt>
+                <dd className="font-medium text-gray-900">{formatCurrency(receipt.amount, receipt.currency)}</dd>
+              </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{t('donation.date')}</dt>
+                <dd className="font-medium text-gray-900">{receipt.date}</dd>
               </div>
+              <div className="flex justify-between">
+                <dt className="text-gray-600">{t('donation.donor')}</dt>
+                <dd className="font-medium text-gray-900">{user ? user.email : `${guestName} (${guestEmail})`}</dd>
+              </div>
+            </dl>
+
+            {receipt.monthly && (
+              <p className="text-sm text-gray-600">
+                {t('donation.monthlyNotice', { amount: formatCurrency(receipt.amount, receipt.currency) })}
+              </p>
             )}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-3">
-                Select Amount
-              </label>
-              <div className="grid grid-cols-3 gap-3 mb-4">
-                {presetAmounts.map((preset) => (
-                  <button
-                    key={preset}
-                    type="button"
-                    onClick={() => setAmount(preset.toString())}
-                    className={`py-3 px-4 border-2 rounded-lg font-medium transition-colors ${
-                      amount === preset.toString()
-                        ? 'border-emerald-600 bg-emerald-50 text-emerald-700'
-                        : 'border-gray-300 text-gray-700 hover:border-emerald-500'
-                    }`}
-                  >
-                    ${preset}
-                  </button>
-                ))}
-              </div>
-              <div className="relative">
-                <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500 text-lg">
-                  $
-                </span>
-                <input
-                  type="number"
-                  min="1"
-                  step="0.01"
-                  value={amount}
-                  onChange={(e) => setAmount(e.target.value)}
-                  required
-                  placeholder="Custom amount"
-                  className="w-full pl-8 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                />
+            {!user && (
+              <p className="text-sm text-gray-600">
+                {t('donation.claimNotice', { email: guestEmail })}
+              </p>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => window.print()}
+                className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2"
+              >
+                <Printer className="h-5 w-5" />
+                <span>{t('donation.print')}</span>
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 transition-colors"
+              >
+                {t('donation.done')}
+              </button>
+            </div>
+          </div>
+        ) : checkout && stripePromise ? (
+          <div className="p-6 space-y-6">
+            <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4">
+              <p className="font-medium text-emerald-900">{projectTitle}</p>
+              <p className="text-sm text-emerald-800 mt-1">
+                {monthly
+                  ? t('donation.monthlyNotice', { amount: formatCurrency(parseFloat(amount), currency) })
+                  : formatCurrency(parseFloat(amount), currency)}
+              </p>
+            </div>
+            <StripePayment
+              stripe={stripePromise}
+              clientSecret={checkout.clientSecret}
+              submitLabel={submitLabel}
+              onAttempted={handlePaymentAttempted}
+            />
+          </div>
+        ) : (
+          <div className="p-6">
+            <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-4 mb-6">
+              <div className="flex items-start space-x-3">
+                <Heart className="h-5 w-5 text-emerald-600 flex-shrink-0 mt-0.5" />
+                <div>
+                  <p className="font-medium text-emerald-900">{t('donation.supporting')}</p>
+                  <p className="text-sm text-emerald-800 mt-1">{projectTitle}</p>
+                </div>
               </div>
             </div>
 
-            <div>
-              <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
-                Message (Optional)
-              </label>
-              <textarea
-                id="message"
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                rows={3}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                placeholder="Leave a message of support..."
-              />
-            </div>
+            <form onSubmit={handleDonate} className="space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+                  <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm text-red-800">{error}</p>
+                </div>
+              )}
 
-            <div>
-              <label className="flex items-start space-x-3 cursor-pointer">
-                <input
-                  type="checkbox"
-                  checked={isAnonymous}
-                  onChange={(e) => setIsAnonymous(e.target.checked)}
-                  className="mt-1 w-5 h-5 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-gray-700">{t('donation.selectAmount')}</label>
+                  <select
+                    value={currency}
+                    onChange={(e) => {
+                      setCurrency(e.target.value);
+                      setAmount('');
+                    }}
+                    aria-label={t('donation.currency')}
+                    className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                  >
+                    {SUPPORTED_CURRENCIES.map((code) => (
+                      <option key={code} value={code}>
+                        {code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-3 gap-3 mb-4">
+                  {presetAmounts.map((preset) => (
+                    <button
+                      key={preset}
+                      type="button"
+                      onClick={() => setAmount(preset.toString())}
+                      className={`py-3 px-4 border-2 rounded-lg font-medium transition-colors ${
+                        amount === preset.toString()
+                          ? 'border-emerald-600 bg-emerald-50 text-emerald-700'
+                          : 'border-gray-300 text-gray-700 hover:border-emerald-500'
+                      }`}
+                    >
+                      {formatCurrency(preset, currency)}
+                    </button>
+                  ))}
+                </div>
+                <div className="relative">
+                  <span className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-500 text-lg">
+                    {getCurrencySymbol(currency)}
+                  </span>
+                  <input
+                    type="number"
+                    min="1"
+                    step="0.01"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    required
+                    placeholder={t('donation.customAmount')}
+                    className="w-full pl-14 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                  />
+                </div>
+                {currency !== projectCurrency && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    {t('donation.conversionNote', { currency: projectCurrency })}
+                  </p>
+                )}
+              </div>
+
+              {!user && (
+                <div className="space-y-4">
+                  <div>
+                    <label htmlFor="guestName" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('donation.guestName')}
+                    </label>
+                    <input
+                      id="guestName"
+                      type="text"
+                      value={guestName}
+                      onChange={(e) => setGuestName(e.target.value)}
+                      required
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="guestEmail" className="block text-sm font-medium text-gray-700 mb-2">
+                      {t('donation.guestEmail')}
+                    </label>
+                    <input
+                      id="guestEmail"
+                      type="email"
+                      value={guestEmail}
+                      onChange={(e) => setGuestEmail(e.target.value)}
+                      required
+                      className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                      placeholder={t('donation.guestEmailPlaceholder')}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      {t('donation.guestEmailHint')}
+                    </p>
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="message" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('donation.message')}
+                </label>
+                <textarea
+                  id="message"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                  placeholder={t('donation.messagePlaceholder')}
                 />
+              </div>
+
+              {user && (
                 <div>
-                  <p className="font-medium text-gray-900">Make this donation anonymous</p>
-                  <p className="text-sm text-gray-600">
-                    Your name will not be displayed publicly
-                  </p>
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={giveMonthly}
+                      onChange={(e) => setGiveMonthly(e.target.checked)}
+                      className="mt-1 w-5 h-5 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                    />
+                    <div>
+                      <p className="font-medium text-gray-900 flex items-center space-x-1">
+                        <Repeat className="h-4 w-4 text-emerald-600" />
+                        <span>{t('donation.giveMonthly')}</span>
+                      </p>
+                      <p className="text-sm text-gray-600">
+                        {t('donation.giveMonthlyHint')}
+                      </p>
+                    </div>
+                  </label>
                 </div>
-              </label>
-            </div>
+              )}
 
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
-              <div className="flex items-center space-x-2 mb-2">
-                <CreditCard className="h-5 w-5 text-gray-600" />
-                <p className="font-medium text-gray-900">Payment Information</p>
+              <div>
+                <label className="flex items-start space-x-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={isAnonymous}
+                    onChange={(e) => setIsAnonymous(e.target.checked)}
+                    className="mt-1 w-5 h-5 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                  />
+                  <div>
+                    <p className="font-medium text-gray-900">{t('donation.anonymous')}</p>
+                    <p className="text-sm text-gray-600">
+                      {t('donation.anonymousHint')}
+                    </p>
+                  </div>
+                </label>
               </div>
-              <p className="text-sm text-gray-600">
-                This is a demo. In production, Stripe payment processing would be integrated here.
-                Click "Donate Now" to simulate a successful donation.
-              </p>
-            </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
-            >
-              <Heart className="h-5 w-5" />
-              <span>{loading ? 'Processing...' : 'Donate Now'}</span>
-            </button>
-          </form>
-
-          <p className="text-xs text-center text-gray-500 mt-4">
-            By donating, you agree to our terms and conditions
-          </p>
-        </div>
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <CreditCard className="h-5 w-5 text-gray-600" />
+                  <p className="font-medium text-gray-900">{t('donation.paymentInfo')}</p>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {!paymentsAvailable
+                    ? t('donation.paymentUnavailable')
+                    : paymentProvider === 'mock'
+                      ? t('donation.paymentMock')
+                      : t('donation.paymentStripe')}
+                </p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || !paymentsAvailable}
+                className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+              >
+                <Heart className="h-5 w-5" />
+                <span>{loading ? t('donation.processing') : submitLabel}</span>
+              </button>
+            </form>
+
+            <p className="text-xs text-center text-gray-500 mt-4">
+              {t('donation.terms')}
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
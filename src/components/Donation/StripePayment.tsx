@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import type { Stripe } from '@stripe/stripe-js';
+import { AlertCircle, Heart } from 'lucide-react';
+import { useI18n } from '../../contexts/I18nContext';
+
+interface StripePaymentProps {
+  stripe: Promise<Stripe | null>;
+  clientSecret: string;
+  submitLabel: string;
+  // Called once Stripe has tried the payment; `declineMessage` is Stripe's explanation when it failed
+  onAttempted: (declineMessage?: string) => Promise<void>;
+}
+
+function PaymentForm({ submitLabel, onAttempted }: Omit<StripePaymentProps, 'stripe' | 'clientSecret'>) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { t } = useI18n();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setError('');
+    setLoading(true);
+
+    // Cards finish here, 3D Secure included. Methods that redirect come back to this page
+    // and their donation is settled by the webhook.
+    const { error: stripeError } = await stripe.confirmPayment({
+      elements,
+      redirect: 'if_required',
+      confirmParams: { return_url: window.location.href },
+    });
+
+    // Incomplete card details can be fixed without starting over
+    if (stripeError?.type === 'validation_error') {
+      setError(stripeError.message ?? t('donation.failed'));
+      setLoading(false);
+      return;
+    }
+
+    await onAttempted(stripeError?.message);
+    setLoading(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start space-x-3">
+          <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <PaymentElement />
+
+      <button
+        type="submit"
+        disabled={!stripe || loading}
+        className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center justify-center space-x-2"
+      >
+        <Heart className="h-5 w-5" />
+        <span>{loading ? t('donation.processing') : submitLabel}</span>
+      </button>
+    </form>
+  );
+}
+
+// Collects payment details with Stripe Elements and confirms the intent from the browser
+export function StripePayment({ stripe, clientSecret, ...formProps }: StripePaymentProps) {
+  return (
+    <Elements
+      stripe={stripe}
+      options={{ clientSecret, appearance: { theme: 'stripe', variables: { colorPrimary: '#059669' } } }}
+    >
+      <PaymentForm {...formProps} />
+    </Elements>
+  );
+}
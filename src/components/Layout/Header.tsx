@@ -1,14 +1,61 @@
-import { Heart, LogOut, User, Menu, X } from 'lucide-react';
+import { Heart, LogOut, User, Menu, X, Globe, Bell } from 'lucide-react';
 import { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { useNotifications } from '../../contexts/NotificationsContext';
+import { LOCALES, localeNames, type Locale } from '../../lib/i18n';
 
 interface HeaderProps {
   onNavigate: (page: string) => void;
   currentPage: string;
 }
 
+function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="flex items-center space-x-1 text-sm text-gray-700">
+      <Globe className="h-4 w-4 text-gray-600" />
+      <span className="sr-only">{t('nav.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value as Locale)}
+        className="bg-transparent border-none text-sm text-gray-700 focus:ring-2 focus:ring-emerald-500 rounded cursor-pointer"
+      >
+        {LOCALES.map((code) => (
+          <option key={code} value={code}>
+            {localeNames[code]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function NotificationBell({ onClick, active }: { onClick: () => void; active: boolean }) {
+  const { unreadCount } = useNotifications();
+  const { t } = useI18n();
+
+  return (
+    <button
+      onClick={onClick}
+      title={t('nav.notifications')}
+      aria-label={unreadCount > 0 ? t('nav.unreadNotifications', { count: unreadCount }) : t('nav.notifications')}
+      className={`relative p-1 transition-colors ${active ? 'text-emerald-600' : 'text-gray-600 hover:text-emerald-600'}`}
+    >
+      <Bell className="h-5 w-5" />
+      {unreadCount > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-[1.125rem] text-center">
+          {unreadCount > 99 ? '99+' : unreadCount}
+        </span>
+      )}
+    </button>
+  );
+}
+
 export function Header({ onNavigate, currentPage }: HeaderProps) {
   const { user, profile, signOut } = useAuth();
+  const { t } = useI18n();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const handleSignOut = async () => {
@@ -39,7 +86,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                 currentPage === 'home' ? 'text-emerald-600' : 'text-gray-700 hover:text-emerald-600'
               }`}
             >
-              Explore Projects
+              {t('nav.explore')}
             </button>
             {user && profile?.role === 'project_creator' && (
               <button
@@ -48,7 +95,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                   currentPage === 'create' ? 'text-emerald-600' : 'text-gray-700 hover:text-emerald-600'
                 }`}
               >
-                Create Project
+                {t('nav.create')}
               </button>
             )}
             {user && profile?.role === 'admin' && (
@@ -58,7 +105,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                   currentPage === 'admin' ? 'text-emerald-600' : 'text-gray-700 hover:text-emerald-600'
                 }`}
               >
-                Admin Panel
+                {t('nav.admin')}
               </button>
             )}
             {user && (
@@ -68,24 +115,39 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                   currentPage === 'dashboard' ? 'text-emerald-600' : 'text-gray-700 hover:text-emerald-600'
                 }`}
               >
-                Dashboard
+                {t('nav.dashboard')}
               </button>
             )}
           </nav>
 
           <div className="hidden md:flex items-center space-x-4">
+            <LanguageSwitcher />
             {user ? (
               <>
-                <div className="flex items-center space-x-2">
-                  <User className="h-5 w-5 text-gray-600" />
-                  <span className="text-sm text-gray-700">{profile?.full_name || 'User'}</span>
-                </div>
+                <NotificationBell
+                  onClick={() => onNavigate('notifications')}
+                  active={currentPage === 'notifications'}
+                />
+                <button
+                  onClick={() => onNavigate('settings')}
+                  title={t('nav.settings')}
+                  className={`flex items-center space-x-2 text-sm transition-colors ${
+                    currentPage === 'settings' ? 'text-emerald-600' : 'text-gray-700 hover:text-emerald-600'
+                  }`}
+                >
+                  {profile?.avatar_url ? (
+                    <img src={profile.avatar_url} alt="" className="h-7 w-7 rounded-full object-cover" />
+                  ) : (
+                    <User className="h-5 w-5 text-gray-600" />
+                  )}
+                  <span>{profile?.full_name || t('nav.userFallback')}</span>
+                </button>
                 <button
                   onClick={handleSignOut}
                   className="flex items-center space-x-1 text-sm text-gray-700 hover:text-emerald-600 transition-colors"
                 >
                   <LogOut className="h-4 w-4" />
-                  <span>Sign Out</span>
+                  <span>{t('nav.signOut')}</span>
                 </button>
               </>
             ) : (
@@ -94,30 +156,39 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                   onClick={() => onNavigate('signin')}
                   className="text-sm font-medium text-gray-700 hover:text-emerald-600 transition-colors"
                 >
-                  Sign In
+                  {t('nav.signIn')}
                 </button>
                 <button
                   onClick={() => onNavigate('signup')}
                   className="px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 transition-colors"
                 >
-                  Get Started
+                  {t('nav.getStarted')}
                 </button>
               </>
             )}
           </div>
 
-          <button
-            className="md:hidden"
-            onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-          >
-            {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
-          </button>
+          <div className="md:hidden flex items-center space-x-4">
+            {user && (
+              <NotificationBell
+                onClick={() => {
+                  onNavigate('notifications');
+                  setMobileMenuOpen(false);
+                }}
+                active={currentPage === 'notifications'}
+              />
+            )}
+            <button onClick={() => setMobileMenuOpen(!mobileMenuOpen)}>
+              {mobileMenuOpen ? <X className="h-6 w-6" /> : <Menu className="h-6 w-6" />}
+            </button>
+          </div>
         </div>
       </div>
 
       {mobileMenuOpen && (
         <div className="md:hidden bg-white border-t">
           <div className="px-4 py-4 space-y-3">
+            <LanguageSwitcher />
             <button
               onClick={() => {
                 onNavigate('home');
@@ -125,7 +196,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
               }}
               className="block w-full text-left text-sm font-medium text-gray-700 hover:text-emerald-600"
             >
-              Explore Projects
+              {t('nav.explore')}
             </button>
             {user && profile?.role === 'project_creator' && (
               <button
@@ -135,7 +206,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                 }}
                 className="block w-full text-left text-sm font-medium text-gray-700 hover:text-emerald-600"
               >
-                Create Project
+                {t('nav.create')}
               </button>
             )}
             {user && profile?.role === 'admin' && (
@@ -146,7 +217,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                 }}
                 className="block w-full text-left text-sm font-medium text-gray-700 hover:text-emerald-600"
               >
-                Admin Panel
+                {t('nav.admin')}
               </button>
             )}
             {user && (
@@ -157,16 +228,26 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                 }}
                 className="block w-full text-left text-sm font-medium text-gray-700 hover:text-emerald-600"
               >
-                Dashboard
+                {t('nav.dashboard')}
               </button>
             )}
             <div className="border-t pt-3 mt-3">
               {user ? (
                 <>
-                  <div className="flex items-center space-x-2 mb-3">
-                    <User className="h-5 w-5 text-gray-600" />
-                    <span className="text-sm text-gray-700">{profile?.full_name || 'User'}</span>
-                  </div>
+                  <button
+                    onClick={() => {
+                      onNavigate('settings');
+                      setMobileMenuOpen(false);
+                    }}
+                    className="flex items-center space-x-2 mb-3 text-sm text-gray-700 hover:text-emerald-600"
+                  >
+                    {profile?.avatar_url ? (
+                      <img src={profile.avatar_url} alt="" className="h-7 w-7 rounded-full object-cover" />
+                    ) : (
+                      <User className="h-5 w-5 text-gray-600" />
+                    )}
+                    <span>{t('nav.settings')}</span>
+                  </button>
                   <button
                     onClick={() => {
                       handleSignOut();
@@ -175,7 +256,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                     className="flex items-center space-x-1 text-sm text-gray-700 hover:text-emerald-600"
                   >
                     <LogOut className="h-4 w-4" />
-                    <span>Sign Out</span>
+                    <span>{t('nav.signOut')}</span>
                   </button>
                 </>
               ) : (
@@ -187,7 +268,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                     }}
                     className="block w-full text-left text-sm font-medium text-gray-700 hover:text-emerald-600"
                   >
-                    Sign In
+                    {t('nav.signIn')}
                   </button>
                   <button
                     onClick={() => {
@@ -196,7 +277,7 @@ export function Header({ onNavigate, currentPage }: HeaderProps) {
                     }}
                     className="block w-full px-4 py-2 text-sm font-medium text-white bg-emerald-600 rounded-lg hover:bg-emerald-700"
                   >
-                    Get Started
+                    {t('nav.getStarted')}
                   </button>
                 </div>
               )}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from 'react';
+import { Bell, CheckCheck, Loader } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/NotificationsContext';
+import { useI18n } from '../../contexts/I18nContext';
+import {
+  notificationPreferenceKeys,
+  parseNotificationPreferences,
+  type NotificationPreference,
+} from '../../lib/account';
+import {
+  NOTIFICATION_PAGE_SIZE,
+  fetchNotifications,
+  getNotificationCategoryKey,
+  type Notification,
+} from '../../lib/notifications';
+
+interface NotificationCenterProps {
+  onViewProject: (projectId: string) => void;
+}
+
+export function NotificationCenter({ onViewProject }: NotificationCenterProps) {
+  const { profile, updateProfile } = useAuth();
+  const { unreadCount, version, markRead } = useNotifications();
+  const { t, formatDate } = useI18n();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [savingPreference, setSavingPreference] = useState<NotificationPreference | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadNotifications();
+  }, [unreadOnly, version]);
+
+  const loadNotifications = async () => {
+    try {
+      const data = await fetchNotifications({ unreadOnly });
+      setNotifications(data);
+      setHasMore(data.length === NOTIFICATION_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadMore = async () => {
+    const last = notifications[notifications.length - 1];
+    if (!last) return;
+    setLoadingMore(true);
+    try {
+      const data = await fetchNotifications({ unreadOnly, before: last.created_at });
+      setNotifications([...notifications, ...data]);
+      setHasMore(data.length === NOTIFICATION_PAGE_SIZE);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleMarkRead = async (ids?: string[]) => {
+    setError('');
+    try {
+      await markRead(ids);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('notifications.markReadFailed'));
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    if (!notification.read_at) handleMarkRead([notification.id]);
+    if (notification.project_id) onViewProject(notification.project_id);
+  };
+
+  const preferences = parseNotificationPreferences(profile?.notification_preferences);
+
+  const togglePreference = async (key: NotificationPreference) => {
+    setError('');
+    setSavingPreference(key);
+    try {
+      await updateProfile({ notification_preferences: { ...preferences, [key]: !preferences[key] } });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('notifications.savePreferencesFailed'));
+    } finally {
+      setSavingPreference(null);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+      <div className="lg:col-span-2 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{t('notifications.title')}</h1>
+            <p className="text-gray-600">
+              {unreadCount > 0 ? t('notifications.unreadCount', { count: unreadCount }) : t('notifications.caughtUp')}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              <button
+                onClick={() => setUnreadOnly(false)}
+                className={`px-4 py-2 ${!unreadOnly ? 'bg-emerald-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {t('notifications.all')}
+              </button>
+              <button
+                onClick={() => setUnreadOnly(true)}
+                className={`px-4 py-2 ${unreadOnly ? 'bg-emerald-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+              >
+                {t('notifications.unread')}
+              </button>
+            </div>
+            <button
+              onClick={() => handleMarkRead()}
+              disabled={unreadCount === 0}
+              className="flex items-center space-x-1 px-4 py-2 text-sm text-emerald-700 border border-emerald-300 rounded-lg hover:bg-emerald-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              <CheckCheck className="h-4 w-4" />
+              <span>{t('notifications.markAllRead')}</span>
+            </button>
+          </div>
+        </div>
+
+        {error && <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">{error}</div>}
+
+        {loading ? (
+          <div className="flex justify-center items-center py-20">
+            <Loader className="h-8 w-8 animate-spin text-emerald-600" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-md p-12 text-center">
+            <Bell className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">{unreadOnly ? t('notifications.emptyUnread') : t('notifications.empty')}</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-md divide-y divide-gray-100">
+            {notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={`p-5 flex items-start space-x-4 ${notification.read_at ? '' : 'bg-emerald-50/50'}`}
+              >
+                <span
+                  className={`mt-2 h-2 w-2 rounded-full flex-shrink-0 ${
+                    notification.read_at ? 'bg-transparent' : 'bg-emerald-600'
+                  }`}
+                />
+                <div className="flex-1 min-w-0">
+                  <button
+                    onClick={() => handleOpen(notification)}
+                    disabled={!notification.project_id && !!notification.read_at}
+                    className="text-left w-full disabled:cursor-default"
+                  >
+                    <p className="font-medium text-gray-900">{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{notification.body}</p>
+                    )}
+                  </button>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {t(getNotificationCategoryKey(notification.category))} ·{' '}
+                    {formatDate(notification.created_at, {
+                      year: 'numeric',
+                      month: 'short',
+                      day: 'numeric',
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </p>
+                </div>
+                {!notification.read_at && (
+                  <button
+                    onClick={() => handleMarkRead([notification.id])}
+                    className="text-xs text-gray-500 hover:text-emerald-600 whitespace-nowrap"
+                  >
+                    {t('notifications.markRead')}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasMore && (
+          <div className="text-center">
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="px-6 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loadingMore ? t('notifications.loading') : t('notifications.loadMore')}
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 h-fit">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">{t('notifications.preferences')}</h2>
+        <p className="text-sm text-gray-500 mb-4">{t('notifications.preferencesIntro')}</p>
+        <div className="space-y-3">
+          {(Object.keys(notificationPreferenceKeys) as NotificationPreference[]).map((key) => (
+            <label key={key} className="flex items-start space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={preferences[key]}
+                onChange={() => togglePreference(key)}
+                disabled={savingPreference !== null}
+                className="mt-1 h-4 w-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+              />
+              <span>
+                <span className="block text-sm text-gray-900">{t(notificationPreferenceKeys[key].label)}</span>
+                <span className="block text-xs text-gray-500">{t(notificationPreferenceKeys[key].description)}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
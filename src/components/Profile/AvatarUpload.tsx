@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { Camera, Loader } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { ImageError, uploadAvatar } from '../../lib/images';
+
+export function AvatarUpload() {
+  const { profile, updateProfile } = useAuth();
+  const { t } = useI18n();
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!profile) return null;
+
+  const handleSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError('');
+    setUploading(true);
+    try {
+      await updateProfile({ avatar_url: await uploadAvatar(profile.id, file) });
+    } catch (err) {
+      setError(
+        err instanceof ImageError
+          ? t(err.key, err.params)
+          : err instanceof Error
+            ? err.message
+            : t('profile.avatarFailed')
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center">
+      <label className="relative w-16 h-16 rounded-full overflow-hidden bg-emerald-100 flex items-center justify-center cursor-pointer group">
+        {profile.avatar_url ? (
+          <img src={profile.avatar_url} alt={profile.full_name} className="w-full h-full object-cover" />
+        ) : (
+          <span className="text-emerald-600 font-medium text-xl">{profile.full_name.charAt(0).toUpperCase()}</span>
+        )}
+        <span className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+          {uploading ? <Loader className="h-5 w-5 text-white animate-spin" /> : <Camera className="h-5 w-5 text-white" />}
+        </span>
+        <input
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          onChange={handleSelect}
+          className="hidden"
+          disabled={uploading}
+        />
+      </label>
+      {error && <p className="mt-1 text-xs text-red-600 max-w-[10rem] text-center">{error}</p>}
+    </div>
+  );
+}
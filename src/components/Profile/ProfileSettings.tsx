@@ -0,0 +1,286 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { LOCALES, localeNames, type Locale } from '../../lib/i18n';
+import {
+  changePassword,
+  deleteAccount,
+  notificationPreferenceKeys,
+  AccountError,
+  parseNotificationPreferences,
+  type NotificationPreference,
+  type NotificationPreferences,
+} from '../../lib/account';
+import { AvatarUpload } from './AvatarUpload';
+
+interface ProfileSettingsProps {
+  onAccountDeleted: () => void;
+}
+
+const inputClass =
+  'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent';
+
+const DELETE_CONFIRMATION = 'DELETE';
+
+export function ProfileSettings({ onAccountDeleted }: ProfileSettingsProps) {
+  const { user, profile, updateProfile } = useAuth();
+  const { locale, setLocale, t } = useI18n();
+
+  const [details, setDetails] = useState({ full_name: '', bio: '', location: '' });
+  const [preferences, setPreferences] = useState<NotificationPreferences>(parseNotificationPreferences({}));
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [profileMessage, setProfileMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' });
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [passwordMessage, setPasswordMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState('');
+
+  useEffect(() => {
+    if (!profile) return;
+    setDetails({ full_name: profile.full_name, bio: profile.bio, location: profile.location || '' });
+    setPreferences(parseNotificationPreferences(profile.notification_preferences));
+  }, [profile?.id]);
+
+  if (!user || !profile) return null;
+
+  const handleProfileSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileMessage(null);
+    setSavingProfile(true);
+    try {
+      await updateProfile({
+        full_name: details.full_name.trim(),
+        bio: details.bio.trim(),
+        location: details.location.trim() || null,
+        notification_preferences: preferences,
+      });
+      setProfileMessage({ type: 'success', text: t('profile.saved') });
+    } catch (err) {
+      setProfileMessage({ type: 'error', text: err instanceof Error ? err.message : t('profile.saveFailed') });
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordMessage(null);
+    if (passwords.next !== passwords.confirm) {
+      setPasswordMessage({ type: 'error', text: t('profile.passwordMismatch') });
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      await changePassword(user.email || '', passwords.current, passwords.next);
+      setPasswords({ current: '', next: '', confirm: '' });
+      setPasswordMessage({ type: 'success', text: t('profile.passwordChanged') });
+    } catch (err) {
+      const text =
+        err instanceof AccountError
+          ? t(err.key, err.params)
+          : err instanceof Error
+            ? err.message
+            : t('profile.passwordFailed');
+      setPasswordMessage({ type: 'error', text });
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setDeleteError('');
+    setDeleting(true);
+    try {
+      await deleteAccount();
+      onAccountDeleted();
+    } catch (err) {
+      setDeleteError(err instanceof Error ? err.message : t('profile.deleteFailed'));
+      setDeleting(false);
+    }
+  };
+
+  const renderMessage = (message: { type: 'success' | 'error'; text: string } | null) =>
+    message && (
+      <p
+        className={`text-sm flex items-center space-x-1 ${
+          message.type === 'success' ? 'text-emerald-700' : 'text-red-600'
+        }`}
+      >
+        {message.type === 'success' && <CheckCircle className="h-4 w-4" />}
+        <span>{message.text}</span>
+      </p>
+    );
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{t('profile.title')}</h1>
+        <p className="text-gray-600">{t('profile.subtitle')}</p>
+      </div>
+
+      <form onSubmit={handleProfileSubmit} className="bg-white rounded-xl shadow-md p-8 space-y-6">
+        <div className="flex items-center space-x-4">
+          <AvatarUpload />
+          <div>
+            <p className="font-medium text-gray-900">{user.email}</p>
+            <p className="text-sm text-gray-500">{t('profile.avatarHint')}</p>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('profile.fullName')}</label>
+          <input
+            type="text"
+            value={details.full_name}
+            onChange={(e) => setDetails({ ...details, full_name: e.target.value })}
+            required
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t('profile.bio')}</label>
+          <textarea
+            value={details.bio}
+            onChange={(e) => setDetails({ ...details, bio: e.target.value })}
+            rows={4}
+            placeholder={t('profile.bioPlaceholder')}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('profile.location')}</label>
+            <input
+              type="text"
+              value={details.location}
+              onChange={(e) => setDetails({ ...details, location: e.target.value })}
+              placeholder={t('profile.locationPlaceholder')}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t('profile.language')}</label>
+            <select value={locale} onChange={(e) => setLocale(e.target.value as Locale)} className={inputClass}>
+              {LOCALES.map((code) => (
+                <option key={code} value={code}>
+                  {localeNames[code]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">{t('profile.notifyMe')}</p>
+          <div className="space-y-3">
+            {(Object.keys(notificationPreferenceKeys) as NotificationPreference[]).map((key) => (
+              <label key={key} className="flex items-start space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preferences[key]}
+                  onChange={(e) => setPreferences({ ...preferences, [key]: e.target.checked })}
+                  className="mt-1 h-4 w-4 text-emerald-600 border-gray-300 rounded focus:ring-emerald-500"
+                />
+                <span>
+                  <span className="block text-sm text-gray-900">{t(notificationPreferenceKeys[key].label)}</span>
+                  <span className="block text-xs text-gray-500">{t(notificationPreferenceKeys[key].description)}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          {renderMessage(profileMessage) || <span />}
+          <button
+            type="submit"
+            disabled={savingProfile}
+            className="px-6 py-2 text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {savingProfile ? t('profile.saving') : t('profile.save')}
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handlePasswordSubmit} className="bg-white rounded-xl shadow-md p-8 space-y-4">
+        <h2 className="text-2xl font-bold text-gray-900">{t('profile.changePassword')}</h2>
+        <input
+          type="password"
+          value={passwords.current}
+          onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+          required
+          autoComplete="current-password"
+          placeholder={t('profile.currentPassword')}
+          className={inputClass}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="password"
+            value={passwords.next}
+            onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+            required
+            minLength={6}
+            autoComplete="new-password"
+            placeholder={t('profile.newPassword')}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={passwords.confirm}
+            onChange={(e) => setPasswords({ ...passwords, confirm: e.target.value })}
+            required
+            minLength={6}
+            autoComplete="new-password"
+            placeholder={t('profile.confirmPassword')}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          {renderMessage(passwordMessage) || <span />}
+          <button
+            type="submit"
+            disabled={changingPassword}
+            className="px-6 py-2 text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {changingPassword ? t('profile.changingPassword') : t('profile.changePassword')}
+          </button>
+        </div>
+      </form>
+
+      <div className="bg-white rounded-xl shadow-md p-8 border border-red-200 space-y-4">
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className="h-6 w-6 text-red-600 flex-shrink-0" />
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-1">{t('profile.deleteTitle')}</h2>
+            <p className="text-sm text-gray-600">{t('profile.deleteText')}</p>
+          </div>
+        </div>
+        {deleteError && <p className="text-sm text-red-600">{deleteError}</p>}
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <input
+            type="text"
+            value={deleteConfirmation}
+            onChange={(e) => setDeleteConfirmation(e.target.value)}
+            placeholder={t('profile.deleteConfirm', { word: DELETE_CONFIRMATION })}
+            className={`flex-1 ${inputClass}`}
+          />
+          <button
+            onClick={handleDelete}
+            disabled={deleting || deleteConfirmation !== DELETE_CONFIRMATION}
+            className="px-6 py-2 text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {deleting ? t('profile.deleting') : t('profile.delete')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect } from 'react';
-import { AlertCircle, Loader, Save } from 'lucide-react';
+import { AlertCircle, ImagePlus, Loader, Save, Star, X } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { isVerificationCurrent } from '../../lib/verification';
+import { ImageError, getThumbnailUrl, uploadProjectImage } from '../../lib/images';
+import { SUPPORTED_CURRENCIES, getCurrencyName } from '../../lib/currency';
 import type { Database } from '../../lib/database.types';
 
 type Category = Database['public']['Tables']['categories']['Row'];
@@ -12,20 +16,25 @@ interface CreateProjectProps {
 }
 
 export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
+  const { t, locale } = useI18n();
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [currencyLocked, setCurrencyLocked] = useState(false);
+  const [launched, setLaunched] = useState(false);
 
   const [formData, setFormData] = useState({
     title: '',
     description: '',
     goal_amount: '',
+    currency: 'USD',
     category_id: '',
     location: '',
     end_date: '',
-    image_url: '',
   });
+  const [images, setImages] = useState<string[]>([]);
+  const [uploading, setUploading] = useState(false);
 
   useEffect(() => {
     loadCategories();
@@ -48,7 +57,7 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
       .maybeSingle();
 
     if (error) {
-      setError('Failed to load project');
+      setError(t('createProject.loadFailed'));
       return;
     }
 
@@ -57,14 +66,47 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
         title: data.title,
         description: data.description,
         goal_amount: data.goal_amount.toString(),
+        currency: data.currency,
         category_id: data.category_id || '',
         location: data.location,
         end_date: data.end_date ? data.end_date.split('T')[0] : '',
-        image_url: data.image_url || '',
       });
+      setImages(data.gallery_urls.length > 0 ? data.gallery_urls : data.image_url ? [data.image_url] : []);
+      // Totals are kept in the project currency, so it is fixed once money arrives
+      setCurrencyLocked(data.raised_amount > 0);
+      // Past review the status follows the campaign lifecycle, not this form
+      setLaunched(!['draft', 'pending_review'].includes(data.status));
     }
   };
 
+  const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!user || files.length === 0) return;
+
+    setError('');
+    setUploading(true);
+    try {
+      for (const file of files) {
+        const url = await uploadProjectImage(user.id, file);
+        setImages((current) => [...current, url]);
+      }
+    } catch (err) {
+      setError(
+        err instanceof ImageError
+          ? t(err.key, err.params)
+          : err instanceof Error
+            ? err.message
+            : t('createProject.uploadFailed')
+      );
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // The first image is the cover shown on project cards
+  const makeCover = (url: string) => setImages([url, ...images.filter((image) => image !== url)]);
+
   const handleSubmit = async (e: React.FormEvent, status: 'draft' | 'pending_review') => {
     e.preventDefault();
     if (!user) return;
@@ -77,12 +119,15 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
         title: formData.title,
         description: formData.description,
         goal_amount: parseFloat(formData.goal_amount),
+        currency: formData.currency,
         category_id: formData.category_id || null,
         location: formData.location,
         end_date: formData.end_date || null,
-        image_url: formData.image_url || null,
-        status,
+        image_url: images[0] || null,
+        thumbnail_url: images[0] ? getThumbnailUrl(images[0]) : null,
+        gallery_urls: images,
         creator_id: user.id,
+        ...(launched ? {} : { status }),
       };
 
       if (projectId) {
@@ -100,17 +145,19 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
 
       onSuccess();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save project');
+      setError(err instanceof Error ? err.message : t('createProject.saveFailed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const canSubmitForReview = !!profile && isVerificationCurrent(profile);
+
   return (
     <div className="max-w-3xl mx-auto">
       <div className="bg-white rounded-xl shadow-md p-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">
-          {projectId ? 'Edit Project' : 'Create New Project'}
+          {projectId ? t('createProject.editTitle') : t('createProject.createTitle')}
         </h2>
 
         {error && (
@@ -123,7 +170,7 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
         <form className="space-y-6">
           <div>
             <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
-              Project Title <span className="text-red-500">*</span>
+              {t('createProject.title')} <span className="text-red-500">*</span>
             </label>
             <input
               id="title"
@@ -132,13 +179,13 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
               onChange={(e) => setFormData({ ...formData, title: e.target.value })}
               required
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-              placeholder="Give your project a compelling title"
+              placeholder={t('createProject.titlePlaceholder')}
             />
           </div>
 
           <div>
             <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
-              Project Description <span className="text-red-500">*</span>
+              {t('createProject.description')} <span className="text-red-500">*</span>
             </label>
             <textarea
               id="description"
@@ -147,31 +194,47 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
               required
               rows={6}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-              placeholder="Describe your project, its goals, and how the funds will be used..."
+              placeholder={t('createProject.descriptionPlaceholder')}
             />
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <label htmlFor="goal_amount" className="block text-sm font-medium text-gray-700 mb-2">
-                Funding Goal ($) <span className="text-red-500">*</span>
+                {t('createProject.goal')} <span className="text-red-500">*</span>
               </label>
-              <input
-                id="goal_amount"
-                type="number"
-                min="1"
-                step="0.01"
-                value={formData.goal_amount}
-                onChange={(e) => setFormData({ ...formData, goal_amount: e.target.value })}
-                required
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                placeholder="10000"
-              />
+              <div className="flex space-x-2">
+                <input
+                  id="goal_amount"
+                  type="number"
+                  min="1"
+                  step="0.01"
+                  value={formData.goal_amount}
+                  onChange={(e) => setFormData({ ...formData, goal_amount: e.target.value })}
+                  required
+                  className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                  placeholder="10000"
+                />
+                <select
+                  value={formData.currency}
+                  onChange={(e) => setFormData({ ...formData, currency: e.target.value })}
+                  disabled={currencyLocked}
+                  aria-label={t('createProject.currency')}
+                  title={currencyLocked ? t('createProject.currencyLocked') : undefined}
+                  className="px-3 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent disabled:bg-gray-100"
+                >
+                  {SUPPORTED_CURRENCIES.map((code) => (
+                    <option key={code} value={code}>
+                      {code} - {getCurrencyName(code, locale)}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
             <div>
               <label htmlFor="category" className="block text-sm font-medium text-gray-700 mb-2">
-                Category
+                {t('createProject.category')}
               </label>
               <select
                 id="category"
@@ -179,7 +242,7 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
                 onChange={(e) => setFormData({ ...formData, category_id: e.target.value })}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
               >
-                <option value="">Select a category</option>
+                <option value="">{t('createProject.selectCategory')}</option>
                 {categories.map((category) => (
                   <option key={category.id} value={category.id}>
                     {category.name}
@@ -192,7 +255,7 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <label htmlFor="location" className="block text-sm font-medium text-gray-700 mb-2">
-                Location <span className="text-red-500">*</span>
+                {t('createProject.location')} <span className="text-red-500">*</span>
               </label>
               <input
                 id="location"
@@ -201,13 +264,13 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
                 onChange={(e) => setFormData({ ...formData, location: e.target.value })}
                 required
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-                placeholder="City, Country"
+                placeholder={t('createProject.locationPlaceholder')}
               />
             </div>
 
             <div>
               <label htmlFor="end_date" className="block text-sm font-medium text-gray-700 mb-2">
-                Campaign End Date
+                {t('createProject.endDate')}
               </label>
               <input
                 id="end_date"
@@ -221,46 +284,80 @@ export function CreateProject({ onSuccess, projectId }: CreateProjectProps) {
           </div>
 
           <div>
-            <label htmlFor="image_url" className="block text-sm font-medium text-gray-700 mb-2">
-              Project Image URL
-            </label>
-            <input
-              id="image_url"
-              type="url"
-              value={formData.image_url}
-              onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
-              placeholder="https://example.com/image.jpg"
-            />
-            <p className="text-sm text-gray-500 mt-1">Use a Pexels link for stock photography</p>
+            <span className="block text-sm font-medium text-gray-700 mb-2">{t('createProject.images')}</span>
+            <div className="flex flex-wrap gap-3">
+              {images.map((url, index) => (
+                <div key={url} className="relative w-28 h-28 rounded-lg overflow-hidden border border-gray-200 group">
+                  <img src={getThumbnailUrl(url)} alt="" className="w-full h-full object-cover" />
+                  {index === 0 ? (
+                    <span className="absolute bottom-1 left-1 px-2 py-0.5 bg-emerald-600 text-white text-xs rounded">
+                      {t('createProject.cover')}
+                    </span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => makeCover(url)}
+                      className="absolute bottom-1 left-1 p-1 bg-white/90 rounded text-gray-700 hover:text-emerald-600"
+                      title={t('createProject.useAsCover')}
+                    >
+                      <Star className="h-3 w-3" />
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setImages(images.filter((image) => image !== url))}
+                    className="absolute top-1 right-1 p-1 bg-white/90 rounded-full text-gray-700 hover:text-red-600"
+                    title={t('createProject.removeImage')}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+              <label className="w-28 h-28 flex flex-col items-center justify-center border-2 border-dashed border-gray-300 rounded-lg text-gray-500 hover:border-emerald-500 hover:text-emerald-600 cursor-pointer transition-colors">
+                {uploading ? <Loader className="h-5 w-5 animate-spin" /> : <ImagePlus className="h-5 w-5" />}
+                <span className="text-xs mt-1">{t('createProject.addImages')}</span>
+                <input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  onChange={handleImageSelect}
+                  className="hidden"
+                  disabled={uploading}
+                />
+              </label>
+            </div>
+            <p className="text-sm text-gray-500 mt-1">{t('createProject.imagesHint')}</p>
           </div>
 
           <div className="flex flex-col sm:flex-row gap-3 pt-4">
             <button
               type="button"
               onClick={(e) => handleSubmit(e, 'draft')}
-              disabled={loading}
+              disabled={loading || uploading}
               className="flex-1 flex items-center justify-center space-x-2 px-6 py-3 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               <Save className="h-5 w-5" />
-              <span>{loading ? 'Saving...' : 'Save as Draft'}</span>
+              <span>{loading ? t('createProject.saving') : t('createProject.saveDraft')}</span>
             </button>
             <button
               type="button"
               onClick={(e) => handleSubmit(e, 'pending_review')}
-              disabled={loading}
+              disabled={loading || uploading || !canSubmitForReview}
               className="flex-1 flex items-center justify-center space-x-2 px-6 py-3 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               {loading ? (
                 <>
                   <Loader className="h-5 w-5 animate-spin" />
-                  <span>Submitting...</span>
+                  <span>{t('createProject.submitting')}</span>
                 </>
               ) : (
-                <span>Submit for Review</span>
+                <span>{t('createProject.submitForReview')}</span>
               )}
             </button>
           </div>
+          {!canSubmitForReview && (
+            <p className="text-sm text-gray-600 text-center">{t('createProject.verifyFirst')}</p>
+          )}
         </form>
       </div>
     </div>
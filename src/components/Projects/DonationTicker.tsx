@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Heart } from 'lucide-react';
+import { useI18n } from '../../contexts/I18nContext';
+import type { FundingEvent } from '../../lib/fundingFeed';
+
+interface DonationTickerProps {
+  event: FundingEvent | null;
+}
+
+const DISPLAY_MS = 8000;
+
+export function DonationTicker({ event }: DonationTickerProps) {
+  const { t, formatCurrency } = useI18n();
+  const [shown, setShown] = useState<FundingEvent | null>(null);
+
+  useEffect(() => {
+    if (!event) return;
+    setShown(event);
+    const timer = setTimeout(() => setShown(null), DISPLAY_MS);
+    return () => clearTimeout(timer);
+  }, [event]);
+
+  if (!shown) return null;
+
+  const amount = formatCurrency(shown.amount, shown.currency);
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-emerald-50 border border-emerald-200 text-sm text-emerald-800"
+    >
+      <Heart className="h-4 w-4 flex-shrink-0 fill-emerald-500 text-emerald-500" />
+      <span>
+        {shown.donor_name
+          ? t('project.justDonated', { name: shown.donor_name, amount })
+          : t('project.someoneJustDonated', { amount })}
+      </span>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { MapPin, Target, TrendingUp, Calendar } from 'lucide-react';
+import { useI18n } from '../../contexts/I18nContext';
+import { getDaysLeft, isCampaignEnded } from '../../lib/projectLifecycle';
 import type { Database } from '../../lib/database.types';
 
 type Project = Database['public']['Tables']['projects']['Row'] & {
   categories?: { name: string; icon: string } | null;
-  profiles?: { full_name: string; is_verified: boolean } | null;
+  profiles?: { full_name: string; is_verified: boolean; avatar_url?: string | null } | null;
 };
 
 interface ProjectCardProps {
@@ -12,10 +14,10 @@ interface ProjectCardProps {
 }
 
 export function ProjectCard({ project, onClick }: ProjectCardProps) {
+  const { t, formatCurrency, formatNumber } = useI18n();
   const progress = (project.raised_amount / project.goal_amount) * 100;
-  const daysLeft = project.end_date
-    ? Math.max(0, Math.ceil((new Date(project.end_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
-    : null;
+  const daysLeft = getDaysLeft(project.end_date);
+  const ended = isCampaignEnded(project);
 
   const statusColors = {
     active: 'bg-green-100 text-green-800',
@@ -34,7 +36,7 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
       <div className="relative h-48 bg-gradient-to-br from-emerald-100 to-teal-100 overflow-hidden">
         {project.image_url ? (
           <img
-            src={project.image_url}
+            src={project.thumbnail_url || project.image_url}
             alt={project.title}
             className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
           />
@@ -72,10 +74,10 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
           <div>
             <div className="flex justify-between items-center mb-2">
               <span className="text-2xl font-bold text-gray-900">
-                ${project.raised_amount.toLocaleString()}
+                {formatCurrency(project.raised_amount, project.currency)}
               </span>
               <span className="text-sm text-gray-600">
-                of ${project.goal_amount.toLocaleString()}
+                of {formatCurrency(project.goal_amount, project.currency)}
               </span>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
@@ -89,13 +91,20 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
           <div className="flex justify-between items-center text-sm">
             <div className="flex items-center space-x-1 text-gray-600">
               <TrendingUp className="h-4 w-4" />
-              <span>{progress.toFixed(0)}% funded</span>
+              <span>{t('project.funded', { percent: formatNumber(progress, { maximumFractionDigits: 0 }) })}</span>
             </div>
-            {daysLeft !== null && (
+            {ended ? (
               <div className="flex items-center space-x-1 text-gray-600">
                 <Calendar className="h-4 w-4" />
-                <span>{daysLeft} days left</span>
+                <span>{t('project.ended')}</span>
               </div>
+            ) : (
+              daysLeft !== null && (
+                <div className="flex items-center space-x-1 text-gray-600">
+                  <Calendar className="h-4 w-4" />
+                  <span>{t('project.daysLeft', { count: daysLeft })}</span>
+                </div>
+              )
             )}
           </div>
         </div>
@@ -103,15 +112,19 @@ export function ProjectCard({ project, onClick }: ProjectCardProps) {
         {project.profiles && (
           <div className="mt-4 pt-4 border-t border-gray-100">
             <div className="flex items-center space-x-2">
-              <div className="w-8 h-8 bg-emerald-100 rounded-full flex items-center justify-center">
-                <span className="text-emerald-600 font-medium text-sm">
-                  {project.profiles.full_name.charAt(0).toUpperCase()}
-                </span>
-              </div>
+              {project.profiles.avatar_url ? (
+                <img src={project.profiles.avatar_url} alt="" className="w-8 h-8 rounded-full object-cover" />
+              ) : (
+                <div className="w-8 h-8 bg-emerald-100 rounded-full flex items-center justify-center">
+                  <span className="text-emerald-600 font-medium text-sm">
+                    {project.profiles.full_name.charAt(0).toUpperCase()}
+                  </span>
+                </div>
+              )}
               <div>
                 <p className="text-sm font-medium text-gray-900">{project.profiles.full_name}</p>
                 {project.profiles.is_verified && (
-                  <p className="text-xs text-emerald-600">Verified Creator</p>
+                  <p className="text-xs text-emerald-600">{t('project.verifiedCreator')}</p>
                 )}
               </div>
             </div>
@@ -0,0 +1,416 @@
+import { useEffect, useState } from 'react';
+import { MessageSquare, Loader, Reply, Edit2, Trash2, EyeOff, Eye } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import type { Database } from '../../lib/database.types';
+
+type Comment = Database['public']['Tables']['comments']['Row'] & {
+  author?: { full_name: string } | null;
+};
+
+interface ProjectCommentsProps {
+  projectId: string;
+  creatorId: string;
+}
+
+const PAGE_SIZE = 10;
+
+export function ProjectComments({ projectId, creatorId }: ProjectCommentsProps) {
+  const { user, profile } = useAuth();
+  const { t, formatDate } = useI18n();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [replies, setReplies] = useState<Record<string, Comment[]>>({});
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [editWindowMinutes, setEditWindowMinutes] = useState(15);
+  const [newComment, setNewComment] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const isAdmin = profile?.role === 'admin';
+
+  useEffect(() => {
+    loadComments(0, true);
+    supabase.rpc('comment_edit_window_minutes').then(({ data }) => {
+      if (data) setEditWindowMinutes(data);
+    });
+  }, [projectId]);
+
+  const loadComments = async (offset: number, reset = false) => {
+    if (reset) setLoading(true);
+    else setLoadingMore(true);
+
+    try {
+      const { data, error, count } = await supabase
+        .from('comments')
+        .select('*, author:profiles!comments_user_id_fkey (full_name)', { count: 'exact' })
+        .eq('project_id', projectId)
+        .is('parent_id', null)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const page = data || [];
+      setComments((current) => (reset ? page : [...current, ...page]));
+      setTotalCount(count || 0);
+      await loadReplies(page.map((comment) => comment.id), reset);
+    } catch (error) {
+      console.error('Error loading comments:', error);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  const loadReplies = async (parentIds: string[], reset = false) => {
+    if (parentIds.length === 0) {
+      if (reset) setReplies({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('comments')
+      .select('*, author:profiles!comments_user_id_fkey (full_name)')
+      .in('parent_id', parentIds)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const grouped: Record<string, Comment[]> = {};
+    for (const reply of data || []) {
+      if (!reply.parent_id) continue;
+      grouped[reply.parent_id] = [...(grouped[reply.parent_id] || []), reply];
+    }
+    setReplies((current) => (reset ? grouped : { ...current, ...grouped }));
+  };
+
+  const refreshThread = async (rootId: string) => {
+    const { data: root } = await supabase
+      .from('comments')
+      .select('*, author:profiles!comments_user_id_fkey (full_name)')
+      .eq('id', rootId)
+      .maybeSingle();
+
+    if (root) {
+      setComments((current) => current.map((comment) => (comment.id === rootId ? root : comment)));
+    }
+    await loadReplies([rootId]);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    setSubmitting(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('comments.failed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !newComment.trim()) return;
+
+    runAction(async () => {
+      const { error } = await supabase.from('comments').insert({
+        project_id: projectId,
+        user_id: user.id,
+        content: newComment.trim(),
+      });
+      if (error) throw error;
+      setNewComment('');
+      await loadComments(0, true);
+    });
+  };
+
+  const handleReply = (e: React.FormEvent, rootId: string) => {
+    e.preventDefault();
+    if (!user || !replyText.trim()) return;
+
+    runAction(async () => {
+      const { error } = await supabase.from('comments').insert({
+        project_id: projectId,
+        user_id: user.id,
+        parent_id: rootId,
+        content: replyText.trim(),
+      });
+      if (error) throw error;
+      setReplyTo(null);
+      setReplyText('');
+      await loadReplies([rootId]);
+    });
+  };
+
+  const handleEdit = (e: React.FormEvent, comment: Comment) => {
+    e.preventDefault();
+    if (!editText.trim()) return;
+
+    runAction(async () => {
+      const { error } = await supabase
+        .from('comments')
+        .update({ content: editText.trim() })
+        .eq('id', comment.id);
+      if (error) throw error;
+      setEditingId(null);
+      await refreshThread(comment.parent_id || comment.id);
+    });
+  };
+
+  const handleDelete = (comment: Comment) => {
+    if (!window.confirm(t('comments.confirmDelete'))) return;
+
+    runAction(async () => {
+      const { error } = await supabase
+        .from('comments')
+        .update({ deleted_at: new Date().toISOString() })
+        .eq('id', comment.id);
+      if (error) throw error;
+      await refreshThread(comment.parent_id || comment.id);
+    });
+  };
+
+  const handleToggleHidden = (comment: Comment) => {
+    runAction(async () => {
+      const { error } = await supabase
+        .from('comments')
+        .update({ is_hidden: !comment.is_hidden })
+        .eq('id', comment.id);
+      if (error) throw error;
+      await refreshThread(comment.parent_id || comment.id);
+    });
+  };
+
+  const canEdit = (comment: Comment) =>
+    user?.id === comment.user_id &&
+    !comment.deleted_at &&
+    Date.now() - new Date(comment.created_at).getTime() < editWindowMinutes * 60 * 1000;
+
+  const renderComment = (comment: Comment, rootId: string) => {
+    const isCreator = comment.user_id === creatorId;
+    const isOwn = user?.id === comment.user_id;
+
+    return (
+      <div key={comment.id} className={comment.is_hidden ? 'opacity-60' : ''}>
+        <div className="flex items-start space-x-3">
+          <div className="w-9 h-9 bg-emerald-100 rounded-full flex items-center justify-center flex-shrink-0">
+            <span className="text-emerald-600 font-medium text-sm">
+              {(comment.author?.full_name || '?').charAt(0).toUpperCase()}
+            </span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="font-medium text-gray-900">{comment.author?.full_name || t('comments.unknownAuthor')}</span>
+              {isCreator && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                  {t('comments.creator')}
+                </span>
+              )}
+              {comment.is_hidden && (
+                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                  {t('comments.hidden')}
+                </span>
+              )}
+              <span className="text-xs text-gray-500">
+                {formatDate(comment.created_at, {
+                  year: 'numeric',
+                  month: 'short',
+                  day: 'numeric',
+                  hour: 'numeric',
+                  minute: '2-digit',
+                })}
+                {comment.edited_at && ` · ${t('comments.edited')}`}
+              </span>
+            </div>
+
+            {editingId === comment.id ? (
+              <form onSubmit={(e) => handleEdit(e, comment)} className="space-y-2">
+                <textarea
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+                />
+                <div className="flex space-x-2">
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="px-3 py-1 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    {t('comments.save')}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                  >
+                    {t('comments.cancel')}
+                  </button>
+                </div>
+              </form>
+            ) : comment.deleted_at ? (
+              <p className="text-sm text-gray-400 italic">{t('comments.deleted')}</p>
+            ) : (
+              <p className="text-gray-700 whitespace-pre-line break-words">{comment.content}</p>
+            )}
+
+            {editingId !== comment.id && !comment.deleted_at && (
+              <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500">
+                {user && (
+                  <button
+                    onClick={() => {
+                      setReplyTo(rootId);
+                      setReplyText('');
+                    }}
+                    className="flex items-center space-x-1 hover:text-emerald-600"
+                  >
+                    <Reply className="h-3 w-3" />
+                    <span>{t('comments.reply')}</span>
+                  </button>
+                )}
+                {canEdit(comment) && (
+                  <button
+                    onClick={() => {
+                      setEditingId(comment.id);
+                      setEditText(comment.content);
+                    }}
+                    className="flex items-center space-x-1 hover:text-emerald-600"
+                  >
+                    <Edit2 className="h-3 w-3" />
+                    <span>{t('comments.edit')}</span>
+                  </button>
+                )}
+                {(isOwn || isAdmin) && (
+                  <button
+                    onClick={() => handleDelete(comment)}
+                    className="flex items-center space-x-1 hover:text-red-600"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    <span>{t('comments.delete')}</span>
+                  </button>
+                )}
+                {isAdmin && (
+                  <button
+                    onClick={() => handleToggleHidden(comment)}
+                    className="flex items-center space-x-1 hover:text-red-600"
+                  >
+                    {comment.is_hidden ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+                    <span>{comment.is_hidden ? t('comments.unhide') : t('comments.hide')}</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-8">
+      <div className="flex items-center space-x-2 mb-6">
+        <MessageSquare className="h-6 w-6 text-emerald-600" />
+        <h2 className="text-2xl font-bold text-gray-900">{t('comments.title')}</h2>
+        {totalCount > 0 && <span className="text-gray-500">({totalCount})</span>}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800 mb-6">{error}</div>
+      )}
+
+      {user ? (
+        <form onSubmit={handlePost} className="mb-8 space-y-3">
+          <textarea
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            rows={3}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+            placeholder={t('comments.placeholder')}
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={submitting || !newComment.trim()}
+              className="px-6 py-2 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('comments.post')}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-gray-600 mb-8">{t('comments.signInPrompt')}</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader className="h-6 w-6 animate-spin text-emerald-600" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">{t('comments.empty')}</p>
+      ) : (
+        <div className="space-y-6">
+          {comments.map((comment) => (
+            <div key={comment.id} className="border-b last:border-b-0 pb-6 last:pb-0">
+              {renderComment(comment, comment.id)}
+
+              {(replies[comment.id]?.length || replyTo === comment.id) && (
+                <div className="ml-12 mt-4 pl-4 border-l-2 border-gray-100 space-y-4">
+                  {replies[comment.id]?.map((reply) => renderComment(reply, comment.id))}
+
+                  {replyTo === comment.id && (
+                    <form onSubmit={(e) => handleReply(e, comment.id)} className="space-y-2">
+                      <textarea
+                        value={replyText}
+                        onChange={(e) => setReplyText(e.target.value)}
+                        rows={2}
+                        autoFocus
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent text-sm"
+                        placeholder={t('comments.replyPlaceholder')}
+                      />
+                      <div className="flex space-x-2">
+                        <button
+                          type="submit"
+                          disabled={submitting || !replyText.trim()}
+                          className="px-3 py-1 text-sm text-white bg-emerald-600 rounded-lg hover:bg-emerald-700 disabled:opacity-50"
+                        >
+                          {t('comments.reply')}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setReplyTo(null)}
+                          className="px-3 py-1 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+                        >
+                          {t('comments.cancel')}
+                        </button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {comments.length < totalCount && (
+            <div className="text-center">
+              <button
+                onClick={() => loadComments(comments.length)}
+                disabled={loadingMore}
+                className="px-6 py-2 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 disabled:opacity-50 transition-colors"
+              >
+                {loadingMore ? t('comments.loading') : t('comments.loadMore')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useEffect, useState } from 'react';
+import Markdown from 'react-markdown';
 import {
   MapPin,
   Target,
@@ -6,21 +7,22 @@ import {
   Heart,
   Share2,
   Loader,
-  MessageSquare,
   TrendingUp,
   AlertCircle,
+  Flag,
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
-import { useAuth } from '../../contexts/AuthContext';
+import { useI18n } from '../../contexts/I18nContext';
+import { getDaysLeft, isAcceptingDonations, isCampaignEnded } from '../../lib/projectLifecycle';
+import { getThumbnailUrl } from '../../lib/images';
+import { fetchFundingEvents, subscribeToFunding, type FundingEvent } from '../../lib/fundingFeed';
+import { ProjectComments } from './ProjectComments';
+import { DonationTicker } from './DonationTicker';
 import type { Database } from '../../lib/database.types';
 
 type Project = Database['public']['Tables']['projects']['Row'] & {
   categories?: { name: string; icon: string } | null;
-  profiles?: { full_name: string; is_verified: boolean; bio: string } | null;
-};
-
-type Donation = Database['public']['Tables']['donations']['Row'] & {
-  profiles?: { full_name: string } | null;
+  profiles?: { full_name: string; is_verified: boolean; bio: string; avatar_url: string | null } | null;
 };
 
 type ProjectUpdate = Database['public']['Tables']['project_updates']['Row'];
@@ -28,20 +30,37 @@ type ProjectUpdate = Database['public']['Tables']['project_updates']['Row'];
 interface ProjectDetailProps {
   projectId: string;
   onBack: () => void;
-  onDonate: () => void;
+  onDonate: (projectTitle: string, projectCurrency: string) => void;
 }
 
 export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProps) {
-  const { user } = useAuth();
   const [project, setProject] = useState<Project | null>(null);
-  const [donations, setDonations] = useState<Donation[]>([]);
+  const [donations, setDonations] = useState<FundingEvent[]>([]);
+  const [latestDonation, setLatestDonation] = useState<FundingEvent | null>(null);
   const [updates, setUpdates] = useState<ProjectUpdate[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedImage, setSelectedImage] = useState(0);
+  const { t, formatCurrency, formatDate, formatNumber } = useI18n();
 
   useEffect(() => {
+    setSelectedImage(0);
+    setLatestDonation(null);
     loadProject();
     loadDonations();
     loadUpdates();
+
+    return subscribeToFunding([projectId], {
+      onProject: (progress) =>
+        setProject((current) => (current?.id === progress.id ? { ...current, ...progress } : current)),
+      onDonation: (event) => {
+        setDonations((current) =>
+          [event, ...current.filter((donation) => donation.donation_id !== event.donation_id)].slice(0, 10)
+        );
+        setLatestDonation(event);
+      },
+      onDonationRemoved: (donationId) =>
+        setDonations((current) => current.filter((donation) => donation.donation_id !== donationId)),
+    });
   }, [projectId]);
 
   const loadProject = async () => {
@@ -52,7 +71,7 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
         .select(`
           *,
           categories (name, icon),
-          profiles (full_name, is_verified, bio)
+          profiles!projects_creator_id_fkey (full_name, is_verified, bio, avatar_url)
         `)
         .eq('id', projectId)
         .maybeSingle();
@@ -67,18 +86,11 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
   };
 
   const loadDonations = async () => {
-    const { data } = await supabase
-      .from('donations')
-      .select(`
-        *,
-        profiles (full_name)
-      `)
-      .eq('project_id', projectId)
-      .eq('status', 'completed')
-      .order('created_at', { ascending: false })
-      .limit(10);
-
-    if (data) setDonations(data);
+    try {
+      setDonations(await fetchFundingEvents(projectId));
+    } catch (error) {
+      console.error('Error loading donations:', error);
+    }
   };
 
   const loadUpdates = async () => {
@@ -103,21 +115,21 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
     return (
       <div className="text-center py-20">
         <AlertCircle className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-        <p className="text-gray-600">Project not found</p>
+        <p className="text-gray-600">{t('project.notFound')}</p>
         <button
           onClick={onBack}
           className="mt-4 text-emerald-600 hover:text-emerald-700 font-medium"
         >
-          Go back
+          {t('project.goBack')}
         </button>
       </div>
     );
   }
 
   const progress = (project.raised_amount / project.goal_amount) * 100;
-  const daysLeft = project.end_date
-    ? Math.max(0, Math.ceil((new Date(project.end_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
-    : null;
+  const images = project.gallery_urls.length > 0 ? project.gallery_urls : project.image_url ? [project.image_url] : [];
+  const daysLeft = getDaysLeft(project.end_date);
+  const ended = isCampaignEnded(project);
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -125,15 +137,19 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
         onClick={onBack}
         className="mb-6 text-gray-600 hover:text-emerald-600 font-medium transition-colors"
       >
-        ← Back to Projects
+        {t('project.back')}
       </button>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 space-y-6">
           <div className="bg-white rounded-xl shadow-md overflow-hidden">
             <div className="relative h-96 bg-gradient-to-br from-emerald-100 to-teal-100">
-              {project.image_url ? (
-                <img src={project.image_url} alt={project.title} className="w-full h-full object-cover" />
+              {images.length > 0 ? (
+                <img
+                  src={images[Math.min(selectedImage, images.length - 1)]}
+                  alt={project.title}
+                  className="w-full h-full object-cover"
+                />
               ) : (
                 <div className="w-full h-full flex items-center justify-center">
                   <Target className="h-24 w-24 text-emerald-600 opacity-50" />
@@ -141,6 +157,22 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
               )}
             </div>
 
+            {images.length > 1 && (
+              <div className="flex space-x-2 px-8 pt-4 overflow-x-auto">
+                {images.map((url, index) => (
+                  <button
+                    key={url}
+                    onClick={() => setSelectedImage(index)}
+                    className={`flex-shrink-0 w-20 h-14 rounded-lg overflow-hidden border-2 transition-colors ${
+                      index === selectedImage ? 'border-emerald-600' : 'border-transparent hover:border-gray-300'
+                    }`}
+                  >
+                    <img src={getThumbnailUrl(url)} alt="" className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+
             <div className="p-8">
               <div className="flex items-center space-x-2 text-sm text-emerald-600 font-medium mb-3">
                 {project.categories && <span>{project.categories.name}</span>}
@@ -156,7 +188,7 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
                 {project.end_date && (
                   <div className="flex items-center space-x-1">
                     <Calendar className="h-4 w-4" />
-                    <span>Ends {new Date(project.end_date).toLocaleDateString()}</span>
+                    <span>{t('project.ends', { date: formatDate(project.end_date) })}</span>
                   </div>
                 )}
               </div>
@@ -169,17 +201,34 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
 
           {updates.length > 0 && (
             <div className="bg-white rounded-xl shadow-md p-8">
-              <h2 className="text-2xl font-bold text-gray-900 mb-6">Project Updates</h2>
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('project.updates')}</h2>
               <div className="space-y-6">
                 {updates.map((update) => (
                   <div key={update.id} className="border-l-4 border-emerald-500 pl-4">
+                    {update.is_milestone && (
+                      <div className="inline-flex items-center space-x-1 px-2 py-1 mb-2 rounded-full text-xs font-medium bg-emerald-100 text-emerald-800">
+                        <Flag className="h-3 w-3" />
+                        <span>{update.milestone_label || t('project.milestone')}</span>
+                      </div>
+                    )}
                     <div className="flex items-center justify-between mb-2">
                       <h3 className="font-semibold text-gray-900">{update.title}</h3>
                       <span className="text-sm text-gray-500">
-                        {new Date(update.created_at).toLocaleDateString()}
+                        {formatDate(update.created_at)}
                       </span>
                     </div>
-                    <p className="text-gray-700 whitespace-pre-line">{update.content}</p>
+                    <div className="prose max-w-none text-gray-700">
+                      <Markdown>{update.content}</Markdown>
+                    </div>
+                    {update.image_urls.length > 0 && (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-4">
+                        {update.image_urls.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                            <img src={url} alt={update.title} className="w-full h-32 object-cover rounded-lg" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -188,39 +237,43 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
 
           {donations.length > 0 && (
             <div className="bg-white rounded-xl shadow-md p-8">
-              <h2 className="text-2xl font-bold text-gray-900 mb-6">Recent Donations</h2>
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">{t('project.recentDonations')}</h2>
               <div className="space-y-4">
                 {donations.map((donation) => (
-                  <div key={donation.id} className="flex items-center justify-between py-3 border-b last:border-b-0">
+                  <div key={donation.donation_id} className="flex items-center justify-between py-3 border-b last:border-b-0">
                     <div className="flex items-center space-x-3">
                       <div className="w-10 h-10 bg-emerald-100 rounded-full flex items-center justify-center">
                         <Heart className="h-5 w-5 text-emerald-600" />
                       </div>
                       <div>
                         <p className="font-medium text-gray-900">
-                          {donation.is_anonymous ? 'Anonymous' : donation.profiles?.full_name || 'Anonymous'}
+                          {donation.donor_name || t('project.anonymous')}
                         </p>
                         <p className="text-sm text-gray-500">
-                          {new Date(donation.created_at).toLocaleDateString()}
+                          {formatDate(donation.created_at)}
                         </p>
                       </div>
                     </div>
-                    <span className="font-semibold text-emerald-600">${donation.amount.toLocaleString()}</span>
+                    <span className="font-semibold text-emerald-600">{formatCurrency(donation.amount, donation.currency)}</span>
                   </div>
                 ))}
               </div>
             </div>
           )}
+
+          <ProjectComments projectId={project.id} creatorId={project.creator_id} />
         </div>
 
         <div className="lg:col-span-1">
           <div className="bg-white rounded-xl shadow-md p-6 sticky top-24 space-y-6">
+            {project.status === 'active' && <DonationTicker event={latestDonation} />}
+
             <div>
               <div className="text-3xl font-bold text-gray-900 mb-1">
-                ${project.raised_amount.toLocaleString()}
+                {formatCurrency(project.raised_amount, project.currency)}
               </div>
               <div className="text-sm text-gray-600 mb-4">
-                raised of ${project.goal_amount.toLocaleString()} goal
+                {t('project.raisedOf', { goal: formatCurrency(project.goal_amount, project.currency) })}
               </div>
               <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden mb-4">
                 <div
@@ -231,42 +284,58 @@ export function ProjectDetail({ projectId, onBack, onDonate }: ProjectDetailProp
               <div className="flex justify-between text-sm text-gray-600">
                 <div className="flex items-center space-x-1">
                   <TrendingUp className="h-4 w-4" />
-                  <span>{progress.toFixed(0)}% funded</span>
+                  <span>{t('project.funded', { percent: formatNumber(progress, { maximumFractionDigits: 0 }) })}</span>
                 </div>
-                {daysLeft !== null && (
-                  <span>{daysLeft} days left</span>
+                {ended ? (
+                  <span>{t('project.ended')}</span>
+                ) : (
+                  daysLeft !== null && <span>{t('project.daysLeft', { count: daysLeft })}</span>
                 )}
               </div>
             </div>
 
-            {user && project.status === 'active' && (
+            {isAcceptingDonations(project) && (
               <button
-                onClick={onDonate}
+                onClick={() => onDonate(project.title, project.currency)}
                 className="w-full py-3 px-4 bg-emerald-600 text-white font-medium rounded-lg hover:bg-emerald-700 transition-colors flex items-center justify-center space-x-2"
               >
                 <Heart className="h-5 w-5" />
-                <span>Support This Project</span>
+                <span>{t('project.support')}</span>
               </button>
             )}
 
+            {ended && (
+              <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                {t('project.closedNotice')}
+              </p>
+            )}
+
             <button className="w-full py-3 px-4 border border-gray-300 text-gray-700 font-medium rounded-lg hover:bg-gray-50 transition-colors flex items-center justify-center space-x-2">
               <Share2 className="h-5 w-5" />
-              <span>Share</span>
+              <span>{t('project.share')}</span>
             </button>
 
             {project.profiles && (
               <div className="pt-6 border-t">
-                <h3 className="font-semibold text-gray-900 mb-4">Created by</h3>
+                <h3 className="font-semibold text-gray-900 mb-4">{t('project.createdBy')}</h3>
                 <div className="flex items-start space-x-3">
-                  <div className="w-12 h-12 bg-emerald-100 rounded-full flex items-center justify-center flex-shrink-0">
-                    <span className="text-emerald-600 font-medium text-lg">
-                      {project.profiles.full_name.charAt(0).toUpperCase()}
-                    </span>
-                  </div>
+                  {project.profiles.avatar_url ? (
+                    <img
+                      src={project.profiles.avatar_url}
+                      alt=""
+                      className="w-12 h-12 rounded-full object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-12 h-12 bg-emerald-100 rounded-full flex items-center justify-center flex-shrink-0">
+                      <span className="text-emerald-600 font-medium text-lg">
+                        {project.profiles.full_name.charAt(0).toUpperCase()}
+                      </span>
+                    </div>
+                  )}
                   <div>
                     <p className="font-medium text-gray-900">{project.profiles.full_name}</p>
                     {project.profiles.is_verified && (
-                      <p className="text-sm text-emerald-600 mb-2">Verified Creator</p>
+                      <p className="text-sm text-emerald-600 mb-2">{t('project.verifiedCreator')}</p>
                     )}
                     {project.profiles.bio && (
                       <p className="text-sm text-gray-600">{project.profiles.bio}</p>
@@ -1,33 +1,99 @@
-import { useEffect, useState } from 'react';
-import { Search, Filter, Loader } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Search, Filter, Loader, SlidersHorizontal } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import {
+  PROJECT_PAGE_SIZE,
+  filtersFromParams,
+  filtersToParams,
+  listProjectCountries,
+  searchCursor,
+  searchProjects,
+  sortOptions,
+  type ProjectFilters,
+  type ProjectSearchCursor,
+} from '../../lib/projectSearch';
+import { subscribeToFunding } from '../../lib/fundingFeed';
+import { projectStatusKeys } from '../../lib/projectLifecycle';
+import { useI18n } from '../../contexts/I18nContext';
 import { ProjectCard } from './ProjectCard';
-import type { Database } from '../../lib/database.types';
+import type { Database, ProjectStatus } from '../../lib/database.types';
 
 type Project = Database['public']['Tables']['projects']['Row'] & {
   categories?: { name: string; icon: string } | null;
-  profiles?: { full_name: string; is_verified: boolean } | null;
+  profiles?: { full_name: string; is_verified: boolean; avatar_url: string | null } | null;
 };
 
 type Category = Database['public']['Tables']['categories']['Row'];
 
 interface ProjectListProps {
   onProjectClick: (projectId: string) => void;
-  filterStatus?: string[];
+  filterStatus?: ProjectStatus[];
 }
 
+const selectClassName =
+  'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent appearance-none bg-white';
+
 export function ProjectList({ onProjectClick, filterStatus }: ProjectListProps) {
+  const { t } = useI18n();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = filtersFromParams(searchParams);
+  const filterKey = searchParams.toString();
+
   const [projects, setProjects] = useState<Project[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [countries, setCountries] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<string>('');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [searchTerm, setSearchTerm] = useState(filters.query);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef(0);
+  const cursorRef = useRef<ProjectSearchCursor | null>(null);
+  const projectIds = projects.map((project) => project.id).join(',');
 
   useEffect(() => {
     loadCategories();
-    loadProjects();
+    listProjectCountries()
+      .then(setCountries)
+      .catch((error) => console.error('Error loading countries:', error));
   }, []);
 
+  useEffect(() => {
+    setSearchTerm(filters.query);
+    loadProjects();
+  }, [filterKey]);
+
+  // Debounce typing before it reaches the URL (and the database)
+  useEffect(() => {
+    if (searchTerm === filters.query) return;
+    const timeout = setTimeout(() => updateFilters({ query: searchTerm }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  // Progress bars follow donations live; the channel is rebuilt as pages load
+  useEffect(() => {
+    if (!projectIds) return;
+    return subscribeToFunding(projectIds.split(','), {
+      onProject: (progress) =>
+        setProjects((current) =>
+          current.map((project) => (project.id === progress.id ? { ...project, ...progress } : project))
+        ),
+    });
+  }, [projectIds]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, projects]);
+
   const loadCategories = async () => {
     const { data, error } = await supabase.from('categories').select('*').order('name');
     if (!error && data) {
@@ -36,52 +102,53 @@ export function ProjectList({ onProjectClick, filterStatus }: ProjectListProps)
   };
 
   const loadProjects = async () => {
+    const request = ++requestRef.current;
     setLoading(true);
     try {
-      let query = supabase
-        .from('projects')
-        .select(`
-          *,
-          categories (name, icon),
-          profiles (full_name, is_verified)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (filterStatus && filterStatus.length > 0) {
-        query = query.in('status', filterStatus);
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-      setProjects(data || []);
+      const data = await searchProjects(filters, filterStatus);
+      if (request !== requestRef.current) return;
+      cursorRef.current = searchCursor(data);
+      setProjects(data);
+      setHasMore(data.length === PROJECT_PAGE_SIZE);
     } catch (error) {
       console.error('Error loading projects:', error);
     } finally {
-      setLoading(false);
+      if (request === requestRef.current) setLoading(false);
     }
   };
 
-  const filteredProjects = projects.filter((project) => {
-    const matchesSearch =
-      project.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      project.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      project.location.toLowerCase().includes(searchTerm.toLowerCase());
+  const loadMore = async () => {
+    if (loadingMore || !cursorRef.current) return;
+    const request = requestRef.current;
+    setLoadingMore(true);
+    try {
+      const data = await searchProjects(filters, filterStatus, cursorRef.current);
+      if (request !== requestRef.current) return;
+      cursorRef.current = searchCursor(data) ?? cursorRef.current;
+      setProjects((current) => [...current, ...data]);
+      setHasMore(data.length === PROJECT_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading more projects:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
-    const matchesCategory = !selectedCategory || project.category_id === selectedCategory;
+  const updateFilters = (changes: Partial<ProjectFilters>) => {
+    setSearchParams(filtersToParams({ ...filters, ...changes }), { replace: true });
+  };
 
-    return matchesSearch && matchesCategory;
-  });
+  const statusChoices = filterStatus ?? (Object.keys(projectStatusKeys) as ProjectStatus[]);
 
   return (
     <div className="space-y-6">
-      <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
         <div className="flex flex-col lg:flex-row gap-4">
           <div className="flex-1 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
             <input
               type="text"
-              placeholder="Search projects..."
+              placeholder={t('projects.searchPlaceholder')}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
@@ -90,11 +157,11 @@ export function ProjectList({ onProjectClick, filterStatus }: ProjectListProps)
           <div className="lg:w-64 relative">
             <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
             <select
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-              className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent appearance-none bg-white"
+              value={filters.categoryId}
+              onChange={(e) => updateFilters({ categoryId: e.target.value })}
+              className={`${selectClassName} pl-10`}
             >
-              <option value="">All Categories</option>
+              <option value="">{t('projects.allCategories')}</option>
               {categories.map((category) => (
                 <option key={category.id} value={category.id}>
                   {category.name}
@@ -102,28 +169,113 @@ export function ProjectList({ onProjectClick, filterStatus }: ProjectListProps)
               ))}
             </select>
           </div>
+          <div className="lg:w-48">
+            <select
+              value={filters.sort}
+              onChange={(e) => updateFilters({ sort: e.target.value as ProjectFilters['sort'] })}
+              className={selectClassName}
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {t(option.label)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowFilters(!showFilters)}
+            className="flex items-center justify-center space-x-2 px-4 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            <SlidersHorizontal className="h-5 w-5" />
+            <span>{t('projects.filters')}</span>
+          </button>
         </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            <select
+              value={filters.status}
+              onChange={(e) => updateFilters({ status: e.target.value as ProjectFilters['status'] })}
+              className={selectClassName}
+            >
+              <option value="">{t('projects.anyStatus')}</option>
+              {statusChoices.map((status) => (
+                <option key={status} value={status}>
+                  {t(projectStatusKeys[status])}
+                </option>
+              ))}
+            </select>
+            <select
+              value={filters.country}
+              onChange={(e) => updateFilters({ country: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">{t('projects.anyCountry')}</option>
+              {countries.map((country) => (
+                <option key={country} value={country}>
+                  {country}
+                </option>
+              ))}
+            </select>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="0"
+                value={filters.minFunded}
+                onChange={(e) => updateFilters({ minFunded: e.target.value })}
+                placeholder={t('projects.minFunded')}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+              />
+              <span className="text-gray-500">{t('projects.fundedTo')}</span>
+              <input
+                type="number"
+                min="0"
+                value={filters.maxFunded}
+                onChange={(e) => updateFilters({ maxFunded: e.target.value })}
+                placeholder={t('projects.maxFunded')}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+              />
+            </div>
+            <select
+              value={filters.endingWithinDays}
+              onChange={(e) => updateFilters({ endingWithinDays: e.target.value })}
+              className={selectClassName}
+            >
+              <option value="">{t('projects.anyEndDate')}</option>
+              <option value="7">{t('projects.endingWithin', { count: 7 })}</option>
+              <option value="30">{t('projects.endingWithin', { count: 30 })}</option>
+            </select>
+          </div>
+        )}
       </div>
 
       {loading ? (
         <div className="flex justify-center items-center py-20">
           <Loader className="h-8 w-8 animate-spin text-emerald-600" />
         </div>
-      ) : filteredProjects.length === 0 ? (
+      ) : projects.length === 0 ? (
         <div className="text-center py-20">
-          <p className="text-gray-600 text-lg">No projects found</p>
-          <p className="text-gray-500 text-sm mt-2">Try adjusting your filters</p>
+          <p className="text-gray-600 text-lg">{t('projects.empty')}</p>
+          <p className="text-gray-500 text-sm mt-2">{t('projects.emptyHint')}</p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredProjects.map((project) => (
-            <ProjectCard
-              key={project.id}
-              project={project}
-              onClick={() => onProjectClick(project.id)}
-            />
-          ))}
-        </div>
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {projects.map((project) => (
+              <ProjectCard
+                key={project.id}
+                project={project}
+                onClick={() => onProjectClick(project.id)}
+              />
+            ))}
+          </div>
+          {hasMore && (
+            <div ref={sentinelRef} className="flex justify-center py-8">
+              {loadingMore && <Loader className="h-6 w-6 animate-spin text-emerald-600" />}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
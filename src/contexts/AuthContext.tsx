@@ -1,18 +1,51 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { readAuthLinkError } from '../lib/authErrors';
 import type { Database } from '../lib/database.types';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 
+// Role and verification are managed by admins, never through updateProfile
+const EDITABLE_PROFILE_FIELDS = [
+  'full_name',
+  'bio',
+  'avatar_url',
+  'location',
+  'preferred_language',
+  'notification_preferences',
+] as const;
+
+export type ProfileUpdate = Partial<Pick<Profile, (typeof EDITABLE_PROFILE_FIELDS)[number]>>;
+
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
   loading: boolean;
-  signUp: (email: string, password: string, fullName: string, role: 'donor' | 'project_creator') => Promise<void>;
+  // Set while the user is signed in through a password reset link
+  passwordRecovery: boolean;
+  // Error code from an email link that could not be used (expired, already used)
+  linkError: string | null;
+  clearLinkError: () => void;
+  signUp: (
+    email: string,
+    password: string,
+    fullName: string,
+    role: 'donor' | 'project_creator',
+    preferredLanguage?: string
+  ) => Promise<{ needsConfirmation: boolean }>;
   signIn: (email: string, password: string) => Promise<void>;
+  sendMagicLink: (email: string) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  resendConfirmation: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
   signOut: () => Promise<void>;
-  updateProfile: (updates: Partial<Profile>) => Promise<void>;
+  updateProfile: (updates: ProfileUpdate) => Promise<void>;
+}
+
+// Where email links send the user back to
+function redirectUrl(path = '/') {
+  return `${window.location.origin}${path}`;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -21,6 +54,8 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(readAuthLinkError);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -32,7 +67,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
     });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') setPasswordRecovery(true);
+      if (event === 'SIGNED_OUT') setPasswordRecovery(false);
       (async () => {
         setUser(session?.user ?? null);
         if (session?.user) {
@@ -57,6 +94,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
       if (error) throw error;
       setProfile(data);
+
+      if (data) {
+        // Link donations made as a guest with this account's email
+        const { error: claimError } = await supabase.rpc('claim_guest_donations');
+        if (claimError) console.error('Error claiming guest donations:', claimError);
+      }
     } catch (error) {
       console.error('Error loading profile:', error);
     } finally {
@@ -64,24 +107,31 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'donor' | 'project_creator') => {
+  const signUp = async (
+    email: string,
+    password: string,
+    fullName: string,
+    role: 'donor' | 'project_creator',
+    preferredLanguage?: string
+  ) => {
+    // The profile is created by a database trigger; a creator role is only requested, never granted here
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
+      options: {
+        emailRedirectTo: redirectUrl(),
+        data: {
+          full_name: fullName,
+          preferred_language: preferredLanguage,
+          requested_role: role,
+        },
+      },
     });
 
     if (error) throw error;
     if (!data.user) throw new Error('No user returned from signup');
-
-    const { error: profileError } = await supabase.from('profiles').insert({
-      id: data.user.id,
-      full_name: fullName,
-      role,
-      bio: '',
-      is_verified: false,
-    });
-
-    if (profileError) throw profileError;
+    // Without a session the account has to be confirmed from the email first
+    return { needsConfirmation: !data.session };
   };
 
   const signIn = async (email: string, password: string) => {
@@ -93,17 +143,57 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
   };
 
+  const sendMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: redirectUrl() },
+    });
+
+    if (error) throw error;
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: redirectUrl('/reset-password'),
+    });
+
+    if (error) throw error;
+  };
+
+  const resendConfirmation = async (email: string) => {
+    const { error } = await supabase.auth.resend({
+      type: 'signup',
+      email,
+      options: { emailRedirectTo: redirectUrl() },
+    });
+
+    if (error) throw error;
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) throw error;
+    setPasswordRecovery(false);
+  };
+
   const signOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
   };
 
-  const updateProfile = async (updates: Partial<Profile>) => {
+  const updateProfile = async (updates: ProfileUpdate) => {
     if (!user) throw new Error('No user logged in');
 
+    // Copy only the editable fields so callers can't smuggle in extra columns at runtime
+    const allowed: ProfileUpdate = {};
+    for (const field of EDITABLE_PROFILE_FIELDS) {
+      if (field in updates) Object.assign(allowed, { [field]: updates[field] });
+    }
+
     const { error } = await supabase
       .from('profiles')
-      .update(updates)
+      .update(allowed)
       .eq('id', user.id);
 
     if (error) throw error;
@@ -111,7 +201,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut, updateProfile }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        profile,
+        loading,
+        passwordRecovery,
+        linkError,
+        clearLinkError: () => setLinkError(null),
+        signUp,
+        signIn,
+        sendMagicLink,
+        sendPasswordReset,
+        resendConfirmation,
+        updatePassword,
+        signOut,
+        updateProfile,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
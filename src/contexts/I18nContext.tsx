@@ -0,0 +1,87 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { formatCurrency, formatCurrencyTotals, getCurrencySymbol } from '../lib/currency';
+import {
+  isLocale,
+  matchLocale,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+} from '../lib/i18n';
+
+const STORAGE_KEY = 'hope-bridge-locale';
+
+interface I18nContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => Promise<void>;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (value: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+  formatCurrency: (amount: number, currency?: string) => string;
+  formatCurrencyTotals: (totals: Record<string, number>) => string;
+  getCurrencySymbol: (currency: string) => string;
+}
+
+const I18nContext = createContext<I18nContextType | undefined>(undefined);
+
+function getInitialLocale(): Locale {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return isLocale(stored) ? stored : matchLocale(navigator.languages);
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const { profile, updateProfile } = useAuth();
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  // A signed-in user's saved preference wins over the browser's
+  useEffect(() => {
+    if (isLocale(profile?.preferred_language)) {
+      setLocaleState(profile.preferred_language);
+      localStorage.setItem(STORAGE_KEY, profile.preferred_language);
+    }
+  }, [profile?.preferred_language]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback(
+    async (next: Locale) => {
+      setLocaleState(next);
+      localStorage.setItem(STORAGE_KEY, next);
+      if (profile && profile.preferred_language !== next) {
+        try {
+          await updateProfile({ preferred_language: next });
+        } catch (error) {
+          console.error('Error saving language preference:', error);
+        }
+      }
+    },
+    [profile, updateProfile]
+  );
+
+  const value = useMemo<I18nContextType>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      formatNumber: (value, options) => new Intl.NumberFormat(locale, options).format(value),
+      formatDate: (value, options) => new Date(value).toLocaleDateString(locale, options),
+      formatCurrency: (amount, currency) => formatCurrency(amount, currency, locale),
+      formatCurrencyTotals: (totals) => formatCurrencyTotals(totals, locale),
+      getCurrencySymbol: (currency) => getCurrencySymbol(currency, locale),
+    }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (context === undefined) {
+    throw new Error('useI18n must be used within an I18nProvider');
+  }
+  return context;
+}
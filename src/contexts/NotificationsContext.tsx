@@ -0,0 +1,71 @@
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  countUnreadNotifications,
+  markNotificationsRead,
+  subscribeToNotifications,
+} from '../lib/notifications';
+
+interface NotificationsContextType {
+  unreadCount: number;
+  // Bumped on every change so open lists know to reload
+  version: number;
+  refresh: () => Promise<void>;
+  markRead: (ids?: string[]) => Promise<void>;
+}
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [version, setVersion] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+    try {
+      setUnreadCount(await countUnreadNotifications());
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+    if (!user) return;
+
+    const unsubscribe = subscribeToNotifications(user.id, () => {
+      setVersion((current) => current + 1);
+      refresh();
+    });
+    // Realtime can miss events while the tab sleeps
+    window.addEventListener('focus', refresh);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('focus', refresh);
+    };
+  }, [user, refresh]);
+
+  const markRead = async (ids?: string[]) => {
+    await markNotificationsRead(ids);
+    setVersion((current) => current + 1);
+    await refresh();
+  };
+
+  return (
+    <NotificationsContext.Provider value={{ unreadCount, version, refresh, markRead }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+import { invokeFunction } from './functions';
+import type { Json } from './database.types';
+import type { MessageKey, MessageParams } from './i18n';
+
+export type NotificationPreference = 'donations' | 'project_updates' | 'comments' | 'project_status';
+export type NotificationPreferences = Record<NotificationPreference, boolean>;
+
+export const notificationPreferenceKeys: Record<NotificationPreference, { label: MessageKey; description: MessageKey }> = {
+  donations: { label: 'preferences.donations', description: 'preferences.donationsHint' },
+  project_updates: { label: 'preferences.projectUpdates', description: 'preferences.projectUpdatesHint' },
+  comments: { label: 'preferences.comments', description: 'preferences.commentsHint' },
+  project_status: { label: 'preferences.projectStatus', description: 'preferences.projectStatusHint' },
+};
+
+// A problem the user can fix; `key` is the catalog message to show them
+export class AccountError extends Error {
+  constructor(readonly key: MessageKey, readonly params?: MessageParams) {
+    super(key);
+  }
+}
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Keys missing from the stored object count as opted in
+export function parseNotificationPreferences(value: Json | undefined): NotificationPreferences {
+  const stored = value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  return {
+    donations: stored.donations !== false,
+    project_updates: stored.project_updates !== false,
+    comments: stored.comments !== false,
+    project_status: stored.project_status !== false,
+  };
+}
+
+// Re-authenticates with the current password so a borrowed session can't lock the owner out
+export async function changePassword(email: string, currentPassword: string, newPassword: string) {
+  if (newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new AccountError('profile.passwordTooShort', { count: MIN_PASSWORD_LENGTH });
+  }
+
+  const { error: signInError } = await supabase.auth.signInWithPassword({ email, password: currentPassword });
+  if (signInError) throw new AccountError('profile.currentPasswordIncorrect');
+
+  const { error } = await supabase.auth.updateUser({ password: newPassword });
+  if (error) throw error;
+}
+
+export async function deleteAccount() {
+  await invokeFunction<{ deleted: boolean }>('account', { action: 'delete' });
+  // The session belongs to a user that no longer exists
+  await supabase.auth.signOut({ scope: 'local' });
+}
@@ -0,0 +1,46 @@
+import { isAuthError } from '@supabase/supabase-js';
+import type { MessageKey } from './i18n';
+
+// Supabase Auth error codes the UI explains in the user's language
+const authErrorKeys: Record<string, MessageKey> = {
+  email_not_confirmed: 'authError.emailNotConfirmed',
+  invalid_credentials: 'authError.invalidCredentials',
+  user_already_exists: 'authError.userExists',
+  email_exists: 'authError.userExists',
+  weak_password: 'authError.weakPassword',
+  same_password: 'authError.samePassword',
+  otp_expired: 'authError.linkExpired',
+  flow_state_expired: 'authError.linkExpired',
+  user_not_found: 'authError.userNotFound',
+  over_email_send_rate_limit: 'authError.emailRateLimited',
+  over_request_rate_limit: 'authError.rateLimited',
+  email_address_invalid: 'authError.invalidEmail',
+  signup_disabled: 'authError.signupDisabled',
+};
+
+export function getAuthErrorCode(error: unknown) {
+  if (!isAuthError(error)) return undefined;
+  if (error.code) return error.code;
+  // Older Auth servers only report rate limits through the status
+  return error.status === 429 ? 'over_request_rate_limit' : undefined;
+}
+
+export function getAuthErrorKey(code: string | undefined): MessageKey | undefined {
+  return code ? authErrorKeys[code] : undefined;
+}
+
+export function getAuthErrorMessage(error: unknown, t: (key: MessageKey) => string, fallback: MessageKey) {
+  const key = getAuthErrorKey(getAuthErrorCode(error));
+  if (key) return t(key);
+  return error instanceof Error ? error.message : t(fallback);
+}
+
+// Email links that fail (expired, already used) land back on the site with the error in the URL hash
+export function readAuthLinkError() {
+  const params = new URLSearchParams(window.location.hash.replace(/^#/, ''));
+  const code = params.get('error_code');
+  if (!code && !params.get('error')) return null;
+
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  return code || 'otp_expired';
+}
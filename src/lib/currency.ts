@@ -0,0 +1,52 @@
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'KES', 'NGN', 'INR', 'PHP'] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export function getCurrencyName(currency: string, locale?: string) {
+  return new Intl.DisplayNames(locale ? [locale] : undefined, { type: 'currency' }).of(currency) ?? currency;
+}
+
+// Preset donation amounts of roughly similar value in each currency
+const presetAmounts: Record<Currency, number[]> = {
+  USD: [10, 25, 50, 100, 250, 500],
+  EUR: [10, 25, 50, 100, 250, 500],
+  GBP: [10, 25, 50, 100, 250, 500],
+  KES: [1000, 2500, 5000, 10000, 25000, 50000],
+  NGN: [10000, 25000, 50000, 100000, 250000, 500000],
+  INR: [500, 1000, 2500, 5000, 10000, 25000],
+  PHP: [500, 1000, 2500, 5000, 10000, 25000],
+};
+
+export function getPresetAmounts(currency: string) {
+  return presetAmounts[currency as Currency] ?? presetAmounts.USD;
+}
+
+export function formatCurrency(amount: number, currency = 'USD', locale?: string) {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+export function getCurrencySymbol(currency: string, locale?: string) {
+  const part = new Intl.NumberFormat(locale, { style: 'currency', currency })
+    .formatToParts(0)
+    .find((item) => item.type === 'currency');
+  return part?.value ?? currency;
+}
+
+// Sum amounts per currency, e.g. for a donor who gave in several currencies
+export function sumByCurrency(items: { amount: number; currency: string }[]) {
+  return items.reduce<Record<string, number>>((totals, item) => {
+    totals[item.currency] = (totals[item.currency] ?? 0) + item.amount;
+    return totals;
+  }, {});
+}
+
+export function formatCurrencyTotals(totals: Record<string, number>, locale?: string) {
+  const entries = Object.entries(totals);
+  if (entries.length === 0) return formatCurrency(0, 'USD', locale);
+  return entries.map(([currency, amount]) => formatCurrency(amount, currency, locale)).join(' + ');
+}
@@ -1,6 +1,17 @@
 export type UserRole = 'donor' | 'project_creator' | 'admin';
 export type ProjectStatus = 'draft' | 'pending_review' | 'active' | 'fully_funded' | 'completed' | 'cancelled';
-export type DonationStatus = 'pending' | 'completed' | 'refunded';
+export type DonationStatus = 'pending' | 'completed' | 'refunded' | 'failed';
+export type RefundRequestStatus = 'pending' | 'processing' | 'approved' | 'denied';
+export type PledgeCadence = 'monthly' | 'quarterly' | 'yearly';
+export type PledgeStatus = 'active' | 'paused' | 'cancelled' | 'ended';
+export type PledgeChargeOutcome = 'charged' | 'failed' | 'skipped';
+export type ProjectReviewDecision = 'approved' | 'rejected' | 'changes_requested';
+export type VerificationStatus = 'pending' | 'approved' | 'rejected' | 'expired';
+export type RoleRequestStatus = 'pending' | 'approved' | 'rejected';
+export type OutboxStatus = 'pending' | 'processing' | 'delivered' | 'failed';
+export type EmailStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'bounced' | 'suppressed';
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
 
 export interface Database {
   public: {
@@ -14,6 +25,9 @@ export interface Database {
           avatar_url: string | null;
           location: string | null;
           is_verified: boolean;
+          preferred_language: string;
+          verified_until: string | null;
+          notification_preferences: Json;
           created_at: string;
           updated_at: string;
         };
@@ -25,6 +39,9 @@ export interface Database {
           avatar_url?: string | null;
           location?: string | null;
           is_verified?: boolean;
+          preferred_language?: string;
+          verified_until?: string | null;
+          notification_preferences?: Json;
           created_at?: string;
           updated_at?: string;
         };
@@ -36,9 +53,13 @@ export interface Database {
           avatar_url?: string | null;
           location?: string | null;
           is_verified?: boolean;
+          preferred_language?: string;
+          verified_until?: string | null;
+          notification_preferences?: Json;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [];
       };
       categories: {
         Row: {
@@ -62,6 +83,7 @@ export interface Database {
           icon?: string;
           created_at?: string;
         };
+        Relationships: [];
       };
       projects: {
         Row: {
@@ -77,6 +99,15 @@ export interface Database {
           start_date: string | null;
           end_date: string | null;
           image_url: string | null;
+          country: string | null;
+          search_vector: string;
+          currency: string;
+          closed_at: string | null;
+          deadline_reminder_sent_at: string | null;
+          review_claimed_by: string | null;
+          review_claimed_at: string | null;
+          gallery_urls: string[];
+          thumbnail_url: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -93,6 +124,13 @@ export interface Database {
           start_date?: string | null;
           end_date?: string | null;
           image_url?: string | null;
+          currency?: string;
+          closed_at?: string | null;
+          deadline_reminder_sent_at?: string | null;
+          review_claimed_by?: string | null;
+          review_claimed_at?: string | null;
+          gallery_urls?: string[];
+          thumbnail_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -109,9 +147,39 @@ export interface Database {
           start_date?: string | null;
           end_date?: string | null;
           image_url?: string | null;
+          currency?: string;
+          closed_at?: string | null;
+          deadline_reminder_sent_at?: string | null;
+          review_claimed_by?: string | null;
+          review_claimed_at?: string | null;
+          gallery_urls?: string[];
+          thumbnail_url?: string | null;
           created_at?: string;
           updated_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'projects_creator_id_fkey';
+            columns: ['creator_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'projects_category_id_fkey';
+            columns: ['category_id'];
+            isOneToOne: false;
+            referencedRelation: 'categories';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'projects_review_claimed_by_fkey';
+            columns: ['review_claimed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       donations: {
         Row: {
@@ -123,6 +191,19 @@ export interface Database {
           status: DonationStatus;
           message: string;
           is_anonymous: boolean;
+          payment_provider: string;
+          completed_at: string | null;
+          refunded_at: string | null;
+          guest_name: string | null;
+          guest_email: string | null;
+          guest_token_hash: string | null;
+          receipt_number: string | null;
+          claimed_at: string | null;
+          pledge_id: string | null;
+          currency: string;
+          exchange_rate: number;
+          project_amount: number;
+          receipt_voided_at: string | null;
           created_at: string;
         };
         Insert: {
@@ -134,6 +215,19 @@ export interface Database {
           status?: DonationStatus;
           message?: string;
           is_anonymous?: boolean;
+          payment_provider?: string;
+          completed_at?: string | null;
+          refunded_at?: string | null;
+          guest_name?: string | null;
+          guest_email?: string | null;
+          guest_token_hash?: string | null;
+          receipt_number?: string | null;
+          claimed_at?: string | null;
+          pledge_id?: string | null;
+          currency?: string;
+          exchange_rate?: number;
+          project_amount?: number;
+          receipt_voided_at?: string | null;
           created_at?: string;
         };
         Update: {
@@ -145,8 +239,44 @@ export interface Database {
           status?: DonationStatus;
           message?: string;
           is_anonymous?: boolean;
+          payment_provider?: string;
+          completed_at?: string | null;
+          refunded_at?: string | null;
+          guest_name?: string | null;
+          guest_email?: string | null;
+          guest_token_hash?: string | null;
+          receipt_number?: string | null;
+          claimed_at?: string | null;
+          pledge_id?: string | null;
+          currency?: string;
+          exchange_rate?: number;
+          project_amount?: number;
+          receipt_voided_at?: string | null;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'donations_donor_id_fkey';
+            columns: ['donor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'donations_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'donations_pledge_id_fkey';
+            columns: ['pledge_id'];
+            isOneToOne: false;
+            referencedRelation: 'recurring_pledges';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       project_updates: {
         Row: {
@@ -154,6 +284,11 @@ export interface Database {
           project_id: string;
           title: string;
           content: string;
+          author_id: string | null;
+          image_urls: string[];
+          is_milestone: boolean;
+          milestone_label: string;
+          is_final_report: boolean;
           created_at: string;
         };
         Insert: {
@@ -161,6 +296,11 @@ export interface Database {
           project_id: string;
           title: string;
           content: string;
+          author_id?: string | null;
+          image_urls?: string[];
+          is_milestone?: boolean;
+          milestone_label?: string;
+          is_final_report?: boolean;
           created_at?: string;
         };
         Update: {
@@ -168,32 +308,1068 @@ export interface Database {
           project_id?: string;
           title?: string;
           content?: string;
+          author_id?: string | null;
+          image_urls?: string[];
+          is_milestone?: boolean;
+          milestone_label?: string;
+          is_final_report?: boolean;
           created_at?: string;
         };
+        Relationships: [
+          {
+            foreignKeyName: 'project_updates_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'project_updates_author_id_fkey';
+            columns: ['author_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
       };
       comments: {
         Row: {
           id: string;
           project_id: string;
           user_id: string;
+          parent_id: string | null;
           content: string;
+          edited_at: string | null;
+          deleted_at: string | null;
+          is_hidden: boolean;
+          hidden_by: string | null;
+          hidden_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           project_id: string;
           user_id: string;
+          parent_id?: string | null;
           content: string;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+          is_hidden?: boolean;
+          hidden_by?: string | null;
+          hidden_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           project_id?: string;
           user_id?: string;
+          parent_id?: string | null;
           content?: string;
+          edited_at?: string | null;
+          deleted_at?: string | null;
+          is_hidden?: boolean;
+          hidden_by?: string | null;
+          hidden_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'comments_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'comments';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'comments_hidden_by_fkey';
+            columns: ['hidden_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      platform_settings: {
+        Row: {
+          key: string;
+          value: Json;
+          updated_at: string;
+        };
+        Insert: {
+          key: string;
+          value: Json;
+          updated_at?: string;
+        };
+        Update: {
+          key?: string;
+          value?: Json;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      refund_requests: {
+        Row: {
+          id: string;
+          donation_id: string;
+          requested_by: string | null;
+          reason: string;
+          status: RefundRequestStatus;
+          reviewed_by: string | null;
+          review_note: string;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          donation_id: string;
+          requested_by?: string | null;
+          reason: string;
+          status?: RefundRequestStatus;
+          reviewed_by?: string | null;
+          review_note?: string;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          donation_id?: string;
+          requested_by?: string | null;
+          reason?: string;
+          status?: RefundRequestStatus;
+          reviewed_by?: string | null;
+          review_note?: string;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'refund_requests_donation_id_fkey';
+            columns: ['donation_id'];
+            isOneToOne: false;
+            referencedRelation: 'donations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'refund_requests_requested_by_fkey';
+            columns: ['requested_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'refund_requests_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body: string;
+          project_id: string | null;
+          data: Json;
+          category: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: string;
+          title: string;
+          body?: string;
+          project_id?: string | null;
+          data?: Json;
+          category?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: string;
+          title?: string;
+          body?: string;
+          project_id?: string | null;
+          data?: Json;
+          category?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      recurring_pledges: {
+        Row: {
+          id: string;
+          donor_id: string;
+          project_id: string;
+          amount: number;
+          cadence: PledgeCadence;
+          status: PledgeStatus;
+          next_charge_date: string;
+          payment_provider: string;
+          payment_method: string | null;
+          payment_customer: string | null;
+          message: string;
+          is_anonymous: boolean;
+          failed_attempts: number;
+          last_charged_at: string | null;
+          cancelled_at: string | null;
+          currency: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          donor_id: string;
+          project_id: string;
+          amount: number;
+          cadence?: PledgeCadence;
+          status?: PledgeStatus;
+          next_charge_date: string;
+          payment_provider?: string;
+          payment_method?: string | null;
+          payment_customer?: string | null;
+          message?: string;
+          is_anonymous?: boolean;
+          failed_attempts?: number;
+          last_charged_at?: string | null;
+          cancelled_at?: string | null;
+          currency?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          donor_id?: string;
+          project_id?: string;
+          amount?: number;
+          cadence?: PledgeCadence;
+          status?: PledgeStatus;
+          next_charge_date?: string;
+          payment_provider?: string;
+          payment_method?: string | null;
+          payment_customer?: string | null;
+          message?: string;
+          is_anonymous?: boolean;
+          failed_attempts?: number;
+          last_charged_at?: string | null;
+          cancelled_at?: string | null;
+          currency?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'recurring_pledges_donor_id_fkey';
+            columns: ['donor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'recurring_pledges_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      project_reviews: {
+        Row: {
+          id: string;
+          project_id: string;
+          reviewer_id: string | null;
+          decision: ProjectReviewDecision;
+          reason: string;
+          checklist: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          project_id: string;
+          reviewer_id?: string | null;
+          decision: ProjectReviewDecision;
+          reason?: string;
+          checklist?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          project_id?: string;
+          reviewer_id?: string | null;
+          decision?: ProjectReviewDecision;
+          reason?: string;
+          checklist?: Json;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'project_reviews_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'project_reviews_reviewer_id_fkey';
+            columns: ['reviewer_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      verification_applications: {
+        Row: {
+          id: string;
+          applicant_id: string;
+          organization_name: string;
+          registration_number: string;
+          tax_id: string;
+          document_paths: string[];
+          bank_account_name: string;
+          bank_name: string;
+          bank_account_number: string;
+          bank_routing_code: string;
+          status: VerificationStatus;
+          reviewed_by: string | null;
+          review_note: string;
+          reviewed_at: string | null;
+          expires_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          applicant_id: string;
+          organization_name: string;
+          registration_number?: string;
+          tax_id: string;
+          document_paths: string[];
+          bank_account_name: string;
+          bank_name: string;
+          bank_account_number: string;
+          bank_routing_code?: string;
+          status?: VerificationStatus;
+          reviewed_by?: string | null;
+          review_note?: string;
+          reviewed_at?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          applicant_id?: string;
+          organization_name?: string;
+          registration_number?: string;
+          tax_id?: string;
+          document_paths?: string[];
+          bank_account_name?: string;
+          bank_name?: string;
+          bank_account_number?: string;
+          bank_routing_code?: string;
+          status?: VerificationStatus;
+          reviewed_by?: string | null;
+          review_note?: string;
+          reviewed_at?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'verification_applications_applicant_id_fkey';
+            columns: ['applicant_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'verification_applications_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      role_change_requests: {
+        Row: {
+          id: string;
+          user_id: string;
+          requested_role: UserRole;
+          reason: string;
+          status: RoleRequestStatus;
+          reviewed_by: string | null;
+          review_note: string;
+          reviewed_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          requested_role: UserRole;
+          reason?: string;
+          status?: RoleRequestStatus;
+          reviewed_by?: string | null;
+          review_note?: string;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          requested_role?: UserRole;
+          reason?: string;
+          status?: RoleRequestStatus;
+          reviewed_by?: string | null;
+          review_note?: string;
+          reviewed_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'role_change_requests_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'role_change_requests_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      notification_channels: {
+        Row: {
+          channel: string;
+          enabled: boolean;
+          created_at: string;
+        };
+        Insert: {
+          channel: string;
+          enabled?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          channel?: string;
+          enabled?: boolean;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      notification_outbox: {
+        Row: {
+          id: string;
+          notification_id: string;
+          channel: string;
+          status: OutboxStatus;
+          attempts: number;
+          available_at: string;
+          locked_at: string | null;
+          last_error: string | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          notification_id: string;
+          channel: string;
+          status?: OutboxStatus;
+          attempts?: number;
+          available_at?: string;
+          locked_at?: string | null;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          notification_id?: string;
+          channel?: string;
+          status?: OutboxStatus;
+          attempts?: number;
+          available_at?: string;
+          locked_at?: string | null;
+          last_error?: string | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notification_outbox_notification_id_fkey';
+            columns: ['notification_id'];
+            isOneToOne: false;
+            referencedRelation: 'notifications';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notification_outbox_channel_fkey';
+            columns: ['channel'];
+            isOneToOne: false;
+            referencedRelation: 'notification_channels';
+            referencedColumns: ['channel'];
+          },
+        ];
+      };
+      email_deliveries: {
+        Row: {
+          id: string;
+          template: string;
+          user_id: string | null;
+          to_email: string;
+          locale: string;
+          payload: Json;
+          dedupe_key: string | null;
+          status: EmailStatus;
+          attempts: number;
+          available_at: string;
+          locked_at: string | null;
+          last_error: string | null;
+          provider_message_id: string | null;
+          sent_at: string | null;
+          bounced_at: string | null;
+          bounce_reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          template: string;
+          user_id?: string | null;
+          to_email: string;
+          locale?: string;
+          payload?: Json;
+          dedupe_key?: string | null;
+          status?: EmailStatus;
+          attempts?: number;
+          available_at?: string;
+          locked_at?: string | null;
+          last_error?: string | null;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          bounced_at?: string | null;
+          bounce_reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          template?: string;
+          user_id?: string | null;
+          to_email?: string;
+          locale?: string;
+          payload?: Json;
+          dedupe_key?: string | null;
+          status?: EmailStatus;
+          attempts?: number;
+          available_at?: string;
+          locked_at?: string | null;
+          last_error?: string | null;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          bounced_at?: string | null;
+          bounce_reason?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'email_deliveries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      email_suppressions: {
+        Row: {
+          email: string;
+          reason: string;
+          created_at: string;
+        };
+        Insert: {
+          email: string;
+          reason?: string;
+          created_at?: string;
+        };
+        Update: {
+          email?: string;
+          reason?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      donation_feed: {
+        Row: {
+          donation_id: string;
+          project_id: string;
+          donor_name: string | null;
+          amount: number;
+          currency: string;
+          project_amount: number;
+          created_at: string;
+        };
+        Insert: {
+          donation_id: string;
+          project_id: string;
+          donor_name?: string | null;
+          amount: number;
+          currency: string;
+          project_amount: number;
           created_at?: string;
         };
+        Update: {
+          donation_id?: string;
+          project_id?: string;
+          donor_name?: string | null;
+          amount?: number;
+          currency?: string;
+          project_amount?: number;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'donation_feed_donation_id_fkey';
+            columns: ['donation_id'];
+            isOneToOne: true;
+            referencedRelation: 'donations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'donation_feed_project_id_fkey';
+            columns: ['project_id'];
+            isOneToOne: false;
+            referencedRelation: 'projects';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      donation_statements: {
+        Row: {
+          id: string;
+          donor_id: string;
+          year: number;
+          statement_number: string;
+          generation_count: number;
+          last_generated_at: string;
+          created_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          donor_id: string;
+          year: number;
+          statement_number: string;
+          generation_count?: number;
+          last_generated_at?: string;
+          created_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          donor_id?: string;
+          year?: number;
+          statement_number?: string;
+          generation_count?: number;
+          last_generated_at?: string;
+          created_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'donation_statements_donor_id_fkey';
+            columns: ['donor_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
       };
     };
+    Views: {
+      [_ in never]: never;
+    };
+    Functions: {
+      record_donation: {
+        Args: {
+          p_donor_id: string | null;
+          p_project_id: string;
+          p_amount: number;
+          p_transaction_id: string;
+          p_payment_provider: string;
+          p_message?: string;
+          p_is_anonymous?: boolean;
+          p_status?: DonationStatus;
+          p_guest_name?: string | null;
+          p_guest_email?: string | null;
+          p_guest_token_hash?: string | null;
+          p_currency?: string | null;
+          p_exchange_rate?: number;
+        };
+        Returns: Database['public']['Tables']['donations']['Row'];
+      };
+      settle_donation: {
+        Args: {
+          p_transaction_id: string;
+          p_status: DonationStatus;
+        };
+        Returns: Database['public']['Tables']['donations']['Row'];
+      };
+      comment_edit_window_minutes: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      refund_window_days: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      request_refund: {
+        Args: {
+          p_donation_id: string;
+          p_reason: string;
+        };
+        Returns: Database['public']['Tables']['refund_requests']['Row'];
+      };
+      resolve_refund_request: {
+        Args: {
+          p_request_id: string;
+          p_approved: boolean;
+          p_reviewer_id: string;
+          p_note?: string;
+          p_refund_pending?: boolean;
+        };
+        Returns: Database['public']['Tables']['refund_requests']['Row'];
+      };
+      reconcile_raised_amounts: {
+        Args: Record<string, never>;
+        Returns: {
+          project_id: string;
+          previous_amount: number;
+          reconciled_amount: number;
+        }[];
+      };
+      claim_guest_donations: {
+        Args: Record<string, never>;
+        Returns: number;
+      };
+      create_pledge: {
+        Args: {
+          p_donor_id: string;
+          p_project_id: string;
+          p_amount: number;
+          p_cadence: PledgeCadence;
+          p_payment_provider: string;
+          p_message?: string;
+          p_is_anonymous?: boolean;
+          p_currency?: string;
+        };
+        Returns: Database['public']['Tables']['recurring_pledges']['Row'];
+      };
+      advance_pledge: {
+        Args: {
+          p_pledge_id: string;
+          p_outcome: PledgeChargeOutcome;
+          p_payment_method?: string | null;
+        };
+        Returns: Database['public']['Tables']['recurring_pledges']['Row'];
+      };
+      search_projects: {
+        Args: {
+          p_query?: string | null;
+          p_category_id?: string | null;
+          p_statuses?: ProjectStatus[] | null;
+          p_country?: string | null;
+          p_min_funded_percent?: number | null;
+          p_max_funded_percent?: number | null;
+          p_ending_within_days?: number | null;
+          p_sort?: string;
+          p_after?: Json | null;
+          p_limit?: number;
+        };
+        Returns: Database['public']['Tables']['projects']['Row'][];
+      };
+      list_project_countries: {
+        Args: Record<string, never>;
+        Returns: string[];
+      };
+      run_project_lifecycle: {
+        Args: Record<string, never>;
+        Returns: {
+          project_id: string;
+          action: string;
+        }[];
+      };
+      claim_project_review: {
+        Args: {
+          p_project_id: string;
+        };
+        Returns: Database['public']['Tables']['projects']['Row'];
+      };
+      release_project_review: {
+        Args: {
+          p_project_id: string;
+        };
+        Returns: Database['public']['Tables']['projects']['Row'];
+      };
+      review_checklist: {
+        Args: Record<string, never>;
+        Returns: Json;
+      };
+      submit_project_review: {
+        Args: {
+          p_project_id: string;
+          p_decision: ProjectReviewDecision;
+          p_reason?: string;
+          p_checklist?: Json;
+        };
+        Returns: Database['public']['Tables']['project_reviews']['Row'];
+      };
+      is_creator_verified: {
+        Args: {
+          p_profile_id: string;
+        };
+        Returns: boolean;
+      };
+      submit_verification_application: {
+        Args: {
+          p_organization_name: string;
+          p_registration_number: string;
+          p_tax_id: string;
+          p_document_paths: string[];
+          p_bank_account_name: string;
+          p_bank_name: string;
+          p_bank_account_number: string;
+          p_bank_routing_code?: string;
+        };
+        Returns: Database['public']['Tables']['verification_applications']['Row'];
+      };
+      review_verification_application: {
+        Args: {
+          p_application_id: string;
+          p_decision: VerificationStatus;
+          p_note?: string;
+        };
+        Returns: Database['public']['Tables']['verification_applications']['Row'];
+      };
+      expire_verifications: {
+        Args: Record<string, never>;
+        Returns: {
+          application_id: string;
+          applicant_id: string;
+        }[];
+      };
+      account_deletion_blocker: {
+        Args: {
+          p_user_id: string;
+        };
+        Returns: string | null;
+      };
+      set_user_role: {
+        Args: {
+          p_user_id: string;
+          p_role: UserRole;
+        };
+        Returns: Database['public']['Tables']['profiles']['Row'];
+      };
+      set_user_verification: {
+        Args: {
+          p_user_id: string;
+          p_verified: boolean;
+          p_until?: string | null;
+        };
+        Returns: Database['public']['Tables']['profiles']['Row'];
+      };
+      request_role_change: {
+        Args: {
+          p_reason?: string;
+        };
+        Returns: Database['public']['Tables']['role_change_requests']['Row'];
+      };
+      review_role_change_request: {
+        Args: {
+          p_request_id: string;
+          p_approve: boolean;
+          p_note?: string;
+        };
+        Returns: Database['public']['Tables']['role_change_requests']['Row'];
+      };
+      mark_notifications_read: {
+        Args: {
+          p_ids?: string[] | null;
+        };
+        Returns: number;
+      };
+      claim_notification_outbox: {
+        Args: {
+          p_channel: string;
+          p_limit?: number;
+        };
+        Returns: Database['public']['Tables']['notification_outbox']['Row'][];
+      };
+      finish_notification_outbox: {
+        Args: {
+          p_outbox_id: string;
+          p_error?: string | null;
+        };
+        Returns: Database['public']['Tables']['notification_outbox']['Row'];
+      };
+      queue_email: {
+        Args: {
+          p_template: string;
+          p_user_id: string | null;
+          p_to_email?: string | null;
+          p_payload?: Json;
+          p_dedupe_key?: string | null;
+          p_available_at?: string;
+        };
+        Returns: string | null;
+      };
+      claim_email_deliveries: {
+        Args: {
+          p_limit?: number;
+        };
+        Returns: Database['public']['Tables']['email_deliveries']['Row'][];
+      };
+      finish_email_delivery: {
+        Args: {
+          p_delivery_id: string;
+          p_provider_message_id?: string | null;
+          p_error?: string | null;
+          p_permanent?: boolean;
+          p_bounced?: boolean;
+        };
+        Returns: Database['public']['Tables']['email_deliveries']['Row'];
+      };
+      record_email_bounce: {
+        Args: {
+          p_provider_message_id: string;
+          p_reason?: string;
+        };
+        Returns: Database['public']['Tables']['email_deliveries']['Row'];
+      };
+      issue_donation_statement: {
+        Args: {
+          p_donor_id: string;
+          p_year: number;
+        };
+        Returns: Database['public']['Tables']['donation_statements']['Row'];
+      };
+      export_donations: {
+        Args: {
+          p_creator_id: string | null;
+          p_from?: string | null;
+          p_to?: string | null;
+          p_project_id?: string | null;
+          p_status?: DonationStatus | null;
+          p_after_created_at?: string | null;
+          p_after_id?: string | null;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          created_at: string;
+          completed_at: string | null;
+          status: DonationStatus;
+          project_id: string;
+          project_title: string;
+          donor_name: string | null;
+          donor_email: string | null;
+          is_anonymous: boolean;
+          amount: number;
+          currency: string;
+          project_amount: number;
+          project_currency: string;
+          receipt_number: string | null;
+          payment_provider: string;
+          transaction_id: string | null;
+          message: string;
+        }[];
+      };
+      export_projects: {
+        Args: {
+          p_creator_id: string | null;
+          p_from?: string | null;
+          p_to?: string | null;
+          p_project_id?: string | null;
+          p_status?: ProjectStatus | null;
+          p_after_created_at?: string | null;
+          p_after_id?: string | null;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          created_at: string;
+          title: string;
+          status: ProjectStatus;
+          category: string | null;
+          creator_name: string | null;
+          location: string;
+          country: string | null;
+          currency: string;
+          goal_amount: number;
+          raised_amount: number;
+          donation_count: number;
+          donor_count: number;
+          start_date: string | null;
+          end_date: string | null;
+          closed_at: string | null;
+        }[];
+      };
+    };
+    Enums: {
+      user_role: UserRole;
+      project_status: ProjectStatus;
+      donation_status: DonationStatus;
+      refund_request_status: RefundRequestStatus;
+      pledge_cadence: PledgeCadence;
+      pledge_status: PledgeStatus;
+      pledge_charge_outcome: PledgeChargeOutcome;
+      project_review_decision: ProjectReviewDecision;
+      verification_status: VerificationStatus;
+      role_request_status: RoleRequestStatus;
+      outbox_status: OutboxStatus;
+      email_status: EmailStatus;
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
   };
 }
@@ -0,0 +1,4 @@
+export * from './types.ts';
+export { renderEmail } from './templates.ts';
+export { emailMessages, formatMessage } from './messages.ts';
+export { emailSamples } from './samples.ts';
@@ -0,0 +1,137 @@
+import type { EmailLocale } from './types.ts';
+
+const en = {
+  greeting: 'Hello {name},',
+  greetingAnonymous: 'Hello,',
+  signoff: 'The Hope Bridge team',
+  footer: 'You are receiving this email because of activity on your Hope Bridge account.',
+  managePreferences: 'Manage notification settings',
+  viewProject: 'View project',
+  receiptSubject: 'Your donation receipt {number}',
+  receiptIntro: 'Thank you for supporting {project}. This is the receipt for your donation.',
+  receiptNumber: 'Receipt number',
+  receiptAmount: 'Amount',
+  receiptDate: 'Date',
+  receiptTransaction: 'Transaction ID',
+  receiptTaxNote:
+    'Please keep this receipt for your records. Whether your donation is tax-deductible depends on the rules where you pay tax.',
+  reviewApprovedSubject: 'Your project is live: {project}',
+  reviewApprovedBody: '{project} has been approved and is now accepting donations.',
+  reviewRejectedSubject: 'Your project was not approved: {project}',
+  reviewRejectedBody: 'After review, {project} was not approved for Hope Bridge.',
+  reviewChangesSubject: 'Changes requested: {project}',
+  reviewChangesBody:
+    'A reviewer asked for changes before {project} can go live. Edit the project from your dashboard and submit it again.',
+  reviewNotes: 'Reviewer notes',
+  reminderSubject: 'Your campaign ends soon: {project}',
+  reminderBody: '{project} stops accepting donations on {date}. So far it has raised {raised} of its {goal} goal.',
+  reminderCta: 'Share your campaign with your supporters before it closes.',
+  digestSubject: 'New updates from projects you support',
+  digestIntro: 'Here is what the projects you support have shared recently.',
+  digestMilestone: 'Milestone',
+  digestReadMore: 'Read the update',
+};
+
+export type EmailMessages = typeof en;
+
+const fr: EmailMessages = {
+  greeting: 'Bonjour {name},',
+  greetingAnonymous: 'Bonjour,',
+  signoff: "L'équipe Hope Bridge",
+  footer: 'Vous recevez cet e-mail en raison d’une activité sur votre compte Hope Bridge.',
+  managePreferences: 'Gérer les notifications',
+  viewProject: 'Voir le projet',
+  receiptSubject: 'Votre reçu de don {number}',
+  receiptIntro: 'Merci de soutenir {project}. Voici le reçu de votre don.',
+  receiptNumber: 'Numéro de reçu',
+  receiptAmount: 'Montant',
+  receiptDate: 'Date',
+  receiptTransaction: 'Identifiant de transaction',
+  receiptTaxNote:
+    'Conservez ce reçu. La déductibilité fiscale de votre don dépend des règles du pays où vous êtes imposé.',
+  reviewApprovedSubject: 'Votre projet est en ligne : {project}',
+  reviewApprovedBody: '{project} a été approuvé et accepte désormais les dons.',
+  reviewRejectedSubject: "Votre projet n'a pas été approuvé : {project}",
+  reviewRejectedBody: "Après examen, {project} n'a pas été approuvé sur Hope Bridge.",
+  reviewChangesSubject: 'Modifications demandées : {project}',
+  reviewChangesBody:
+    'Un examinateur a demandé des modifications avant la mise en ligne de {project}. Modifiez le projet depuis votre tableau de bord et soumettez-le à nouveau.',
+  reviewNotes: "Notes de l'examinateur",
+  reminderSubject: 'Votre campagne se termine bientôt : {project}',
+  reminderBody: '{project} n’acceptera plus de dons à partir du {date}. Il a collecté {raised} sur un objectif de {goal}.',
+  reminderCta: 'Partagez votre campagne avec vos soutiens avant sa clôture.',
+  digestSubject: 'Nouvelles des projets que vous soutenez',
+  digestIntro: 'Voici ce que les projets que vous soutenez ont partagé récemment.',
+  digestMilestone: 'Étape',
+  digestReadMore: 'Lire la mise à jour',
+};
+
+const sw: EmailMessages = {
+  greeting: 'Habari {name},',
+  greetingAnonymous: 'Habari,',
+  signoff: 'Timu ya Hope Bridge',
+  footer: 'Unapokea barua pepe hii kwa sababu ya shughuli kwenye akaunti yako ya Hope Bridge.',
+  managePreferences: 'Dhibiti mipangilio ya arifa',
+  viewProject: 'Tazama mradi',
+  receiptSubject: 'Risiti ya mchango wako {number}',
+  receiptIntro: 'Asante kwa kuunga mkono {project}. Hii ni risiti ya mchango wako.',
+  receiptNumber: 'Nambari ya risiti',
+  receiptAmount: 'Kiasi',
+  receiptDate: 'Tarehe',
+  receiptTransaction: 'Kitambulisho cha muamala',
+  receiptTaxNote:
+    'Tafadhali hifadhi risiti hii. Iwapo mchango wako unakatwa kodi inategemea sheria za mahali unapolipa kodi.',
+  reviewApprovedSubject: 'Mradi wako uko hewani: {project}',
+  reviewApprovedBody: '{project} umeidhinishwa na sasa unapokea michango.',
+  reviewRejectedSubject: 'Mradi wako haukuidhinishwa: {project}',
+  reviewRejectedBody: 'Baada ya ukaguzi, {project} haukuidhinishwa kwenye Hope Bridge.',
+  reviewChangesSubject: 'Mabadiliko yanahitajika: {project}',
+  reviewChangesBody:
+    'Mkaguzi ameomba mabadiliko kabla {project} haujawekwa hewani. Hariri mradi kutoka kwenye dashibodi yako na uutume tena.',
+  reviewNotes: 'Maelezo ya mkaguzi',
+  reminderSubject: 'Kampeni yako inaisha hivi karibuni: {project}',
+  reminderBody: '{project} utaacha kupokea michango tarehe {date}. Hadi sasa umekusanya {raised} kati ya lengo la {goal}.',
+  reminderCta: 'Shiriki kampeni yako na wafuasi wako kabla haijafungwa.',
+  digestSubject: 'Taarifa mpya kutoka kwa miradi unayoiunga mkono',
+  digestIntro: 'Hiki ndicho miradi unayoiunga mkono imeshiriki hivi karibuni.',
+  digestMilestone: 'Hatua muhimu',
+  digestReadMore: 'Soma taarifa',
+};
+
+const es: EmailMessages = {
+  greeting: 'Hola {name}:',
+  greetingAnonymous: 'Hola:',
+  signoff: 'El equipo de Hope Bridge',
+  footer: 'Recibes este correo por la actividad de tu cuenta de Hope Bridge.',
+  managePreferences: 'Gestionar notificaciones',
+  viewProject: 'Ver proyecto',
+  receiptSubject: 'Tu recibo de donación {number}',
+  receiptIntro: 'Gracias por apoyar {project}. Este es el recibo de tu donación.',
+  receiptNumber: 'Número de recibo',
+  receiptAmount: 'Importe',
+  receiptDate: 'Fecha',
+  receiptTransaction: 'ID de transacción',
+  receiptTaxNote:
+    'Guarda este recibo. Que tu donación sea deducible de impuestos depende de las normas del lugar donde tributas.',
+  reviewApprovedSubject: 'Tu proyecto está publicado: {project}',
+  reviewApprovedBody: '{project} ha sido aprobado y ya acepta donaciones.',
+  reviewRejectedSubject: 'Tu proyecto no fue aprobado: {project}',
+  reviewRejectedBody: 'Tras la revisión, {project} no fue aprobado en Hope Bridge.',
+  reviewChangesSubject: 'Cambios solicitados: {project}',
+  reviewChangesBody:
+    'Un revisor pidió cambios antes de publicar {project}. Edita el proyecto desde tu panel y vuelve a enviarlo.',
+  reviewNotes: 'Notas del revisor',
+  reminderSubject: 'Tu campaña termina pronto: {project}',
+  reminderBody: '{project} dejará de aceptar donaciones el {date}. Hasta ahora ha recaudado {raised} de su meta de {goal}.',
+  reminderCta: 'Comparte tu campaña con tus seguidores antes de que cierre.',
+  digestSubject: 'Novedades de los proyectos que apoyas',
+  digestIntro: 'Esto es lo que han compartido recientemente los proyectos que apoyas.',
+  digestMilestone: 'Hito',
+  digestReadMore: 'Leer la actualización',
+};
+
+export const emailMessages: Record<EmailLocale, EmailMessages> = { en, fr, sw, es };
+
+export function formatMessage(message: string, params: Record<string, string> = {}) {
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? params[name] : match));
+}
@@ -0,0 +1,68 @@
+import type { EmailTemplateData } from './types.ts';
+
+const project = { id: '00000000-0000-0000-0000-000000000001', title: 'Clean Water for Kisumu Schools' };
+
+// Fixed data for the admin preview
+export const emailSamples: EmailTemplateData = {
+  donation_receipt: {
+    donation: {
+      amount: 50,
+      currency: 'USD',
+      receipt_number: 'HB-2025-000042',
+      transaction_id: 'pi_sample_3Nf8',
+      completed_at: '2025-12-15T10:30:00Z',
+      created_at: '2025-12-15T10:29:00Z',
+    },
+    project,
+  },
+  review_decision: {
+    project,
+    review: {
+      decision: 'changes_requested',
+      reason: 'Please add a budget breakdown for the borehole drilling and attach a quote from the contractor.',
+    },
+  },
+  deadline_reminder: {
+    project: {
+      ...project,
+      end_date: '2025-12-20T00:00:00Z',
+      raised_amount: 7400,
+      goal_amount: 10000,
+      currency: 'USD',
+    },
+  },
+  update_digest: {
+    updates: [
+      {
+        project,
+        update: {
+          id: '00000000-0000-0000-0000-000000000010',
+          title: 'Drilling has started',
+          content:
+            'The drilling team arrived on **Monday** and reached 40 metres by Friday. [Photos](https://example.org) are in the gallery.',
+          is_milestone: true,
+          milestone_label: 'Construction',
+          created_at: '2025-12-14T08:00:00Z',
+        },
+      },
+      {
+        project: { id: '00000000-0000-0000-0000-000000000002', title: 'Solar Lamps for Rural Clinics' },
+        update: {
+          id: '00000000-0000-0000-0000-000000000011',
+          title: 'First 50 lamps delivered',
+          content: 'Three clinics now have light for night-time deliveries. Thank you for making this possible.',
+          is_milestone: false,
+          milestone_label: '',
+          created_at: '2025-12-13T16:00:00Z',
+        },
+      },
+    ],
+  },
+  notification: {
+    notification: {
+      title: 'Your project is fully funded: Clean Water for Kisumu Schools',
+      body: 'It reached its goal. Donations stay open until the campaign ends.',
+      project_id: project.id,
+    },
+  },
+};
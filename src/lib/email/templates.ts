@@ -0,0 +1,238 @@
+import { emailMessages, formatMessage, type EmailMessages } from './messages.ts';
+import type { EmailContext, EmailTemplate, EmailTemplateData, RenderedEmail } from './types.ts';
+
+// Templates describe their body as blocks; the layout turns the same blocks into
+// both the HTML and the plain-text part so the two never drift apart
+type Block =
+  | { type: 'paragraph'; text: string }
+  | { type: 'details'; rows: [string, string][] }
+  | { type: 'quote'; label: string; text: string }
+  | { type: 'button'; label: string; url: string }
+  | { type: 'item'; title: string; meta: string; text: string; url: string; linkLabel: string }
+  | { type: 'note'; text: string };
+
+interface TemplateOutput {
+  subject: string;
+  blocks: Block[];
+}
+
+type TemplateRenderer<K extends EmailTemplate> = (
+  data: EmailTemplateData[K],
+  messages: EmailMessages,
+  context: EmailContext
+) => TemplateOutput;
+
+const BRAND_COLOR = '#059669';
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatMoney(amount: number, currency: string, locale: string) {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 2 }).format(amount);
+}
+
+function formatDate(value: string, locale: string) {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(new Date(value));
+}
+
+function projectUrl(context: EmailContext, projectId: string) {
+  return `${context.siteUrl}/projects/${projectId}`;
+}
+
+// Updates are written in Markdown; digests show a short plain excerpt
+function excerpt(markdown: string, length = 280) {
+  const plain = markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[#>*_`~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return plain.length > length ? `${plain.slice(0, length).trimEnd()}…` : plain;
+}
+
+const templates: { [K in EmailTemplate]: TemplateRenderer<K> } = {
+  donation_receipt: ({ donation, project }, m, context) => ({
+    subject: formatMessage(m.receiptSubject, { number: donation.receipt_number ?? '' }).trim(),
+    blocks: [
+      { type: 'paragraph', text: formatMessage(m.receiptIntro, { project: project.title }) },
+      {
+        type: 'details',
+        rows: [
+          [m.receiptNumber, donation.receipt_number ?? '—'],
+          [m.receiptAmount, formatMoney(donation.amount, donation.currency, context.locale)],
+          [m.receiptDate, formatDate(donation.completed_at ?? donation.created_at, context.locale)],
+          [m.receiptTransaction, donation.transaction_id ?? '—'],
+        ],
+      },
+      { type: 'note', text: m.receiptTaxNote },
+      { type: 'button', label: m.viewProject, url: projectUrl(context, project.id) },
+    ],
+  }),
+
+  review_decision: ({ project, review }, m, context) => {
+    const copy = {
+      approved: [m.reviewApprovedSubject, m.reviewApprovedBody],
+      rejected: [m.reviewRejectedSubject, m.reviewRejectedBody],
+      changes_requested: [m.reviewChangesSubject, m.reviewChangesBody],
+    }[review.decision];
+    const blocks: Block[] = [{ type: 'paragraph', text: formatMessage(copy[1], { project: project.title }) }];
+    if (review.reason.trim()) blocks.push({ type: 'quote', label: m.reviewNotes, text: review.reason.trim() });
+    blocks.push({ type: 'button', label: m.viewProject, url: projectUrl(context, project.id) });
+    return { subject: formatMessage(copy[0], { project: project.title }), blocks };
+  },
+
+  deadline_reminder: ({ project }, m, context) => ({
+    subject: formatMessage(m.reminderSubject, { project: project.title }),
+    blocks: [
+      {
+        type: 'paragraph',
+        text: formatMessage(m.reminderBody, {
+          project: project.title,
+          date: project.end_date ? formatDate(project.end_date, context.locale) : '—',
+          raised: formatMoney(project.raised_amount, project.currency, context.locale),
+          goal: formatMoney(project.goal_amount, project.currency, context.locale),
+        }),
+      },
+      { type: 'paragraph', text: m.reminderCta },
+      { type: 'button', label: m.viewProject, url: projectUrl(context, project.id) },
+    ],
+  }),
+
+  update_digest: ({ updates }, m, context) => ({
+    subject: m.digestSubject,
+    blocks: [
+      { type: 'paragraph', text: m.digestIntro },
+      ...updates.map(({ project, update }): Block => ({
+        type: 'item',
+        title: `${project.title}: ${update.title}`,
+        meta: [
+          update.is_milestone ? `${m.digestMilestone}${update.milestone_label ? ` · ${update.milestone_label}` : ''}` : '',
+          formatDate(update.created_at, context.locale),
+        ]
+          .filter(Boolean)
+          .join(' · '),
+        text: excerpt(update.content),
+        url: projectUrl(context, project.id),
+        linkLabel: m.digestReadMore,
+      })),
+    ],
+  }),
+
+  notification: ({ notification }, m, context) => {
+    const blocks: Block[] = [];
+    if (notification.body.trim()) blocks.push({ type: 'paragraph', text: notification.body.trim() });
+    if (notification.project_id) {
+      blocks.push({ type: 'button', label: m.viewProject, url: projectUrl(context, notification.project_id) });
+    }
+    return { subject: notification.title, blocks };
+  },
+};
+
+function renderHtmlBlock(block: Block) {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p style="margin:0 0 16px;line-height:1.6;white-space:pre-line">${escapeHtml(block.text)}</p>`;
+    case 'note':
+      return `<p style="margin:0 0 16px;line-height:1.5;font-size:13px;color:#6b7280">${escapeHtml(block.text)}</p>`;
+    case 'details':
+      return `<table role="presentation" width="100%" style="margin:0 0 16px;border-collapse:collapse">${block.rows
+        .map(
+          ([label, value]) =>
+            `<tr><td style="padding:8px 0;border-bottom:1px solid #e5e7eb;color:#6b7280">${escapeHtml(label)}</td>` +
+            `<td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right;font-weight:bold">${escapeHtml(value)}</td></tr>`
+        )
+        .join('')}</table>`;
+    case 'quote':
+      return (
+        `<div style="margin:0 0 16px;padding:12px 16px;border-left:4px solid ${BRAND_COLOR};background:#f9fafb">` +
+        `<p style="margin:0 0 4px;font-size:13px;color:#6b7280">${escapeHtml(block.label)}</p>` +
+        `<p style="margin:0;line-height:1.6;white-space:pre-line">${escapeHtml(block.text)}</p></div>`
+      );
+    case 'button':
+      return (
+        `<p style="margin:24px 0"><a href="${escapeHtml(block.url)}" style="display:inline-block;padding:12px 24px;` +
+        `background:${BRAND_COLOR};color:#ffffff;text-decoration:none;border-radius:8px;font-weight:bold">${escapeHtml(block.label)}</a></p>`
+      );
+    case 'item':
+      return (
+        `<div style="margin:0 0 16px;padding:16px;border:1px solid #e5e7eb;border-radius:8px">` +
+        `<p style="margin:0 0 4px;font-weight:bold">${escapeHtml(block.title)}</p>` +
+        `<p style="margin:0 0 8px;font-size:13px;color:#6b7280">${escapeHtml(block.meta)}</p>` +
+        `<p style="margin:0 0 8px;line-height:1.5">${escapeHtml(block.text)}</p>` +
+        `<a href="${escapeHtml(block.url)}" style="color:${BRAND_COLOR}">${escapeHtml(block.linkLabel)}</a></div>`
+      );
+  }
+}
+
+function renderTextBlock(block: Block) {
+  switch (block.type) {
+    case 'paragraph':
+    case 'note':
+      return block.text;
+    case 'details':
+      return block.rows.map(([label, value]) => `${label}: ${value}`).join('\n');
+    case 'quote':
+      return `${block.label}:\n${block.text
+        .split('\n')
+        .map((line) => `> ${line}`)
+        .join('\n')}`;
+    case 'button':
+      return `${block.label}: ${block.url}`;
+    case 'item':
+      return `* ${block.title}\n  ${block.meta}\n  ${block.text}\n  ${block.linkLabel}: ${block.url}`;
+  }
+}
+
+export function renderEmail<K extends EmailTemplate>(
+  template: K,
+  data: EmailTemplateData[K],
+  context: EmailContext
+): RenderedEmail {
+  const m = emailMessages[context.locale] ?? emailMessages.en;
+  const renderer = templates[template] as TemplateRenderer<K>;
+  const { subject, blocks } = renderer(data, m, context);
+
+  const greeting = context.recipientName
+    ? formatMessage(m.greeting, { name: context.recipientName })
+    : m.greetingAnonymous;
+  const preferencesUrl = `${context.siteUrl}/notifications`;
+
+  const html = `<!DOCTYPE html>
+<html lang="${context.locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827">
+<table role="presentation" width="100%" style="border-collapse:collapse"><tr><td align="center" style="padding:24px 12px">
+<table role="presentation" width="100%" style="max-width:560px;border-collapse:collapse;background:#ffffff;border-radius:12px">
+<tr><td style="padding:24px 32px;border-bottom:1px solid #e5e7eb;font-size:20px;font-weight:bold;color:${BRAND_COLOR}">Hope Bridge</td></tr>
+<tr><td style="padding:32px">
+<p style="margin:0 0 16px">${escapeHtml(greeting)}</p>
+${blocks.map(renderHtmlBlock).join('\n')}
+<p style="margin:24px 0 0">${escapeHtml(m.signoff)}</p>
+</td></tr>
+</table>
+<p style="max-width:560px;margin:16px auto 0;font-size:12px;line-height:1.5;color:#6b7280">
+${escapeHtml(m.footer)} <a href="${escapeHtml(preferencesUrl)}" style="color:#6b7280">${escapeHtml(m.managePreferences)}</a>
+</p>
+</td></tr></table>
+</body>
+</html>`;
+
+  const text = [
+    greeting,
+    ...blocks.map(renderTextBlock),
+    m.signoff,
+    `--\n${m.footer}\n${m.managePreferences}: ${preferencesUrl}`,
+  ].join('\n\n');
+
+  return { subject, html, text };
+}
@@ -0,0 +1,57 @@
+import type { Database } from '../database.types.ts';
+
+type Tables = Database['public']['Tables'];
+type Donation = Tables['donations']['Row'];
+type Project = Tables['projects']['Row'];
+type ProjectReview = Tables['project_reviews']['Row'];
+type ProjectUpdate = Tables['project_updates']['Row'];
+type Notification = Tables['notifications']['Row'];
+
+// Same languages as the app's LOCALES; kept here so the edge worker can import
+// this folder without the Vite-only i18n module
+export const EMAIL_LOCALES = ['en', 'fr', 'sw', 'es'] as const;
+
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+// Template inputs are picked from the generated row types, so renaming or
+// retyping a column breaks the build instead of the email
+export interface EmailTemplateData {
+  donation_receipt: {
+    donation: Pick<
+      Donation,
+      'amount' | 'currency' | 'receipt_number' | 'transaction_id' | 'completed_at' | 'created_at'
+    >;
+    project: Pick<Project, 'id' | 'title'>;
+  };
+  review_decision: {
+    project: Pick<Project, 'id' | 'title'>;
+    review: Pick<ProjectReview, 'decision' | 'reason'>;
+  };
+  deadline_reminder: {
+    project: Pick<Project, 'id' | 'title' | 'end_date' | 'raised_amount' | 'goal_amount' | 'currency'>;
+  };
+  update_digest: {
+    updates: {
+      project: Pick<Project, 'id' | 'title'>;
+      update: Pick<ProjectUpdate, 'id' | 'title' | 'content' | 'is_milestone' | 'milestone_label' | 'created_at'>;
+    }[];
+  };
+  notification: {
+    notification: Pick<Notification, 'title' | 'body' | 'project_id'>;
+  };
+}
+
+export type EmailTemplate = keyof EmailTemplateData;
+
+export interface EmailContext {
+  locale: EmailLocale;
+  // Public origin of the web app, used for links
+  siteUrl: string;
+  recipientName?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
@@ -0,0 +1,35 @@
+import { downloadFunctionFile } from './functions';
+import type { DonationStatus, ProjectStatus } from './database.types';
+import type { MessageKey } from './i18n';
+
+export type ExportDataset = 'donations' | 'projects';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportFilters {
+  from?: string;
+  to?: string;
+  projectId?: string;
+  status?: string;
+}
+
+export const exportStatuses: { donations: DonationStatus[]; projects: ProjectStatus[] } = {
+  donations: ['completed', 'pending', 'refunded', 'failed'],
+  projects: ['draft', 'pending_review', 'active', 'fully_funded', 'completed', 'cancelled'],
+};
+
+export const exportStatusKeys: Record<DonationStatus | ProjectStatus, MessageKey> = {
+  draft: 'export.status.draft',
+  pending_review: 'export.status.pendingReview',
+  active: 'export.status.active',
+  fully_funded: 'export.status.fullyFunded',
+  completed: 'export.status.completed',
+  cancelled: 'export.status.cancelled',
+  pending: 'export.status.pending',
+  refunded: 'export.status.refunded',
+  failed: 'export.status.failed',
+};
+
+// Dates are whole UTC days in YYYY-MM-DD, both ends inclusive
+export function downloadExport(dataset: ExportDataset, format: ExportFormat, filters: ExportFilters) {
+  return downloadFunctionFile('exports', { dataset, format, ...filters }, `${dataset}.${format}`);
+}
@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+
+export type FundingEvent = Database['public']['Tables']['donation_feed']['Row'];
+
+export type FundingProgress = Pick<
+  Database['public']['Tables']['projects']['Row'],
+  'id' | 'raised_amount' | 'goal_amount' | 'status' | 'closed_at'
+>;
+
+interface FundingHandlers {
+  onProject?: (project: FundingProgress) => void;
+  onDonation?: (event: FundingEvent) => void;
+  onDonationRemoved?: (donationId: string) => void;
+}
+
+export const FUNDING_POLL_INTERVAL = 30_000;
+
+// Realtime accepts at most 100 values in an `in` filter
+const FILTER_CHUNK_SIZE = 100;
+
+let channelCount = 0;
+
+export async function fetchFundingEvents(projectId: string, limit = 10) {
+  const { data, error } = await supabase
+    .from('donation_feed')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data;
+}
+
+function toProgress(row: Partial<FundingProgress>): FundingProgress | null {
+  if (!row.id || row.raised_amount === undefined) return null;
+  return {
+    id: row.id,
+    raised_amount: Number(row.raised_amount),
+    goal_amount: Number(row.goal_amount),
+    status: row.status!,
+    closed_at: row.closed_at ?? null,
+  };
+}
+
+function toEvent(row: FundingEvent): FundingEvent {
+  return { ...row, amount: Number(row.amount), project_amount: Number(row.project_amount) };
+}
+
+/*
+  Streams funding changes for the given projects over Supabase Realtime. If
+  the channel can't connect it falls back to polling every
+  FUNDING_POLL_INTERVAL until it recovers. Returns the cleanup function.
+*/
+export function subscribeToFunding(projectIds: string[], handlers: FundingHandlers) {
+  const ids = [...new Set(projectIds)];
+  if (ids.length === 0) return () => {};
+
+  let closed = false;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let lastSeen = new Date().toISOString();
+
+  const handleEvent = (event: FundingEvent) => {
+    if (event.created_at > lastSeen) lastSeen = event.created_at;
+    handlers.onDonation?.(toEvent(event));
+  };
+
+  const poll = async () => {
+    try {
+      const [projects, events] = await Promise.all([
+        supabase.from('projects').select('id, raised_amount, goal_amount, status, closed_at').in('id', ids),
+        handlers.onDonation
+          ? supabase
+              .from('donation_feed')
+              .select('*')
+              .in('project_id', ids)
+              .gt('created_at', lastSeen)
+              .order('created_at', { ascending: true })
+          : Promise.resolve({ data: [] as FundingEvent[], error: null }),
+      ]);
+      if (closed) return;
+      if (projects.error) throw projects.error;
+      if (events.error) throw events.error;
+
+      projects.data.forEach((project) => handlers.onProject?.(toProgress(project)!));
+      events.data.forEach(handleEvent);
+    } catch (error) {
+      console.error('Error polling funding progress:', error);
+    }
+  };
+
+  const startPolling = () => {
+    if (pollTimer || closed) return;
+    pollTimer = setInterval(poll, FUNDING_POLL_INTERVAL);
+  };
+
+  const stopPolling = () => {
+    if (pollTimer) clearInterval(pollTimer);
+    pollTimer = null;
+  };
+
+  const channel = supabase.channel(`funding:${++channelCount}`);
+  for (let i = 0; i < ids.length; i += FILTER_CHUNK_SIZE) {
+    const chunk = ids.slice(i, i + FILTER_CHUNK_SIZE);
+    const filterValue = chunk.length === 1 ? `eq.${chunk[0]}` : `in.(${chunk.join(',')})`;
+
+    channel.on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'projects', filter: `id=${filterValue}` },
+      (payload) => {
+        const progress = toProgress(payload.new as Partial<FundingProgress>);
+        if (progress) handlers.onProject?.(progress);
+      }
+    );
+
+    if (handlers.onDonation) {
+      channel.on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'donation_feed', filter: `project_id=${filterValue}` },
+        (payload) => handleEvent(payload.new as FundingEvent)
+      );
+    }
+  }
+
+  // Delete events can't be filtered, so they arrive for every project
+  if (handlers.onDonationRemoved) {
+    channel.on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'donation_feed' }, (payload) => {
+      const donationId = (payload.old as Partial<FundingEvent>).donation_id;
+      if (donationId) handlers.onDonationRemoved?.(donationId);
+    });
+  }
+
+  channel.subscribe((status) => {
+    if (status === 'SUBSCRIBED') {
+      // Catch up on anything missed while connecting or polling
+      if (pollTimer) poll();
+      stopPolling();
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      startPolling();
+    }
+  });
+
+  return () => {
+    closed = true;
+    stopPolling();
+    supabase.removeChannel(channel);
+  };
+}
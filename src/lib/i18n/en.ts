@@ -0,0 +1,611 @@
+// English is the reference catalog: every key used by the UI must exist here
+export const en = {
+  'nav.explore': 'Explore Projects',
+  'nav.create': 'Create Project',
+  'nav.admin': 'Admin Panel',
+  'nav.dashboard': 'Dashboard',
+  'nav.signIn': 'Sign In',
+  'nav.signOut': 'Sign Out',
+  'nav.getStarted': 'Get Started',
+  'nav.userFallback': 'User',
+  'nav.language': 'Language',
+  'nav.settings': 'Profile settings',
+  'nav.notifications': 'Notifications',
+  'nav.unreadNotifications': '{count} unread notifications',
+
+  'hero.tagline': 'Connecting Communities Through Transparent Crowdfunding',
+  'hero.description':
+    'Empowering verified NGOs and individuals to fund poverty alleviation projects that create lasting change in communities worldwide.',
+  'hero.getStarted': 'Get Started Today',
+  'hero.explore': 'Explore Projects',
+  'hero.verifiedTitle': 'Verified Projects',
+  'hero.verifiedText': 'Every project is carefully reviewed and verified for transparency and legitimacy',
+  'hero.communityTitle': 'Community Impact',
+  'hero.communityText': 'Join thousands of donors making a real difference in fighting poverty',
+  'hero.transparencyTitle': 'Full Transparency',
+  'hero.transparencyText': 'Track every donation with real-time updates and detailed progress reports',
+  'hero.focusAreas': 'Focus Areas for Impact',
+  'hero.area.education': 'Education',
+  'hero.area.healthcare': 'Healthcare',
+  'hero.area.cleanWater': 'Clean Water',
+  'hero.area.foodSecurity': 'Food Security',
+  'hero.area.housing': 'Housing',
+  'hero.area.skillsTraining': 'Skills Training',
+
+  'auth.email': 'Email Address',
+  'auth.emailPlaceholder': 'you@example.com',
+  'auth.password': 'Password',
+
+  'signIn.title': 'Welcome Back',
+  'signIn.subtitle': 'Sign in to continue making a difference',
+  'signIn.passwordPlaceholder': 'Enter your password',
+  'signIn.submit': 'Sign In',
+  'signIn.submitting': 'Signing in...',
+  'signIn.noAccount': "Don't have an account?",
+  'signIn.signUpLink': 'Sign up here',
+  'signIn.failed': 'Failed to sign in',
+
+  'signUp.title': 'Join Our Community',
+  'signUp.subtitle': 'Start making a difference today',
+  'signUp.fullName': 'Full Name',
+  'signUp.fullNamePlaceholder': 'John Doe',
+  'signUp.passwordPlaceholder': 'At least 6 characters',
+  'signUp.role': 'I want to:',
+  'signUp.donorTitle': 'Support Projects',
+  'signUp.donorText': 'Donate to projects and make an impact',
+  'signUp.creatorTitle': 'Create Projects',
+  'signUp.creatorText': 'Launch campaigns to fund poverty alleviation initiatives',
+  'signUp.creatorReview': 'An admin approves new creator accounts; you can donate in the meantime',
+  'signUp.submit': 'Create Account',
+  'signUp.submitting': 'Creating account...',
+  'signUp.haveAccount': 'Already have an account?',
+  'signUp.signInLink': 'Sign in here',
+  'signUp.failed': 'Failed to sign up',
+
+  'signIn.forgotPassword': 'Forgot password?',
+  'signIn.useMagicLink': 'Email me a sign-in link instead',
+  'signIn.usePassword': 'Sign in with a password instead',
+  'signIn.sendMagicLink': 'Send Sign-in Link',
+  'signIn.magicLinkSent': 'We sent a sign-in link to {email}. Open it on this device to continue.',
+  'signUp.confirmEmail': 'We sent a confirmation link to {email}. Confirm your address to finish creating your account.',
+  'auth.checkEmailTitle': 'Check your email',
+  'auth.sending': 'Sending...',
+  'auth.resendConfirmation': 'Resend confirmation email',
+  'auth.confirmationSent': 'A new confirmation email is on its way to {email}.',
+  'auth.backToSignIn': 'Back to sign in',
+  'auth.unverifiedBanner': 'Please confirm your email address ({email}) using the link we sent you.',
+  'auth.dismiss': 'Dismiss',
+  'forgotPassword.title': 'Reset your password',
+  'forgotPassword.subtitle': "Enter your email and we'll send you a link to choose a new password",
+  'forgotPassword.submit': 'Send Reset Link',
+  'forgotPassword.sent': 'If an account exists for {email}, a reset link is on its way.',
+  'forgotPassword.failed': 'Failed to send reset link',
+  'resetPassword.title': 'Choose a new password',
+  'resetPassword.subtitle': 'Enter a new password for your account',
+  'resetPassword.newPassword': 'New password',
+  'resetPassword.confirmPassword': 'Confirm new password',
+  'resetPassword.mismatch': 'Passwords do not match',
+  'resetPassword.submit': 'Update Password',
+  'resetPassword.submitting': 'Updating...',
+  'resetPassword.invalidLink': 'This reset link is invalid or has expired.',
+  'resetPassword.requestNew': 'Request a new link',
+  'resetPassword.failed': 'Failed to update password',
+  'authError.emailNotConfirmed': 'Your email address has not been confirmed yet. Check your inbox for the confirmation link.',
+  'authError.invalidCredentials': 'Incorrect email or password.',
+  'authError.userExists': 'An account with this email already exists. Try signing in instead.',
+  'authError.weakPassword': 'That password is too weak. Use at least 6 characters and avoid common passwords.',
+  'authError.samePassword': 'Your new password must be different from your current one.',
+  'authError.linkExpired': 'This link has expired or was already used. Request a new one.',
+  'authError.userNotFound': 'No account found for this email address.',
+  'authError.emailRateLimited': 'Too many emails have been sent to this address. Please wait a few minutes and try again.',
+  'authError.rateLimited': 'Too many attempts. Please wait a moment and try again.',
+  'authError.invalidEmail': 'Please enter a valid email address.',
+  'authError.signupDisabled': 'New sign-ups are currently disabled.',
+
+  'project.back': '← Back to Projects',
+  'project.notFound': 'Project not found',
+  'project.goBack': 'Go back',
+  'project.ends': 'Ends {date}',
+  'project.updates': 'Project Updates',
+  'project.milestone': 'Milestone reached',
+  'project.recentDonations': 'Recent Donations',
+  'project.anonymous': 'Anonymous',
+  'project.justDonated': '{name} just donated {amount}',
+  'project.someoneJustDonated': 'Someone just donated {amount}',
+  'project.raisedOf': 'raised of {goal} goal',
+  'project.funded': '{percent}% funded',
+  'project.daysLeft': '{count} days left',
+  'project.ended': 'Campaign ended',
+  'project.closedNotice': 'This campaign has ended and is no longer accepting donations.',
+  'project.support': 'Support This Project',
+  'project.share': 'Share',
+  'project.createdBy': 'Created by',
+  'project.verifiedCreator': 'Verified Creator',
+
+  'donation.title': 'Support This Project',
+  'donation.thankYou': 'Thank you for your donation!',
+  'donation.receipt': 'Receipt',
+  'donation.receiptPending': 'Pending',
+  'donation.project': 'Project',
+  'donation.amount': 'Amount',
+  'donation.date': 'Date',
+  'donation.donor': 'Donor',
+  'donation.monthlyNotice': "You'll be charged {amount} every month. Manage this pledge from your dashboard.",
+  'donation.claimNotice': 'Create an account with {email} to see this donation in your dashboard.',
+  'donation.print': 'Print Receipt',
+  'donation.done': 'Done',
+  'donation.supporting': "You're supporting:",
+  'donation.selectAmount': 'Select Amount',
+  'donation.currency': 'Currency',
+  'donation.customAmount': 'Custom amount',
+  'donation.conversionNote':
+    'This project raises money in {currency}. Your donation is converted at the current exchange rate when it is made.',
+  'donation.guestName': 'Your Name',
+  'donation.guestEmail': 'Email',
+  'donation.guestEmailPlaceholder': 'For your receipt',
+  'donation.guestEmailHint': 'Sign up later with this email to claim the donation into your account.',
+  'donation.message': 'Message (Optional)',
+  'donation.messagePlaceholder': 'Leave a message of support...',
+  'donation.giveMonthly': 'Give monthly',
+  'donation.giveMonthlyHint': 'Repeat this donation every month. Pause or cancel anytime from your dashboard.',
+  'donation.anonymous': 'Make this donation anonymous',
+  'donation.anonymousHint': 'Your name will not be displayed publicly',
+  'donation.paymentInfo': 'Payment Information',
+  'donation.paymentMock': 'Test mode: payments are processed by the local mock gateway and no card is charged.',
+  'donation.paymentStripe':
+    "Payments are processed securely by Stripe. You'll enter your payment details in the next step.",
+  'donation.paymentUnavailable':
+    'Donations are unavailable right now because card payments are not configured.',
+  'donation.processing': 'Processing...',
+  'donation.donateMonthly': 'Donate Monthly',
+  'donation.donateNow': 'Donate Now',
+  'donation.terms': 'By donating, you agree to our terms and conditions',
+  'donation.invalidAmount': 'Please enter a valid amount',
+  'donation.declined': 'Your payment was declined. Please try another amount or payment method.',
+  'donation.failed': 'Failed to process donation',
+
+  'footer.about': 'Connecting communities through transparent crowdfunding for poverty alleviation projects worldwide.',
+  'footer.tagline': 'Built for social impact. All projects are verified and monitored for transparency.',
+  'footer.platform': 'Platform',
+  'footer.browse': 'Browse Projects',
+  'footer.startProject': 'Start a Project',
+  'footer.howItWorks': 'How It Works',
+  'footer.legal': 'Legal',
+  'footer.terms': 'Terms of Service',
+  'footer.privacy': 'Privacy Policy',
+  'footer.contact': 'Contact Us',
+  'footer.copyright': '© 2024 Hope Bridge. Built for educational purposes as a final project.',
+
+  'comments.title': 'Comments',
+  'comments.unknownAuthor': 'Unknown',
+  'comments.creator': 'Creator',
+  'comments.hidden': 'Hidden',
+  'comments.edited': 'edited',
+  'comments.deleted': 'This comment was deleted.',
+  'comments.save': 'Save',
+  'comments.cancel': 'Cancel',
+  'comments.reply': 'Reply',
+  'comments.edit': 'Edit',
+  'comments.delete': 'Delete',
+  'comments.hide': 'Hide',
+  'comments.unhide': 'Unhide',
+  'comments.confirmDelete': 'Delete this comment?',
+  'comments.placeholder': 'Share your thoughts or ask the creator a question...',
+  'comments.replyPlaceholder': 'Write a reply...',
+  'comments.post': 'Post Comment',
+  'comments.signInPrompt': 'Sign in to join the conversation.',
+  'comments.empty': 'No comments yet. Be the first to say something!',
+  'comments.loading': 'Loading...',
+  'comments.loadMore': 'Load more comments',
+  'comments.failed': 'Something went wrong',
+
+  'updates.composerTitle': 'Post an update to {title}',
+  'updates.titlePlaceholder': 'Update title',
+  'updates.write': 'Write',
+  'updates.preview': 'Preview',
+  'updates.contentPlaceholder':
+    'Share your progress. Markdown is supported: **bold**, _italic_, lists and [links](https://...).',
+  'updates.nothingToPreview': 'Nothing to preview',
+  'updates.addImages': 'Add images',
+  'updates.imageType': '{name} must be a JPEG, PNG or WebP image',
+  'updates.imageTooLarge': '{name} is larger than 5 MB',
+  'updates.uploadFailed': 'Failed to upload image',
+  'updates.milestone': 'Milestone reached',
+  'updates.milestonePlaceholder': 'e.g. First well completed',
+  'updates.finalReport': 'Final report',
+  'updates.finalReportHint': 'Explain how the funds were used. Publishing it marks the project as completed.',
+  'updates.notifyNotice': 'Everyone who has donated to this project will be notified.',
+  'updates.publish': 'Publish Update',
+  'updates.publishing': 'Publishing...',
+  'updates.publishFailed': 'Failed to publish update',
+
+  'verification.status.pending': 'Under review',
+  'verification.status.approved': 'Verified',
+  'verification.status.rejected': 'Rejected',
+  'verification.status.expired': 'Expired',
+  'verification.title': 'Verification',
+  'verification.intro': 'Verified creators can submit projects for review and receive payouts.',
+  'verification.verifiedUntil': '{organization} is verified until {date}.',
+  'verification.pendingNotice':
+    'Your application for {organization} was submitted on {date} and is waiting for an admin.',
+  'verification.rejectedNotice': 'Your last application was not approved.',
+  'verification.rejectedNoticeWithNote': 'Your last application was not approved: {note}',
+  'verification.expiredNotice': 'Your verification has expired.',
+  'verification.expiredNoticeWithNote': 'Your verification has expired: {note}',
+  'verification.notApplied': 'You have not applied for verification yet.',
+  'verification.apply': 'Apply for Verification',
+  'verification.applyAgain': 'Apply Again',
+  'verification.organizationName': 'Organization or legal name',
+  'verification.registrationNumber': 'Registration number',
+  'verification.taxId': 'Tax ID',
+  'verification.documents': 'Registration documents',
+  'verification.uploadDocument': 'Upload PDF or image',
+  'verification.payoutAccount': 'Payout bank account',
+  'verification.accountName': 'Account holder name',
+  'verification.bankName': 'Bank name',
+  'verification.accountNumber': 'Account number or IBAN',
+  'verification.routingCode': 'SWIFT / routing code',
+  'verification.cancel': 'Cancel',
+  'verification.submit': 'Submit Application',
+  'verification.submitting': 'Submitting...',
+  'verification.uploadFailed': 'Failed to upload document',
+  'verification.submitFailed': 'Failed to submit application',
+  'verificationReview.emptyTitle': 'No verification applications',
+  'verificationReview.emptyText': 'There are no applications waiting for review.',
+  'verificationReview.unknownCreator': 'Unknown creator',
+  'verificationReview.applied': 'applied {date}',
+  'verificationReview.verifiedUntil': 'verified until {date}',
+  'verificationReview.registrationNumber': 'Registration number',
+  'verificationReview.taxId': 'Tax ID',
+  'verificationReview.payoutAccount': 'Payout account',
+  'verificationReview.accountNumber': 'Account number',
+  'verificationReview.notePending': 'Note to the creator (required to reject)',
+  'verificationReview.noteExpire': 'Reason for expiring (optional)',
+  'verificationReview.approve': 'Approve',
+  'verificationReview.reject': 'Reject',
+  'verificationReview.expire': 'Expire Now',
+  'verificationReview.reviewFailed': 'Failed to review application',
+  'verificationReview.openFailed': 'Failed to open document',
+
+  'preferences.donations': 'Donations',
+  'preferences.donationsHint': 'Someone donates to one of your projects',
+  'preferences.projectUpdates': 'Project updates',
+  'preferences.projectUpdatesHint': 'A project you supported posts an update',
+  'preferences.comments': 'Comments',
+  'preferences.commentsHint': 'Someone comments on your project or replies to you',
+  'preferences.projectStatus': 'Project status',
+  'preferences.projectStatusHint': 'Your project is approved, rejected or changes status',
+  'preferences.account': 'Account',
+  'profile.title': 'Profile Settings',
+  'profile.subtitle': 'Manage how you appear on Hope Bridge and how we contact you',
+  'profile.avatarHint': 'Click the picture to upload a new avatar',
+  'profile.avatarFailed': 'Failed to upload avatar',
+  'profile.fullName': 'Full name',
+  'profile.bio': 'Bio',
+  'profile.bioPlaceholder': 'Tell donors and creators a little about yourself',
+  'profile.location': 'Location',
+  'profile.locationPlaceholder': 'City, Country',
+  'profile.language': 'Language',
+  'profile.notifyMe': 'Notify me when',
+  'profile.save': 'Save Profile',
+  'profile.saving': 'Saving...',
+  'profile.saved': 'Profile saved',
+  'profile.saveFailed': 'Failed to save profile',
+  'profile.changePassword': 'Change Password',
+  'profile.changingPassword': 'Changing...',
+  'profile.currentPassword': 'Current password',
+  'profile.newPassword': 'New password',
+  'profile.confirmPassword': 'Confirm new password',
+  'profile.passwordMismatch': 'New passwords do not match',
+  'profile.passwordTooShort': 'New password must be at least {count} characters',
+  'profile.currentPasswordIncorrect': 'Current password is incorrect',
+  'profile.passwordChanged': 'Password changed',
+  'profile.passwordFailed': 'Failed to change password',
+  'profile.deleteTitle': 'Delete Account',
+  'profile.deleteText':
+    'This permanently removes your profile, draft projects, recurring pledges and uploaded files. Your past donations stay on the projects you supported but are no longer linked to you.',
+  'profile.deleteConfirm': 'Type {word} to confirm',
+  'profile.delete': 'Delete My Account',
+  'profile.deleting': 'Deleting...',
+  'profile.deleteFailed': 'Failed to delete account',
+
+  'roles.donor': 'Donor',
+  'roles.projectCreator': 'Project Creator',
+  'roles.admin': 'Admin',
+  'roleRequest.status.pending': 'Under review',
+  'roleRequest.status.approved': 'Approved',
+  'roleRequest.status.rejected': 'Not approved',
+  'roleRequest.title': 'Start a Project',
+  'roleRequest.intro': 'Project creators can launch campaigns once an admin has approved their account.',
+  'roleRequest.pendingNotice':
+    'You asked to become a project creator on {date}. An admin will review your request soon.',
+  'roleRequest.rejectedNotice': 'Your last request was not approved.',
+  'roleRequest.rejectedNoticeWithNote': 'Your last request was not approved: {note}',
+  'roleRequest.become': 'Become a Project Creator',
+  'roleRequest.askAgain': 'Ask Again',
+  'roleRequest.reasonPlaceholder': 'Tell us about the organisation or community you want to raise funds for',
+  'roleRequest.cancel': 'Cancel',
+  'roleRequest.send': 'Send Request',
+  'roleRequest.sending': 'Sending...',
+  'roleRequest.failed': 'Failed to send request',
+  'users.creatorRequests': 'Creator Requests',
+  'users.unknownUser': 'Unknown user',
+  'users.requestedRole': 'Wants to become a {role} · asked {date}',
+  'users.notePlaceholder': 'Note to the user (required to reject)',
+  'users.approve': 'Approve',
+  'users.reject': 'Reject',
+  'users.approveFailed': 'Failed to approve request',
+  'users.rejectFailed': 'Failed to reject request',
+  'users.searchPlaceholder': 'Search by name',
+  'users.noResults': 'No users match your search.',
+  'users.user': 'User',
+  'users.role': 'Role',
+  'users.verification': 'Verification',
+  'users.joined': 'Joined',
+  'users.ownRole': 'You cannot change your own role',
+  'users.changeRoleFailed': 'Failed to change role',
+  'users.verified': 'Verified',
+  'users.verifiedUntil': 'Until {date}',
+  'users.notVerified': 'Not verified',
+  'users.verificationFailed': 'Failed to change verification',
+
+  'notifications.title': 'Notifications',
+  'notifications.unreadCount': '{count} unread',
+  'notifications.caughtUp': 'You are all caught up',
+  'notifications.all': 'All',
+  'notifications.unread': 'Unread',
+  'notifications.markAllRead': 'Mark all read',
+  'notifications.markRead': 'Mark read',
+  'notifications.markReadFailed': 'Failed to mark notifications read',
+  'notifications.emptyUnread': 'No unread notifications.',
+  'notifications.empty': 'No notifications yet.',
+  'notifications.loading': 'Loading...',
+  'notifications.loadMore': 'Load more',
+  'notifications.preferences': 'Preferences',
+  'notifications.preferencesIntro':
+    'Choose what you hear about. Account notices, such as verification decisions, are always sent.',
+  'notifications.savePreferencesFailed': 'Failed to save preferences',
+
+  'emails.template.donationReceipt': 'Donation receipt',
+  'emails.template.reviewDecision': 'Review decision',
+  'emails.template.deadlineReminder': 'Deadline reminder',
+  'emails.template.updateDigest': 'Update digest',
+  'emails.template.notification': 'General notification',
+  'emails.status.queued': 'Queued',
+  'emails.status.sending': 'Sending',
+  'emails.status.sent': 'Sent',
+  'emails.status.failed': 'Failed',
+  'emails.status.bounced': 'Bounced',
+  'emails.status.suppressed': 'Suppressed',
+  'emails.template': 'Template',
+  'emails.language': 'Language',
+  'emails.html': 'HTML',
+  'emails.plainText': 'Plain text',
+  'emails.subject': 'Subject:',
+  'emails.previewTitle': 'Email preview',
+  'emails.recentDeliveries': 'Recent deliveries',
+  'emails.empty': 'No emails have been queued yet.',
+  'emails.recipient': 'Recipient',
+  'emails.status': 'Status',
+  'emails.attempts': 'Attempts',
+  'emails.queued': 'Queued',
+
+  'export.title': 'Export Data',
+  'export.introDonations': 'Download donations as a spreadsheet for your records. Dates are in UTC.',
+  'export.introProjects': 'Download projects as a spreadsheet for your records. Dates are in UTC.',
+  'export.anonymousIncluded': 'Anonymous donations include the donor for audit purposes.',
+  'export.anonymousHidden': 'Donors who gave anonymously are listed without their name or email.',
+  'export.data': 'Data',
+  'export.donations': 'Donations',
+  'export.projects': 'Projects',
+  'export.from': 'From',
+  'export.to': 'To',
+  'export.project': 'Project',
+  'export.allProjects': 'All projects',
+  'export.status': 'Status',
+  'export.allStatuses': 'All statuses',
+  'export.status.draft': 'Draft',
+  'export.status.pendingReview': 'Pending review',
+  'export.status.active': 'Active',
+  'export.status.fullyFunded': 'Fully funded',
+  'export.status.completed': 'Completed',
+  'export.status.cancelled': 'Cancelled',
+  'export.status.pending': 'Pending',
+  'export.status.refunded': 'Refunded',
+  'export.status.failed': 'Failed',
+  'export.download': 'Download {format}',
+  'export.exporting': 'Exporting...',
+  'export.failed': 'Failed to export data',
+
+  'app.loading': 'Loading Hope Bridge...',
+  'home.activeProjects': 'Active Projects',
+  'home.activeProjectsIntro': 'Support verified projects making real impact',
+  'projects.title': 'All Projects',
+  'projects.intro': 'Discover and support poverty alleviation initiatives',
+  'projects.searchPlaceholder': 'Search projects...',
+  'projects.allCategories': 'All Categories',
+  'projects.filters': 'Filters',
+  'projects.anyStatus': 'Any status',
+  'projects.anyCountry': 'Any country',
+  'projects.minFunded': 'Min %',
+  'projects.maxFunded': 'Max %',
+  'projects.fundedTo': 'to',
+  'projects.anyEndDate': 'Any end date',
+  'projects.endingWithin': 'Ending within {count} days',
+  'projects.empty': 'No projects found',
+  'projects.emptyHint': 'Try adjusting your filters',
+  'sort.newest': 'Newest',
+  'sort.mostFunded': 'Most funded',
+  'sort.closestToGoal': 'Closest to goal',
+  'sort.endingSoon': 'Ending soonest',
+  'projectStatus.draft': 'Draft',
+  'projectStatus.pendingReview': 'Pending review',
+  'projectStatus.active': 'Active',
+  'projectStatus.fullyFunded': 'Fully funded',
+  'projectStatus.completed': 'Completed',
+  'projectStatus.cancelled': 'Cancelled',
+  'donationStatus.pending': 'Pending',
+  'donationStatus.completed': 'Completed',
+  'donationStatus.refunded': 'Refunded',
+  'donationStatus.failed': 'Failed',
+  'reviewDecision.approved': 'Approved',
+  'reviewDecision.rejected': 'Rejected',
+  'reviewDecision.changesRequested': 'Changes requested',
+  'dashboard.title': 'Dashboard',
+  'dashboard.creatorIntro': 'Manage your projects and track performance',
+  'dashboard.donorIntro': 'View your donation history and impact',
+  'dashboard.totalRaised': 'Total Raised',
+  'dashboard.totalDonated': 'Total Donated',
+  'dashboard.totalProjects': 'Total Projects',
+  'dashboard.projectsSupported': 'Projects Supported',
+  'dashboard.verified': 'Verified',
+  'dashboard.pending': 'Pending',
+  'dashboard.accountStatus': 'Account Status',
+  'dashboard.yourProjects': 'Your Projects',
+  'dashboard.postUpdate': 'Post Update',
+  'dashboard.editProject': 'Edit Project',
+  'dashboard.raisedOf': '{raised} of {goal}',
+  'dashboard.resubmitHint': 'Edit the project and submit it for review again.',
+  'dashboard.showHistory': 'Show review history ({count})',
+  'dashboard.hideHistory': 'Hide review history ({count})',
+  'dashboard.endedReportHint':
+    'This campaign has ended. Post a final report on how the funds were used to mark it completed.',
+  'dashboard.fundedReportHint':
+    'This project is fully funded. Post a final report on how the funds were used to mark it completed.',
+  'dashboard.updatePublished': 'Update published and donors notified.',
+  'dashboard.yourDonations': 'Your Donations',
+  'dashboard.annualStatements': 'Annual statements:',
+  'dashboard.preparing': 'Preparing...',
+  'dashboard.projectFallback': 'Project',
+  'dashboard.refund.pending': 'Refund requested',
+  'dashboard.refund.processing': 'Refund processing',
+  'dashboard.refund.approved': 'Refund approved',
+  'dashboard.refund.denied': 'Refund denied',
+  'dashboard.refundWithNote': '{status}: {note}',
+  'dashboard.receipt': 'Receipt',
+  'dashboard.voidedReceipt': 'Voided receipt',
+  'dashboard.requestRefund': 'Request refund',
+  'dashboard.refundPlaceholder': 'Tell us why you would like a refund...',
+  'dashboard.cancel': 'Cancel',
+  'dashboard.submitting': 'Submitting...',
+  'dashboard.submitRequest': 'Submit Request',
+  'dashboard.refundFailed': 'Failed to request refund',
+  'dashboard.downloadFailed': 'Failed to download document',
+  'dashboard.noProjects': 'No projects yet',
+  'dashboard.noProjectsHint': 'Create your first project to start raising funds for poverty alleviation initiatives.',
+  'dashboard.noDonations': 'No donations yet',
+  'dashboard.noDonationsHint': 'Support a project today and start making a difference in the fight against poverty.',
+  'admin.title': 'Admin Panel',
+  'admin.subtitle': 'Review and manage projects',
+  'admin.reconcile': 'Reconcile Totals',
+  'admin.reconcileClean': 'All project totals match their completed donations.',
+  'admin.reconcileFixedOne': 'Corrected the raised amount of 1 project.',
+  'admin.reconcileFixedMany': 'Corrected the raised amount of {count} projects.',
+  'admin.reconcileFailed': 'Failed to reconcile project totals.',
+  'admin.tab.review': 'Review Queue',
+  'admin.tab.projects': 'All Projects',
+  'admin.tab.verifications': 'Verifications',
+  'admin.tab.users': 'Users',
+  'admin.tab.refunds': 'Refund Requests',
+  'admin.tab.emails': 'Emails',
+  'admin.tab.exports': 'Exports',
+  'admin.noProjects': 'No projects yet',
+  'admin.noProjectsHint': 'No projects have been created yet.',
+  'admin.project': 'Project',
+  'admin.creator': 'Creator',
+  'admin.category': 'Category',
+  'admin.goal': 'Goal',
+  'admin.status': 'Status',
+  'admin.actions': 'Actions',
+  'admin.unknownCreator': 'Unknown',
+  'admin.uncategorized': 'Uncategorized',
+  'admin.raised': '{amount} raised',
+  'admin.viewDetails': 'View Details',
+  'createProject.createTitle': 'Create New Project',
+  'createProject.editTitle': 'Edit Project',
+  'createProject.loadFailed': 'Failed to load project',
+  'createProject.uploadFailed': 'Failed to upload image',
+  'createProject.saveFailed': 'Failed to save project',
+  'createProject.title': 'Project Title',
+  'createProject.titlePlaceholder': 'Give your project a compelling title',
+  'createProject.description': 'Project Description',
+  'createProject.descriptionPlaceholder': 'Describe your project, its goals, and how the funds will be used...',
+  'createProject.goal': 'Funding Goal',
+  'createProject.currency': 'Currency',
+  'createProject.currencyLocked': 'The currency cannot change once the project has donations',
+  'createProject.category': 'Category',
+  'createProject.selectCategory': 'Select a category',
+  'createProject.location': 'Location',
+  'createProject.locationPlaceholder': 'City, Country',
+  'createProject.endDate': 'Campaign End Date',
+  'createProject.images': 'Project Images',
+  'createProject.cover': 'Cover',
+  'createProject.useAsCover': 'Use as cover',
+  'createProject.removeImage': 'Remove image',
+  'createProject.addImages': 'Add images',
+  'createProject.imagesHint': 'JPEG, PNG or WebP. Images are resized before upload.',
+  'createProject.saving': 'Saving...',
+  'createProject.saveDraft': 'Save as Draft',
+  'createProject.submitting': 'Submitting...',
+  'createProject.submitForReview': 'Submit for Review',
+  'createProject.verifyFirst':
+    'Verify your account from your dashboard before submitting a project for review. You can save it as a draft in the meantime.',
+  'images.type': '{name} must be a JPEG, PNG or WebP image',
+  'images.tooLarge': '{name} is larger than {size} MB',
+  'images.unsupported': 'Image processing is not supported in this browser',
+  'images.processFailed': 'Failed to process image',
+
+  'reviewQueue.empty': 'No pending projects',
+  'reviewQueue.emptyHint': 'All projects have been reviewed.',
+  'reviewQueue.updateFailed': 'Failed to update the review',
+  'reviewQueue.submitted': 'submitted {date}',
+  'reviewQueue.historyEntry': 'on {date}',
+  'reviewQueue.claimedBy': 'Being reviewed by {name}',
+  'reviewQueue.anotherAdmin': 'another admin',
+  'reviewQueue.unclaimed': 'Not yet claimed',
+  'reviewQueue.takeOver': 'Take Over Review',
+  'reviewQueue.claim': 'Claim Review',
+  'reviewQueue.reasonPlaceholder': 'Reason or comments for the creator (required to reject or request changes)',
+  'reviewQueue.release': 'Release',
+  'reviewQueue.requestChanges': 'Request Changes',
+  'reviewQueue.reject': 'Reject',
+  'reviewQueue.approve': 'Approve',
+  'reviewQueue.checklistIncomplete': 'Complete the checklist to approve',
+
+  'pledges.title': 'Recurring Donations',
+  'pledges.unknownProject': 'Unknown Project',
+  'pledges.amountPer.monthly': '{amount} per month',
+  'pledges.amountPer.quarterly': '{amount} per quarter',
+  'pledges.amountPer.yearly': '{amount} per year',
+  'pledges.nextPayment': 'next payment {date}',
+  'pledges.pausedAfterFailures': 'Paused after repeated payment failures. Resume to try again.',
+  'pledges.status.active': 'Active',
+  'pledges.status.paused': 'Paused',
+  'pledges.status.cancelled': 'Cancelled',
+  'pledges.status.ended': 'Ended',
+  'pledges.change': 'Change',
+  'pledges.pause': 'Pause',
+  'pledges.resume': 'Resume',
+  'pledges.cancel': 'Cancel',
+  'pledges.confirmCancel': 'Cancel this recurring donation? No further payments will be taken.',
+  'pledges.invalidAmount': 'Please enter a valid amount',
+  'pledges.amount': 'Amount',
+  'pledges.every': 'Every',
+  'pledges.cadence.monthly': 'month',
+  'pledges.cadence.quarterly': 'quarter',
+  'pledges.cadence.yearly': 'year',
+  'pledges.save': 'Save',
+  'pledges.discard': 'Cancel',
+
+  'refunds.reviewFailed': 'Failed to review refund request',
+  'refunds.empty': 'No refund requests',
+  'refunds.emptyHint': 'All refund requests have been reviewed.',
+  'refunds.project': 'Project',
+  'refunds.unknownDonor': 'Unknown donor',
+  'refunds.donated': 'donated {date}',
+  'refunds.requested': 'requested {date}',
+  'refunds.mayReactivate': 'Project may return to active',
+  'refunds.notePlaceholder': 'Note to the donor (optional)',
+  'refunds.approve': 'Approve Refund',
+  'refunds.deny': 'Deny',
+};
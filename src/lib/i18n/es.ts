@@ -0,0 +1,614 @@
+import type { Catalog } from './index';
+
+export const es: Catalog = {
+  'nav.explore': 'Explorar proyectos',
+  'nav.create': 'Crear proyecto',
+  'nav.admin': 'Administración',
+  'nav.dashboard': 'Panel',
+  'nav.signIn': 'Iniciar sesión',
+  'nav.signOut': 'Cerrar sesión',
+  'nav.getStarted': 'Comenzar',
+  'nav.userFallback': 'Usuario',
+  'nav.language': 'Idioma',
+  'nav.settings': 'Configuración del perfil',
+  'nav.notifications': 'Notificaciones',
+  'nav.unreadNotifications': '{count} notificaciones sin leer',
+
+  'hero.tagline': 'Conectando comunidades mediante una financiación colectiva transparente',
+  'hero.description':
+    'Ayudamos a ONG y personas verificadas a financiar proyectos contra la pobreza que generan un cambio duradero en comunidades de todo el mundo.',
+  'hero.getStarted': 'Empieza hoy',
+  'hero.explore': 'Explorar proyectos',
+  'hero.verifiedTitle': 'Proyectos verificados',
+  'hero.verifiedText': 'Cada proyecto se revisa cuidadosamente y se verifica su transparencia y legitimidad',
+  'hero.communityTitle': 'Impacto comunitario',
+  'hero.communityText': 'Únete a miles de donantes que marcan una diferencia real en la lucha contra la pobreza',
+  'hero.transparencyTitle': 'Transparencia total',
+  'hero.transparencyText': 'Sigue cada donación con actualizaciones en tiempo real e informes detallados',
+  'hero.focusAreas': 'Áreas de impacto',
+  'hero.area.education': 'Educación',
+  'hero.area.healthcare': 'Salud',
+  'hero.area.cleanWater': 'Agua potable',
+  'hero.area.foodSecurity': 'Seguridad alimentaria',
+  'hero.area.housing': 'Vivienda',
+  'hero.area.skillsTraining': 'Formación profesional',
+
+  'auth.email': 'Correo electrónico',
+  'auth.emailPlaceholder': 'tu@ejemplo.com',
+  'auth.password': 'Contraseña',
+
+  'signIn.title': 'Bienvenido de nuevo',
+  'signIn.subtitle': 'Inicia sesión para seguir marcando la diferencia',
+  'signIn.passwordPlaceholder': 'Introduce tu contraseña',
+  'signIn.submit': 'Iniciar sesión',
+  'signIn.submitting': 'Iniciando sesión...',
+  'signIn.noAccount': '¿No tienes una cuenta?',
+  'signIn.signUpLink': 'Regístrate aquí',
+  'signIn.failed': 'No se pudo iniciar sesión',
+
+  'signUp.title': 'Únete a nuestra comunidad',
+  'signUp.subtitle': 'Empieza a marcar la diferencia hoy',
+  'signUp.fullName': 'Nombre completo',
+  'signUp.fullNamePlaceholder': 'Juan Pérez',
+  'signUp.passwordPlaceholder': 'Al menos 6 caracteres',
+  'signUp.role': 'Quiero:',
+  'signUp.donorTitle': 'Apoyar proyectos',
+  'signUp.donorText': 'Donar a proyectos y generar impacto',
+  'signUp.creatorTitle': 'Crear proyectos',
+  'signUp.creatorText': 'Lanzar campañas para financiar iniciativas contra la pobreza',
+  'signUp.creatorReview': 'Un administrador aprueba las nuevas cuentas de creador; mientras tanto puedes donar',
+  'signUp.submit': 'Crear cuenta',
+  'signUp.submitting': 'Creando cuenta...',
+  'signUp.haveAccount': '¿Ya tienes una cuenta?',
+  'signUp.signInLink': 'Inicia sesión aquí',
+  'signUp.failed': 'No se pudo completar el registro',
+
+  'signIn.forgotPassword': '¿Olvidaste tu contraseña?',
+  'signIn.useMagicLink': 'Enviarme un enlace de acceso por correo',
+  'signIn.usePassword': 'Iniciar sesión con contraseña',
+  'signIn.sendMagicLink': 'Enviar enlace de acceso',
+  'signIn.magicLinkSent': 'Enviamos un enlace de acceso a {email}. Ábrelo en este dispositivo para continuar.',
+  'signUp.confirmEmail': 'Enviamos un enlace de confirmación a {email}. Confirma tu dirección para terminar de crear tu cuenta.',
+  'auth.checkEmailTitle': 'Revisa tu correo',
+  'auth.sending': 'Enviando...',
+  'auth.resendConfirmation': 'Reenviar correo de confirmación',
+  'auth.confirmationSent': 'Se envió un nuevo correo de confirmación a {email}.',
+  'auth.backToSignIn': 'Volver a iniciar sesión',
+  'auth.unverifiedBanner': 'Confirma tu dirección de correo ({email}) con el enlace que te enviamos.',
+  'auth.dismiss': 'Cerrar',
+  'forgotPassword.title': 'Restablecer tu contraseña',
+  'forgotPassword.subtitle': 'Introduce tu correo y te enviaremos un enlace para elegir una nueva contraseña',
+  'forgotPassword.submit': 'Enviar enlace',
+  'forgotPassword.sent': 'Si existe una cuenta para {email}, te enviamos un enlace para restablecerla.',
+  'forgotPassword.failed': 'No se pudo enviar el enlace',
+  'resetPassword.title': 'Elige una nueva contraseña',
+  'resetPassword.subtitle': 'Introduce una nueva contraseña para tu cuenta',
+  'resetPassword.newPassword': 'Nueva contraseña',
+  'resetPassword.confirmPassword': 'Confirmar nueva contraseña',
+  'resetPassword.mismatch': 'Las contraseñas no coinciden',
+  'resetPassword.submit': 'Actualizar contraseña',
+  'resetPassword.submitting': 'Actualizando...',
+  'resetPassword.invalidLink': 'Este enlace no es válido o ha caducado.',
+  'resetPassword.requestNew': 'Solicitar un nuevo enlace',
+  'resetPassword.failed': 'No se pudo actualizar la contraseña',
+  'authError.emailNotConfirmed': 'Tu correo aún no está confirmado. Busca el enlace de confirmación en tu bandeja de entrada.',
+  'authError.invalidCredentials': 'Correo o contraseña incorrectos.',
+  'authError.userExists': 'Ya existe una cuenta con este correo. Intenta iniciar sesión.',
+  'authError.weakPassword': 'Esa contraseña es demasiado débil. Usa al menos 6 caracteres y evita contraseñas comunes.',
+  'authError.samePassword': 'La nueva contraseña debe ser distinta de la actual.',
+  'authError.linkExpired': 'Este enlace ha caducado o ya se usó. Solicita uno nuevo.',
+  'authError.userNotFound': 'No hay ninguna cuenta con este correo.',
+  'authError.emailRateLimited': 'Se han enviado demasiados correos a esta dirección. Espera unos minutos e inténtalo de nuevo.',
+  'authError.rateLimited': 'Demasiados intentos. Espera un momento e inténtalo de nuevo.',
+  'authError.invalidEmail': 'Introduce un correo válido.',
+  'authError.signupDisabled': 'Los registros nuevos están desactivados por ahora.',
+
+  'project.back': '← Volver a los proyectos',
+  'project.notFound': 'Proyecto no encontrado',
+  'project.goBack': 'Volver',
+  'project.ends': 'Termina el {date}',
+  'project.updates': 'Novedades del proyecto',
+  'project.milestone': 'Hito alcanzado',
+  'project.recentDonations': 'Donaciones recientes',
+  'project.anonymous': 'Anónimo',
+  'project.justDonated': '{name} acaba de donar {amount}',
+  'project.someoneJustDonated': 'Alguien acaba de donar {amount}',
+  'project.raisedOf': 'recaudados de una meta de {goal}',
+  'project.funded': '{percent} % financiado',
+  'project.daysLeft': 'Quedan {count} días',
+  'project.ended': 'Campaña finalizada',
+  'project.closedNotice': 'Esta campaña ha finalizado y ya no acepta donaciones.',
+  'project.support': 'Apoyar este proyecto',
+  'project.share': 'Compartir',
+  'project.createdBy': 'Creado por',
+  'project.verifiedCreator': 'Creador verificado',
+
+  'donation.title': 'Apoyar este proyecto',
+  'donation.thankYou': '¡Gracias por tu donación!',
+  'donation.receipt': 'Recibo',
+  'donation.receiptPending': 'Pendiente',
+  'donation.project': 'Proyecto',
+  'donation.amount': 'Importe',
+  'donation.date': 'Fecha',
+  'donation.donor': 'Donante',
+  'donation.monthlyNotice': 'Se te cobrarán {amount} cada mes. Gestiona este compromiso desde tu panel.',
+  'donation.claimNotice': 'Crea una cuenta con {email} para ver esta donación en tu panel.',
+  'donation.print': 'Imprimir recibo',
+  'donation.done': 'Listo',
+  'donation.supporting': 'Estás apoyando:',
+  'donation.selectAmount': 'Elige un importe',
+  'donation.currency': 'Moneda',
+  'donation.customAmount': 'Otro importe',
+  'donation.conversionNote':
+    'Este proyecto recauda fondos en {currency}. Tu donación se convierte al tipo de cambio vigente en el momento de realizarla.',
+  'donation.guestName': 'Tu nombre',
+  'donation.guestEmail': 'Correo electrónico',
+  'donation.guestEmailPlaceholder': 'Para tu recibo',
+  'donation.guestEmailHint': 'Regístrate más tarde con este correo para vincular la donación a tu cuenta.',
+  'donation.message': 'Mensaje (opcional)',
+  'donation.messagePlaceholder': 'Deja un mensaje de apoyo...',
+  'donation.giveMonthly': 'Donar cada mes',
+  'donation.giveMonthlyHint': 'Repite esta donación cada mes. Pausa o cancela cuando quieras desde tu panel.',
+  'donation.anonymous': 'Hacer esta donación de forma anónima',
+  'donation.anonymousHint': 'Tu nombre no se mostrará públicamente',
+  'donation.paymentInfo': 'Información de pago',
+  'donation.paymentMock':
+    'Modo de prueba: los pagos los procesa la pasarela de prueba local y no se cobra a ninguna tarjeta.',
+  'donation.paymentStripe':
+    'Los pagos se procesan de forma segura con Stripe. Introducirás tus datos de pago en el siguiente paso.',
+  'donation.paymentUnavailable':
+    'Las donaciones no están disponibles en este momento porque los pagos con tarjeta no están configurados.',
+  'donation.processing': 'Procesando...',
+  'donation.donateMonthly': 'Donar cada mes',
+  'donation.donateNow': 'Donar ahora',
+  'donation.terms': 'Al donar, aceptas nuestros términos y condiciones',
+  'donation.invalidAmount': 'Introduce un importe válido',
+  'donation.declined': 'Tu pago fue rechazado. Prueba con otro importe o método de pago.',
+  'donation.failed': 'No se pudo procesar la donación',
+
+  'footer.about':
+    'Conectando comunidades mediante financiación colectiva transparente para proyectos contra la pobreza en todo el mundo.',
+  'footer.tagline': 'Creado para el impacto social. Todos los proyectos se verifican y supervisan con transparencia.',
+  'footer.platform': 'Plataforma',
+  'footer.browse': 'Ver proyectos',
+  'footer.startProject': 'Iniciar un proyecto',
+  'footer.howItWorks': 'Cómo funciona',
+  'footer.legal': 'Legal',
+  'footer.terms': 'Términos del servicio',
+  'footer.privacy': 'Política de privacidad',
+  'footer.contact': 'Contacto',
+  'footer.copyright': '© 2024 Hope Bridge. Creado con fines educativos como proyecto final.',
+
+  'comments.title': 'Comentarios',
+  'comments.unknownAuthor': 'Desconocido',
+  'comments.creator': 'Creador',
+  'comments.hidden': 'Oculto',
+  'comments.edited': 'editado',
+  'comments.deleted': 'Este comentario fue eliminado.',
+  'comments.save': 'Guardar',
+  'comments.cancel': 'Cancelar',
+  'comments.reply': 'Responder',
+  'comments.edit': 'Editar',
+  'comments.delete': 'Eliminar',
+  'comments.hide': 'Ocultar',
+  'comments.unhide': 'Mostrar',
+  'comments.confirmDelete': '¿Eliminar este comentario?',
+  'comments.placeholder': 'Comparte tu opinión o haz una pregunta al creador...',
+  'comments.replyPlaceholder': 'Escribe una respuesta...',
+  'comments.post': 'Publicar comentario',
+  'comments.signInPrompt': 'Inicia sesión para unirte a la conversación.',
+  'comments.empty': 'Aún no hay comentarios. ¡Sé el primero en decir algo!',
+  'comments.loading': 'Cargando...',
+  'comments.loadMore': 'Cargar más comentarios',
+  'comments.failed': 'Algo salió mal',
+
+  'updates.composerTitle': 'Publicar una novedad de {title}',
+  'updates.titlePlaceholder': 'Título de la novedad',
+  'updates.write': 'Escribir',
+  'updates.preview': 'Vista previa',
+  'updates.contentPlaceholder':
+    'Comparte tus avances. Se admite Markdown: **negrita**, _cursiva_, listas y [enlaces](https://...).',
+  'updates.nothingToPreview': 'Nada que mostrar',
+  'updates.addImages': 'Añadir imágenes',
+  'updates.imageType': '{name} debe ser una imagen JPEG, PNG o WebP',
+  'updates.imageTooLarge': '{name} supera los 5 MB',
+  'updates.uploadFailed': 'No se pudo subir la imagen',
+  'updates.milestone': 'Hito alcanzado',
+  'updates.milestonePlaceholder': 'p. ej. Primer pozo terminado',
+  'updates.finalReport': 'Informe final',
+  'updates.finalReportHint': 'Explica cómo se usaron los fondos. Al publicarlo, el proyecto se marca como completado.',
+  'updates.notifyNotice': 'Se avisará a todas las personas que donaron a este proyecto.',
+  'updates.publish': 'Publicar novedad',
+  'updates.publishing': 'Publicando...',
+  'updates.publishFailed': 'No se pudo publicar la novedad',
+
+  'verification.status.pending': 'En revisión',
+  'verification.status.approved': 'Verificado',
+  'verification.status.rejected': 'Rechazado',
+  'verification.status.expired': 'Caducado',
+  'verification.title': 'Verificación',
+  'verification.intro': 'Los creadores verificados pueden enviar proyectos a revisión y recibir pagos.',
+  'verification.verifiedUntil': '{organization} está verificado hasta el {date}.',
+  'verification.pendingNotice':
+    'Tu solicitud para {organization} se envió el {date} y está esperando a un administrador.',
+  'verification.rejectedNotice': 'Tu última solicitud no fue aprobada.',
+  'verification.rejectedNoticeWithNote': 'Tu última solicitud no fue aprobada: {note}',
+  'verification.expiredNotice': 'Tu verificación ha caducado.',
+  'verification.expiredNoticeWithNote': 'Tu verificación ha caducado: {note}',
+  'verification.notApplied': 'Todavía no has solicitado la verificación.',
+  'verification.apply': 'Solicitar verificación',
+  'verification.applyAgain': 'Volver a solicitar',
+  'verification.organizationName': 'Nombre de la organización o nombre legal',
+  'verification.registrationNumber': 'Número de registro',
+  'verification.taxId': 'Identificación fiscal',
+  'verification.documents': 'Documentos de registro',
+  'verification.uploadDocument': 'Subir PDF o imagen',
+  'verification.payoutAccount': 'Cuenta bancaria para pagos',
+  'verification.accountName': 'Titular de la cuenta',
+  'verification.bankName': 'Nombre del banco',
+  'verification.accountNumber': 'Número de cuenta o IBAN',
+  'verification.routingCode': 'Código SWIFT / de ruta',
+  'verification.cancel': 'Cancelar',
+  'verification.submit': 'Enviar solicitud',
+  'verification.submitting': 'Enviando...',
+  'verification.uploadFailed': 'No se pudo subir el documento',
+  'verification.submitFailed': 'No se pudo enviar la solicitud',
+  'verificationReview.emptyTitle': 'No hay solicitudes de verificación',
+  'verificationReview.emptyText': 'No hay solicitudes pendientes de revisión.',
+  'verificationReview.unknownCreator': 'Creador desconocido',
+  'verificationReview.applied': 'solicitó el {date}',
+  'verificationReview.verifiedUntil': 'verificado hasta el {date}',
+  'verificationReview.registrationNumber': 'Número de registro',
+  'verificationReview.taxId': 'Identificación fiscal',
+  'verificationReview.payoutAccount': 'Cuenta de pagos',
+  'verificationReview.accountNumber': 'Número de cuenta',
+  'verificationReview.notePending': 'Nota para el creador (obligatoria para rechazar)',
+  'verificationReview.noteExpire': 'Motivo de la caducidad (opcional)',
+  'verificationReview.approve': 'Aprobar',
+  'verificationReview.reject': 'Rechazar',
+  'verificationReview.expire': 'Caducar ahora',
+  'verificationReview.reviewFailed': 'No se pudo revisar la solicitud',
+  'verificationReview.openFailed': 'No se pudo abrir el documento',
+
+  'preferences.donations': 'Donaciones',
+  'preferences.donationsHint': 'Alguien dona a uno de tus proyectos',
+  'preferences.projectUpdates': 'Novedades de proyectos',
+  'preferences.projectUpdatesHint': 'Un proyecto que apoyaste publica una novedad',
+  'preferences.comments': 'Comentarios',
+  'preferences.commentsHint': 'Alguien comenta tu proyecto o te responde',
+  'preferences.projectStatus': 'Estado del proyecto',
+  'preferences.projectStatusHint': 'Tu proyecto se aprueba, se rechaza o cambia de estado',
+  'preferences.account': 'Cuenta',
+  'profile.title': 'Configuración del perfil',
+  'profile.subtitle': 'Gestiona cómo apareces en Hope Bridge y cómo te contactamos',
+  'profile.avatarHint': 'Haz clic en la foto para subir un nuevo avatar',
+  'profile.avatarFailed': 'No se pudo subir el avatar',
+  'profile.fullName': 'Nombre completo',
+  'profile.bio': 'Biografía',
+  'profile.bioPlaceholder': 'Cuéntales a donantes y creadores un poco sobre ti',
+  'profile.location': 'Ubicación',
+  'profile.locationPlaceholder': 'Ciudad, País',
+  'profile.language': 'Idioma',
+  'profile.notifyMe': 'Avisarme cuando',
+  'profile.save': 'Guardar perfil',
+  'profile.saving': 'Guardando...',
+  'profile.saved': 'Perfil guardado',
+  'profile.saveFailed': 'No se pudo guardar el perfil',
+  'profile.changePassword': 'Cambiar contraseña',
+  'profile.changingPassword': 'Cambiando...',
+  'profile.currentPassword': 'Contraseña actual',
+  'profile.newPassword': 'Nueva contraseña',
+  'profile.confirmPassword': 'Confirmar nueva contraseña',
+  'profile.passwordMismatch': 'Las nuevas contraseñas no coinciden',
+  'profile.passwordTooShort': 'La nueva contraseña debe tener al menos {count} caracteres',
+  'profile.currentPasswordIncorrect': 'La contraseña actual es incorrecta',
+  'profile.passwordChanged': 'Contraseña cambiada',
+  'profile.passwordFailed': 'No se pudo cambiar la contraseña',
+  'profile.deleteTitle': 'Eliminar cuenta',
+  'profile.deleteText':
+    'Esto elimina para siempre tu perfil, tus borradores de proyectos, tus donaciones recurrentes y tus archivos. Tus donaciones anteriores siguen en los proyectos que apoyaste, pero ya no estarán vinculadas a ti.',
+  'profile.deleteConfirm': 'Escribe {word} para confirmar',
+  'profile.delete': 'Eliminar mi cuenta',
+  'profile.deleting': 'Eliminando...',
+  'profile.deleteFailed': 'No se pudo eliminar la cuenta',
+
+  'roles.donor': 'Donante',
+  'roles.projectCreator': 'Creador de proyectos',
+  'roles.admin': 'Administrador',
+  'roleRequest.status.pending': 'En revisión',
+  'roleRequest.status.approved': 'Aprobada',
+  'roleRequest.status.rejected': 'No aprobada',
+  'roleRequest.title': 'Inicia un proyecto',
+  'roleRequest.intro': 'Los creadores de proyectos pueden lanzar campañas cuando un administrador aprueba su cuenta.',
+  'roleRequest.pendingNotice':
+    'Pediste ser creador de proyectos el {date}. Un administrador revisará tu solicitud pronto.',
+  'roleRequest.rejectedNotice': 'Tu última solicitud no fue aprobada.',
+  'roleRequest.rejectedNoticeWithNote': 'Tu última solicitud no fue aprobada: {note}',
+  'roleRequest.become': 'Ser creador de proyectos',
+  'roleRequest.askAgain': 'Volver a pedir',
+  'roleRequest.reasonPlaceholder': 'Cuéntanos sobre la organización o comunidad para la que quieres recaudar fondos',
+  'roleRequest.cancel': 'Cancelar',
+  'roleRequest.send': 'Enviar solicitud',
+  'roleRequest.sending': 'Enviando...',
+  'roleRequest.failed': 'No se pudo enviar la solicitud',
+  'users.creatorRequests': 'Solicitudes de creador',
+  'users.unknownUser': 'Usuario desconocido',
+  'users.requestedRole': 'Quiere ser {role} · lo pidió el {date}',
+  'users.notePlaceholder': 'Nota para el usuario (obligatoria para rechazar)',
+  'users.approve': 'Aprobar',
+  'users.reject': 'Rechazar',
+  'users.approveFailed': 'No se pudo aprobar la solicitud',
+  'users.rejectFailed': 'No se pudo rechazar la solicitud',
+  'users.searchPlaceholder': 'Buscar por nombre',
+  'users.noResults': 'Ningún usuario coincide con tu búsqueda.',
+  'users.user': 'Usuario',
+  'users.role': 'Rol',
+  'users.verification': 'Verificación',
+  'users.joined': 'Registro',
+  'users.ownRole': 'No puedes cambiar tu propio rol',
+  'users.changeRoleFailed': 'No se pudo cambiar el rol',
+  'users.verified': 'Verificado',
+  'users.verifiedUntil': 'Hasta el {date}',
+  'users.notVerified': 'No verificado',
+  'users.verificationFailed': 'No se pudo cambiar la verificación',
+
+  'notifications.title': 'Notificaciones',
+  'notifications.unreadCount': '{count} sin leer',
+  'notifications.caughtUp': 'Estás al día',
+  'notifications.all': 'Todas',
+  'notifications.unread': 'Sin leer',
+  'notifications.markAllRead': 'Marcar todas como leídas',
+  'notifications.markRead': 'Marcar como leída',
+  'notifications.markReadFailed': 'No se pudieron marcar las notificaciones como leídas',
+  'notifications.emptyUnread': 'No hay notificaciones sin leer.',
+  'notifications.empty': 'Aún no hay notificaciones.',
+  'notifications.loading': 'Cargando...',
+  'notifications.loadMore': 'Cargar más',
+  'notifications.preferences': 'Preferencias',
+  'notifications.preferencesIntro':
+    'Elige sobre qué quieres recibir avisos. Los avisos de la cuenta, como las decisiones de verificación, se envían siempre.',
+  'notifications.savePreferencesFailed': 'No se pudieron guardar las preferencias',
+
+  'emails.template.donationReceipt': 'Recibo de donación',
+  'emails.template.reviewDecision': 'Decisión de revisión',
+  'emails.template.deadlineReminder': 'Recordatorio de fecha límite',
+  'emails.template.updateDigest': 'Resumen de novedades',
+  'emails.template.notification': 'Notificación general',
+  'emails.status.queued': 'En cola',
+  'emails.status.sending': 'Enviando',
+  'emails.status.sent': 'Enviado',
+  'emails.status.failed': 'Fallido',
+  'emails.status.bounced': 'Rebotado',
+  'emails.status.suppressed': 'Suprimido',
+  'emails.template': 'Plantilla',
+  'emails.language': 'Idioma',
+  'emails.html': 'HTML',
+  'emails.plainText': 'Texto sin formato',
+  'emails.subject': 'Asunto:',
+  'emails.previewTitle': 'Vista previa del correo',
+  'emails.recentDeliveries': 'Envíos recientes',
+  'emails.empty': 'Todavía no se ha puesto ningún correo en cola.',
+  'emails.recipient': 'Destinatario',
+  'emails.status': 'Estado',
+  'emails.attempts': 'Intentos',
+  'emails.queued': 'En cola desde',
+
+  'export.title': 'Exportar datos',
+  'export.introDonations': 'Descarga las donaciones como hoja de cálculo para tus registros. Las fechas están en UTC.',
+  'export.introProjects': 'Descarga los proyectos como hoja de cálculo para tus registros. Las fechas están en UTC.',
+  'export.anonymousIncluded': 'Las donaciones anónimas incluyen al donante con fines de auditoría.',
+  'export.anonymousHidden': 'Los donantes que donaron de forma anónima aparecen sin su nombre ni su correo.',
+  'export.data': 'Datos',
+  'export.donations': 'Donaciones',
+  'export.projects': 'Proyectos',
+  'export.from': 'Desde',
+  'export.to': 'Hasta',
+  'export.project': 'Proyecto',
+  'export.allProjects': 'Todos los proyectos',
+  'export.status': 'Estado',
+  'export.allStatuses': 'Todos los estados',
+  'export.status.draft': 'Borrador',
+  'export.status.pendingReview': 'Pendiente de revisión',
+  'export.status.active': 'Activo',
+  'export.status.fullyFunded': 'Totalmente financiado',
+  'export.status.completed': 'Completado',
+  'export.status.cancelled': 'Cancelado',
+  'export.status.pending': 'Pendiente',
+  'export.status.refunded': 'Reembolsado',
+  'export.status.failed': 'Fallido',
+  'export.download': 'Descargar {format}',
+  'export.exporting': 'Exportando...',
+  'export.failed': 'No se pudieron exportar los datos',
+
+  'app.loading': 'Cargando Hope Bridge...',
+  'home.activeProjects': 'Proyectos activos',
+  'home.activeProjectsIntro': 'Apoya proyectos verificados con un impacto real',
+  'projects.title': 'Todos los proyectos',
+  'projects.intro': 'Descubre y apoya iniciativas contra la pobreza',
+  'projects.searchPlaceholder': 'Buscar proyectos...',
+  'projects.allCategories': 'Todas las categorías',
+  'projects.filters': 'Filtros',
+  'projects.anyStatus': 'Cualquier estado',
+  'projects.anyCountry': 'Cualquier país',
+  'projects.minFunded': 'Mín %',
+  'projects.maxFunded': 'Máx %',
+  'projects.fundedTo': 'a',
+  'projects.anyEndDate': 'Cualquier fecha de cierre',
+  'projects.endingWithin': 'Termina en {count} días',
+  'projects.empty': 'No se encontraron proyectos',
+  'projects.emptyHint': 'Prueba a cambiar los filtros',
+  'sort.newest': 'Más recientes',
+  'sort.mostFunded': 'Más financiados',
+  'sort.closestToGoal': 'Más cerca de la meta',
+  'sort.endingSoon': 'Terminan antes',
+  'projectStatus.draft': 'Borrador',
+  'projectStatus.pendingReview': 'Pendiente de revisión',
+  'projectStatus.active': 'Activo',
+  'projectStatus.fullyFunded': 'Totalmente financiado',
+  'projectStatus.completed': 'Completado',
+  'projectStatus.cancelled': 'Cancelado',
+  'donationStatus.pending': 'Pendiente',
+  'donationStatus.completed': 'Completada',
+  'donationStatus.refunded': 'Reembolsada',
+  'donationStatus.failed': 'Fallida',
+  'reviewDecision.approved': 'Aprobado',
+  'reviewDecision.rejected': 'Rechazado',
+  'reviewDecision.changesRequested': 'Cambios solicitados',
+  'dashboard.title': 'Panel',
+  'dashboard.creatorIntro': 'Gestiona tus proyectos y sigue su rendimiento',
+  'dashboard.donorIntro': 'Consulta tu historial de donaciones y su impacto',
+  'dashboard.totalRaised': 'Total recaudado',
+  'dashboard.totalDonated': 'Total donado',
+  'dashboard.totalProjects': 'Total de proyectos',
+  'dashboard.projectsSupported': 'Proyectos apoyados',
+  'dashboard.verified': 'Verificada',
+  'dashboard.pending': 'Pendiente',
+  'dashboard.accountStatus': 'Estado de la cuenta',
+  'dashboard.yourProjects': 'Tus proyectos',
+  'dashboard.postUpdate': 'Publicar novedad',
+  'dashboard.editProject': 'Editar proyecto',
+  'dashboard.raisedOf': '{raised} de {goal}',
+  'dashboard.resubmitHint': 'Edita el proyecto y vuelve a enviarlo a revisión.',
+  'dashboard.showHistory': 'Mostrar historial de revisiones ({count})',
+  'dashboard.hideHistory': 'Ocultar historial de revisiones ({count})',
+  'dashboard.endedReportHint':
+    'Esta campaña ha terminado. Publica un informe final sobre el uso de los fondos para marcarla como completada.',
+  'dashboard.fundedReportHint':
+    'Este proyecto está totalmente financiado. Publica un informe final sobre el uso de los fondos para marcarlo como completado.',
+  'dashboard.updatePublished': 'Novedad publicada y donantes notificados.',
+  'dashboard.yourDonations': 'Tus donaciones',
+  'dashboard.annualStatements': 'Resúmenes anuales:',
+  'dashboard.preparing': 'Preparando...',
+  'dashboard.projectFallback': 'Proyecto',
+  'dashboard.refund.pending': 'Reembolso solicitado',
+  'dashboard.refund.processing': 'Reembolso en curso',
+  'dashboard.refund.approved': 'Reembolso aprobado',
+  'dashboard.refund.denied': 'Reembolso denegado',
+  'dashboard.refundWithNote': '{status}: {note}',
+  'dashboard.receipt': 'Recibo',
+  'dashboard.voidedReceipt': 'Recibo anulado',
+  'dashboard.requestRefund': 'Solicitar reembolso',
+  'dashboard.refundPlaceholder': 'Cuéntanos por qué quieres un reembolso...',
+  'dashboard.cancel': 'Cancelar',
+  'dashboard.submitting': 'Enviando...',
+  'dashboard.submitRequest': 'Enviar solicitud',
+  'dashboard.refundFailed': 'No se pudo solicitar el reembolso',
+  'dashboard.downloadFailed': 'No se pudo descargar el documento',
+  'dashboard.noProjects': 'Aún no hay proyectos',
+  'dashboard.noProjectsHint': 'Crea tu primer proyecto para empezar a recaudar fondos contra la pobreza.',
+  'dashboard.noDonations': 'Aún no hay donaciones',
+  'dashboard.noDonationsHint': 'Apoya un proyecto hoy y empieza a marcar la diferencia en la lucha contra la pobreza.',
+  'admin.title': 'Panel de administración',
+  'admin.subtitle': 'Revisa y gestiona proyectos',
+  'admin.reconcile': 'Conciliar totales',
+  'admin.reconcileClean': 'Los totales de todos los proyectos coinciden con sus donaciones completadas.',
+  'admin.reconcileFixedOne': 'Se corrigió el monto recaudado de 1 proyecto.',
+  'admin.reconcileFixedMany': 'Se corrigió el monto recaudado de {count} proyectos.',
+  'admin.reconcileFailed': 'No se pudieron conciliar los totales.',
+  'admin.tab.review': 'Cola de revisión',
+  'admin.tab.projects': 'Todos los proyectos',
+  'admin.tab.verifications': 'Verificaciones',
+  'admin.tab.users': 'Usuarios',
+  'admin.tab.refunds': 'Reembolsos',
+  'admin.tab.emails': 'Correos',
+  'admin.tab.exports': 'Exportaciones',
+  'admin.noProjects': 'Aún no hay proyectos',
+  'admin.noProjectsHint': 'Todavía no se ha creado ningún proyecto.',
+  'admin.project': 'Proyecto',
+  'admin.creator': 'Creador',
+  'admin.category': 'Categoría',
+  'admin.goal': 'Meta',
+  'admin.status': 'Estado',
+  'admin.actions': 'Acciones',
+  'admin.unknownCreator': 'Desconocido',
+  'admin.uncategorized': 'Sin categoría',
+  'admin.raised': '{amount} recaudados',
+  'admin.viewDetails': 'Ver detalles',
+  'createProject.createTitle': 'Crear un proyecto',
+  'createProject.editTitle': 'Editar proyecto',
+  'createProject.loadFailed': 'No se pudo cargar el proyecto',
+  'createProject.uploadFailed': 'No se pudo subir la imagen',
+  'createProject.saveFailed': 'No se pudo guardar el proyecto',
+  'createProject.title': 'Título del proyecto',
+  'createProject.titlePlaceholder': 'Dale a tu proyecto un título atractivo',
+  'createProject.description': 'Descripción del proyecto',
+  'createProject.descriptionPlaceholder': 'Describe tu proyecto, sus objetivos y cómo se usarán los fondos...',
+  'createProject.goal': 'Meta de financiación',
+  'createProject.currency': 'Moneda',
+  'createProject.currencyLocked': 'La moneda no puede cambiar una vez que el proyecto tiene donaciones',
+  'createProject.category': 'Categoría',
+  'createProject.selectCategory': 'Selecciona una categoría',
+  'createProject.location': 'Ubicación',
+  'createProject.locationPlaceholder': 'Ciudad, país',
+  'createProject.endDate': 'Fecha de cierre de la campaña',
+  'createProject.images': 'Imágenes del proyecto',
+  'createProject.cover': 'Portada',
+  'createProject.useAsCover': 'Usar como portada',
+  'createProject.removeImage': 'Quitar imagen',
+  'createProject.addImages': 'Añadir imágenes',
+  'createProject.imagesHint': 'JPEG, PNG o WebP. Las imágenes se redimensionan antes de subirlas.',
+  'createProject.saving': 'Guardando...',
+  'createProject.saveDraft': 'Guardar como borrador',
+  'createProject.submitting': 'Enviando...',
+  'createProject.submitForReview': 'Enviar a revisión',
+  'createProject.verifyFirst':
+    'Verifica tu cuenta desde tu panel antes de enviar un proyecto a revisión. Mientras tanto, puedes guardarlo como borrador.',
+  'images.type': '{name} debe ser una imagen JPEG, PNG o WebP',
+  'images.tooLarge': '{name} supera los {size} MB',
+  'images.unsupported': 'Este navegador no permite procesar imágenes',
+  'images.processFailed': 'No se pudo procesar la imagen',
+
+  'reviewQueue.empty': 'No hay proyectos pendientes',
+  'reviewQueue.emptyHint': 'Todos los proyectos han sido revisados.',
+  'reviewQueue.updateFailed': 'No se pudo actualizar la revisión',
+  'reviewQueue.submitted': 'enviado el {date}',
+  'reviewQueue.historyEntry': 'el {date}',
+  'reviewQueue.claimedBy': 'En revisión por {name}',
+  'reviewQueue.anotherAdmin': 'otro administrador',
+  'reviewQueue.unclaimed': 'Aún sin asignar',
+  'reviewQueue.takeOver': 'Tomar la revisión',
+  'reviewQueue.claim': 'Asignarme la revisión',
+  'reviewQueue.reasonPlaceholder': 'Motivo o comentarios para el creador (obligatorio para rechazar o pedir cambios)',
+  'reviewQueue.release': 'Liberar',
+  'reviewQueue.requestChanges': 'Pedir cambios',
+  'reviewQueue.reject': 'Rechazar',
+  'reviewQueue.approve': 'Aprobar',
+  'reviewQueue.checklistIncomplete': 'Completa la lista de verificación para aprobar',
+
+  'pledges.title': 'Donaciones recurrentes',
+  'pledges.unknownProject': 'Proyecto desconocido',
+  'pledges.amountPer.monthly': '{amount} al mes',
+  'pledges.amountPer.quarterly': '{amount} al trimestre',
+  'pledges.amountPer.yearly': '{amount} al año',
+  'pledges.nextPayment': 'próximo pago el {date}',
+  'pledges.pausedAfterFailures': 'Pausada tras varios pagos fallidos. Reanúdala para volver a intentarlo.',
+  'pledges.status.active': 'Activa',
+  'pledges.status.paused': 'Pausada',
+  'pledges.status.cancelled': 'Cancelada',
+  'pledges.status.ended': 'Finalizada',
+  'pledges.change': 'Cambiar',
+  'pledges.pause': 'Pausar',
+  'pledges.resume': 'Reanudar',
+  'pledges.cancel': 'Cancelar',
+  'pledges.confirmCancel': '¿Cancelar esta donación recurrente? No se realizarán más cobros.',
+  'pledges.invalidAmount': 'Introduce un importe válido',
+  'pledges.amount': 'Importe',
+  'pledges.every': 'Cada',
+  'pledges.cadence.monthly': 'mes',
+  'pledges.cadence.quarterly': 'trimestre',
+  'pledges.cadence.yearly': 'año',
+  'pledges.save': 'Guardar',
+  'pledges.discard': 'Cancelar',
+
+  'refunds.reviewFailed': 'No se pudo revisar la solicitud de reembolso',
+  'refunds.empty': 'No hay solicitudes de reembolso',
+  'refunds.emptyHint': 'Todas las solicitudes de reembolso han sido revisadas.',
+  'refunds.project': 'Proyecto',
+  'refunds.unknownDonor': 'Donante desconocido',
+  'refunds.donated': 'donó el {date}',
+  'refunds.requested': 'solicitado el {date}',
+  'refunds.mayReactivate': 'El proyecto puede volver a estar activo',
+  'refunds.notePlaceholder': 'Nota para el donante (opcional)',
+  'refunds.approve': 'Aprobar reembolso',
+  'refunds.deny': 'Denegar',
+};
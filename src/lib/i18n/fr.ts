@@ -0,0 +1,620 @@
+import type { Catalog } from './index';
+
+export const fr: Catalog = {
+  'nav.explore': 'Découvrir les projets',
+  'nav.create': 'Créer un projet',
+  'nav.admin': 'Administration',
+  'nav.dashboard': 'Tableau de bord',
+  'nav.signIn': 'Se connecter',
+  'nav.signOut': 'Se déconnecter',
+  'nav.getStarted': 'Commencer',
+  'nav.userFallback': 'Utilisateur',
+  'nav.language': 'Langue',
+  'nav.settings': 'Paramètres du profil',
+  'nav.notifications': 'Notifications',
+  'nav.unreadNotifications': '{count} notifications non lues',
+
+  'hero.tagline': 'Relier les communautés grâce à un financement participatif transparent',
+  'hero.description':
+    'Nous aidons des ONG et des particuliers vérifiés à financer des projets de lutte contre la pauvreté qui transforment durablement les communautés du monde entier.',
+  'hero.getStarted': "Commencer dès aujourd'hui",
+  'hero.explore': 'Découvrir les projets',
+  'hero.verifiedTitle': 'Projets vérifiés',
+  'hero.verifiedText': 'Chaque projet est examiné avec soin et vérifié pour sa transparence et sa légitimité',
+  'hero.communityTitle': 'Impact communautaire',
+  'hero.communityText': 'Rejoignez des milliers de donateurs qui luttent concrètement contre la pauvreté',
+  'hero.transparencyTitle': 'Transparence totale',
+  'hero.transparencyText': 'Suivez chaque don grâce à des mises à jour en temps réel et des rapports détaillés',
+  'hero.focusAreas': "Domaines d'action",
+  'hero.area.education': 'Éducation',
+  'hero.area.healthcare': 'Santé',
+  'hero.area.cleanWater': 'Eau potable',
+  'hero.area.foodSecurity': 'Sécurité alimentaire',
+  'hero.area.housing': 'Logement',
+  'hero.area.skillsTraining': 'Formation professionnelle',
+
+  'auth.email': 'Adresse e-mail',
+  'auth.emailPlaceholder': 'vous@exemple.com',
+  'auth.password': 'Mot de passe',
+
+  'signIn.title': 'Bon retour',
+  'signIn.subtitle': 'Connectez-vous pour continuer à faire la différence',
+  'signIn.passwordPlaceholder': 'Saisissez votre mot de passe',
+  'signIn.submit': 'Se connecter',
+  'signIn.submitting': 'Connexion...',
+  'signIn.noAccount': "Vous n'avez pas de compte ?",
+  'signIn.signUpLink': 'Inscrivez-vous ici',
+  'signIn.failed': 'Échec de la connexion',
+
+  'signUp.title': 'Rejoignez notre communauté',
+  'signUp.subtitle': "Commencez à faire la différence dès aujourd'hui",
+  'signUp.fullName': 'Nom complet',
+  'signUp.fullNamePlaceholder': 'Jean Dupont',
+  'signUp.passwordPlaceholder': 'Au moins 6 caractères',
+  'signUp.role': 'Je souhaite :',
+  'signUp.donorTitle': 'Soutenir des projets',
+  'signUp.donorText': 'Faire des dons et avoir un impact',
+  'signUp.creatorTitle': 'Créer des projets',
+  'signUp.creatorText': 'Lancer des campagnes pour financer la lutte contre la pauvreté',
+  'signUp.creatorReview': 'Un administrateur valide les nouveaux comptes de créateur ; vous pouvez faire des dons en attendant',
+  'signUp.submit': 'Créer un compte',
+  'signUp.submitting': 'Création du compte...',
+  'signUp.haveAccount': 'Vous avez déjà un compte ?',
+  'signUp.signInLink': 'Connectez-vous ici',
+  'signUp.failed': "Échec de l'inscription",
+
+  'signIn.forgotPassword': 'Mot de passe oublié ?',
+  'signIn.useMagicLink': 'Recevoir plutôt un lien de connexion par e-mail',
+  'signIn.usePassword': 'Se connecter avec un mot de passe',
+  'signIn.sendMagicLink': 'Envoyer le lien de connexion',
+  'signIn.magicLinkSent': 'Nous avons envoyé un lien de connexion à {email}. Ouvrez-le sur cet appareil pour continuer.',
+  'signUp.confirmEmail': 'Nous avons envoyé un lien de confirmation à {email}. Confirmez votre adresse pour terminer la création de votre compte.',
+  'auth.checkEmailTitle': 'Consultez vos e-mails',
+  'auth.sending': 'Envoi...',
+  'auth.resendConfirmation': "Renvoyer l'e-mail de confirmation",
+  'auth.confirmationSent': 'Un nouvel e-mail de confirmation a été envoyé à {email}.',
+  'auth.backToSignIn': 'Retour à la connexion',
+  'auth.unverifiedBanner': 'Veuillez confirmer votre adresse e-mail ({email}) grâce au lien que nous vous avons envoyé.',
+  'auth.dismiss': 'Fermer',
+  'forgotPassword.title': 'Réinitialiser votre mot de passe',
+  'forgotPassword.subtitle': 'Saisissez votre e-mail et nous vous enverrons un lien pour choisir un nouveau mot de passe',
+  'forgotPassword.submit': 'Envoyer le lien',
+  'forgotPassword.sent': 'Si un compte existe pour {email}, un lien de réinitialisation est en route.',
+  'forgotPassword.failed': "Échec de l'envoi du lien",
+  'resetPassword.title': 'Choisissez un nouveau mot de passe',
+  'resetPassword.subtitle': 'Saisissez un nouveau mot de passe pour votre compte',
+  'resetPassword.newPassword': 'Nouveau mot de passe',
+  'resetPassword.confirmPassword': 'Confirmer le nouveau mot de passe',
+  'resetPassword.mismatch': 'Les mots de passe ne correspondent pas',
+  'resetPassword.submit': 'Mettre à jour',
+  'resetPassword.submitting': 'Mise à jour...',
+  'resetPassword.invalidLink': 'Ce lien de réinitialisation est invalide ou a expiré.',
+  'resetPassword.requestNew': 'Demander un nouveau lien',
+  'resetPassword.failed': 'Échec de la mise à jour du mot de passe',
+  'authError.emailNotConfirmed': "Votre adresse e-mail n'a pas encore été confirmée. Cherchez le lien de confirmation dans votre boîte de réception.",
+  'authError.invalidCredentials': 'E-mail ou mot de passe incorrect.',
+  'authError.userExists': 'Un compte existe déjà avec cet e-mail. Essayez de vous connecter.',
+  'authError.weakPassword': 'Ce mot de passe est trop faible. Utilisez au moins 6 caractères et évitez les mots de passe courants.',
+  'authError.samePassword': "Le nouveau mot de passe doit être différent de l'actuel.",
+  'authError.linkExpired': 'Ce lien a expiré ou a déjà été utilisé. Demandez-en un nouveau.',
+  'authError.userNotFound': 'Aucun compte trouvé pour cette adresse e-mail.',
+  'authError.emailRateLimited': "Trop d'e-mails ont été envoyés à cette adresse. Patientez quelques minutes puis réessayez.",
+  'authError.rateLimited': 'Trop de tentatives. Patientez un instant puis réessayez.',
+  'authError.invalidEmail': 'Veuillez saisir une adresse e-mail valide.',
+  'authError.signupDisabled': 'Les inscriptions sont actuellement fermées.',
+
+  'project.back': '← Retour aux projets',
+  'project.notFound': 'Projet introuvable',
+  'project.goBack': 'Retour',
+  'project.ends': 'Se termine le {date}',
+  'project.updates': 'Actualités du projet',
+  'project.milestone': 'Étape atteinte',
+  'project.recentDonations': 'Dons récents',
+  'project.anonymous': 'Anonyme',
+  'project.justDonated': '{name} vient de donner {amount}',
+  'project.someoneJustDonated': 'Quelqu’un vient de donner {amount}',
+  'project.raisedOf': "collectés sur un objectif de {goal}",
+  'project.funded': '{percent} % financé',
+  'project.daysLeft': '{count} jours restants',
+  'project.ended': 'Campagne terminée',
+  'project.closedNotice': "Cette campagne est terminée et n'accepte plus de dons.",
+  'project.support': 'Soutenir ce projet',
+  'project.share': 'Partager',
+  'project.createdBy': 'Créé par',
+  'project.verifiedCreator': 'Créateur vérifié',
+
+  'donation.title': 'Soutenir ce projet',
+  'donation.thankYou': 'Merci pour votre don !',
+  'donation.receipt': 'Reçu',
+  'donation.receiptPending': 'En attente',
+  'donation.project': 'Projet',
+  'donation.amount': 'Montant',
+  'donation.date': 'Date',
+  'donation.donor': 'Donateur',
+  'donation.monthlyNotice':
+    'Vous serez prélevé de {amount} chaque mois. Gérez cet engagement depuis votre tableau de bord.',
+  'donation.claimNotice': 'Créez un compte avec {email} pour retrouver ce don dans votre tableau de bord.',
+  'donation.print': 'Imprimer le reçu',
+  'donation.done': 'Terminé',
+  'donation.supporting': 'Vous soutenez :',
+  'donation.selectAmount': 'Choisissez un montant',
+  'donation.currency': 'Devise',
+  'donation.customAmount': 'Montant libre',
+  'donation.conversionNote':
+    'Ce projet collecte des fonds en {currency}. Votre don est converti au taux de change en vigueur au moment du don.',
+  'donation.guestName': 'Votre nom',
+  'donation.guestEmail': 'E-mail',
+  'donation.guestEmailPlaceholder': 'Pour votre reçu',
+  'donation.guestEmailHint': 'Inscrivez-vous plus tard avec cet e-mail pour rattacher ce don à votre compte.',
+  'donation.message': 'Message (facultatif)',
+  'donation.messagePlaceholder': 'Laissez un message de soutien...',
+  'donation.giveMonthly': 'Donner chaque mois',
+  'donation.giveMonthlyHint':
+    'Renouvelez ce don chaque mois. Suspendez ou annulez à tout moment depuis votre tableau de bord.',
+  'donation.anonymous': 'Faire ce don anonymement',
+  'donation.anonymousHint': 'Votre nom ne sera pas affiché publiquement',
+  'donation.paymentInfo': 'Informations de paiement',
+  'donation.paymentMock':
+    "Mode test : les paiements passent par la passerelle de test locale et aucune carte n'est débitée.",
+  'donation.paymentStripe':
+    "Les paiements sont traités en toute sécurité par Stripe. Vous saisirez vos informations de paiement à l'étape suivante.",
+  'donation.paymentUnavailable':
+    'Les dons sont indisponibles pour le moment car les paiements par carte ne sont pas configurés.',
+  'donation.processing': 'Traitement...',
+  'donation.donateMonthly': 'Donner chaque mois',
+  'donation.donateNow': 'Faire un don',
+  'donation.terms': 'En faisant un don, vous acceptez nos conditions générales',
+  'donation.invalidAmount': 'Veuillez saisir un montant valide',
+  'donation.declined': 'Votre paiement a été refusé. Essayez un autre montant ou moyen de paiement.',
+  'donation.failed': 'Le traitement du don a échoué',
+
+  'footer.about':
+    'Relier les communautés grâce à un financement participatif transparent pour des projets de lutte contre la pauvreté dans le monde entier.',
+  'footer.tagline': 'Conçu pour l’impact social. Tous les projets sont vérifiés et suivis en toute transparence.',
+  'footer.platform': 'Plateforme',
+  'footer.browse': 'Parcourir les projets',
+  'footer.startProject': 'Lancer un projet',
+  'footer.howItWorks': 'Comment ça marche',
+  'footer.legal': 'Mentions légales',
+  'footer.terms': "Conditions d'utilisation",
+  'footer.privacy': 'Politique de confidentialité',
+  'footer.contact': 'Nous contacter',
+  'footer.copyright': '© 2024 Hope Bridge. Réalisé à des fins pédagogiques dans le cadre d’un projet de fin d’études.',
+
+  'comments.title': 'Commentaires',
+  'comments.unknownAuthor': 'Inconnu',
+  'comments.creator': 'Créateur',
+  'comments.hidden': 'Masqué',
+  'comments.edited': 'modifié',
+  'comments.deleted': 'Ce commentaire a été supprimé.',
+  'comments.save': 'Enregistrer',
+  'comments.cancel': 'Annuler',
+  'comments.reply': 'Répondre',
+  'comments.edit': 'Modifier',
+  'comments.delete': 'Supprimer',
+  'comments.hide': 'Masquer',
+  'comments.unhide': 'Afficher',
+  'comments.confirmDelete': 'Supprimer ce commentaire ?',
+  'comments.placeholder': 'Partagez votre avis ou posez une question au créateur...',
+  'comments.replyPlaceholder': 'Écrire une réponse...',
+  'comments.post': 'Publier le commentaire',
+  'comments.signInPrompt': 'Connectez-vous pour participer à la discussion.',
+  'comments.empty': 'Aucun commentaire pour le moment. Soyez le premier à réagir !',
+  'comments.loading': 'Chargement...',
+  'comments.loadMore': 'Afficher plus de commentaires',
+  'comments.failed': 'Une erreur est survenue',
+
+  'updates.composerTitle': 'Publier une actualité pour {title}',
+  'updates.titlePlaceholder': "Titre de l'actualité",
+  'updates.write': 'Rédiger',
+  'updates.preview': 'Aperçu',
+  'updates.contentPlaceholder':
+    'Partagez vos avancées. Le Markdown est pris en charge : **gras**, _italique_, listes et [liens](https://...).',
+  'updates.nothingToPreview': 'Rien à afficher',
+  'updates.addImages': 'Ajouter des images',
+  'updates.imageType': '{name} doit être une image JPEG, PNG ou WebP',
+  'updates.imageTooLarge': '{name} dépasse 5 Mo',
+  'updates.uploadFailed': "Échec de l'envoi de l'image",
+  'updates.milestone': 'Étape franchie',
+  'updates.milestonePlaceholder': 'ex. Premier puits terminé',
+  'updates.finalReport': 'Rapport final',
+  'updates.finalReportHint':
+    'Expliquez comment les fonds ont été utilisés. Sa publication marque le projet comme terminé.',
+  'updates.notifyNotice': 'Tous les donateurs de ce projet seront prévenus.',
+  'updates.publish': "Publier l'actualité",
+  'updates.publishing': 'Publication...',
+  'updates.publishFailed': "Échec de la publication de l'actualité",
+
+  'verification.status.pending': "En cours d'examen",
+  'verification.status.approved': 'Vérifié',
+  'verification.status.rejected': 'Refusé',
+  'verification.status.expired': 'Expiré',
+  'verification.title': 'Vérification',
+  'verification.intro': "Les créateurs vérifiés peuvent soumettre des projets à l'examen et recevoir des versements.",
+  'verification.verifiedUntil': "{organization} est vérifié jusqu'au {date}.",
+  'verification.pendingNotice':
+    'Votre demande pour {organization} a été envoyée le {date} et attend un administrateur.',
+  'verification.rejectedNotice': "Votre dernière demande n'a pas été approuvée.",
+  'verification.rejectedNoticeWithNote': "Votre dernière demande n'a pas été approuvée : {note}",
+  'verification.expiredNotice': 'Votre vérification a expiré.',
+  'verification.expiredNoticeWithNote': 'Votre vérification a expiré : {note}',
+  'verification.notApplied': "Vous n'avez pas encore demandé de vérification.",
+  'verification.apply': 'Demander la vérification',
+  'verification.applyAgain': 'Refaire une demande',
+  'verification.organizationName': "Nom de l'organisation ou nom légal",
+  'verification.registrationNumber': "Numéro d'enregistrement",
+  'verification.taxId': 'Numéro fiscal',
+  'verification.documents': "Documents d'enregistrement",
+  'verification.uploadDocument': 'Envoyer un PDF ou une image',
+  'verification.payoutAccount': 'Compte bancaire de versement',
+  'verification.accountName': 'Titulaire du compte',
+  'verification.bankName': 'Nom de la banque',
+  'verification.accountNumber': 'Numéro de compte ou IBAN',
+  'verification.routingCode': 'Code SWIFT / BIC',
+  'verification.cancel': 'Annuler',
+  'verification.submit': 'Envoyer la demande',
+  'verification.submitting': 'Envoi...',
+  'verification.uploadFailed': "Échec de l'envoi du document",
+  'verification.submitFailed': "Échec de l'envoi de la demande",
+  'verificationReview.emptyTitle': 'Aucune demande de vérification',
+  'verificationReview.emptyText': "Aucune demande n'attend d'examen.",
+  'verificationReview.unknownCreator': 'Créateur inconnu',
+  'verificationReview.applied': 'demande du {date}',
+  'verificationReview.verifiedUntil': "vérifié jusqu'au {date}",
+  'verificationReview.registrationNumber': "Numéro d'enregistrement",
+  'verificationReview.taxId': 'Numéro fiscal',
+  'verificationReview.payoutAccount': 'Compte de versement',
+  'verificationReview.accountNumber': 'Numéro de compte',
+  'verificationReview.notePending': 'Note au créateur (obligatoire pour refuser)',
+  'verificationReview.noteExpire': "Motif de l'expiration (facultatif)",
+  'verificationReview.approve': 'Approuver',
+  'verificationReview.reject': 'Refuser',
+  'verificationReview.expire': 'Faire expirer',
+  'verificationReview.reviewFailed': "Échec de l'examen de la demande",
+  'verificationReview.openFailed': "Impossible d'ouvrir le document",
+
+  'preferences.donations': 'Dons',
+  'preferences.donationsHint': "Quelqu'un fait un don à l'un de vos projets",
+  'preferences.projectUpdates': 'Actualités des projets',
+  'preferences.projectUpdatesHint': 'Un projet que vous avez soutenu publie une actualité',
+  'preferences.comments': 'Commentaires',
+  'preferences.commentsHint': "Quelqu'un commente votre projet ou vous répond",
+  'preferences.projectStatus': 'Statut du projet',
+  'preferences.projectStatusHint': 'Votre projet est approuvé, refusé ou change de statut',
+  'preferences.account': 'Compte',
+  'profile.title': 'Paramètres du profil',
+  'profile.subtitle': 'Gérez votre présentation sur Hope Bridge et la façon dont nous vous contactons',
+  'profile.avatarHint': 'Cliquez sur la photo pour envoyer un nouvel avatar',
+  'profile.avatarFailed': "Échec de l'envoi de l'avatar",
+  'profile.fullName': 'Nom complet',
+  'profile.bio': 'Biographie',
+  'profile.bioPlaceholder': 'Présentez-vous en quelques mots aux donateurs et aux créateurs',
+  'profile.location': 'Localisation',
+  'profile.locationPlaceholder': 'Ville, Pays',
+  'profile.language': 'Langue',
+  'profile.notifyMe': 'Me prévenir quand',
+  'profile.save': 'Enregistrer le profil',
+  'profile.saving': 'Enregistrement...',
+  'profile.saved': 'Profil enregistré',
+  'profile.saveFailed': "Échec de l'enregistrement du profil",
+  'profile.changePassword': 'Changer le mot de passe',
+  'profile.changingPassword': 'Modification...',
+  'profile.currentPassword': 'Mot de passe actuel',
+  'profile.newPassword': 'Nouveau mot de passe',
+  'profile.confirmPassword': 'Confirmer le nouveau mot de passe',
+  'profile.passwordMismatch': 'Les nouveaux mots de passe ne correspondent pas',
+  'profile.passwordTooShort': 'Le nouveau mot de passe doit contenir au moins {count} caractères',
+  'profile.currentPasswordIncorrect': 'Le mot de passe actuel est incorrect',
+  'profile.passwordChanged': 'Mot de passe modifié',
+  'profile.passwordFailed': 'Échec de la modification du mot de passe',
+  'profile.deleteTitle': 'Supprimer le compte',
+  'profile.deleteText':
+    'Cette action supprime définitivement votre profil, vos brouillons de projets, vos dons récurrents et vos fichiers. Vos dons passés restent sur les projets soutenus mais ne sont plus liés à vous.',
+  'profile.deleteConfirm': 'Saisissez {word} pour confirmer',
+  'profile.delete': 'Supprimer mon compte',
+  'profile.deleting': 'Suppression...',
+  'profile.deleteFailed': 'Échec de la suppression du compte',
+
+  'roles.donor': 'Donateur',
+  'roles.projectCreator': 'Créateur de projet',
+  'roles.admin': 'Administrateur',
+  'roleRequest.status.pending': "En cours d'examen",
+  'roleRequest.status.approved': 'Approuvée',
+  'roleRequest.status.rejected': 'Non approuvée',
+  'roleRequest.title': 'Lancer un projet',
+  'roleRequest.intro':
+    'Les créateurs de projets peuvent lancer des campagnes une fois leur compte approuvé par un administrateur.',
+  'roleRequest.pendingNotice':
+    'Vous avez demandé à devenir créateur de projet le {date}. Un administrateur examinera bientôt votre demande.',
+  'roleRequest.rejectedNotice': "Votre dernière demande n'a pas été approuvée.",
+  'roleRequest.rejectedNoticeWithNote': "Votre dernière demande n'a pas été approuvée : {note}",
+  'roleRequest.become': 'Devenir créateur de projet',
+  'roleRequest.askAgain': 'Redemander',
+  'roleRequest.reasonPlaceholder':
+    "Parlez-nous de l'organisation ou de la communauté pour laquelle vous souhaitez collecter des fonds",
+  'roleRequest.cancel': 'Annuler',
+  'roleRequest.send': 'Envoyer la demande',
+  'roleRequest.sending': 'Envoi...',
+  'roleRequest.failed': "Échec de l'envoi de la demande",
+  'users.creatorRequests': 'Demandes de créateur',
+  'users.unknownUser': 'Utilisateur inconnu',
+  'users.requestedRole': 'Souhaite devenir {role} · demande du {date}',
+  'users.notePlaceholder': "Note à l'utilisateur (obligatoire pour refuser)",
+  'users.approve': 'Approuver',
+  'users.reject': 'Refuser',
+  'users.approveFailed': "Échec de l'approbation de la demande",
+  'users.rejectFailed': 'Échec du refus de la demande',
+  'users.searchPlaceholder': 'Rechercher par nom',
+  'users.noResults': 'Aucun utilisateur ne correspond à votre recherche.',
+  'users.user': 'Utilisateur',
+  'users.role': 'Rôle',
+  'users.verification': 'Vérification',
+  'users.joined': 'Inscription',
+  'users.ownRole': 'Vous ne pouvez pas changer votre propre rôle',
+  'users.changeRoleFailed': 'Échec du changement de rôle',
+  'users.verified': 'Vérifié',
+  'users.verifiedUntil': "Jusqu'au {date}",
+  'users.notVerified': 'Non vérifié',
+  'users.verificationFailed': 'Échec du changement de vérification',
+
+  'notifications.title': 'Notifications',
+  'notifications.unreadCount': '{count} non lue(s)',
+  'notifications.caughtUp': 'Vous êtes à jour',
+  'notifications.all': 'Toutes',
+  'notifications.unread': 'Non lues',
+  'notifications.markAllRead': 'Tout marquer comme lu',
+  'notifications.markRead': 'Marquer comme lue',
+  'notifications.markReadFailed': 'Échec du marquage des notifications comme lues',
+  'notifications.emptyUnread': 'Aucune notification non lue.',
+  'notifications.empty': 'Aucune notification pour le moment.',
+  'notifications.loading': 'Chargement...',
+  'notifications.loadMore': 'Voir plus',
+  'notifications.preferences': 'Préférences',
+  'notifications.preferencesIntro':
+    'Choisissez ce dont vous souhaitez être informé. Les avis liés au compte, comme les décisions de vérification, sont toujours envoyés.',
+  'notifications.savePreferencesFailed': "Échec de l'enregistrement des préférences",
+
+  'emails.template.donationReceipt': 'Reçu de don',
+  'emails.template.reviewDecision': "Décision d'examen",
+  'emails.template.deadlineReminder': "Rappel d'échéance",
+  'emails.template.updateDigest': 'Résumé des actualités',
+  'emails.template.notification': 'Notification générale',
+  'emails.status.queued': "En file d'attente",
+  'emails.status.sending': 'Envoi en cours',
+  'emails.status.sent': 'Envoyé',
+  'emails.status.failed': 'Échec',
+  'emails.status.bounced': 'Rejeté',
+  'emails.status.suppressed': 'Supprimé',
+  'emails.template': 'Modèle',
+  'emails.language': 'Langue',
+  'emails.html': 'HTML',
+  'emails.plainText': 'Texte brut',
+  'emails.subject': 'Objet :',
+  'emails.previewTitle': "Aperçu de l'e-mail",
+  'emails.recentDeliveries': 'Envois récents',
+  'emails.empty': "Aucun e-mail n'a encore été mis en file d'attente.",
+  'emails.recipient': 'Destinataire',
+  'emails.status': 'Statut',
+  'emails.attempts': 'Tentatives',
+  'emails.queued': 'Mis en file',
+
+  'export.title': 'Exporter les données',
+  'export.introDonations': 'Téléchargez les dons sous forme de tableur pour vos archives. Les dates sont en UTC.',
+  'export.introProjects': 'Téléchargez les projets sous forme de tableur pour vos archives. Les dates sont en UTC.',
+  'export.anonymousIncluded': "Les dons anonymes incluent le donateur à des fins d'audit.",
+  'export.anonymousHidden': 'Les donateurs anonymes sont listés sans leur nom ni leur e-mail.',
+  'export.data': 'Données',
+  'export.donations': 'Dons',
+  'export.projects': 'Projets',
+  'export.from': 'Du',
+  'export.to': 'Au',
+  'export.project': 'Projet',
+  'export.allProjects': 'Tous les projets',
+  'export.status': 'Statut',
+  'export.allStatuses': 'Tous les statuts',
+  'export.status.draft': 'Brouillon',
+  'export.status.pendingReview': "En attente d'examen",
+  'export.status.active': 'Actif',
+  'export.status.fullyFunded': 'Entièrement financé',
+  'export.status.completed': 'Terminé',
+  'export.status.cancelled': 'Annulé',
+  'export.status.pending': 'En attente',
+  'export.status.refunded': 'Remboursé',
+  'export.status.failed': 'Échoué',
+  'export.download': 'Télécharger {format}',
+  'export.exporting': 'Exportation...',
+  'export.failed': "Échec de l'exportation des données",
+
+  'app.loading': 'Chargement de Hope Bridge...',
+  'home.activeProjects': 'Projets en cours',
+  'home.activeProjectsIntro': 'Soutenez des projets vérifiés qui ont un réel impact',
+  'projects.title': 'Tous les projets',
+  'projects.intro': 'Découvrez et soutenez des initiatives de lutte contre la pauvreté',
+  'projects.searchPlaceholder': 'Rechercher des projets...',
+  'projects.allCategories': 'Toutes les catégories',
+  'projects.filters': 'Filtres',
+  'projects.anyStatus': 'Tous les statuts',
+  'projects.anyCountry': 'Tous les pays',
+  'projects.minFunded': 'Min %',
+  'projects.maxFunded': 'Max %',
+  'projects.fundedTo': 'à',
+  'projects.anyEndDate': 'Toute date de fin',
+  'projects.endingWithin': 'Se termine dans {count} jours',
+  'projects.empty': 'Aucun projet trouvé',
+  'projects.emptyHint': 'Essayez de modifier vos filtres',
+  'sort.newest': 'Plus récents',
+  'sort.mostFunded': 'Plus financés',
+  'sort.closestToGoal': "Plus proches de l'objectif",
+  'sort.endingSoon': 'Se terminant bientôt',
+  'projectStatus.draft': 'Brouillon',
+  'projectStatus.pendingReview': "En attente d'examen",
+  'projectStatus.active': 'Actif',
+  'projectStatus.fullyFunded': 'Entièrement financé',
+  'projectStatus.completed': 'Terminé',
+  'projectStatus.cancelled': 'Annulé',
+  'donationStatus.pending': 'En attente',
+  'donationStatus.completed': 'Effectué',
+  'donationStatus.refunded': 'Remboursé',
+  'donationStatus.failed': 'Échoué',
+  'reviewDecision.approved': 'Approuvé',
+  'reviewDecision.rejected': 'Refusé',
+  'reviewDecision.changesRequested': 'Modifications demandées',
+  'dashboard.title': 'Tableau de bord',
+  'dashboard.creatorIntro': 'Gérez vos projets et suivez leurs résultats',
+  'dashboard.donorIntro': "Consultez l'historique de vos dons et leur impact",
+  'dashboard.totalRaised': 'Total collecté',
+  'dashboard.totalDonated': 'Total donné',
+  'dashboard.totalProjects': 'Nombre de projets',
+  'dashboard.projectsSupported': 'Projets soutenus',
+  'dashboard.verified': 'Vérifié',
+  'dashboard.pending': 'En attente',
+  'dashboard.accountStatus': 'Statut du compte',
+  'dashboard.yourProjects': 'Vos projets',
+  'dashboard.postUpdate': 'Publier une actualité',
+  'dashboard.editProject': 'Modifier le projet',
+  'dashboard.raisedOf': '{raised} sur {goal}',
+  'dashboard.resubmitHint': 'Modifiez le projet et soumettez-le de nouveau pour examen.',
+  'dashboard.showHistory': "Afficher l'historique des examens ({count})",
+  'dashboard.hideHistory': "Masquer l'historique des examens ({count})",
+  'dashboard.endedReportHint':
+    "Cette campagne est terminée. Publiez un rapport final sur l'utilisation des fonds pour la marquer comme terminée.",
+  'dashboard.fundedReportHint':
+    "Ce projet est entièrement financé. Publiez un rapport final sur l'utilisation des fonds pour le marquer comme terminé.",
+  'dashboard.updatePublished': 'Actualité publiée et donateurs informés.',
+  'dashboard.yourDonations': 'Vos dons',
+  'dashboard.annualStatements': 'Relevés annuels :',
+  'dashboard.preparing': 'Préparation...',
+  'dashboard.projectFallback': 'Projet',
+  'dashboard.refund.pending': 'Remboursement demandé',
+  'dashboard.refund.processing': 'Remboursement en cours',
+  'dashboard.refund.approved': 'Remboursement accepté',
+  'dashboard.refund.denied': 'Remboursement refusé',
+  'dashboard.refundWithNote': '{status} : {note}',
+  'dashboard.receipt': 'Reçu',
+  'dashboard.voidedReceipt': 'Reçu annulé',
+  'dashboard.requestRefund': 'Demander un remboursement',
+  'dashboard.refundPlaceholder': 'Dites-nous pourquoi vous souhaitez être remboursé...',
+  'dashboard.cancel': 'Annuler',
+  'dashboard.submitting': 'Envoi...',
+  'dashboard.submitRequest': 'Envoyer la demande',
+  'dashboard.refundFailed': 'Échec de la demande de remboursement',
+  'dashboard.downloadFailed': 'Échec du téléchargement du document',
+  'dashboard.noProjects': 'Aucun projet pour le moment',
+  'dashboard.noProjectsHint': 'Créez votre premier projet pour commencer à collecter des fonds contre la pauvreté.',
+  'dashboard.noDonations': 'Aucun don pour le moment',
+  'dashboard.noDonationsHint': "Soutenez un projet dès aujourd'hui et contribuez à la lutte contre la pauvreté.",
+  'admin.title': 'Administration',
+  'admin.subtitle': 'Examinez et gérez les projets',
+  'admin.reconcile': 'Rapprocher les totaux',
+  'admin.reconcileClean': 'Les totaux de tous les projets correspondent à leurs dons effectués.',
+  'admin.reconcileFixedOne': "Le montant collecté d'un projet a été corrigé.",
+  'admin.reconcileFixedMany': 'Le montant collecté de {count} projets a été corrigé.',
+  'admin.reconcileFailed': 'Échec du rapprochement des totaux.',
+  'admin.tab.review': "File d'examen",
+  'admin.tab.projects': 'Tous les projets',
+  'admin.tab.verifications': 'Vérifications',
+  'admin.tab.users': 'Utilisateurs',
+  'admin.tab.refunds': 'Remboursements',
+  'admin.tab.emails': 'E-mails',
+  'admin.tab.exports': 'Exports',
+  'admin.noProjects': 'Aucun projet pour le moment',
+  'admin.noProjectsHint': "Aucun projet n'a encore été créé.",
+  'admin.project': 'Projet',
+  'admin.creator': 'Créateur',
+  'admin.category': 'Catégorie',
+  'admin.goal': 'Objectif',
+  'admin.status': 'Statut',
+  'admin.actions': 'Actions',
+  'admin.unknownCreator': 'Inconnu',
+  'admin.uncategorized': 'Sans catégorie',
+  'admin.raised': '{amount} collectés',
+  'admin.viewDetails': 'Voir les détails',
+  'createProject.createTitle': 'Créer un projet',
+  'createProject.editTitle': 'Modifier le projet',
+  'createProject.loadFailed': 'Échec du chargement du projet',
+  'createProject.uploadFailed': "Échec de l'envoi de l'image",
+  'createProject.saveFailed': "Échec de l'enregistrement du projet",
+  'createProject.title': 'Titre du projet',
+  'createProject.titlePlaceholder': 'Donnez à votre projet un titre accrocheur',
+  'createProject.description': 'Description du projet',
+  'createProject.descriptionPlaceholder': "Décrivez votre projet, ses objectifs et l'utilisation des fonds...",
+  'createProject.goal': 'Objectif de financement',
+  'createProject.currency': 'Devise',
+  'createProject.currencyLocked': 'La devise ne peut plus changer une fois que le projet a reçu des dons',
+  'createProject.category': 'Catégorie',
+  'createProject.selectCategory': 'Choisissez une catégorie',
+  'createProject.location': 'Lieu',
+  'createProject.locationPlaceholder': 'Ville, pays',
+  'createProject.endDate': 'Date de fin de la campagne',
+  'createProject.images': 'Images du projet',
+  'createProject.cover': 'Couverture',
+  'createProject.useAsCover': 'Utiliser comme couverture',
+  'createProject.removeImage': "Retirer l'image",
+  'createProject.addImages': 'Ajouter des images',
+  'createProject.imagesHint': "JPEG, PNG ou WebP. Les images sont redimensionnées avant l'envoi.",
+  'createProject.saving': 'Enregistrement...',
+  'createProject.saveDraft': 'Enregistrer le brouillon',
+  'createProject.submitting': 'Envoi...',
+  'createProject.submitForReview': 'Soumettre pour examen',
+  'createProject.verifyFirst':
+    "Vérifiez votre compte depuis votre tableau de bord avant de soumettre un projet pour examen. Vous pouvez l'enregistrer comme brouillon en attendant.",
+  'images.type': '{name} doit être une image JPEG, PNG ou WebP',
+  'images.tooLarge': '{name} dépasse {size} Mo',
+  'images.unsupported': "Le traitement d'images n'est pas pris en charge par ce navigateur",
+  'images.processFailed': "Échec du traitement de l'image",
+
+  'reviewQueue.empty': 'Aucun projet en attente',
+  'reviewQueue.emptyHint': 'Tous les projets ont été examinés.',
+  'reviewQueue.updateFailed': "Échec de la mise à jour de l'examen",
+  'reviewQueue.submitted': 'soumis le {date}',
+  'reviewQueue.historyEntry': 'le {date}',
+  'reviewQueue.claimedBy': "En cours d'examen par {name}",
+  'reviewQueue.anotherAdmin': 'un autre administrateur',
+  'reviewQueue.unclaimed': 'Pas encore pris en charge',
+  'reviewQueue.takeOver': "Reprendre l'examen",
+  'reviewQueue.claim': "Prendre l'examen",
+  'reviewQueue.reasonPlaceholder':
+    'Motif ou commentaires pour le créateur (obligatoire pour rejeter ou demander des modifications)',
+  'reviewQueue.release': 'Libérer',
+  'reviewQueue.requestChanges': 'Demander des modifications',
+  'reviewQueue.reject': 'Rejeter',
+  'reviewQueue.approve': 'Approuver',
+  'reviewQueue.checklistIncomplete': 'Complétez la liste de contrôle pour approuver',
+
+  'pledges.title': 'Dons récurrents',
+  'pledges.unknownProject': 'Projet inconnu',
+  'pledges.amountPer.monthly': '{amount} par mois',
+  'pledges.amountPer.quarterly': '{amount} par trimestre',
+  'pledges.amountPer.yearly': '{amount} par an',
+  'pledges.nextPayment': 'prochain paiement le {date}',
+  'pledges.pausedAfterFailures': 'Suspendu après plusieurs échecs de paiement. Reprenez-le pour réessayer.',
+  'pledges.status.active': 'Actif',
+  'pledges.status.paused': 'Suspendu',
+  'pledges.status.cancelled': 'Annulé',
+  'pledges.status.ended': 'Terminé',
+  'pledges.change': 'Modifier',
+  'pledges.pause': 'Suspendre',
+  'pledges.resume': 'Reprendre',
+  'pledges.cancel': 'Annuler',
+  'pledges.confirmCancel': 'Annuler ce don récurrent ? Aucun autre paiement ne sera prélevé.',
+  'pledges.invalidAmount': 'Veuillez saisir un montant valide',
+  'pledges.amount': 'Montant',
+  'pledges.every': 'Tous les',
+  'pledges.cadence.monthly': 'mois',
+  'pledges.cadence.quarterly': 'trimestres',
+  'pledges.cadence.yearly': 'ans',
+  'pledges.save': 'Enregistrer',
+  'pledges.discard': 'Annuler',
+
+  'refunds.reviewFailed': 'Échec du traitement de la demande de remboursement',
+  'refunds.empty': 'Aucune demande de remboursement',
+  'refunds.emptyHint': 'Toutes les demandes de remboursement ont été traitées.',
+  'refunds.project': 'Projet',
+  'refunds.unknownDonor': 'Donateur inconnu',
+  'refunds.donated': 'don du {date}',
+  'refunds.requested': 'demandé le {date}',
+  'refunds.mayReactivate': 'Le projet pourrait redevenir actif',
+  'refunds.notePlaceholder': 'Note au donateur (facultatif)',
+  'refunds.approve': 'Approuver le remboursement',
+  'refunds.deny': 'Refuser',
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { catalogs, findMissingKeys, LOCALES, matchLocale } from './index';
+
+describe('catalogs', () => {
+  it.each(LOCALES)('%s translates every English key', (locale) => {
+    expect(findMissingKeys(catalogs[locale])).toEqual([]);
+  });
+
+  it('reports keys that are missing or blank', () => {
+    expect(findMissingKeys({ 'nav.explore': ' ' }, { 'nav.explore': 'Explore', 'nav.create': 'Create' })).toEqual([
+      'nav.explore',
+      'nav.create',
+    ]);
+  });
+});
+
+describe('matchLocale', () => {
+  it('picks the first supported language', () => {
+    expect(matchLocale(['de-DE', 'fr-CA', 'en'])).toBe('fr');
+  });
+
+  it('falls back to English', () => {
+    expect(matchLocale(['de-DE'])).toBe('en');
+  });
+});
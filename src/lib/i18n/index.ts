@@ -0,0 +1,65 @@
+import { en } from './en';
+import { fr } from './fr';
+import { sw } from './sw';
+import { es } from './es';
+
+export type MessageKey = keyof typeof en;
+
+// Translations may lag behind English; missing keys fall back to the English text
+export type Catalog = Partial<Record<MessageKey, string>>;
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES = ['en', 'fr', 'sw', 'es'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Language names are shown in their own language in the switcher
+export const localeNames: Record<Locale, string> = {
+  en: 'English',
+  fr: 'Français',
+  sw: 'Kiswahili',
+  es: 'Español',
+};
+
+export const catalogs: Record<Locale, Catalog> = { en, fr, sw, es };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+// Pick the first supported language from a list such as navigator.languages
+export function matchLocale(candidates: readonly string[]): Locale {
+  for (const candidate of candidates) {
+    const language = candidate.toLowerCase().split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+}
+
+// Keys present in the English catalog but absent or blank in `catalog`
+export function findMissingKeys(catalog: Catalog, reference: Catalog = en): MessageKey[] {
+  return (Object.keys(reference) as MessageKey[]).filter((key) => !catalog[key]?.trim());
+}
+
+function interpolate(message: string, params?: MessageParams) {
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+const reportedMissing = new Set<string>();
+
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams) {
+  const message = catalogs[locale][key];
+  if (message) return interpolate(message, params);
+
+  if (import.meta.env.DEV && !reportedMissing.has(`${locale}:${key}`)) {
+    reportedMissing.add(`${locale}:${key}`);
+    console.warn(`Missing ${locale} translation for "${key}"`);
+  }
+  return interpolate(en[key] ?? key, params);
+}
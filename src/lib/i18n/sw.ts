@@ -0,0 +1,611 @@
+import type { Catalog } from './index';
+
+export const sw: Catalog = {
+  'nav.explore': 'Gundua Miradi',
+  'nav.create': 'Unda Mradi',
+  'nav.admin': 'Paneli ya Msimamizi',
+  'nav.dashboard': 'Dashibodi',
+  'nav.signIn': 'Ingia',
+  'nav.signOut': 'Toka',
+  'nav.getStarted': 'Anza',
+  'nav.userFallback': 'Mtumiaji',
+  'nav.language': 'Lugha',
+  'nav.settings': 'Mipangilio ya wasifu',
+  'nav.notifications': 'Arifa',
+  'nav.unreadNotifications': 'Arifa {count} ambazo hazijasomwa',
+
+  'hero.tagline': 'Kuunganisha Jamii Kupitia Uchangishaji wa Wazi',
+  'hero.description':
+    'Tunawawezesha mashirika na watu waliothibitishwa kufadhili miradi ya kupunguza umaskini inayoleta mabadiliko ya kudumu katika jamii duniani kote.',
+  'hero.getStarted': 'Anza Leo',
+  'hero.explore': 'Gundua Miradi',
+  'hero.verifiedTitle': 'Miradi Iliyothibitishwa',
+  'hero.verifiedText': 'Kila mradi hukaguliwa kwa makini na kuthibitishwa kwa uwazi na uhalali',
+  'hero.communityTitle': 'Athari kwa Jamii',
+  'hero.communityText': 'Jiunge na maelfu ya wafadhili wanaoleta tofauti halisi katika kupambana na umaskini',
+  'hero.transparencyTitle': 'Uwazi Kamili',
+  'hero.transparencyText': 'Fuatilia kila mchango kwa taarifa za papo hapo na ripoti za kina za maendeleo',
+  'hero.focusAreas': 'Maeneo ya Kipaumbele',
+  'hero.area.education': 'Elimu',
+  'hero.area.healthcare': 'Afya',
+  'hero.area.cleanWater': 'Maji Safi',
+  'hero.area.foodSecurity': 'Usalama wa Chakula',
+  'hero.area.housing': 'Makazi',
+  'hero.area.skillsTraining': 'Mafunzo ya Ujuzi',
+
+  'auth.email': 'Barua Pepe',
+  'auth.emailPlaceholder': 'wewe@mfano.com',
+  'auth.password': 'Nenosiri',
+
+  'signIn.title': 'Karibu Tena',
+  'signIn.subtitle': 'Ingia ili kuendelea kuleta mabadiliko',
+  'signIn.passwordPlaceholder': 'Weka nenosiri lako',
+  'signIn.submit': 'Ingia',
+  'signIn.submitting': 'Inaingia...',
+  'signIn.noAccount': 'Huna akaunti?',
+  'signIn.signUpLink': 'Jisajili hapa',
+  'signIn.failed': 'Imeshindwa kuingia',
+
+  'signUp.title': 'Jiunge na Jamii Yetu',
+  'signUp.subtitle': 'Anza kuleta mabadiliko leo',
+  'signUp.fullName': 'Jina Kamili',
+  'signUp.fullNamePlaceholder': 'Amina Juma',
+  'signUp.passwordPlaceholder': 'Angalau herufi 6',
+  'signUp.role': 'Ninataka:',
+  'signUp.donorTitle': 'Kusaidia Miradi',
+  'signUp.donorText': 'Changia miradi na uache alama',
+  'signUp.creatorTitle': 'Kuunda Miradi',
+  'signUp.creatorText': 'Anzisha kampeni za kufadhili juhudi za kupunguza umaskini',
+  'signUp.creatorReview': 'Msimamizi huidhinisha akaunti mpya za waundaji; unaweza kuchangia wakati huo',
+  'signUp.submit': 'Fungua Akaunti',
+  'signUp.submitting': 'Inafungua akaunti...',
+  'signUp.haveAccount': 'Tayari una akaunti?',
+  'signUp.signInLink': 'Ingia hapa',
+  'signUp.failed': 'Imeshindwa kujisajili',
+
+  'signIn.forgotPassword': 'Umesahau nenosiri?',
+  'signIn.useMagicLink': 'Nitumie kiungo cha kuingia kwa barua pepe badala yake',
+  'signIn.usePassword': 'Ingia kwa nenosiri badala yake',
+  'signIn.sendMagicLink': 'Tuma Kiungo cha Kuingia',
+  'signIn.magicLinkSent': 'Tumetuma kiungo cha kuingia kwa {email}. Kifungue kwenye kifaa hiki ili kuendelea.',
+  'signUp.confirmEmail': 'Tumetuma kiungo cha uthibitisho kwa {email}. Thibitisha anwani yako ili kukamilisha kufungua akaunti.',
+  'auth.checkEmailTitle': 'Angalia barua pepe yako',
+  'auth.sending': 'Inatuma...',
+  'auth.resendConfirmation': 'Tuma tena barua pepe ya uthibitisho',
+  'auth.confirmationSent': 'Barua pepe mpya ya uthibitisho imetumwa kwa {email}.',
+  'auth.backToSignIn': 'Rudi kwenye kuingia',
+  'auth.unverifiedBanner': 'Tafadhali thibitisha anwani yako ya barua pepe ({email}) kwa kutumia kiungo tulichokutumia.',
+  'auth.dismiss': 'Funga',
+  'forgotPassword.title': 'Weka upya nenosiri lako',
+  'forgotPassword.subtitle': 'Weka barua pepe yako na tutakutumia kiungo cha kuchagua nenosiri jipya',
+  'forgotPassword.submit': 'Tuma Kiungo',
+  'forgotPassword.sent': 'Ikiwa akaunti ipo kwa {email}, kiungo cha kuweka upya kimetumwa.',
+  'forgotPassword.failed': 'Imeshindwa kutuma kiungo',
+  'resetPassword.title': 'Chagua nenosiri jipya',
+  'resetPassword.subtitle': 'Weka nenosiri jipya la akaunti yako',
+  'resetPassword.newPassword': 'Nenosiri jipya',
+  'resetPassword.confirmPassword': 'Thibitisha nenosiri jipya',
+  'resetPassword.mismatch': 'Manenosiri hayalingani',
+  'resetPassword.submit': 'Sasisha Nenosiri',
+  'resetPassword.submitting': 'Inasasisha...',
+  'resetPassword.invalidLink': 'Kiungo hiki si sahihi au kimeisha muda wake.',
+  'resetPassword.requestNew': 'Omba kiungo kipya',
+  'resetPassword.failed': 'Imeshindwa kusasisha nenosiri',
+  'authError.emailNotConfirmed': 'Anwani yako ya barua pepe bado haijathibitishwa. Tafuta kiungo cha uthibitisho kwenye kikasha chako.',
+  'authError.invalidCredentials': 'Barua pepe au nenosiri si sahihi.',
+  'authError.userExists': 'Akaunti yenye barua pepe hii tayari ipo. Jaribu kuingia.',
+  'authError.weakPassword': 'Nenosiri hilo ni dhaifu mno. Tumia angalau herufi 6 na epuka manenosiri ya kawaida.',
+  'authError.samePassword': 'Nenosiri jipya lazima liwe tofauti na la sasa.',
+  'authError.linkExpired': 'Kiungo hiki kimeisha muda wake au kimeshatumika. Omba kipya.',
+  'authError.userNotFound': 'Hakuna akaunti iliyopatikana kwa barua pepe hii.',
+  'authError.emailRateLimited': 'Barua pepe nyingi mno zimetumwa kwa anwani hii. Subiri dakika chache kisha ujaribu tena.',
+  'authError.rateLimited': 'Majaribio mengi mno. Subiri kidogo kisha ujaribu tena.',
+  'authError.invalidEmail': 'Tafadhali weka anwani sahihi ya barua pepe.',
+  'authError.signupDisabled': 'Usajili mpya umefungwa kwa sasa.',
+
+  'project.back': '← Rudi kwenye Miradi',
+  'project.notFound': 'Mradi haukupatikana',
+  'project.goBack': 'Rudi',
+  'project.ends': 'Unaisha {date}',
+  'project.updates': 'Taarifa za Mradi',
+  'project.milestone': 'Hatua imefikiwa',
+  'project.recentDonations': 'Michango ya Hivi Karibuni',
+  'project.anonymous': 'Bila jina',
+  'project.justDonated': '{name} amechangia {amount} sasa hivi',
+  'project.someoneJustDonated': 'Mtu amechangia {amount} sasa hivi',
+  'project.raisedOf': 'zimechangwa kati ya lengo la {goal}',
+  'project.funded': '{percent}% imefadhiliwa',
+  'project.daysLeft': 'Siku {count} zimebaki',
+  'project.ended': 'Kampeni imeisha',
+  'project.closedNotice': 'Kampeni hii imeisha na haipokei michango tena.',
+  'project.support': 'Saidia Mradi Huu',
+  'project.share': 'Shiriki',
+  'project.createdBy': 'Umeundwa na',
+  'project.verifiedCreator': 'Muundaji Aliyethibitishwa',
+
+  'donation.title': 'Saidia Mradi Huu',
+  'donation.thankYou': 'Asante kwa mchango wako!',
+  'donation.receipt': 'Stakabadhi',
+  'donation.receiptPending': 'Inasubiri',
+  'donation.project': 'Mradi',
+  'donation.amount': 'Kiasi',
+  'donation.date': 'Tarehe',
+  'donation.donor': 'Mfadhili',
+  'donation.monthlyNotice': 'Utatozwa {amount} kila mwezi. Simamia ahadi hii kutoka kwenye dashibodi yako.',
+  'donation.claimNotice': 'Fungua akaunti kwa {email} ili kuona mchango huu kwenye dashibodi yako.',
+  'donation.print': 'Chapisha Stakabadhi',
+  'donation.done': 'Nimemaliza',
+  'donation.supporting': 'Unasaidia:',
+  'donation.selectAmount': 'Chagua Kiasi',
+  'donation.currency': 'Sarafu',
+  'donation.customAmount': 'Kiasi kingine',
+  'donation.conversionNote':
+    'Mradi huu unachangisha kwa {currency}. Mchango wako hubadilishwa kwa kiwango cha sasa cha ubadilishaji unapotolewa.',
+  'donation.guestName': 'Jina Lako',
+  'donation.guestEmail': 'Barua Pepe',
+  'donation.guestEmailPlaceholder': 'Kwa ajili ya stakabadhi yako',
+  'donation.guestEmailHint': 'Jisajili baadaye kwa barua pepe hii ili kuunganisha mchango na akaunti yako.',
+  'donation.message': 'Ujumbe (Si lazima)',
+  'donation.messagePlaceholder': 'Acha ujumbe wa kutia moyo...',
+  'donation.giveMonthly': 'Changia kila mwezi',
+  'donation.giveMonthlyHint': 'Rudia mchango huu kila mwezi. Sitisha au ghairi wakati wowote kutoka kwenye dashibodi.',
+  'donation.anonymous': 'Changia bila kutaja jina',
+  'donation.anonymousHint': 'Jina lako halitaonyeshwa hadharani',
+  'donation.paymentInfo': 'Taarifa za Malipo',
+  'donation.paymentMock': 'Hali ya majaribio: malipo yanashughulikiwa na lango la majaribio na hakuna kadi inayotozwa.',
+  'donation.paymentStripe':
+    'Malipo yanashughulikiwa kwa usalama na Stripe. Utaweka maelezo ya malipo katika hatua inayofuata.',
+  'donation.paymentUnavailable':
+    'Michango haipatikani kwa sasa kwa sababu malipo ya kadi hayajawekwa.',
+  'donation.processing': 'Inashughulikiwa...',
+  'donation.donateMonthly': 'Changia Kila Mwezi',
+  'donation.donateNow': 'Changia Sasa',
+  'donation.terms': 'Kwa kuchangia, unakubali sheria na masharti yetu',
+  'donation.invalidAmount': 'Tafadhali weka kiasi sahihi',
+  'donation.declined': 'Malipo yako yamekataliwa. Tafadhali jaribu kiasi au njia nyingine ya malipo.',
+  'donation.failed': 'Imeshindwa kushughulikia mchango',
+
+  'footer.about': 'Kuunganisha jamii kupitia uchangishaji wa wazi kwa miradi ya kupunguza umaskini duniani kote.',
+  'footer.tagline': 'Imejengwa kwa athari za kijamii. Miradi yote inathibitishwa na kufuatiliwa kwa uwazi.',
+  'footer.platform': 'Jukwaa',
+  'footer.browse': 'Vinjari Miradi',
+  'footer.startProject': 'Anzisha Mradi',
+  'footer.howItWorks': 'Jinsi Inavyofanya Kazi',
+  'footer.legal': 'Kisheria',
+  'footer.terms': 'Masharti ya Huduma',
+  'footer.privacy': 'Sera ya Faragha',
+  'footer.contact': 'Wasiliana Nasi',
+  'footer.copyright': '© 2024 Hope Bridge. Imeundwa kwa madhumuni ya kielimu kama mradi wa mwisho.',
+
+  'comments.title': 'Maoni',
+  'comments.unknownAuthor': 'Haijulikani',
+  'comments.creator': 'Mwanzilishi',
+  'comments.hidden': 'Imefichwa',
+  'comments.edited': 'imehaririwa',
+  'comments.deleted': 'Maoni haya yamefutwa.',
+  'comments.save': 'Hifadhi',
+  'comments.cancel': 'Ghairi',
+  'comments.reply': 'Jibu',
+  'comments.edit': 'Hariri',
+  'comments.delete': 'Futa',
+  'comments.hide': 'Ficha',
+  'comments.unhide': 'Onyesha',
+  'comments.confirmDelete': 'Futa maoni haya?',
+  'comments.placeholder': 'Shiriki mawazo yako au muulize mwanzilishi swali...',
+  'comments.replyPlaceholder': 'Andika jibu...',
+  'comments.post': 'Tuma Maoni',
+  'comments.signInPrompt': 'Ingia ili ujiunge na mazungumzo.',
+  'comments.empty': 'Bado hakuna maoni. Kuwa wa kwanza kusema kitu!',
+  'comments.loading': 'Inapakia...',
+  'comments.loadMore': 'Pakia maoni zaidi',
+  'comments.failed': 'Hitilafu imetokea',
+
+  'updates.composerTitle': 'Chapisha taarifa kuhusu {title}',
+  'updates.titlePlaceholder': 'Kichwa cha taarifa',
+  'updates.write': 'Andika',
+  'updates.preview': 'Hakiki',
+  'updates.contentPlaceholder':
+    'Shiriki maendeleo yako. Markdown inakubalika: **nzito**, _italiki_, orodha na [viungo](https://...).',
+  'updates.nothingToPreview': 'Hakuna cha kuhakiki',
+  'updates.addImages': 'Ongeza picha',
+  'updates.imageType': '{name} lazima iwe picha ya JPEG, PNG au WebP',
+  'updates.imageTooLarge': '{name} ni kubwa kuliko MB 5',
+  'updates.uploadFailed': 'Imeshindwa kupakia picha',
+  'updates.milestone': 'Hatua imefikiwa',
+  'updates.milestonePlaceholder': 'mf. Kisima cha kwanza kimekamilika',
+  'updates.finalReport': 'Ripoti ya mwisho',
+  'updates.finalReportHint': 'Eleza jinsi fedha zilivyotumika. Kuichapisha kunaweka mradi kuwa umekamilika.',
+  'updates.notifyNotice': 'Kila aliyechangia mradi huu atajulishwa.',
+  'updates.publish': 'Chapisha Taarifa',
+  'updates.publishing': 'Inachapisha...',
+  'updates.publishFailed': 'Imeshindwa kuchapisha taarifa',
+
+  'verification.status.pending': 'Inakaguliwa',
+  'verification.status.approved': 'Imethibitishwa',
+  'verification.status.rejected': 'Imekataliwa',
+  'verification.status.expired': 'Imeisha muda',
+  'verification.title': 'Uthibitisho',
+  'verification.intro': 'Waanzilishi waliothibitishwa wanaweza kuwasilisha miradi ikaguliwe na kupokea malipo.',
+  'verification.verifiedUntil': '{organization} imethibitishwa hadi {date}.',
+  'verification.pendingNotice': 'Ombi lako la {organization} liliwasilishwa tarehe {date} na linasubiri msimamizi.',
+  'verification.rejectedNotice': 'Ombi lako la mwisho halikukubaliwa.',
+  'verification.rejectedNoticeWithNote': 'Ombi lako la mwisho halikukubaliwa: {note}',
+  'verification.expiredNotice': 'Uthibitisho wako umeisha muda.',
+  'verification.expiredNoticeWithNote': 'Uthibitisho wako umeisha muda: {note}',
+  'verification.notApplied': 'Bado hujaomba uthibitisho.',
+  'verification.apply': 'Omba Uthibitisho',
+  'verification.applyAgain': 'Omba Tena',
+  'verification.organizationName': 'Jina la shirika au jina rasmi',
+  'verification.registrationNumber': 'Namba ya usajili',
+  'verification.taxId': 'Namba ya mlipakodi',
+  'verification.documents': 'Nyaraka za usajili',
+  'verification.uploadDocument': 'Pakia PDF au picha',
+  'verification.payoutAccount': 'Akaunti ya benki ya malipo',
+  'verification.accountName': 'Jina la mwenye akaunti',
+  'verification.bankName': 'Jina la benki',
+  'verification.accountNumber': 'Namba ya akaunti au IBAN',
+  'verification.routingCode': 'Msimbo wa SWIFT / benki',
+  'verification.cancel': 'Ghairi',
+  'verification.submit': 'Tuma Ombi',
+  'verification.submitting': 'Inatuma...',
+  'verification.uploadFailed': 'Imeshindwa kupakia nyaraka',
+  'verification.submitFailed': 'Imeshindwa kutuma ombi',
+  'verificationReview.emptyTitle': 'Hakuna maombi ya uthibitisho',
+  'verificationReview.emptyText': 'Hakuna maombi yanayosubiri kukaguliwa.',
+  'verificationReview.unknownCreator': 'Mwanzilishi asiyejulikana',
+  'verificationReview.applied': 'aliomba {date}',
+  'verificationReview.verifiedUntil': 'amethibitishwa hadi {date}',
+  'verificationReview.registrationNumber': 'Namba ya usajili',
+  'verificationReview.taxId': 'Namba ya mlipakodi',
+  'verificationReview.payoutAccount': 'Akaunti ya malipo',
+  'verificationReview.accountNumber': 'Namba ya akaunti',
+  'verificationReview.notePending': 'Ujumbe kwa mwanzilishi (unahitajika kukataa)',
+  'verificationReview.noteExpire': 'Sababu ya kuisha muda (si lazima)',
+  'verificationReview.approve': 'Idhinisha',
+  'verificationReview.reject': 'Kataa',
+  'verificationReview.expire': 'Maliza Muda Sasa',
+  'verificationReview.reviewFailed': 'Imeshindwa kukagua ombi',
+  'verificationReview.openFailed': 'Imeshindwa kufungua nyaraka',
+
+  'preferences.donations': 'Michango',
+  'preferences.donationsHint': 'Mtu anachangia mojawapo ya miradi yako',
+  'preferences.projectUpdates': 'Taarifa za miradi',
+  'preferences.projectUpdatesHint': 'Mradi uliouunga mkono unachapisha taarifa',
+  'preferences.comments': 'Maoni',
+  'preferences.commentsHint': 'Mtu anatoa maoni kwenye mradi wako au anakujibu',
+  'preferences.projectStatus': 'Hali ya mradi',
+  'preferences.projectStatusHint': 'Mradi wako umeidhinishwa, umekataliwa au umebadilisha hali',
+  'preferences.account': 'Akaunti',
+  'profile.title': 'Mipangilio ya Wasifu',
+  'profile.subtitle': 'Dhibiti jinsi unavyoonekana kwenye Hope Bridge na jinsi tunavyowasiliana nawe',
+  'profile.avatarHint': 'Bofya picha ili kupakia picha mpya ya wasifu',
+  'profile.avatarFailed': 'Imeshindwa kupakia picha ya wasifu',
+  'profile.fullName': 'Jina kamili',
+  'profile.bio': 'Wasifu',
+  'profile.bioPlaceholder': 'Waeleze wachangiaji na waanzilishi machache kukuhusu',
+  'profile.location': 'Mahali',
+  'profile.locationPlaceholder': 'Mji, Nchi',
+  'profile.language': 'Lugha',
+  'profile.notifyMe': 'Nijulishe wakati',
+  'profile.save': 'Hifadhi Wasifu',
+  'profile.saving': 'Inahifadhi...',
+  'profile.saved': 'Wasifu umehifadhiwa',
+  'profile.saveFailed': 'Imeshindwa kuhifadhi wasifu',
+  'profile.changePassword': 'Badilisha Nenosiri',
+  'profile.changingPassword': 'Inabadilisha...',
+  'profile.currentPassword': 'Nenosiri la sasa',
+  'profile.newPassword': 'Nenosiri jipya',
+  'profile.confirmPassword': 'Thibitisha nenosiri jipya',
+  'profile.passwordMismatch': 'Manenosiri mapya hayalingani',
+  'profile.passwordTooShort': 'Nenosiri jipya lazima liwe na angalau herufi {count}',
+  'profile.currentPasswordIncorrect': 'Nenosiri la sasa si sahihi',
+  'profile.passwordChanged': 'Nenosiri limebadilishwa',
+  'profile.passwordFailed': 'Imeshindwa kubadilisha nenosiri',
+  'profile.deleteTitle': 'Futa Akaunti',
+  'profile.deleteText':
+    'Hii inafuta kabisa wasifu wako, rasimu za miradi, ahadi za kila mwezi na faili ulizopakia. Michango yako ya awali inabaki kwenye miradi uliyoiunga mkono lakini haitahusishwa nawe tena.',
+  'profile.deleteConfirm': 'Andika {word} kuthibitisha',
+  'profile.delete': 'Futa Akaunti Yangu',
+  'profile.deleting': 'Inafuta...',
+  'profile.deleteFailed': 'Imeshindwa kufuta akaunti',
+
+  'roles.donor': 'Mchangiaji',
+  'roles.projectCreator': 'Mwanzilishi wa Mradi',
+  'roles.admin': 'Msimamizi',
+  'roleRequest.status.pending': 'Inakaguliwa',
+  'roleRequest.status.approved': 'Imeidhinishwa',
+  'roleRequest.status.rejected': 'Haikuidhinishwa',
+  'roleRequest.title': 'Anzisha Mradi',
+  'roleRequest.intro': 'Waanzilishi wa miradi wanaweza kuzindua kampeni baada ya msimamizi kuidhinisha akaunti zao.',
+  'roleRequest.pendingNotice':
+    'Uliomba kuwa mwanzilishi wa mradi tarehe {date}. Msimamizi atakagua ombi lako hivi karibuni.',
+  'roleRequest.rejectedNotice': 'Ombi lako la mwisho halikuidhinishwa.',
+  'roleRequest.rejectedNoticeWithNote': 'Ombi lako la mwisho halikuidhinishwa: {note}',
+  'roleRequest.become': 'Kuwa Mwanzilishi wa Mradi',
+  'roleRequest.askAgain': 'Omba Tena',
+  'roleRequest.reasonPlaceholder': 'Tueleze kuhusu shirika au jamii unayotaka kuichangishia fedha',
+  'roleRequest.cancel': 'Ghairi',
+  'roleRequest.send': 'Tuma Ombi',
+  'roleRequest.sending': 'Inatuma...',
+  'roleRequest.failed': 'Imeshindwa kutuma ombi',
+  'users.creatorRequests': 'Maombi ya Waanzilishi',
+  'users.unknownUser': 'Mtumiaji asiyejulikana',
+  'users.requestedRole': 'Anataka kuwa {role} · aliomba {date}',
+  'users.notePlaceholder': 'Ujumbe kwa mtumiaji (unahitajika kukataa)',
+  'users.approve': 'Idhinisha',
+  'users.reject': 'Kataa',
+  'users.approveFailed': 'Imeshindwa kuidhinisha ombi',
+  'users.rejectFailed': 'Imeshindwa kukataa ombi',
+  'users.searchPlaceholder': 'Tafuta kwa jina',
+  'users.noResults': 'Hakuna watumiaji wanaolingana na utafutaji wako.',
+  'users.user': 'Mtumiaji',
+  'users.role': 'Jukumu',
+  'users.verification': 'Uthibitisho',
+  'users.joined': 'Alijiunga',
+  'users.ownRole': 'Huwezi kubadilisha jukumu lako mwenyewe',
+  'users.changeRoleFailed': 'Imeshindwa kubadilisha jukumu',
+  'users.verified': 'Amethibitishwa',
+  'users.verifiedUntil': 'Hadi {date}',
+  'users.notVerified': 'Hajathibitishwa',
+  'users.verificationFailed': 'Imeshindwa kubadilisha uthibitisho',
+
+  'notifications.title': 'Arifa',
+  'notifications.unreadCount': '{count} hazijasomwa',
+  'notifications.caughtUp': 'Umesoma arifa zote',
+  'notifications.all': 'Zote',
+  'notifications.unread': 'Hazijasomwa',
+  'notifications.markAllRead': 'Weka zote kuwa zimesomwa',
+  'notifications.markRead': 'Weka imesomwa',
+  'notifications.markReadFailed': 'Imeshindwa kuweka arifa kuwa zimesomwa',
+  'notifications.emptyUnread': 'Hakuna arifa ambazo hazijasomwa.',
+  'notifications.empty': 'Bado hakuna arifa.',
+  'notifications.loading': 'Inapakia...',
+  'notifications.loadMore': 'Pakia zaidi',
+  'notifications.preferences': 'Mapendeleo',
+  'notifications.preferencesIntro':
+    'Chagua unachotaka kuarifiwa. Taarifa za akaunti, kama maamuzi ya uthibitisho, hutumwa kila wakati.',
+  'notifications.savePreferencesFailed': 'Imeshindwa kuhifadhi mapendeleo',
+
+  'emails.template.donationReceipt': 'Risiti ya mchango',
+  'emails.template.reviewDecision': 'Uamuzi wa ukaguzi',
+  'emails.template.deadlineReminder': 'Kikumbusho cha tarehe ya mwisho',
+  'emails.template.updateDigest': 'Muhtasari wa taarifa',
+  'emails.template.notification': 'Arifa ya jumla',
+  'emails.status.queued': 'Kwenye foleni',
+  'emails.status.sending': 'Inatumwa',
+  'emails.status.sent': 'Imetumwa',
+  'emails.status.failed': 'Imeshindwa',
+  'emails.status.bounced': 'Imerudishwa',
+  'emails.status.suppressed': 'Imezuiwa',
+  'emails.template': 'Kiolezo',
+  'emails.language': 'Lugha',
+  'emails.html': 'HTML',
+  'emails.plainText': 'Maandishi matupu',
+  'emails.subject': 'Mada:',
+  'emails.previewTitle': 'Hakikisho la barua pepe',
+  'emails.recentDeliveries': 'Barua zilizotumwa karibuni',
+  'emails.empty': 'Bado hakuna barua pepe iliyowekwa kwenye foleni.',
+  'emails.recipient': 'Mpokeaji',
+  'emails.status': 'Hali',
+  'emails.attempts': 'Majaribio',
+  'emails.queued': 'Iliwekwa foleni',
+
+  'export.title': 'Hamisha Data',
+  'export.introDonations': 'Pakua michango kama lahajedwali kwa kumbukumbu zako. Tarehe ziko katika UTC.',
+  'export.introProjects': 'Pakua miradi kama lahajedwali kwa kumbukumbu zako. Tarehe ziko katika UTC.',
+  'export.anonymousIncluded': 'Michango isiyo na jina inajumuisha mchangiaji kwa madhumuni ya ukaguzi.',
+  'export.anonymousHidden': 'Wachangiaji waliochangia bila jina wameorodheshwa bila jina wala barua pepe yao.',
+  'export.data': 'Data',
+  'export.donations': 'Michango',
+  'export.projects': 'Miradi',
+  'export.from': 'Kuanzia',
+  'export.to': 'Hadi',
+  'export.project': 'Mradi',
+  'export.allProjects': 'Miradi yote',
+  'export.status': 'Hali',
+  'export.allStatuses': 'Hali zote',
+  'export.status.draft': 'Rasimu',
+  'export.status.pendingReview': 'Inasubiri ukaguzi',
+  'export.status.active': 'Hai',
+  'export.status.fullyFunded': 'Imefadhiliwa kikamilifu',
+  'export.status.completed': 'Imekamilika',
+  'export.status.cancelled': 'Imeghairiwa',
+  'export.status.pending': 'Inasubiri',
+  'export.status.refunded': 'Imerejeshwa',
+  'export.status.failed': 'Imeshindwa',
+  'export.download': 'Pakua {format}',
+  'export.exporting': 'Inahamisha...',
+  'export.failed': 'Imeshindwa kuhamisha data',
+
+  'app.loading': 'Inapakia Hope Bridge...',
+  'home.activeProjects': 'Miradi Hai',
+  'home.activeProjectsIntro': 'Saidia miradi iliyothibitishwa inayoleta mabadiliko halisi',
+  'projects.title': 'Miradi Yote',
+  'projects.intro': 'Gundua na usaidie juhudi za kupunguza umaskini',
+  'projects.searchPlaceholder': 'Tafuta miradi...',
+  'projects.allCategories': 'Makundi Yote',
+  'projects.filters': 'Vichujio',
+  'projects.anyStatus': 'Hali yoyote',
+  'projects.anyCountry': 'Nchi yoyote',
+  'projects.minFunded': 'Chini %',
+  'projects.maxFunded': 'Juu %',
+  'projects.fundedTo': 'hadi',
+  'projects.anyEndDate': 'Tarehe yoyote ya mwisho',
+  'projects.endingWithin': 'Inaisha ndani ya siku {count}',
+  'projects.empty': 'Hakuna miradi iliyopatikana',
+  'projects.emptyHint': 'Jaribu kubadilisha vichujio vyako',
+  'sort.newest': 'Mipya zaidi',
+  'sort.mostFunded': 'Iliyofadhiliwa zaidi',
+  'sort.closestToGoal': 'Karibu zaidi na lengo',
+  'sort.endingSoon': 'Inayoisha karibuni',
+  'projectStatus.draft': 'Rasimu',
+  'projectStatus.pendingReview': 'Inasubiri ukaguzi',
+  'projectStatus.active': 'Hai',
+  'projectStatus.fullyFunded': 'Imefadhiliwa kikamilifu',
+  'projectStatus.completed': 'Imekamilika',
+  'projectStatus.cancelled': 'Imeghairiwa',
+  'donationStatus.pending': 'Inasubiri',
+  'donationStatus.completed': 'Imekamilika',
+  'donationStatus.refunded': 'Imerejeshwa',
+  'donationStatus.failed': 'Imeshindwa',
+  'reviewDecision.approved': 'Imeidhinishwa',
+  'reviewDecision.rejected': 'Imekataliwa',
+  'reviewDecision.changesRequested': 'Mabadiliko yameombwa',
+  'dashboard.title': 'Dashibodi',
+  'dashboard.creatorIntro': 'Simamia miradi yako na ufuatilie utendaji',
+  'dashboard.donorIntro': 'Tazama historia ya michango yako na athari zake',
+  'dashboard.totalRaised': 'Jumla Iliyochangishwa',
+  'dashboard.totalDonated': 'Jumla Uliyochanga',
+  'dashboard.totalProjects': 'Jumla ya Miradi',
+  'dashboard.projectsSupported': 'Miradi Uliyosaidia',
+  'dashboard.verified': 'Imethibitishwa',
+  'dashboard.pending': 'Inasubiri',
+  'dashboard.accountStatus': 'Hali ya Akaunti',
+  'dashboard.yourProjects': 'Miradi Yako',
+  'dashboard.postUpdate': 'Chapisha Taarifa',
+  'dashboard.editProject': 'Hariri Mradi',
+  'dashboard.raisedOf': '{raised} kati ya {goal}',
+  'dashboard.resubmitHint': 'Hariri mradi na uuwasilishe tena kwa ukaguzi.',
+  'dashboard.showHistory': 'Onyesha historia ya ukaguzi ({count})',
+  'dashboard.hideHistory': 'Ficha historia ya ukaguzi ({count})',
+  'dashboard.endedReportHint':
+    'Kampeni hii imeisha. Chapisha ripoti ya mwisho kuhusu jinsi fedha zilivyotumika ili kuikamilisha.',
+  'dashboard.fundedReportHint':
+    'Mradi huu umefadhiliwa kikamilifu. Chapisha ripoti ya mwisho kuhusu jinsi fedha zilivyotumika ili kuukamilisha.',
+  'dashboard.updatePublished': 'Taarifa imechapishwa na wachangiaji wamearifiwa.',
+  'dashboard.yourDonations': 'Michango Yako',
+  'dashboard.annualStatements': 'Taarifa za mwaka:',
+  'dashboard.preparing': 'Inaandaa...',
+  'dashboard.projectFallback': 'Mradi',
+  'dashboard.refund.pending': 'Urejeshaji umeombwa',
+  'dashboard.refund.processing': 'Urejeshaji wa pesa unaendelea',
+  'dashboard.refund.approved': 'Urejeshaji umeidhinishwa',
+  'dashboard.refund.denied': 'Urejeshaji umekataliwa',
+  'dashboard.refundWithNote': '{status}: {note}',
+  'dashboard.receipt': 'Risiti',
+  'dashboard.voidedReceipt': 'Risiti iliyobatilishwa',
+  'dashboard.requestRefund': 'Omba kurejeshewa',
+  'dashboard.refundPlaceholder': 'Tueleze kwa nini ungependa kurejeshewa fedha...',
+  'dashboard.cancel': 'Ghairi',
+  'dashboard.submitting': 'Inatuma...',
+  'dashboard.submitRequest': 'Tuma Ombi',
+  'dashboard.refundFailed': 'Imeshindwa kuomba kurejeshewa',
+  'dashboard.downloadFailed': 'Imeshindwa kupakua hati',
+  'dashboard.noProjects': 'Bado hakuna miradi',
+  'dashboard.noProjectsHint': 'Anzisha mradi wako wa kwanza ili kuanza kuchangisha fedha za kupunguza umaskini.',
+  'dashboard.noDonations': 'Bado hakuna michango',
+  'dashboard.noDonationsHint': 'Saidia mradi leo na uanze kuleta mabadiliko katika vita dhidi ya umaskini.',
+  'admin.title': 'Paneli ya Msimamizi',
+  'admin.subtitle': 'Kagua na usimamie miradi',
+  'admin.reconcile': 'Linganisha Jumla',
+  'admin.reconcileClean': 'Jumla za miradi yote zinalingana na michango iliyokamilika.',
+  'admin.reconcileFixedOne': 'Kiasi kilichochangishwa cha mradi 1 kimesahihishwa.',
+  'admin.reconcileFixedMany': 'Kiasi kilichochangishwa cha miradi {count} kimesahihishwa.',
+  'admin.reconcileFailed': 'Imeshindwa kulinganisha jumla za miradi.',
+  'admin.tab.review': 'Foleni ya Ukaguzi',
+  'admin.tab.projects': 'Miradi Yote',
+  'admin.tab.verifications': 'Uthibitisho',
+  'admin.tab.users': 'Watumiaji',
+  'admin.tab.refunds': 'Maombi ya Kurejeshewa',
+  'admin.tab.emails': 'Barua pepe',
+  'admin.tab.exports': 'Uhamishaji',
+  'admin.noProjects': 'Bado hakuna miradi',
+  'admin.noProjectsHint': 'Bado hakuna mradi ulioanzishwa.',
+  'admin.project': 'Mradi',
+  'admin.creator': 'Mwanzilishi',
+  'admin.category': 'Kundi',
+  'admin.goal': 'Lengo',
+  'admin.status': 'Hali',
+  'admin.actions': 'Vitendo',
+  'admin.unknownCreator': 'Hajulikani',
+  'admin.uncategorized': 'Bila kundi',
+  'admin.raised': '{amount} zimechangishwa',
+  'admin.viewDetails': 'Tazama Maelezo',
+  'createProject.createTitle': 'Anzisha Mradi Mpya',
+  'createProject.editTitle': 'Hariri Mradi',
+  'createProject.loadFailed': 'Imeshindwa kupakia mradi',
+  'createProject.uploadFailed': 'Imeshindwa kupakia picha',
+  'createProject.saveFailed': 'Imeshindwa kuhifadhi mradi',
+  'createProject.title': 'Jina la Mradi',
+  'createProject.titlePlaceholder': 'Upe mradi wako jina linalovutia',
+  'createProject.description': 'Maelezo ya Mradi',
+  'createProject.descriptionPlaceholder': 'Eleza mradi wako, malengo yake, na jinsi fedha zitakavyotumika...',
+  'createProject.goal': 'Lengo la Ufadhili',
+  'createProject.currency': 'Sarafu',
+  'createProject.currencyLocked': 'Sarafu haiwezi kubadilishwa baada ya mradi kupokea michango',
+  'createProject.category': 'Kundi',
+  'createProject.selectCategory': 'Chagua kundi',
+  'createProject.location': 'Mahali',
+  'createProject.locationPlaceholder': 'Mji, Nchi',
+  'createProject.endDate': 'Tarehe ya Mwisho ya Kampeni',
+  'createProject.images': 'Picha za Mradi',
+  'createProject.cover': 'Jalada',
+  'createProject.useAsCover': 'Tumia kama jalada',
+  'createProject.removeImage': 'Ondoa picha',
+  'createProject.addImages': 'Ongeza picha',
+  'createProject.imagesHint': 'JPEG, PNG au WebP. Picha hupunguzwa ukubwa kabla ya kupakiwa.',
+  'createProject.saving': 'Inahifadhi...',
+  'createProject.saveDraft': 'Hifadhi kama Rasimu',
+  'createProject.submitting': 'Inawasilisha...',
+  'createProject.submitForReview': 'Wasilisha kwa Ukaguzi',
+  'createProject.verifyFirst':
+    'Thibitisha akaunti yako kwenye dashibodi kabla ya kuwasilisha mradi kwa ukaguzi. Unaweza kuuhifadhi kama rasimu kwa sasa.',
+  'images.type': '{name} lazima iwe picha ya JPEG, PNG au WebP',
+  'images.tooLarge': '{name} ni kubwa kuliko MB {size}',
+  'images.unsupported': 'Kivinjari hiki hakiwezi kuchakata picha',
+  'images.processFailed': 'Imeshindwa kuchakata picha',
+
+  'reviewQueue.empty': 'Hakuna miradi inayosubiri',
+  'reviewQueue.emptyHint': 'Miradi yote imekaguliwa.',
+  'reviewQueue.updateFailed': 'Imeshindwa kusasisha ukaguzi',
+  'reviewQueue.submitted': 'iliwasilishwa {date}',
+  'reviewQueue.historyEntry': 'tarehe {date}',
+  'reviewQueue.claimedBy': 'Inakaguliwa na {name}',
+  'reviewQueue.anotherAdmin': 'msimamizi mwingine',
+  'reviewQueue.unclaimed': 'Bado haijachukuliwa',
+  'reviewQueue.takeOver': 'Chukua Ukaguzi',
+  'reviewQueue.claim': 'Dai Ukaguzi',
+  'reviewQueue.reasonPlaceholder': 'Sababu au maoni kwa mwanzilishi (yanahitajika ili kukataa au kuomba mabadiliko)',
+  'reviewQueue.release': 'Achilia',
+  'reviewQueue.requestChanges': 'Omba Mabadiliko',
+  'reviewQueue.reject': 'Kataa',
+  'reviewQueue.approve': 'Idhinisha',
+  'reviewQueue.checklistIncomplete': 'Kamilisha orodha ya ukaguzi ili kuidhinisha',
+
+  'pledges.title': 'Michango ya Kujirudia',
+  'pledges.unknownProject': 'Mradi Usiojulikana',
+  'pledges.amountPer.monthly': '{amount} kwa mwezi',
+  'pledges.amountPer.quarterly': '{amount} kwa robo mwaka',
+  'pledges.amountPer.yearly': '{amount} kwa mwaka',
+  'pledges.nextPayment': 'malipo yajayo {date}',
+  'pledges.pausedAfterFailures': 'Imesitishwa baada ya malipo kushindwa mara kadhaa. Endelea ili kujaribu tena.',
+  'pledges.status.active': 'Inaendelea',
+  'pledges.status.paused': 'Imesitishwa',
+  'pledges.status.cancelled': 'Imeghairiwa',
+  'pledges.status.ended': 'Imeisha',
+  'pledges.change': 'Badilisha',
+  'pledges.pause': 'Sitisha',
+  'pledges.resume': 'Endelea',
+  'pledges.cancel': 'Ghairi',
+  'pledges.confirmCancel': 'Ghairi mchango huu wa kujirudia? Hakuna malipo zaidi yatakayochukuliwa.',
+  'pledges.invalidAmount': 'Tafadhali weka kiasi halali',
+  'pledges.amount': 'Kiasi',
+  'pledges.every': 'Kila',
+  'pledges.cadence.monthly': 'mwezi',
+  'pledges.cadence.quarterly': 'robo mwaka',
+  'pledges.cadence.yearly': 'mwaka',
+  'pledges.save': 'Hifadhi',
+  'pledges.discard': 'Ghairi',
+
+  'refunds.reviewFailed': 'Imeshindwa kushughulikia ombi la kurejeshewa pesa',
+  'refunds.empty': 'Hakuna maombi ya kurejeshewa pesa',
+  'refunds.emptyHint': 'Maombi yote ya kurejeshewa pesa yameshughulikiwa.',
+  'refunds.project': 'Mradi',
+  'refunds.unknownDonor': 'Mchangiaji asiyejulikana',
+  'refunds.donated': 'alichangia {date}',
+  'refunds.requested': 'aliomba {date}',
+  'refunds.mayReactivate': 'Mradi unaweza kurudi kuwa hai',
+  'refunds.notePlaceholder': 'Ujumbe kwa mchangiaji (si lazima)',
+  'refunds.approve': 'Idhinisha Kurejesha Pesa',
+  'refunds.deny': 'Kataa',
+};
@@ -0,0 +1,75 @@
+import { supabase } from './supabase';
+import type { MessageKey, MessageParams } from './i18n';
+
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// Originals can be large; they are shrunk well below the bucket limits before upload
+const MAX_SOURCE_MB = 20;
+
+export class ImageError extends Error {
+  constructor(readonly key: MessageKey, readonly params?: MessageParams) {
+    super(key);
+  }
+}
+
+const PROJECT_IMAGE_SIZE = 1600;
+const THUMBNAIL_SIZE = 480;
+const AVATAR_SIZE = 256;
+
+export function validateImage(file: File) {
+  if (!IMAGE_TYPES.includes(file.type)) throw new ImageError('images.type', { name: file.name });
+  if (file.size > MAX_SOURCE_MB * 1024 * 1024) {
+    throw new ImageError('images.tooLarge', { name: file.name, size: MAX_SOURCE_MB });
+  }
+}
+
+// Scales the image to fit within maxSize and re-encodes it as JPEG
+async function resizeImage(file: Blob, maxSize: number, quality = 0.85) {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new ImageError('images.unsupported');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new ImageError('images.processFailed'))),
+      'image/jpeg',
+      quality
+    )
+  );
+}
+
+async function upload(bucket: string, path: string, blob: Blob) {
+  const { error } = await supabase.storage.from(bucket).upload(path, blob, { contentType: 'image/jpeg' });
+  if (error) throw error;
+  return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+}
+
+// Thumbnails are stored next to the full image with a -thumb suffix
+export function getThumbnailUrl(imageUrl: string) {
+  return imageUrl.includes('/project-images/') ? imageUrl.replace(/\.jpg$/, '-thumb.jpg') : imageUrl;
+}
+
+export async function uploadProjectImage(userId: string, file: File) {
+  validateImage(file);
+  const base = `${userId}/${crypto.randomUUID()}`;
+  const [image, thumbnail] = await Promise.all([
+    resizeImage(file, PROJECT_IMAGE_SIZE),
+    resizeImage(file, THUMBNAIL_SIZE, 0.8),
+  ]);
+  const url = await upload('project-images', `${base}.jpg`, image);
+  await upload('project-images', `${base}-thumb.jpg`, thumbnail);
+  return url;
+}
+
+export async function uploadAvatar(userId: string, file: File) {
+  validateImage(file);
+  return upload('avatars', `${userId}/${crypto.randomUUID()}.jpg`, await resizeImage(file, AVATAR_SIZE));
+}
@@ -0,0 +1,61 @@
+import { supabase } from './supabase';
+import type { Database } from './database.types';
+import type { MessageKey } from './i18n';
+import { notificationPreferenceKeys, type NotificationPreference } from './account';
+
+export type Notification = Database['public']['Tables']['notifications']['Row'];
+
+export const NOTIFICATION_PAGE_SIZE = 30;
+
+// Notifications without a category (verification, role requests) are account notices
+// and cannot be switched off
+export function getNotificationCategoryKey(category: string | null): MessageKey {
+  return category && category in notificationPreferenceKeys
+    ? notificationPreferenceKeys[category as NotificationPreference].label
+    : 'preferences.account';
+}
+
+export async function fetchNotifications(options: { unreadOnly?: boolean; before?: string } = {}) {
+  let query = supabase
+    .from('notifications')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_PAGE_SIZE);
+  if (options.unreadOnly) query = query.is('read_at', null);
+  if (options.before) query = query.lt('created_at', options.before);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function countUnreadNotifications() {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .is('read_at', null);
+  if (error) throw error;
+  return count || 0;
+}
+
+// Without ids every unread notification is marked read
+export async function markNotificationsRead(ids?: string[]) {
+  const { data, error } = await supabase.rpc('mark_notifications_read', { p_ids: ids ?? null });
+  if (error) throw error;
+  return data;
+}
+
+export function subscribeToNotifications(userId: string, onChange: () => void) {
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+      onChange
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,56 @@
+import { loadStripe } from '@stripe/stripe-js';
+import { invokeFunction } from './functions';
+import type { DonationStatus, PledgeCadence } from './database.types';
+
+export const paymentProvider = import.meta.env.VITE_PAYMENT_PROVIDER || 'mock';
+
+const stripePublishableKey = import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY;
+
+// Stripe.js is only loaded when Stripe is the provider
+export const stripePromise = paymentProvider === 'stripe' && stripePublishableKey ? loadStripe(stripePublishableKey) : null;
+
+// Without a publishable key there is no way to collect card details, so donations stay closed
+export const paymentsAvailable = paymentProvider !== 'stripe' || stripePromise !== null;
+
+export interface DonationRequest {
+  projectId: string;
+  amount: number;
+  // Defaults to the project currency when omitted
+  currency?: string;
+  message: string;
+  isAnonymous: boolean;
+  guestName?: string;
+  guestEmail?: string;
+  cadence?: PledgeCadence;
+}
+
+interface CreateDonationResponse {
+  donationId: string;
+  provider: string;
+  clientSecret: string | null;
+  guestToken: string | null;
+}
+
+interface ConfirmDonationResponse {
+  donationId: string;
+  status: DonationStatus;
+  receiptNumber: string | null;
+}
+
+interface ConfirmDonationOptions {
+  paymentMethod?: string;
+  guestToken?: string | null;
+}
+
+export function createDonation(request: DonationRequest) {
+  return invokeFunction<CreateDonationResponse>('payments', { action: 'create', ...request });
+}
+
+export function confirmDonation(donationId: string, { paymentMethod, guestToken }: ConfirmDonationOptions = {}) {
+  return invokeFunction<ConfirmDonationResponse>('payments', {
+    action: 'confirm',
+    donationId,
+    paymentMethod,
+    guestToken: guestToken ?? undefined,
+  });
+}
@@ -0,0 +1,39 @@
+import type { Database, ProjectStatus } from './database.types';
+import type { MessageKey } from './i18n';
+
+type Project = Pick<Database['public']['Tables']['projects']['Row'], 'status' | 'end_date' | 'closed_at'>;
+
+export const projectStatusKeys: Record<ProjectStatus, MessageKey> = {
+  draft: 'projectStatus.draft',
+  pending_review: 'projectStatus.pendingReview',
+  active: 'projectStatus.active',
+  fully_funded: 'projectStatus.fullyFunded',
+  completed: 'projectStatus.completed',
+  cancelled: 'projectStatus.cancelled',
+};
+
+// Mirrors project_accepts_donations() in the database, which has the final say
+export function isAcceptingDonations(project: Project) {
+  return (
+    project.status === 'active' &&
+    !project.closed_at &&
+    (!project.end_date || new Date(project.end_date).getTime() > Date.now())
+  );
+}
+
+export function isCampaignEnded(project: Project) {
+  return (
+    ['active', 'fully_funded'].includes(project.status) &&
+    (!!project.closed_at || (!!project.end_date && new Date(project.end_date).getTime() <= Date.now()))
+  );
+}
+
+// A final report completes the project once it can no longer take donations
+export function canFileFinalReport(project: Pick<Project, 'status' | 'closed_at'>) {
+  return project.status === 'fully_funded' || (project.status === 'active' && !!project.closed_at);
+}
+
+export function getDaysLeft(endDate: string | null) {
+  if (!endDate) return null;
+  return Math.max(0, Math.ceil((new Date(endDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24)));
+}
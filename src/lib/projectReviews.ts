@@ -0,0 +1,59 @@
+import { supabase } from './supabase';
+import type { Json, ProjectReviewDecision } from './database.types';
+import type { MessageKey } from './i18n';
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  checked?: boolean;
+}
+
+export const reviewDecisionKeys: Record<ProjectReviewDecision, MessageKey> = {
+  approved: 'reviewDecision.approved',
+  rejected: 'reviewDecision.rejected',
+  changes_requested: 'reviewDecision.changesRequested',
+};
+
+// Checklists are stored as jsonb, both in platform_settings and on each review
+export function parseChecklist(value: Json): ChecklistItem[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) =>
+    item && typeof item === 'object' && !Array.isArray(item) && typeof item.id === 'string'
+      ? [{ id: item.id, label: String(item.label ?? item.id), checked: item.checked === true }]
+      : []
+  );
+}
+
+export async function getReviewChecklist() {
+  const { data, error } = await supabase.rpc('review_checklist');
+  if (error) throw error;
+  return parseChecklist(data);
+}
+
+export async function claimProjectReview(projectId: string) {
+  const { data, error } = await supabase.rpc('claim_project_review', { p_project_id: projectId });
+  if (error) throw error;
+  return data;
+}
+
+export async function releaseProjectReview(projectId: string) {
+  const { data, error } = await supabase.rpc('release_project_review', { p_project_id: projectId });
+  if (error) throw error;
+  return data;
+}
+
+export async function submitProjectReview(
+  projectId: string,
+  decision: ProjectReviewDecision,
+  reason: string,
+  checked: Record<string, boolean>
+) {
+  const { data, error } = await supabase.rpc('submit_project_review', {
+    p_project_id: projectId,
+    p_decision: decision,
+    p_reason: reason,
+    p_checklist: checked,
+  });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,124 @@
+import { supabase } from './supabase';
+import type { Database, ProjectStatus } from './database.types';
+import type { MessageKey } from './i18n';
+
+export type ProjectSort = 'newest' | 'most_funded' | 'closest_to_goal' | 'ending_soon';
+
+export interface ProjectFilters {
+  query: string;
+  categoryId: string;
+  status: ProjectStatus | '';
+  country: string;
+  minFunded: string;
+  maxFunded: string;
+  endingWithinDays: string;
+  sort: ProjectSort;
+}
+
+export type ProjectSearchResult = Database['public']['Tables']['projects']['Row'] & {
+  categories: { name: string; icon: string } | null;
+  profiles: { full_name: string; is_verified: boolean; avatar_url: string | null } | null;
+};
+
+// The last project of a page as it was sorted; live funding updates must not move it
+export type ProjectSearchCursor = Pick<
+  Database['public']['Tables']['projects']['Row'],
+  'id' | 'created_at' | 'end_date' | 'raised_amount' | 'goal_amount'
+>;
+
+export const PROJECT_PAGE_SIZE = 12;
+
+export const sortOptions: { value: ProjectSort; label: MessageKey }[] = [
+  { value: 'newest', label: 'sort.newest' },
+  { value: 'most_funded', label: 'sort.mostFunded' },
+  { value: 'closest_to_goal', label: 'sort.closestToGoal' },
+  { value: 'ending_soon', label: 'sort.endingSoon' },
+];
+
+const paramNames: Record<keyof ProjectFilters, string> = {
+  query: 'q',
+  categoryId: 'category',
+  status: 'status',
+  country: 'country',
+  minFunded: 'min_funded',
+  maxFunded: 'max_funded',
+  endingWithinDays: 'ending_within',
+  sort: 'sort',
+};
+
+export function filtersFromParams(params: URLSearchParams): ProjectFilters {
+  const sort = params.get(paramNames.sort) as ProjectSort | null;
+  return {
+    query: params.get(paramNames.query) ?? '',
+    categoryId: params.get(paramNames.categoryId) ?? '',
+    status: (params.get(paramNames.status) as ProjectStatus | null) ?? '',
+    country: params.get(paramNames.country) ?? '',
+    minFunded: params.get(paramNames.minFunded) ?? '',
+    maxFunded: params.get(paramNames.maxFunded) ?? '',
+    endingWithinDays: params.get(paramNames.endingWithinDays) ?? '',
+    sort: sortOptions.some((option) => option.value === sort) ? sort! : 'newest',
+  };
+}
+
+export function filtersToParams(filters: ProjectFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(paramNames) as (keyof ProjectFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value && !(key === 'sort' && value === 'newest')) {
+      params.set(paramNames[key], value);
+    }
+  });
+  return params;
+}
+
+function toNumber(value: string) {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export function searchCursor(page: ProjectSearchResult[]): ProjectSearchCursor | null {
+  const last = page[page.length - 1];
+  if (!last) return null;
+  const { id, created_at, end_date, raised_amount, goal_amount } = last;
+  return { id, created_at, end_date, raised_amount, goal_amount };
+}
+
+// Fetch one page of projects; pass the cursor of the previous page to get the next one
+export async function searchProjects(
+  filters: ProjectFilters,
+  allowedStatuses?: ProjectStatus[],
+  after?: ProjectSearchCursor
+) {
+  const statusAllowed = filters.status && (!allowedStatuses || allowedStatuses.includes(filters.status));
+  const statuses = statusAllowed ? [filters.status as ProjectStatus] : allowedStatuses?.length ? allowedStatuses : null;
+
+  const { data, error } = await supabase
+    .rpc('search_projects', {
+      p_query: filters.query.trim() || null,
+      p_category_id: filters.categoryId || null,
+      p_statuses: statuses,
+      p_country: filters.country || null,
+      p_min_funded_percent: toNumber(filters.minFunded),
+      p_max_funded_percent: toNumber(filters.maxFunded),
+      p_ending_within_days: toNumber(filters.endingWithinDays),
+      p_sort: filters.sort,
+      p_after: after ?? null,
+      p_limit: PROJECT_PAGE_SIZE,
+    })
+    .select(`
+      *,
+      categories (name, icon),
+      profiles!projects_creator_id_fkey (full_name, is_verified, avatar_url)
+    `)
+    // Embeds on set-returning RPCs aren't typed by the client, so spell out the row shape
+    .overrideTypes<ProjectSearchResult[], { merge: false }>();
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function listProjectCountries() {
+  const { data, error } = await supabase.rpc('list_project_countries');
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,24 @@
+import { downloadFunctionFile } from './functions';
+import type { Database } from './database.types';
+
+type Donation = Database['public']['Tables']['donations']['Row'];
+
+export function hasReceipt(donation: Pick<Donation, 'receipt_number'>) {
+  return !!donation.receipt_number;
+}
+
+// Statements cover a UTC calendar year, the same way the receipts function groups them
+export function statementYears(donations: Pick<Donation, 'receipt_number' | 'completed_at' | 'created_at'>[]) {
+  const years = donations
+    .filter(hasReceipt)
+    .map((donation) => new Date(donation.completed_at ?? donation.created_at).getUTCFullYear());
+  return [...new Set(years)].sort((a, b) => b - a);
+}
+
+export function downloadReceipt(donation: Pick<Donation, 'id' | 'receipt_number'>) {
+  return downloadFunctionFile('receipts', { action: 'receipt', donationId: donation.id }, `receipt-${donation.receipt_number}.pdf`);
+}
+
+export function downloadStatement(year: number) {
+  return downloadFunctionFile('receipts', { action: 'statement', year }, `statement-${year}.pdf`);
+}
@@ -0,0 +1,28 @@
+import { supabase } from './supabase';
+import { invokeFunction } from './functions';
+import type { Database } from './database.types';
+
+type RefundRequest = Database['public']['Tables']['refund_requests']['Row'];
+
+export async function getRefundWindowDays() {
+  const { data, error } = await supabase.rpc('refund_window_days');
+  if (error) throw error;
+  return data;
+}
+
+export function isWithinRefundWindow(completedAt: string, windowDays: number) {
+  return new Date(completedAt).getTime() + windowDays * 24 * 60 * 60 * 1000 >= Date.now();
+}
+
+export async function requestRefund(donationId: string, reason: string) {
+  const { data, error } = await supabase.rpc('request_refund', {
+    p_donation_id: donationId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export function reviewRefundRequest(requestId: string, action: 'approve' | 'deny', note: string) {
+  return invokeFunction<RefundRequest>('refunds', { action, requestId, note });
+}
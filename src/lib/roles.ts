@@ -0,0 +1,43 @@
+import { supabase } from './supabase';
+import type { RoleRequestStatus, UserRole } from './database.types';
+import type { MessageKey } from './i18n';
+
+export const roleKeys: Record<UserRole, MessageKey> = {
+  donor: 'roles.donor',
+  project_creator: 'roles.projectCreator',
+  admin: 'roles.admin',
+};
+
+export const roleRequestStatusKeys: Record<RoleRequestStatus, MessageKey> = {
+  pending: 'roleRequest.status.pending',
+  approved: 'roleRequest.status.approved',
+  rejected: 'roleRequest.status.rejected',
+};
+
+export async function requestRoleChange(reason: string) {
+  const { data, error } = await supabase.rpc('request_role_change', { p_reason: reason });
+  if (error) throw error;
+  return data;
+}
+
+export async function reviewRoleChangeRequest(requestId: string, approve: boolean, note: string) {
+  const { data, error } = await supabase.rpc('review_role_change_request', {
+    p_request_id: requestId,
+    p_approve: approve,
+    p_note: note,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function setUserRole(userId: string, role: UserRole) {
+  const { data, error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role });
+  if (error) throw error;
+  return data;
+}
+
+export async function setUserVerification(userId: string, verified: boolean) {
+  const { data, error } = await supabase.rpc('set_user_verification', { p_user_id: userId, p_verified: verified });
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,80 @@
+import { supabase } from './supabase';
+import type { Database, VerificationStatus } from './database.types';
+import type { MessageKey } from './i18n';
+
+type Profile = Pick<Database['public']['Tables']['profiles']['Row'], 'role' | 'is_verified' | 'verified_until'>;
+
+export interface VerificationDetails {
+  organizationName: string;
+  registrationNumber: string;
+  taxId: string;
+  bankAccountName: string;
+  bankName: string;
+  bankAccountNumber: string;
+  bankRoutingCode: string;
+}
+
+const DOCUMENTS_BUCKET = 'verification-documents';
+const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+const DOCUMENT_TYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+export const verificationStatusKeys: Record<VerificationStatus, MessageKey> = {
+  pending: 'verification.status.pending',
+  approved: 'verification.status.approved',
+  rejected: 'verification.status.rejected',
+  expired: 'verification.status.expired',
+};
+
+// Mirrors is_creator_verified() in the database, which has the final say
+export function isVerificationCurrent(profile: Profile) {
+  return (
+    profile.role === 'admin' ||
+    (!!profile.is_verified && (!profile.verified_until || new Date(profile.verified_until).getTime() > Date.now()))
+  );
+}
+
+// Documents live in a private bucket, in a folder named after the uploader
+export async function uploadVerificationDocument(userId: string, file: File) {
+  if (!DOCUMENT_TYPES.includes(file.type)) throw new Error(`${file.name} must be a PDF, JPEG or PNG file`);
+  if (file.size > MAX_DOCUMENT_BYTES) throw new Error(`${file.name} is larger than 10 MB`);
+
+  const path = `${userId}/${crypto.randomUUID()}-${file.name.replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+  const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).upload(path, file);
+  if (error) throw error;
+  return path;
+}
+
+export async function getVerificationDocumentUrl(path: string) {
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).createSignedUrl(path, 60 * 10);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+export async function submitVerificationApplication(details: VerificationDetails, documentPaths: string[]) {
+  const { data, error } = await supabase.rpc('submit_verification_application', {
+    p_organization_name: details.organizationName,
+    p_registration_number: details.registrationNumber,
+    p_tax_id: details.taxId,
+    p_document_paths: documentPaths,
+    p_bank_account_name: details.bankAccountName,
+    p_bank_name: details.bankName,
+    p_bank_account_number: details.bankAccountNumber,
+    p_bank_routing_code: details.bankRoutingCode,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function reviewVerificationApplication(
+  applicationId: string,
+  decision: Exclude<VerificationStatus, 'pending'>,
+  note: string
+) {
+  const { data, error } = await supabase.rpc('review_verification_application', {
+    p_application_id: applicationId,
+    p_decision: decision,
+    p_note: note,
+  });
+  if (error) throw error;
+  return data;
+}
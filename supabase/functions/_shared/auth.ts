@@ -0,0 +1,17 @@
+import { supabaseAdmin } from './supabase.ts';
+
+export async function isAdmin(userId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.role === 'admin';
+}
+
+export function isServiceRoleRequest(req: Request) {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`;
+}
@@ -0,0 +1,40 @@
+import type { ExportColumn, ExportSheet, ExportValue } from './types.ts';
+
+const encoder = new TextEncoder();
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatTimestamp(value: string) {
+  return new Date(value).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function quote(text: string) {
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCell<T>(column: ExportColumn<T>, value: ExportValue) {
+  if (value === null || value === '') return '';
+
+  switch (column.type) {
+    case 'amount':
+      return Number(value).toFixed(2);
+    case 'number':
+      return String(Number(value));
+    case 'date':
+      return formatTimestamp(String(value));
+    default:
+      return quote(FORMULA_PREFIX.test(String(value)) ? `'${value}` : String(value));
+  }
+}
+
+// RFC 4180 with CRLF line endings and a byte order mark so Excel reads the file as UTF-8
+export async function* csvStream<T>({ columns, pages }: ExportSheet<T>) {
+  yield encoder.encode(`\uFEFF${columns.map((column) => quote(column.header)).join(',')}\r\n`);
+
+  for await (const rows of pages) {
+    if (rows.length === 0) continue;
+    const lines = rows.map((row) => columns.map((column) => formatCell(column, column.value(row))).join(','));
+    yield encoder.encode(`${lines.join('\r\n')}\r\n`);
+  }
+}
@@ -0,0 +1,27 @@
+import { csvStream } from './csv.ts';
+import type { ExportFormat, ExportSheet } from './types.ts';
+import { xlsxStream } from './xlsx.ts';
+
+export type * from './types.ts';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Pulls the next chunk only when the client is ready for it, so a slow download
+// also slows the database reads instead of buffering the export in memory
+export function exportStream<T>(format: ExportFormat, sheet: ExportSheet<T>) {
+  const chunks = format === 'xlsx' ? xlsxStream(sheet) : csvStream(sheet);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
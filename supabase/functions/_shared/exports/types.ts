@@ -0,0 +1,20 @@
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Dates are ISO timestamps and are written in UTC; amounts keep two decimals
+export type ExportColumnType = 'text' | 'number' | 'amount' | 'date';
+
+export type ExportValue = string | number | null;
+
+export interface ExportColumn<T> {
+  header: string;
+  type?: ExportColumnType;
+  width?: number;
+  value: (row: T) => ExportValue;
+}
+
+export interface ExportSheet<T> {
+  name: string;
+  columns: ExportColumn<T>[];
+  // Rows arrive a page at a time so a writer can emit one chunk per page
+  pages: AsyncIterable<T[]>;
+}
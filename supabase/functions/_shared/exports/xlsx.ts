@@ -0,0 +1,139 @@
+import type { ExportColumn, ExportColumnType, ExportSheet, ExportValue } from './types.ts';
+import { zipStream } from './zip.ts';
+
+const encoder = new TextEncoder();
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Index into cellXfs in styles.xml
+const STYLE = { header: 1, date: 2, amount: 3 };
+
+const DEFAULT_WIDTHS: Record<ExportColumnType, number> = { text: 24, number: 12, amount: 14, date: 18 };
+
+const CONTENT_TYPES = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="${REL_NS}/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="${REL_NS}/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES = `${XML_HEADER}<styleSheet xmlns="${MAIN_NS}">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+function escapeXml(value: string) {
+  return value
+    .replace(/[^\t\n\r\u0020-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnName(index: number) {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Sheet names are at most 31 characters and can't contain []:*?/\
+function sheetName(name: string) {
+  return name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+}
+
+function inlineString(ref: string, text: string, style?: number) {
+  return `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function cell<T>(column: ExportColumn<T>, value: ExportValue, ref: string) {
+  if (value === null || value === '') return '';
+
+  switch (column.type) {
+    case 'amount':
+      return `<c r="${ref}" s="${STYLE.amount}"><v>${Number(value)}</v></c>`;
+    case 'number':
+      return `<c r="${ref}"><v>${Number(value)}</v></c>`;
+    case 'date': {
+      // Excel counts days from 1899-12-30 and has no time zones, so UTC is written as-is
+      const serial = new Date(value).getTime() / 86_400_000 + 25_569;
+      return `<c r="${ref}" s="${STYLE.date}"><v>${serial}</v></c>`;
+    }
+    default:
+      return inlineString(ref, String(value));
+  }
+}
+
+async function* worksheet<T>({ columns, pages }: ExportSheet<T>) {
+  const names = columns.map((_, index) => columnName(index));
+  const widths = columns
+    .map((column, index) => {
+      const width = column.width ?? Math.max(DEFAULT_WIDTHS[column.type ?? 'text'], column.header.length + 2);
+      return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+    })
+    .join('');
+  const header = columns.map((column, index) => inlineString(`${names[index]}1`, column.header, STYLE.header)).join('');
+
+  yield encoder.encode(
+    `${XML_HEADER}<worksheet xmlns="${MAIN_NS}">` +
+      '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+      `<cols>${widths}</cols><sheetData><row r="1">${header}</row>`
+  );
+
+  let rowNumber = 1;
+  for await (const rows of pages) {
+    if (rows.length === 0) continue;
+    const xml = rows.map((row) => {
+      rowNumber += 1;
+      const cells = columns.map((column, index) => cell(column, column.value(row), `${names[index]}${rowNumber}`));
+      return `<row r="${rowNumber}">${cells.join('')}</row>`;
+    });
+    yield encoder.encode(xml.join(''));
+  }
+
+  yield encoder.encode('</sheetData></worksheet>');
+}
+
+async function* text(value: string) {
+  yield encoder.encode(value);
+}
+
+// A single-sheet workbook with inline strings, so rows are written as they arrive
+export function xlsxStream<T>(sheet: ExportSheet<T>) {
+  const workbook =
+    `${XML_HEADER}<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    `<sheets><sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  return zipStream([
+    { name: '[Content_Types].xml', data: text(CONTENT_TYPES) },
+    { name: '_rels/.rels', data: text(ROOT_RELS) },
+    { name: 'xl/workbook.xml', data: text(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: text(WORKBOOK_RELS) },
+    { name: 'xl/styles.xml', data: text(STYLES) },
+    { name: 'xl/worksheets/sheet1.xml', data: worksheet(sheet) },
+  ]);
+}
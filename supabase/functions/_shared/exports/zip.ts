@@ -0,0 +1,152 @@
+const encoder = new TextEncoder();
+
+export interface ZipEntry {
+  name: string;
+  data: AsyncIterable<Uint8Array>;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(crc: number, bytes: Uint8Array) {
+  let c = ~crc;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function record(size: number, write: (view: DataView) => void) {
+  const bytes = new Uint8Array(size);
+  write(new DataView(bytes.buffer));
+  return bytes;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | (date.getUTCSeconds() >> 1),
+    date: ((date.getUTCFullYear() - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+async function* deflate(source: AsyncIterable<Uint8Array>, onInput: (chunk: Uint8Array) => void) {
+  const compressor = new CompressionStream('deflate-raw');
+  const writer = compressor.writable.getWriter();
+  const reader = compressor.readable.getReader();
+
+  const pump = (async () => {
+    try {
+      for await (const chunk of source) {
+        onInput(chunk);
+        await writer.write(chunk);
+      }
+      await writer.close();
+    } catch (error) {
+      await writer.abort(error).catch(() => {});
+      throw error;
+    }
+  })();
+  // A failure also errors the reader, so it surfaces in the loop below
+  pump.catch(() => {});
+
+  let done = false;
+  try {
+    while (true) {
+      const result = await reader.read();
+      if (result.done) break;
+      yield result.value;
+    }
+    done = true;
+    await pump;
+  } finally {
+    if (!done) await reader.cancel().catch(() => {});
+  }
+}
+
+// Flag bit 3: sizes and CRC follow the data, bit 11: UTF-8 names
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+const VERSION = 20;
+
+/*
+  Writes a ZIP archive as its entries are produced. Each entry is deflated as
+  it streams and its CRC and sizes are written in a data descriptor after the
+  data, so nothing has to be buffered. There is no ZIP64 support, which caps
+  an entry at 4 GB.
+*/
+export async function* zipStream(entries: ZipEntry[]) {
+  const { time, date } = dosDateTime(new Date());
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const header = record(30 + name.length, (view) => {
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, VERSION, true);
+      view.setUint16(6, FLAGS, true);
+      view.setUint16(8, DEFLATE, true);
+      view.setUint16(10, time, true);
+      view.setUint16(12, date, true);
+      view.setUint16(26, name.length, true);
+      new Uint8Array(view.buffer).set(name, 30);
+    });
+    yield header;
+
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    for await (const chunk of deflate(entry.data, (input) => {
+      crc = crc32(crc, input);
+      size += input.length;
+    })) {
+      compressedSize += chunk.length;
+      yield chunk;
+    }
+
+    if (size > 0xffffffff || compressedSize > 0xffffffff) {
+      throw new Error(`${entry.name} is too large for a ZIP archive`);
+    }
+
+    yield record(16, (view) => {
+      view.setUint32(0, 0x08074b50, true);
+      view.setUint32(4, crc, true);
+      view.setUint32(8, compressedSize, true);
+      view.setUint32(12, size, true);
+    });
+
+    central.push(
+      record(46 + name.length, (view) => {
+        view.setUint32(0, 0x02014b50, true);
+        view.setUint16(4, VERSION, true);
+        view.setUint16(6, VERSION, true);
+        view.setUint16(8, FLAGS, true);
+        view.setUint16(10, DEFLATE, true);
+        view.setUint16(12, time, true);
+        view.setUint16(14, date, true);
+        view.setUint32(16, crc, true);
+        view.setUint32(20, compressedSize, true);
+        view.setUint32(24, size, true);
+        view.setUint16(28, name.length, true);
+        view.setUint32(42, offset, true);
+        new Uint8Array(view.buffer).set(name, 46);
+      })
+    );
+    offset += header.length + compressedSize + 16;
+  }
+
+  const directorySize = central.reduce((total, entry) => total + entry.length, 0);
+  yield* central;
+  yield record(22, (view) => {
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, central.length, true);
+    view.setUint16(10, central.length, true);
+    view.setUint32(12, directorySize, true);
+    view.setUint32(16, offset, true);
+  });
+}
@@ -0,0 +1,40 @@
+import { createResendTransport } from './resend.ts';
+import { createSmtpTransport } from './smtp.ts';
+import type { MailTransport } from './types.ts';
+
+export * from './types.ts';
+export { createResendTransport } from './resend.ts';
+export { createSmtpTransport } from './smtp.ts';
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  const from = Deno.env.get('MAIL_FROM') ?? 'Hope Bridge <no-reply@hopebridge.local>';
+  const name = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+  switch (name) {
+    case 'smtp': {
+      const host = Deno.env.get('SMTP_HOST');
+      if (!host) throw new Error('Missing SMTP environment variables');
+      transport = createSmtpTransport({
+        host,
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        secure: Deno.env.get('SMTP_SECURE') === 'true',
+        username: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASS'),
+        from,
+      });
+      break;
+    }
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) throw new Error('Missing Resend environment variables');
+      transport = createResendTransport({ apiKey, from, webhookSecret: Deno.env.get('RESEND_WEBHOOK_SECRET') });
+      break;
+    }
+    default:
+      throw new Error(`Unknown mail transport: ${name}`);
+  }
+  return transport;
+}
@@ -0,0 +1,62 @@
+import type { MailMessage } from './types.ts';
+
+const encoder = new TextEncoder();
+
+function base64(value: string) {
+  const bytes = encoder.encode(value);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function wrap(value: string, width = 76) {
+  return value.match(new RegExp(`.{1,${width}}`, 'g'))?.join('\r\n') ?? '';
+}
+
+// RFC 2047 encoded-word for headers that aren't plain ASCII
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${base64(value)}?=`;
+}
+
+export function parseAddress(value: string) {
+  return (/<([^>]+)>/.exec(value)?.[1] ?? value).trim();
+}
+
+export function buildMimeMessage(from: string, message: MailMessage) {
+  const domain = parseAddress(from).split('@')[1] ?? 'localhost';
+  const messageId = `<${crypto.randomUUID()}@${domain}>`;
+  const boundary = `hb-${crypto.randomUUID()}`;
+
+  const headers: Record<string, string> = {
+    From: from,
+    To: message.to,
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': messageId,
+    'MIME-Version': '1.0',
+    'Content-Type': `multipart/alternative; boundary="${boundary}"`,
+    ...message.headers,
+  };
+
+  const part = (type: string, body: string) =>
+    [
+      `--${boundary}`,
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrap(base64(body)),
+    ].join('\r\n');
+
+  const data = [
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+
+  return { messageId, data };
+}
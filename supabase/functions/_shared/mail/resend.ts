@@ -0,0 +1,82 @@
+import { timingSafeEqual } from '../payments/signature.ts';
+import { MailDeliveryError, type MailMessage, type MailTransport, type MailWebhookEvent } from './types.ts';
+
+export interface ResendTransportOptions {
+  apiKey: string;
+  from: string;
+  // Svix signing secret from the Resend dashboard ("whsec_...")
+  webhookSecret?: string;
+  apiBase?: string;
+  webhookToleranceSeconds?: number;
+}
+
+interface ResendEvent {
+  type: string;
+  data: { email_id: string; bounce?: { message?: string } };
+}
+
+async function hmacSha256Base64(secret: Uint8Array, message: string) {
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(message));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+export function createResendTransport(options: ResendTransportOptions): MailTransport {
+  const apiBase = options.apiBase ?? 'https://api.resend.com';
+  const tolerance = options.webhookToleranceSeconds ?? 300;
+
+  const send = async (message: MailMessage) => {
+    const response = await fetch(`${apiBase}/emails`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${options.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        from: options.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        headers: message.headers,
+      }),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      // Rate limits and server errors are worth retrying; anything else won't change
+      const permanent = response.status !== 429 && response.status < 500;
+      throw new MailDeliveryError(body?.message ?? `Resend request failed with status ${response.status}`, permanent);
+    }
+    return { id: body.id as string };
+  };
+
+  const verifyWebhook = async (payload: string, headers: Headers): Promise<MailWebhookEvent | null> => {
+    if (!options.webhookSecret) throw new Error('Missing Resend webhook secret');
+
+    const id = headers.get('svix-id');
+    const timestamp = Number(headers.get('svix-timestamp'));
+    const signatures = headers.get('svix-signature');
+    if (!id || !timestamp || !signatures) throw new Error('Missing webhook signature');
+    if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+      throw new Error('Webhook timestamp outside the tolerance window');
+    }
+
+    const secret = Uint8Array.from(atob(options.webhookSecret.replace(/^whsec_/, '')), (char) => char.charCodeAt(0));
+    const expected = await hmacSha256Base64(secret, `${id}.${timestamp}.${payload}`);
+    const valid = signatures
+      .split(' ')
+      .some((entry) => entry.startsWith('v1,') && timingSafeEqual(entry.slice(3), expected));
+    if (!valid) throw new Error('Invalid webhook signature');
+
+    const event = JSON.parse(payload) as ResendEvent;
+    switch (event.type) {
+      case 'email.delivered':
+        return { type: 'delivered', messageId: event.data.email_id, reason: '' };
+      case 'email.bounced':
+        return { type: 'bounced', messageId: event.data.email_id, reason: event.data.bounce?.message ?? 'Bounced' };
+      case 'email.complained':
+        return { type: 'complained', messageId: event.data.email_id, reason: 'Marked as spam' };
+      default:
+        return null;
+    }
+  };
+
+  return { name: 'resend', send, verifyWebhook };
+}
@@ -0,0 +1,116 @@
+import { buildMimeMessage, parseAddress } from './mime.ts';
+import { MailDeliveryError, type MailMessage, type MailSendResult, type MailTransport } from './types.ts';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  from: string;
+  // Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  heloName?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/*
+  A minimal SMTP client: one connection per message, which is plenty for the
+  worker's batch sizes. Works against a provider's relay as well as a local
+  catcher such as the Inbucket/Mailpit instance started by `supabase start`.
+*/
+export function createSmtpTransport(options: SmtpTransportOptions): MailTransport {
+  const heloName = options.heloName ?? parseAddress(options.from).split('@')[1] ?? 'localhost';
+
+  const send = async (message: MailMessage): Promise<MailSendResult> => {
+    let conn: Deno.Conn = options.secure
+      ? await Deno.connectTls({ hostname: options.host, port: options.port })
+      : await Deno.connect({ hostname: options.host, port: options.port });
+    let buffered = '';
+
+    const readLine = async () => {
+      const chunk = new Uint8Array(4096);
+      while (!buffered.includes('\r\n')) {
+        const read = await conn.read(chunk);
+        if (read === null) throw new MailDeliveryError('SMTP connection closed unexpectedly');
+        buffered += decoder.decode(chunk.subarray(0, read));
+      }
+      const end = buffered.indexOf('\r\n');
+      const line = buffered.slice(0, end);
+      buffered = buffered.slice(end + 2);
+      return line;
+    };
+
+    // Multi-line replies use "250-" on every line but the last
+    const readReply = async (): Promise<SmtpReply> => {
+      const lines: string[] = [];
+      let line: string;
+      do {
+        line = await readLine();
+        lines.push(line.slice(4));
+      } while (line[3] === '-');
+      return { code: Number(line.slice(0, 3)), lines };
+    };
+
+    const write = async (data: string) => {
+      const bytes = encoder.encode(data);
+      let written = 0;
+      while (written < bytes.length) {
+        written += await conn.write(bytes.subarray(written));
+      }
+    };
+
+    const command = async (line: string, expected: number[], stage: string) => {
+      await write(`${line}\r\n`);
+      const reply = await readReply();
+      if (!expected.includes(reply.code)) {
+        const text = `SMTP ${stage} failed: ${reply.code} ${reply.lines.join(' ')}`;
+        // A 5xx on RCPT means the mailbox doesn't exist or won't take mail
+        throw new MailDeliveryError(text, reply.code >= 500, reply.code >= 500 && stage === 'RCPT');
+      }
+      return reply;
+    };
+
+    try {
+      const greeting = await readReply();
+      if (greeting.code !== 220) throw new MailDeliveryError(`SMTP server refused connection: ${greeting.code}`);
+
+      let ehlo = await command(`EHLO ${heloName}`, [250], 'EHLO');
+      if (!options.secure && ehlo.lines.some((line) => line.toUpperCase().startsWith('STARTTLS'))) {
+        await command('STARTTLS', [220], 'STARTTLS');
+        conn = await Deno.startTls(conn as Deno.TcpConn, { hostname: options.host });
+        buffered = '';
+        ehlo = await command(`EHLO ${heloName}`, [250], 'EHLO');
+      }
+
+      if (options.username) {
+        const credentials = btoa(`\0${options.username}\0${options.password ?? ''}`);
+        await command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+      }
+
+      const { messageId, data } = buildMimeMessage(options.from, message);
+      await command(`MAIL FROM:<${parseAddress(options.from)}>`, [250], 'MAIL');
+      await command(`RCPT TO:<${parseAddress(message.to)}>`, [250, 251], 'RCPT');
+      await command('DATA', [354], 'DATA');
+      // Dot-stuffing: a line starting with "." would otherwise end the message
+      await command(`${data.replace(/^\./gm, '..')}.`, [250], 'DATA');
+      await write('QUIT\r\n').catch(() => {});
+
+      return { id: messageId };
+    } finally {
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the server
+      }
+    }
+  };
+
+  return { name: 'smtp', send };
+}
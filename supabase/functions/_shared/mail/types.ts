@@ -0,0 +1,39 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailSendResult {
+  // Provider id used to match later bounce webhooks
+  id: string;
+}
+
+export type MailWebhookEventType = 'delivered' | 'bounced' | 'complained';
+
+export interface MailWebhookEvent {
+  type: MailWebhookEventType;
+  messageId: string;
+  reason: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send: (message: MailMessage) => Promise<MailSendResult>;
+  // Only API providers report bounces after accepting a message
+  verifyWebhook?: (payload: string, headers: Headers) => Promise<MailWebhookEvent | null>;
+}
+
+// Lets the worker tell a rejected address or message apart from an outage
+export class MailDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly permanent = false,
+    readonly bounced = false
+  ) {
+    super(message);
+    this.name = 'MailDeliveryError';
+  }
+}
@@ -0,0 +1,40 @@
+import { createMockGateway } from './mock.ts';
+import { createStripeProvider } from './stripe.ts';
+import type { PaymentProvider } from './types.ts';
+
+export type * from './types.ts';
+export { createMockGateway } from './mock.ts';
+export { createStripeProvider } from './stripe.ts';
+
+let provider: PaymentProvider | null = null;
+
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  // No default, so a misconfigured deployment can't fall back to the mock gateway
+  const name = Deno.env.get('PAYMENT_PROVIDER');
+  if (!name) throw new Error('Missing PAYMENT_PROVIDER');
+
+  switch (name) {
+    case 'stripe': {
+      const secretKey = Deno.env.get('STRIPE_SECRET_KEY');
+      const webhookSecret = Deno.env.get('STRIPE_WEBHOOK_SECRET');
+      if (!secretKey || !webhookSecret) {
+        throw new Error('Missing Stripe environment variables');
+      }
+      provider = createStripeProvider({ secretKey, webhookSecret });
+      break;
+    }
+    case 'mock': {
+      const webhookSecret = Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET');
+      if (!webhookSecret) {
+        throw new Error('Missing MOCK_PAYMENT_WEBHOOK_SECRET');
+      }
+      provider = createMockGateway({ webhookSecret });
+      break;
+    }
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+  return provider;
+}
@@ -0,0 +1,144 @@
+import { hmacSha256Hex, timingSafeEqual } from './signature.ts';
+import type {
+  ConfirmIntentOptions,
+  CreateIntentInput,
+  Customer,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  Refund,
+} from './types.ts';
+
+export interface MockGatewayOptions {
+  webhookSecret: string;
+  declineAmounts?: number[];
+}
+
+/*
+  A fully local payment gateway for development and tests. Intent ids encode
+  the amount and currency, so an intent created in one edge function
+  invocation can still be confirmed or refunded from another one.
+*/
+export function createMockGateway(options: MockGatewayOptions): PaymentProvider & {
+  signWebhook: (payload: string) => Promise<string>;
+} {
+  const { webhookSecret } = options;
+  const declineAmounts = options.declineAmounts ?? [13.13];
+  const intents = new Map<string, PaymentIntent>();
+  const refunded = new Map<string, number>();
+
+  const toCents = (amount: number) => Math.round(amount * 100);
+
+  const outcome = (amount: number): PaymentIntentStatus =>
+    declineAmounts.some((declined) => toCents(declined) === toCents(amount)) ? 'failed' : 'succeeded';
+
+  // An intent from another invocation is rebuilt from its id. Confirming settles a mock payment
+  // on the spot and the outcome depends only on the amount, so the rebuilt intent carries it.
+  // Whether it was confirmed at all is recorded on the donation.
+  const lookup = (intentId: string): PaymentIntent => {
+    const existing = intents.get(intentId);
+    if (existing) return existing;
+
+    const match = /^mock_pi_(\d+)_([a-z]{3})_[a-z0-9]+$/.exec(intentId);
+    if (!match) throw new Error(`Unknown payment intent: ${intentId}`);
+
+    const intent: PaymentIntent = {
+      id: intentId,
+      amount: Number(match[1]) / 100,
+      currency: match[2],
+      status: outcome(Number(match[1]) / 100),
+      clientSecret: `${intentId}_secret`,
+      metadata: {},
+      customerId: null,
+      paymentMethod: null,
+    };
+    intents.set(intentId, intent);
+    return intent;
+  };
+
+  // The mock keeps nothing on file, so a customer is just an id
+  const createCustomer = async (): Promise<Customer> => ({
+    id: `mock_cus_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`,
+  });
+
+  const createIntent = async (input: CreateIntentInput): Promise<PaymentIntent> => {
+    if (!(input.amount > 0)) throw new Error('Amount must be greater than zero');
+
+    const currency = input.currency.toLowerCase();
+    const id = `mock_pi_${toCents(input.amount)}_${currency}_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+    const intent: PaymentIntent = {
+      id,
+      amount: toCents(input.amount) / 100,
+      currency,
+      status: 'requires_confirmation',
+      clientSecret: `${id}_secret`,
+      metadata: input.metadata ?? {},
+      customerId: input.customerId ?? null,
+      paymentMethod: null,
+    };
+    intents.set(id, intent);
+    return { ...intent };
+  };
+
+  const retrieveIntent = async (intentId: string): Promise<PaymentIntent> => ({ ...lookup(intentId) });
+
+  const confirmIntent = async (intentId: string, options: ConfirmIntentOptions = {}): Promise<PaymentIntent> => {
+    const intent = lookup(intentId);
+    if (intent.status === 'requires_confirmation') {
+      intent.status = outcome(intent.amount);
+      intent.paymentMethod = options.paymentMethod ?? 'mock_pm_card';
+    }
+    return { ...intent };
+  };
+
+  const refund = async (intentId: string, amount?: number): Promise<Refund> => {
+    const intent = lookup(intentId);
+    if (intent.status !== 'succeeded') {
+      throw new Error('Only succeeded payments can be refunded');
+    }
+
+    const alreadyRefunded = refunded.get(intentId) ?? 0;
+    const refundAmount = amount ?? intent.amount - alreadyRefunded;
+    if (refundAmount <= 0 || toCents(alreadyRefunded + refundAmount) > toCents(intent.amount)) {
+      throw new Error('Refund exceeds the captured amount');
+    }
+
+    refunded.set(intentId, alreadyRefunded + refundAmount);
+    return {
+      id: `mock_re_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`,
+      intentId,
+      amount: refundAmount,
+      status: 'succeeded',
+    };
+  };
+
+  const signWebhook = (payload: string) => hmacSha256Hex(webhookSecret, payload);
+
+  const verifyWebhook = async (payload: string, signature: string | null): Promise<PaymentWebhookEvent> => {
+    if (!signature) throw new Error('Missing webhook signature');
+
+    const expected = await signWebhook(payload);
+    if (!timingSafeEqual(expected, signature)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(payload) as PaymentWebhookEvent;
+    if (!event.id || !event.type || !event.intentId) {
+      throw new Error('Malformed webhook event');
+    }
+    return event;
+  };
+
+  return {
+    name: 'mock',
+    confirmation: 'server',
+    createCustomer,
+    createIntent,
+    retrieveIntent,
+    confirmIntent,
+    refund,
+    verifyWebhook,
+    signWebhook,
+  };
+}
@@ -0,0 +1,221 @@
+import { hmacSha256Hex, timingSafeEqual } from './signature.ts';
+import type {
+  ConfirmIntentOptions,
+  CreateCustomerInput,
+  CreateIntentInput,
+  Customer,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  Refund,
+} from './types.ts';
+
+export interface StripeProviderOptions {
+  secretKey: string;
+  webhookSecret: string;
+  apiBase?: string;
+  webhookToleranceSeconds?: number;
+}
+
+interface StripePaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  client_secret: string | null;
+  metadata: Record<string, string>;
+  customer: string | null;
+  payment_method: string | null;
+}
+
+// A declined confirmation fails the request but still returns the intent it left behind
+class StripeRequestError extends Error {
+  constructor(message: string, readonly paymentIntent: StripePaymentIntent | null) {
+    super(message);
+  }
+}
+
+interface StripeRefund {
+  id: string;
+  payment_intent: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  data: { object: { id: string; object: string; amount?: number; payment_intent?: string } };
+}
+
+const ZERO_DECIMAL_CURRENCIES = ['jpy', 'krw', 'ugx', 'rwf', 'xaf', 'xof'];
+
+function toMinorUnits(amount: number, currency: string) {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency) ? Math.round(amount) : Math.round(amount * 100);
+}
+
+function fromMinorUnits(amount: number, currency: string) {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency) ? amount : amount / 100;
+}
+
+function mapStatus(status: string): PaymentIntentStatus {
+  switch (status) {
+    case 'succeeded':
+      return 'succeeded';
+    case 'processing':
+      return 'processing';
+    case 'canceled':
+      return 'canceled';
+    case 'requires_payment_method':
+      return 'failed';
+    default:
+      return 'requires_confirmation';
+  }
+}
+
+export function createStripeProvider(options: StripeProviderOptions): PaymentProvider {
+  const apiBase = options.apiBase ?? 'https://api.stripe.com/v1';
+  const tolerance = options.webhookToleranceSeconds ?? 300;
+
+  const request = async <T>(path: string, params?: Record<string, string>, idempotencyKey?: string): Promise<T> => {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${options.secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+    const response = await fetch(`${apiBase}${path}`, {
+      method: params ? 'POST' : 'GET',
+      headers,
+      body: params ? new URLSearchParams(params).toString() : undefined,
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new StripeRequestError(
+        body?.error?.message ?? `Stripe request failed with status ${response.status}`,
+        body?.error?.payment_intent ?? null
+      );
+    }
+    return body as T;
+  };
+
+  const toIntent = (intent: StripePaymentIntent): PaymentIntent => ({
+    id: intent.id,
+    amount: fromMinorUnits(intent.amount, intent.currency),
+    currency: intent.currency,
+    status: mapStatus(intent.status),
+    clientSecret: intent.client_secret,
+    metadata: intent.metadata ?? {},
+    customerId: intent.customer,
+    paymentMethod: intent.payment_method,
+  });
+
+  const createCustomer = async (input: CreateCustomerInput): Promise<Customer> => {
+    const params: Record<string, string> = {};
+    if (input.email) params.email = input.email;
+    for (const [key, value] of Object.entries(input.metadata ?? {})) {
+      params[`metadata[${key}]`] = value;
+    }
+    const customer = await request<{ id: string }>('/customers', params);
+    return { id: customer.id };
+  };
+
+  const createIntent = async (input: CreateIntentInput): Promise<PaymentIntent> => {
+    const currency = input.currency.toLowerCase();
+    const params: Record<string, string> = {
+      amount: toMinorUnits(input.amount, currency).toString(),
+      currency,
+      'automatic_payment_methods[enabled]': 'true',
+    };
+    if (input.customerId) params.customer = input.customerId;
+    if (input.setupFutureUsage) params.setup_future_usage = input.setupFutureUsage;
+    // Nobody is there to follow a redirect
+    if (input.offSession) params['automatic_payment_methods[allow_redirects]'] = 'never';
+    for (const [key, value] of Object.entries(input.metadata ?? {})) {
+      params[`metadata[${key}]`] = value;
+    }
+    return toIntent(await request<StripePaymentIntent>('/payment_intents', params, input.idempotencyKey));
+  };
+
+  const retrieveIntent = async (intentId: string) =>
+    toIntent(await request<StripePaymentIntent>(`/payment_intents/${intentId}`));
+
+  const confirmIntent = async (intentId: string, confirmOptions: ConfirmIntentOptions = {}) => {
+    const params: Record<string, string> = {};
+    if (confirmOptions.paymentMethod) params.payment_method = confirmOptions.paymentMethod;
+    if (confirmOptions.offSession) params.off_session = 'true';
+    try {
+      return toIntent(await request<StripePaymentIntent>(`/payment_intents/${intentId}/confirm`, params));
+    } catch (error) {
+      // Declines, including cards that need the donor to authenticate, come back as errors
+      if (error instanceof StripeRequestError && error.paymentIntent) return toIntent(error.paymentIntent);
+      throw error;
+    }
+  };
+
+  const refund = async (intentId: string, amount?: number): Promise<Refund> => {
+    const params: Record<string, string> = { payment_intent: intentId };
+    if (amount !== undefined) {
+      const intent = await request<StripePaymentIntent>(`/payment_intents/${intentId}`);
+      params.amount = toMinorUnits(amount, intent.currency).toString();
+    }
+
+    const result = await request<StripeRefund>('/refunds', params);
+    return {
+      id: result.id,
+      intentId: result.payment_intent,
+      amount: fromMinorUnits(result.amount, result.currency),
+      status: result.status === 'succeeded' ? 'succeeded' : result.status === 'failed' ? 'failed' : 'pending',
+    };
+  };
+
+  const verifyWebhook = async (payload: string, signature: string | null): Promise<PaymentWebhookEvent> => {
+    if (!signature) throw new Error('Missing webhook signature');
+
+    const parts = Object.fromEntries(
+      signature.split(',').map((part) => {
+        const [key, ...rest] = part.split('=');
+        return [key, rest.join('=')];
+      })
+    );
+    const timestamp = Number(parts.t);
+    if (!timestamp || !parts.v1) throw new Error('Malformed webhook signature');
+    if (Math.abs(Date.now() / 1000 - timestamp) > tolerance) {
+      throw new Error('Webhook timestamp outside the tolerance window');
+    }
+
+    const expected = await hmacSha256Hex(options.webhookSecret, `${timestamp}.${payload}`);
+    if (!timingSafeEqual(expected, parts.v1)) throw new Error('Invalid webhook signature');
+
+    const event = JSON.parse(payload) as StripeEvent;
+    const object = event.data.object;
+    switch (event.type) {
+      case 'payment_intent.succeeded':
+        return { id: event.id, type: 'payment.succeeded', intentId: object.id, amount: null };
+      case 'payment_intent.payment_failed':
+        return { id: event.id, type: 'payment.failed', intentId: object.id, amount: null };
+      case 'charge.refunded':
+        return {
+          id: event.id,
+          type: 'refund.succeeded',
+          intentId: object.payment_intent ?? object.id,
+          amount: null,
+        };
+      default:
+        return { id: event.id, type: 'ignored', intentId: object.id, amount: null };
+    }
+  };
+
+  return {
+    name: 'stripe',
+    confirmation: 'client',
+    createCustomer,
+    createIntent,
+    retrieveIntent,
+    confirmIntent,
+    refund,
+    verifyWebhook,
+  };
+}
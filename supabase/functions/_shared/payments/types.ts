@@ -0,0 +1,74 @@
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'processing'
+  | 'succeeded'
+  | 'failed'
+  | 'canceled';
+
+export interface PaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  clientSecret: string | null;
+  metadata: Record<string, string>;
+  customerId: string | null;
+  // The method that paid, once the intent is confirmed
+  paymentMethod: string | null;
+}
+
+export interface CreateIntentInput {
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  idempotencyKey?: string;
+  customerId?: string;
+  // Save the payment method to the customer so it can be charged again without the donor
+  setupFutureUsage?: 'off_session';
+  // Charged while the donor is away, so nothing may ask them to authenticate or redirect
+  offSession?: boolean;
+}
+
+export interface ConfirmIntentOptions {
+  paymentMethod?: string;
+  offSession?: boolean;
+}
+
+export interface CreateCustomerInput {
+  email?: string;
+  metadata?: Record<string, string>;
+}
+
+export interface Customer {
+  id: string;
+}
+
+export interface Refund {
+  id: string;
+  intentId: string;
+  amount: number;
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+// 'ignored' covers provider events that don't change a donation; they are acknowledged and dropped
+export type PaymentWebhookEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded' | 'ignored';
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  intentId: string;
+  amount: number | null;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  // 'client': the browser confirms the intent with its client secret, so card details never reach us
+  // and the server only reads back the result. 'server': the server confirms the intent itself.
+  readonly confirmation: 'client' | 'server';
+  createCustomer: (input: CreateCustomerInput) => Promise<Customer>;
+  createIntent: (input: CreateIntentInput) => Promise<PaymentIntent>;
+  retrieveIntent: (intentId: string) => Promise<PaymentIntent>;
+  confirmIntent: (intentId: string, options?: ConfirmIntentOptions) => Promise<PaymentIntent>;
+  refund: (intentId: string, amount?: number) => Promise<Refund>;
+  verifyWebhook: (payload: string, signature: string | null) => Promise<PaymentWebhookEvent>;
+}
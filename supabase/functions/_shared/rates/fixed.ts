@@ -0,0 +1,44 @@
+import type { ExchangeRate, ExchangeRateSource } from './types.ts';
+
+// Units of each currency per US dollar
+export const DEFAULT_FIXED_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  KES: 129,
+  NGN: 1550,
+  INR: 84,
+  PHP: 58,
+};
+
+interface FixedRateSourceOptions {
+  ratesPerUsd?: Record<string, number>;
+}
+
+/*
+  A local stand-in for a live rate feed, for development and tests. Rates never
+  change, so conversions are reproducible.
+*/
+export function createFixedRateSource({ ratesPerUsd = DEFAULT_FIXED_RATES }: FixedRateSourceOptions = {}): ExchangeRateSource {
+  return {
+    name: 'fixed',
+
+    async getRate(from, to): Promise<ExchangeRate> {
+      const fromCode = from.toUpperCase();
+      const toCode = to.toUpperCase();
+      const fromRate = ratesPerUsd[fromCode];
+      const toRate = ratesPerUsd[toCode];
+      if (!fromRate || !toRate) {
+        throw new Error(`No exchange rate for ${fromCode} to ${toCode}`);
+      }
+
+      return {
+        from: fromCode,
+        to: toCode,
+        rate: fromCode === toCode ? 1 : toRate / fromRate,
+        source: 'fixed',
+        fetchedAt: new Date().toISOString(),
+      };
+    },
+  };
+}
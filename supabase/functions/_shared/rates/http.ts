@@ -0,0 +1,54 @@
+import type { ExchangeRate, ExchangeRateSource } from './types.ts';
+
+interface HttpRateSourceOptions {
+  urlTemplate: string;
+  cacheSeconds?: number;
+}
+
+/*
+  Rates from a JSON API that returns `{ rates: { [code]: number } }` for a base
+  currency, e.g. `https://open.er-api.com/v6/latest/{base}`. Responses are
+  cached per base currency so a burst of donations makes one request.
+*/
+export function createHttpRateSource({ urlTemplate, cacheSeconds = 3600 }: HttpRateSourceOptions): ExchangeRateSource {
+  const cache = new Map<string, { rates: Record<string, number>; fetchedAt: number }>();
+
+  async function loadRates(base: string) {
+    const cached = cache.get(base);
+    if (cached && Date.now() - cached.fetchedAt < cacheSeconds * 1000) return cached;
+
+    const response = await fetch(urlTemplate.replace('{base}', encodeURIComponent(base)));
+    if (!response.ok) {
+      throw new Error(`Exchange rate request failed with status ${response.status}`);
+    }
+
+    const body = await response.json();
+    if (!body?.rates || typeof body.rates !== 'object') {
+      throw new Error('Exchange rate response did not include rates');
+    }
+
+    const entry = { rates: body.rates as Record<string, number>, fetchedAt: Date.now() };
+    cache.set(base, entry);
+    return entry;
+  }
+
+  return {
+    name: 'http',
+
+    async getRate(from, to): Promise<ExchangeRate> {
+      const fromCode = from.toUpperCase();
+      const toCode = to.toUpperCase();
+      if (fromCode === toCode) {
+        return { from: fromCode, to: toCode, rate: 1, source: 'http', fetchedAt: new Date().toISOString() };
+      }
+
+      const { rates, fetchedAt } = await loadRates(fromCode);
+      const rate = rates[toCode];
+      if (!rate || rate <= 0) {
+        throw new Error(`No exchange rate for ${fromCode} to ${toCode}`);
+      }
+
+      return { from: fromCode, to: toCode, rate, source: 'http', fetchedAt: new Date(fetchedAt).toISOString() };
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { createFixedRateSource } from './fixed.ts';
+import { createHttpRateSource } from './http.ts';
+import type { ExchangeRateSource } from './types.ts';
+
+export type * from './types.ts';
+export { createFixedRateSource, DEFAULT_FIXED_RATES } from './fixed.ts';
+export { createHttpRateSource } from './http.ts';
+
+let source: ExchangeRateSource | null = null;
+
+export function getExchangeRateSource(): ExchangeRateSource {
+  if (source) return source;
+
+  const name = Deno.env.get('EXCHANGE_RATE_SOURCE') ?? 'fixed';
+  switch (name) {
+    case 'http': {
+      const urlTemplate = Deno.env.get('EXCHANGE_RATE_API_URL');
+      if (!urlTemplate) {
+        throw new Error('Missing EXCHANGE_RATE_API_URL');
+      }
+      source = createHttpRateSource({ urlTemplate });
+      break;
+    }
+    case 'fixed':
+      source = createFixedRateSource();
+      break;
+    default:
+      throw new Error(`Unknown exchange rate source: ${name}`);
+  }
+  return source;
+}
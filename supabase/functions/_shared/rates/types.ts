@@ -0,0 +1,12 @@
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  rate: number;
+  source: string;
+  fetchedAt: string;
+}
+
+export interface ExchangeRateSource {
+  readonly name: string;
+  getRate(from: string, to: string): Promise<ExchangeRate>;
+}
@@ -0,0 +1,2 @@
+export type * from './types.ts';
+export { renderReceiptPdf, renderStatementPdf } from './templates.ts';
@@ -0,0 +1,210 @@
+import { PDFDocument, StandardFonts, degrees, rgb, type PDFFont, type PDFPage } from 'npm:pdf-lib@1.17.1';
+import fontkit from 'npm:@pdf-lib/fontkit@1.1.1';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+export const colors = {
+  text: rgb(0.07, 0.09, 0.15),
+  muted: rgb(0.42, 0.45, 0.5),
+  brand: rgb(0.02, 0.59, 0.41),
+  rule: rgb(0.9, 0.91, 0.92),
+  void: rgb(0.86, 0.15, 0.15),
+};
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: ReturnType<typeof rgb>;
+  x?: number;
+  maxWidth?: number;
+  align?: 'left' | 'right';
+}
+
+export interface Column {
+  x: number;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// Noto Sans covers Latin, Greek and Cyrillic names and symbols such as ₦, ₹ and ₱
+const FONT_BASE_URL = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/noto-sans@0.4.2';
+const FONT_FILES = {
+  regular: `${FONT_BASE_URL}/400Regular/NotoSans_400Regular.ttf`,
+  bold: `${FONT_BASE_URL}/700Bold/NotoSans_700Bold.ttf`,
+};
+
+let fontFiles: Promise<{ regular: ArrayBuffer; bold: ArrayBuffer }> | null = null;
+
+async function fetchFont(url: string) {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  return response.arrayBuffer();
+}
+
+// Fetched once per function instance; a failed fetch is retried by the next document
+function loadFontFiles() {
+  fontFiles ??= Promise.all([fetchFont(FONT_FILES.regular), fetchFont(FONT_FILES.bold)])
+    .then(([regular, bold]) => ({ regular, bold }))
+    .catch((error) => {
+      fontFiles = null;
+      throw error;
+    });
+  return fontFiles;
+}
+
+async function embedFonts(doc: PDFDocument) {
+  try {
+    const files = await loadFontFiles();
+    doc.registerFontkit(fontkit);
+    return {
+      regular: await doc.embedFont(files.regular, { subset: true }),
+      bold: await doc.embedFont(files.bold, { subset: true }),
+    };
+  } catch (error) {
+    // A document in Helvetica beats no document; it just loses the characters outside WinAnsi
+    console.error('Falling back to standard PDF fonts:', error);
+    return {
+      regular: await doc.embedFont(StandardFonts.Helvetica),
+      bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    };
+  }
+}
+
+// Characters the font has no glyph for are replaced rather than drawn blank (or thrown on, for Helvetica)
+function toCharacterSet(font: PDFFont, text: string) {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.normalize('NFC'))
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : '?'))
+    .join('');
+}
+
+function wrap(font: PDFFont, text: string, size: number, maxWidth: number) {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/*
+  A top-to-bottom writer over pdf-lib: tracks the cursor, wraps text and adds
+  pages as content runs out. Watermarks are drawn on every page at the end.
+*/
+export async function createPdfWriter(title: string) {
+  const doc = await PDFDocument.create();
+  doc.setTitle(title);
+  doc.setCreator('Hope Bridge');
+  const { regular, bold } = await embedFonts(doc);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height >= MARGIN) return false;
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = PAGE_HEIGHT - MARGIN;
+    return true;
+  };
+
+  const drawLine = (line: string, font: PDFFont, options: TextOptions, size: number) => {
+    const x = MARGIN + (options.x ?? 0);
+    const width = font.widthOfTextAtSize(line, size);
+    page.drawText(line, {
+      x: options.align === 'right' ? x + (options.maxWidth ?? CONTENT_WIDTH) - width : x,
+      y: y - size,
+      size,
+      font,
+      color: options.color ?? colors.text,
+    });
+  };
+
+  const text = (value: string, options: TextOptions = {}) => {
+    const size = options.size ?? 10;
+    const font = options.bold ? bold : regular;
+    const lines = wrap(font, toCharacterSet(font, value), size, options.maxWidth ?? CONTENT_WIDTH - (options.x ?? 0));
+    for (const line of lines) {
+      ensureSpace(size * 1.4);
+      drawLine(line, font, options, size);
+      y -= size * 1.4;
+    }
+  };
+
+  // One line of cells sharing a baseline; long cells wrap within their column
+  const row = (cells: string[], columns: Column[], options: Omit<TextOptions, 'x' | 'maxWidth' | 'align'> = {}) => {
+    const size = options.size ?? 10;
+    const font = options.bold ? bold : regular;
+    const wrapped = cells.map((cell, i) => wrap(font, toCharacterSet(font, cell), size, columns[i].width));
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * size * 1.4;
+    ensureSpace(height);
+
+    const top = y;
+    wrapped.forEach((lines, i) => {
+      y = top;
+      for (const line of lines) {
+        drawLine(line, font, { ...options, x: columns[i].x, maxWidth: columns[i].width, align: columns[i].align }, size);
+        y -= size * 1.4;
+      }
+    });
+    y = top - height;
+  };
+
+  const rule = () => {
+    ensureSpace(12);
+    y -= 4;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.75,
+      color: colors.rule,
+    });
+    y -= 8;
+  };
+
+  const gap = (height: number) => {
+    if (!ensureSpace(height)) y -= height;
+  };
+
+  const finish = async (watermark?: string) => {
+    const pages = doc.getPages();
+    pages.forEach((target, index) => {
+      if (pages.length > 1) {
+        const label = `Page ${index + 1} of ${pages.length}`;
+        target.drawText(label, {
+          x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 8),
+          y: MARGIN / 2,
+          size: 8,
+          font: regular,
+          color: colors.muted,
+        });
+      }
+      if (watermark) {
+        target.drawText(watermark, {
+          x: PAGE_WIDTH / 2 - 150,
+          y: PAGE_HEIGHT / 2 - 110,
+          size: 110,
+          font: bold,
+          color: colors.void,
+          opacity: 0.18,
+          rotate: degrees(35),
+        });
+      }
+    });
+    return doc.save();
+  };
+
+  return { text, row, rule, gap, finish };
+}
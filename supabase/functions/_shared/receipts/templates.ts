@@ -0,0 +1,133 @@
+import { CONTENT_WIDTH, colors, createPdfWriter, type Column } from './pdf.ts';
+import type { DocumentDonation, ReceiptDocument, ReceiptIssuer, StatementDocument } from './types.ts';
+
+function formatMoney(amount: number, currency: string) {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).format(amount);
+}
+
+function formatDate(value: string, dateStyle: 'long' | 'medium' = 'long') {
+  return new Intl.DateTimeFormat('en', { dateStyle, timeZone: 'UTC' }).format(new Date(value));
+}
+
+function donatedAt(donation: DocumentDonation) {
+  return donation.completed_at ?? donation.created_at;
+}
+
+type Writer = Awaited<ReturnType<typeof createPdfWriter>>;
+
+function header(pdf: Writer, issuer: ReceiptIssuer, title: string, number: string) {
+  pdf.text(issuer.name, { size: 20, bold: true, color: colors.brand });
+  if (issuer.address) pdf.text(issuer.address, { color: colors.muted });
+  if (issuer.registration_number) {
+    pdf.text(`Registration number: ${issuer.registration_number}`, { color: colors.muted });
+  }
+  pdf.gap(24);
+  pdf.text(title, { size: 16, bold: true });
+  pdf.text(number, { color: colors.muted });
+  pdf.gap(16);
+}
+
+function donorBlock(pdf: Writer, label: string, donor: ReceiptDocument['donor']) {
+  pdf.text(label, { size: 9, bold: true, color: colors.muted });
+  pdf.text(donor.name);
+  if (donor.email) pdf.text(donor.email, { color: colors.muted });
+  pdf.gap(16);
+}
+
+function footer(pdf: Writer, issuer: ReceiptIssuer) {
+  pdf.gap(24);
+  pdf.rule();
+  if (issuer.tax_note) pdf.text(issuer.tax_note, { size: 9, color: colors.muted });
+  pdf.gap(6);
+  pdf.text(`Generated ${formatDate(new Date().toISOString())}. Copies keep the original document number.`, {
+    size: 8,
+    color: colors.muted,
+  });
+}
+
+export async function renderReceiptPdf({ issuer, donor, donation }: ReceiptDocument) {
+  const number = donation.receipt_number ?? '';
+  const pdf = await createPdfWriter(`Donation receipt ${number}`);
+
+  header(pdf, issuer, 'Donation Receipt', `Receipt number ${number}`);
+  if (donation.receipt_voided_at) {
+    pdf.text(
+      `VOID - this receipt was cancelled on ${formatDate(donation.receipt_voided_at)} because the donation was refunded.`,
+      { bold: true, color: colors.void }
+    );
+    pdf.gap(16);
+  }
+  donorBlock(pdf, 'RECEIVED FROM', donor);
+
+  const columns: Column[] = [
+    { x: 0, width: 160 },
+    { x: 170, width: CONTENT_WIDTH - 170 },
+  ];
+  const details: [string, string][] = [
+    ['Amount', formatMoney(donation.amount, donation.currency)],
+    ['Date received', formatDate(donatedAt(donation))],
+    ['Project', donation.projectTitle],
+    ['Transaction ID', donation.transaction_id ?? '-'],
+    ['Payment method', donation.payment_provider ?? '-'],
+  ];
+  for (const [label, value] of details) {
+    pdf.rule();
+    pdf.row([label, value], columns);
+  }
+  pdf.rule();
+
+  footer(pdf, issuer);
+  return pdf.finish(donation.receipt_voided_at ? 'VOID' : undefined);
+}
+
+export async function renderStatementPdf({ issuer, donor, statement, donations }: StatementDocument) {
+  const pdf = await createPdfWriter(`Giving statement ${statement.year}`);
+
+  header(pdf, issuer, `Annual Giving Statement ${statement.year}`, `Statement number ${statement.statement_number}`);
+  donorBlock(pdf, 'PREPARED FOR', donor);
+  pdf.text(
+    `Donations received between 1 January and 31 December ${statement.year}. Refunded donations are listed as void and are not included in the totals.`,
+    { color: colors.muted }
+  );
+  pdf.gap(12);
+
+  const columns: Column[] = [
+    { x: 0, width: 85 },
+    { x: 90, width: 95 },
+    { x: 190, width: 180 },
+    { x: 375, width: CONTENT_WIDTH - 375, align: 'right' },
+  ];
+  pdf.row(['Date', 'Receipt', 'Project', 'Amount'], columns, { size: 9, bold: true, color: colors.muted });
+
+  const totals: Record<string, number> = {};
+  const sorted = [...donations].sort((a, b) => donatedAt(a).localeCompare(donatedAt(b)));
+  for (const donation of sorted) {
+    const voided = !!donation.receipt_voided_at;
+    if (!voided) totals[donation.currency] = (totals[donation.currency] ?? 0) + donation.amount;
+
+    pdf.rule();
+    pdf.row(
+      [
+        formatDate(donatedAt(donation), 'medium'),
+        donation.receipt_number ?? '-',
+        donation.projectTitle,
+        `${voided ? 'VOID ' : ''}${formatMoney(donation.amount, donation.currency)}`,
+      ],
+      columns,
+      { color: voided ? colors.muted : colors.text }
+    );
+  }
+  pdf.rule();
+
+  pdf.gap(8);
+  const currencies = Object.keys(totals).sort();
+  if (currencies.length === 0) {
+    pdf.text('Total: nothing to report', { bold: true, align: 'right' });
+  }
+  for (const currency of currencies) {
+    pdf.text(`Total ${currency}: ${formatMoney(totals[currency], currency)}`, { bold: true, align: 'right' });
+  }
+
+  footer(pdf, issuer);
+  return pdf.finish();
+}
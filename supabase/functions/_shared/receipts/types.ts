@@ -0,0 +1,44 @@
+import type { Database } from '../../../../src/lib/database.types.ts';
+
+type Tables = Database['public']['Tables'];
+
+// Printed on every document; stored in platform_settings.receipt_issuer
+export interface ReceiptIssuer {
+  name: string;
+  address: string;
+  registration_number: string;
+  tax_note: string;
+}
+
+export interface DocumentDonor {
+  name: string;
+  email: string | null;
+}
+
+export type DocumentDonation = Pick<
+  Tables['donations']['Row'],
+  | 'amount'
+  | 'currency'
+  | 'status'
+  | 'receipt_number'
+  | 'receipt_voided_at'
+  | 'transaction_id'
+  | 'payment_provider'
+  | 'completed_at'
+  | 'created_at'
+> & {
+  projectTitle: string;
+};
+
+export interface ReceiptDocument {
+  issuer: ReceiptIssuer;
+  donor: DocumentDonor;
+  donation: DocumentDonation;
+}
+
+export interface StatementDocument {
+  issuer: ReceiptIssuer;
+  donor: DocumentDonor;
+  statement: Pick<Tables['donation_statements']['Row'], 'statement_number' | 'year'>;
+  donations: DocumentDonation[];
+}
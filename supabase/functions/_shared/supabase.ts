@@ -0,0 +1,27 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import type { Database } from '../../../src/lib/database.types.ts';
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+const supabaseServiceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseAnonKey || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables');
+}
+
+export const supabaseAdmin = createClient<Database>(supabaseUrl, supabaseServiceRoleKey, {
+  auth: { persistSession: false },
+});
+
+export async function getRequestUser(req: Request) {
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return null;
+
+  const client = createClient<Database>(supabaseUrl!, supabaseAnonKey!, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await client.auth.getUser();
+  if (error) return null;
+  return data.user;
+}
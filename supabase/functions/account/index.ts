@@ -0,0 +1,66 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getRequestUser, supabaseAdmin } from '../_shared/supabase.ts';
+
+interface AccountRequest {
+  action: 'delete';
+}
+
+// Buckets that keep uploads in a folder named after the user
+const USER_BUCKETS = ['avatars', 'project-images', 'verification-documents'];
+
+async function removeFolder(bucket: string, folder: string) {
+  const { data: files, error } = await supabaseAdmin.storage.from(bucket).list(folder, { limit: 1000 });
+  if (error) throw error;
+  if (!files || files.length === 0) return;
+
+  const { error: removeError } = await supabaseAdmin.storage
+    .from(bucket)
+    .remove(files.map((file) => `${folder}/${file.name}`));
+  if (removeError) throw removeError;
+}
+
+async function removeUserFiles(userId: string) {
+  for (const bucket of USER_BUCKETS) {
+    await removeFolder(bucket, userId);
+  }
+
+  // Update images are kept per project, and the user's projects are deleted with them
+  const { data: projects, error } = await supabaseAdmin.from('projects').select('id').eq('creator_id', userId);
+  if (error) throw error;
+  for (const project of projects ?? []) {
+    await removeFolder('project-updates', project.id);
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return errorResponse(new Error('Sign in to manage your account'), 401);
+
+    const body = (await req.json()) as AccountRequest;
+    if (body.action !== 'delete') {
+      return errorResponse(new Error('Unknown action'));
+    }
+
+    const { data: blocker, error } = await supabaseAdmin.rpc('account_deletion_blocker', {
+      p_user_id: user.id,
+    });
+    if (error) throw error;
+    if (blocker) return errorResponse(new Error(blocker), 409);
+
+    await removeUserFiles(user.id);
+
+    // The profile and everything it owns cascade from the auth user; donations are kept anonymously
+    const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(user.id);
+    if (deleteError) throw deleteError;
+
+    return jsonResponse({ deleted: true });
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    return errorResponse(error, 500);
+  }
+});
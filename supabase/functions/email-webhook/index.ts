@@ -0,0 +1,38 @@
+import { errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getMailTransport } from '../_shared/mail/index.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return errorResponse(new Error('Method not allowed'), 405);
+  }
+
+  const transport = getMailTransport();
+  if (!transport.verifyWebhook) {
+    return errorResponse(new Error(`The ${transport.name} transport does not send webhooks`), 404);
+  }
+
+  const payload = await req.text();
+  let event;
+  try {
+    event = await transport.verifyWebhook(payload, req.headers);
+  } catch (error) {
+    return errorResponse(error, 400);
+  }
+
+  try {
+    // Complaints suppress the address just like hard bounces
+    if (event && event.type !== 'delivered') {
+      const { error } = await supabaseAdmin.rpc('record_email_bounce', {
+        p_provider_message_id: event.messageId,
+        p_reason: event.type === 'complained' ? `Complaint: ${event.reason}` : event.reason,
+      });
+      if (error) throw error;
+    }
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    console.error('Error handling email webhook:', error);
+    return errorResponse(error, 500);
+  }
+});
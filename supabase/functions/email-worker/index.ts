@@ -0,0 +1,271 @@
+import { isServiceRoleRequest } from '../_shared/auth.ts';
+import { errorResponse, jsonResponse } from '../_shared/http.ts';
+import { MailDeliveryError, getMailTransport } from '../_shared/mail/index.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+import type { Database, Json } from '../../../src/lib/database.types.ts';
+import {
+  EMAIL_LOCALES,
+  renderEmail,
+  type EmailLocale,
+  type EmailTemplate,
+  type EmailTemplateData,
+} from '../../../src/lib/email/index.ts';
+
+type Tables = Database['public']['Tables'];
+type Notification = Tables['notifications']['Row'];
+type OutboxItem = Tables['notification_outbox']['Row'];
+type EmailDelivery = Tables['email_deliveries']['Row'];
+
+const BATCH_SIZE = 50;
+const siteUrl = (Deno.env.get('SITE_URL') ?? 'http://localhost:5173').replace(/\/$/, '');
+const digestHour = Number(Deno.env.get('EMAIL_DIGEST_HOUR') ?? 17);
+
+// Notification types that get an email besides the in-app notice. Donations
+// and comments stay in-app only; project updates are batched into a digest
+const notificationTemplates: Record<string, EmailTemplate> = {
+  project_review: 'review_decision',
+  deadline_reminder: 'deadline_reminder',
+  project_update: 'update_digest',
+  project_status: 'notification',
+  campaign_closed: 'notification',
+  draft_expired: 'notification',
+  verification_review: 'notification',
+  verification_expired: 'notification',
+  role_change_review: 'notification',
+};
+
+// Permanent: the message can never be rendered, so retrying is pointless
+class MissingDataError extends MailDeliveryError {
+  constructor(message: string) {
+    super(message, true);
+  }
+}
+
+function nextDigestAt(now = new Date()) {
+  const next = new Date(now);
+  next.setUTCHours(digestHour, 0, 0, 0);
+  if (next <= now) next.setUTCDate(next.getUTCDate() + 1);
+  return next;
+}
+
+function dataField(notification: Notification, key: string) {
+  const data = notification.data as Record<string, unknown> | null;
+  const value = data?.[key];
+  return typeof value === 'string' ? value : null;
+}
+
+async function queueFromNotification(notification: Notification) {
+  const template = notificationTemplates[notification.type];
+  if (!template) return;
+
+  let payload: Json;
+  let dedupeKey = `notification:${notification.id}`;
+  let availableAt = new Date();
+
+  switch (template) {
+    case 'review_decision':
+      payload = { review_id: dataField(notification, 'review_id') };
+      break;
+    case 'deadline_reminder':
+      payload = { project_id: notification.project_id };
+      break;
+    case 'update_digest': {
+      // Every update until the next digest time lands in the same message
+      availableAt = nextDigestAt();
+      dedupeKey = `update_digest:${notification.user_id}:${availableAt.toISOString().slice(0, 10)}`;
+      payload = { items: [{ update_id: dataField(notification, 'update_id') }] };
+      break;
+    }
+    default:
+      payload = { notification_id: notification.id };
+  }
+
+  const { error } = await supabaseAdmin.rpc('queue_email', {
+    p_template: template,
+    p_user_id: notification.user_id,
+    p_payload: payload,
+    p_dedupe_key: dedupeKey,
+    p_available_at: availableAt.toISOString(),
+  });
+  if (error) throw error;
+}
+
+async function drainOutbox() {
+  const { data: items, error } = await supabaseAdmin.rpc('claim_notification_outbox', {
+    p_channel: 'email',
+    p_limit: BATCH_SIZE,
+  });
+  if (error) throw error;
+  if (!items?.length) return 0;
+
+  const { data: notifications, error: loadError } = await supabaseAdmin
+    .from('notifications')
+    .select('*')
+    .in('id', items.map((item: OutboxItem) => item.notification_id));
+  if (loadError) throw loadError;
+
+  for (const item of items) {
+    let failure: string | null = null;
+    try {
+      const notification = notifications?.find((row) => row.id === item.notification_id);
+      if (notification) await queueFromNotification(notification);
+    } catch (queueError) {
+      console.error(`Error queueing email for outbox item ${item.id}:`, queueError);
+      failure = queueError instanceof Error ? queueError.message : 'Failed to queue email';
+    }
+    await supabaseAdmin.rpc('finish_notification_outbox', { p_outbox_id: item.id, p_error: failure });
+  }
+  return items.length;
+}
+
+function readPayload(delivery: EmailDelivery, key: string) {
+  const value = (delivery.payload as Record<string, unknown> | null)?.[key];
+  if (typeof value !== 'string') throw new MissingDataError(`Email payload is missing ${key}`);
+  return value;
+}
+
+async function loadTemplateData(delivery: EmailDelivery): Promise<EmailTemplateData[EmailTemplate]> {
+  switch (delivery.template as EmailTemplate) {
+    case 'donation_receipt': {
+      const { data, error } = await supabaseAdmin
+        .from('donations')
+        .select('amount, currency, receipt_number, transaction_id, completed_at, created_at, projects (id, title)')
+        .eq('id', readPayload(delivery, 'donation_id'))
+        .maybeSingle();
+      if (error) throw error;
+      if (!data?.projects) throw new MissingDataError('Donation not found');
+      const { projects, ...donation } = data;
+      return { donation, project: projects };
+    }
+    case 'review_decision': {
+      const { data, error } = await supabaseAdmin
+        .from('project_reviews')
+        .select('decision, reason, projects (id, title)')
+        .eq('id', readPayload(delivery, 'review_id'))
+        .maybeSingle();
+      if (error) throw error;
+      if (!data?.projects) throw new MissingDataError('Project review not found');
+      return { project: data.projects, review: { decision: data.decision, reason: data.reason } };
+    }
+    case 'deadline_reminder': {
+      const { data, error } = await supabaseAdmin
+        .from('projects')
+        .select('id, title, end_date, raised_amount, goal_amount, currency')
+        .eq('id', readPayload(delivery, 'project_id'))
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) throw new MissingDataError('Project not found');
+      return { project: data };
+    }
+    case 'update_digest': {
+      const items = (delivery.payload as { items?: { update_id?: string | null }[] } | null)?.items ?? [];
+      const updateIds = items.map((item) => item.update_id).filter((id): id is string => !!id);
+      const { data, error } = await supabaseAdmin
+        .from('project_updates')
+        .select('id, title, content, is_milestone, milestone_label, created_at, projects (id, title)')
+        .in('id', updateIds)
+        .order('created_at');
+      if (error) throw error;
+      // Updates deleted since they were queued are left out
+      const updates = (data ?? []).flatMap(({ projects, ...update }) => (projects ? [{ project: projects, update }] : []));
+      if (updates.length === 0) throw new MissingDataError('No updates left to send');
+      return { updates };
+    }
+    case 'notification': {
+      const { data, error } = await supabaseAdmin
+        .from('notifications')
+        .select('title, body, project_id')
+        .eq('id', readPayload(delivery, 'notification_id'))
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) throw new MissingDataError('Notification not found');
+      return { notification: data };
+    }
+    default:
+      throw new MissingDataError(`Unknown email template: ${delivery.template}`);
+  }
+}
+
+async function recipientName(delivery: EmailDelivery) {
+  if (delivery.user_id) {
+    const { data } = await supabaseAdmin.from('profiles').select('full_name').eq('id', delivery.user_id).maybeSingle();
+    return data?.full_name || null;
+  }
+  if (delivery.template === 'donation_receipt') {
+    const { data } = await supabaseAdmin
+      .from('donations')
+      .select('guest_name')
+      .eq('id', readPayload(delivery, 'donation_id'))
+      .maybeSingle();
+    return data?.guest_name || null;
+  }
+  return null;
+}
+
+async function sendDelivery(delivery: EmailDelivery) {
+  const locale = (EMAIL_LOCALES as readonly string[]).includes(delivery.locale)
+    ? (delivery.locale as EmailLocale)
+    : 'en';
+  const data = await loadTemplateData(delivery);
+  const rendered = renderEmail(delivery.template as EmailTemplate, data, {
+    locale,
+    siteUrl,
+    recipientName: await recipientName(delivery),
+  });
+
+  return getMailTransport().send({
+    to: delivery.to_email,
+    subject: rendered.subject,
+    html: rendered.html,
+    text: rendered.text,
+    headers: { 'X-Hope-Bridge-Delivery': delivery.id },
+  });
+}
+
+async function sendDeliveries() {
+  const { data: deliveries, error } = await supabaseAdmin.rpc('claim_email_deliveries', { p_limit: BATCH_SIZE });
+  if (error) throw error;
+
+  const results = { sent: 0, failed: 0 };
+  for (const delivery of deliveries ?? []) {
+    try {
+      const { id } = await sendDelivery(delivery);
+      const { error: finishError } = await supabaseAdmin.rpc('finish_email_delivery', {
+        p_delivery_id: delivery.id,
+        p_provider_message_id: id,
+      });
+      if (finishError) throw finishError;
+      results.sent++;
+    } catch (sendError) {
+      console.error(`Error sending email ${delivery.id}:`, sendError);
+      const { error: finishError } = await supabaseAdmin.rpc('finish_email_delivery', {
+        p_delivery_id: delivery.id,
+        p_error: sendError instanceof Error ? sendError.message : 'Failed to send email',
+        p_permanent: sendError instanceof MailDeliveryError && sendError.permanent,
+        p_bounced: sendError instanceof MailDeliveryError && sendError.bounced,
+      });
+      if (finishError) console.error(`Error recording failure for email ${delivery.id}:`, finishError);
+      results.failed++;
+    }
+  }
+  return results;
+}
+
+// Run on a schedule (every few minutes) with the service role key
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return errorResponse(new Error('Method not allowed'), 405);
+  }
+  if (!isServiceRoleRequest(req)) {
+    return errorResponse(new Error('Unauthorized'), 401);
+  }
+
+  try {
+    const queued = await drainOutbox();
+    const results = await sendDeliveries();
+    return jsonResponse({ queued, ...results });
+  } catch (error) {
+    console.error('Error running email worker:', error);
+    return errorResponse(error, 500);
+  }
+});
@@ -0,0 +1,200 @@
+import { corsHeaders, errorResponse } from '../_shared/http.ts';
+import {
+  EXPORT_CONTENT_TYPES,
+  exportStream,
+  type ExportColumn,
+  type ExportFormat,
+} from '../_shared/exports/index.ts';
+import { getRequestUser, supabaseAdmin } from '../_shared/supabase.ts';
+import type { Database, DonationStatus, ProjectStatus } from '../../../src/lib/database.types.ts';
+
+type Functions = Database['public']['Functions'];
+type DonationRow = Functions['export_donations']['Returns'][number];
+type ProjectRow = Functions['export_projects']['Returns'][number];
+
+interface ExportRequest {
+  dataset: 'donations' | 'projects';
+  format: ExportFormat;
+  from?: string;
+  to?: string;
+  projectId?: string;
+  status?: string;
+}
+
+interface ExportFilters {
+  p_creator_id: string | null;
+  p_from: string | null;
+  p_to: string | null;
+  p_project_id: string | null;
+}
+
+interface Cursor {
+  created_at: string;
+  id: string;
+}
+
+const PAGE_SIZE = 1000;
+
+const donationColumns: ExportColumn<DonationRow>[] = [
+  { header: 'Donation ID', value: (row) => row.id, width: 38 },
+  { header: 'Created (UTC)', type: 'date', value: (row) => row.created_at },
+  { header: 'Completed (UTC)', type: 'date', value: (row) => row.completed_at },
+  { header: 'Status', value: (row) => row.status, width: 12 },
+  { header: 'Project', value: (row) => row.project_title, width: 32 },
+  { header: 'Donor', value: (row) => row.donor_name ?? (row.is_anonymous ? 'Anonymous' : null) },
+  { header: 'Donor email', value: (row) => row.donor_email, width: 30 },
+  { header: 'Anonymous', value: (row) => (row.is_anonymous ? 'Yes' : 'No'), width: 12 },
+  { header: 'Amount', type: 'amount', value: (row) => row.amount },
+  { header: 'Currency', value: (row) => row.currency, width: 10 },
+  { header: 'Project amount', type: 'amount', value: (row) => row.project_amount },
+  { header: 'Project currency', value: (row) => row.project_currency, width: 18 },
+  { header: 'Receipt number', value: (row) => row.receipt_number, width: 18 },
+  { header: 'Payment provider', value: (row) => row.payment_provider, width: 18 },
+  { header: 'Transaction ID', value: (row) => row.transaction_id, width: 30 },
+  { header: 'Message', value: (row) => row.message, width: 40 },
+];
+
+const projectColumns: ExportColumn<ProjectRow>[] = [
+  { header: 'Project ID', value: (row) => row.id, width: 38 },
+  { header: 'Created (UTC)', type: 'date', value: (row) => row.created_at },
+  { header: 'Title', value: (row) => row.title, width: 32 },
+  { header: 'Status', value: (row) => row.status, width: 16 },
+  { header: 'Category', value: (row) => row.category, width: 16 },
+  { header: 'Creator', value: (row) => row.creator_name },
+  { header: 'Location', value: (row) => row.location },
+  { header: 'Country', value: (row) => row.country, width: 10 },
+  { header: 'Currency', value: (row) => row.currency, width: 10 },
+  { header: 'Goal', type: 'amount', value: (row) => row.goal_amount },
+  { header: 'Raised', type: 'amount', value: (row) => row.raised_amount },
+  { header: 'Donations', type: 'number', value: (row) => row.donation_count },
+  { header: 'Donors', type: 'number', value: (row) => row.donor_count },
+  { header: 'Start (UTC)', type: 'date', value: (row) => row.start_date },
+  { header: 'End (UTC)', type: 'date', value: (row) => row.end_date },
+  { header: 'Closed (UTC)', type: 'date', value: (row) => row.closed_at },
+];
+
+const DONATION_STATUSES: DonationStatus[] = ['pending', 'completed', 'refunded', 'failed'];
+const PROJECT_STATUSES: ProjectStatus[] = ['draft', 'pending_review', 'active', 'fully_funded', 'completed', 'cancelled'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The range covers whole UTC days; `to` is inclusive for the caller
+function parseRange(from?: string, to?: string) {
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) return null;
+  const end = to ? new Date(`${to}T00:00:00Z`) : null;
+  end?.setUTCDate(end.getUTCDate() + 1);
+  return { p_from: from ? `${from}T00:00:00Z` : null, p_to: end?.toISOString() ?? null };
+}
+
+// Reads one page per pull, resuming after the last row of the previous page.
+// The first page is fetched up front so bad filters fail before the download starts.
+async function pageReader<T extends Cursor>(fetchPage: (after: Cursor | null) => Promise<T[]>) {
+  const first = await fetchPage(null);
+
+  return (async function* () {
+    let page = first;
+    while (page.length > 0) {
+      yield page;
+      const last = page[page.length - 1];
+      page = await fetchPage({ created_at: last.created_at, id: last.id });
+    }
+  })();
+}
+
+function donationPages(filters: ExportFilters, status: DonationStatus | null) {
+  return pageReader(async (after) => {
+    const { data, error } = await supabaseAdmin.rpc('export_donations', {
+      ...filters,
+      p_status: status,
+      p_after_created_at: after?.created_at ?? null,
+      p_after_id: after?.id ?? null,
+      p_limit: PAGE_SIZE,
+    });
+    if (error) throw new Error(error.message);
+    return data;
+  });
+}
+
+function projectPages(filters: ExportFilters, status: ProjectStatus | null) {
+  return pageReader(async (after) => {
+    const { data, error } = await supabaseAdmin.rpc('export_projects', {
+      ...filters,
+      p_status: status,
+      p_after_created_at: after?.created_at ?? null,
+      p_after_id: after?.id ?? null,
+      p_limit: PAGE_SIZE,
+    });
+    if (error) throw new Error(error.message);
+    return data;
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return errorResponse(new Error('Sign in to export data'), 401);
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+    if (profileError) throw profileError;
+    if (profile?.role !== 'admin' && profile?.role !== 'project_creator') {
+      return errorResponse(new Error('Only project creators and admins can export data'), 403);
+    }
+
+    const body = (await req.json()) as ExportRequest;
+    if (body.format !== 'csv' && body.format !== 'xlsx') {
+      return errorResponse(new Error('Unknown export format'));
+    }
+
+    const range = parseRange(body.from, body.to);
+    if (!range) return errorResponse(new Error('Dates must be in YYYY-MM-DD format'));
+
+    const statuses: string[] = body.dataset === 'donations' ? DONATION_STATUSES : PROJECT_STATUSES;
+    if (body.status && !statuses.includes(body.status)) {
+      return errorResponse(new Error('Unknown status'));
+    }
+
+    if (body.projectId && (typeof body.projectId !== 'string' || !UUID_PATTERN.test(body.projectId))) {
+      return errorResponse(new Error('Project ID must be a UUID'));
+    }
+
+    // Creators only get their own projects, and the export functions hide anonymous donors from them
+    const filters: ExportFilters = {
+      p_creator_id: profile.role === 'admin' ? null : user.id,
+      p_project_id: body.projectId || null,
+      ...range,
+    };
+
+    let stream: ReadableStream<Uint8Array>;
+    if (body.dataset === 'donations') {
+      const pages = await donationPages(filters, (body.status as DonationStatus) || null);
+      stream = exportStream(body.format, { name: 'Donations', columns: donationColumns, pages });
+    } else if (body.dataset === 'projects') {
+      const pages = await projectPages(filters, (body.status as ProjectStatus) || null);
+      stream = exportStream(body.format, { name: 'Projects', columns: projectColumns, pages });
+    } else {
+      return errorResponse(new Error('Unknown export'));
+    }
+
+    const filename = `${body.dataset}-${new Date().toISOString().slice(0, 10)}.${body.format}`;
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': EXPORT_CONTENT_TYPES[body.format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    return errorResponse(error, 500);
+  }
+});
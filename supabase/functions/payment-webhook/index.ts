@@ -0,0 +1,44 @@
+import { errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return errorResponse(new Error('Method not allowed'), 405);
+  }
+
+  const payload = await req.text();
+  const signature = req.headers.get('Stripe-Signature') ?? req.headers.get('X-Mock-Signature');
+
+  let event;
+  try {
+    event = await getPaymentProvider().verifyWebhook(payload, signature);
+  } catch (error) {
+    return errorResponse(error, 400);
+  }
+
+  // Anything but a 2xx makes the provider retry the event
+  if (event.type === 'ignored') {
+    return jsonResponse({ received: true, ignored: true });
+  }
+
+  try {
+    const status = {
+      'payment.succeeded': 'completed',
+      'payment.failed': 'failed',
+      'refund.succeeded': 'refunded',
+    } as const;
+
+    const { error } = await supabaseAdmin.rpc('settle_donation', {
+      p_transaction_id: event.intentId,
+      p_status: status[event.type],
+    });
+
+    if (error) throw error;
+
+    return jsonResponse({ received: true });
+  } catch (error) {
+    console.error('Error handling payment webhook:', error);
+    return errorResponse(error, 500);
+  }
+});
@@ -0,0 +1,218 @@
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import { sha256Hex, timingSafeEqual } from '../_shared/payments/signature.ts';
+import { getExchangeRateSource } from '../_shared/rates/index.ts';
+import { getRequestUser, supabaseAdmin } from '../_shared/supabase.ts';
+import type { PledgeCadence } from '../../../src/lib/database.types.ts';
+
+interface CreateRequest {
+  action: 'create';
+  projectId: string;
+  amount: number;
+  currency?: string;
+  message?: string;
+  isAnonymous?: boolean;
+  guestName?: string;
+  guestEmail?: string;
+  cadence?: PledgeCadence;
+}
+
+interface ConfirmRequest {
+  action: 'confirm';
+  donationId: string;
+  paymentMethod?: string;
+  guestToken?: string;
+}
+
+type PaymentsRequest = CreateRequest | ConfirmRequest;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+async function handleCreate(donorId: string | null, body: CreateRequest) {
+  const amount = Number(body.amount);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return errorResponse(new Error('Please enter a valid amount'));
+  }
+
+  const guestName = body.guestName?.trim() ?? '';
+  const guestEmail = body.guestEmail?.trim() ?? '';
+  if (!donorId && (!guestName || !EMAIL_PATTERN.test(guestEmail))) {
+    return errorResponse(new Error('Please enter your name and a valid email address'));
+  }
+  if (body.cadence && !donorId) {
+    return errorResponse(new Error('Sign in to set up a recurring donation'), 401);
+  }
+
+  const { data: project, error: projectError } = await supabaseAdmin
+    .from('projects')
+    .select('id, title, status, currency')
+    .eq('id', body.projectId)
+    .maybeSingle();
+
+  if (projectError) throw projectError;
+  if (!project || project.status !== 'active') {
+    return errorResponse(new Error('This project is not accepting donations'));
+  }
+
+  const currency = (body.currency ?? project.currency).toUpperCase();
+  let exchangeRate;
+  try {
+    exchangeRate = await getExchangeRateSource().getRate(currency, project.currency);
+  } catch (rateError) {
+    console.error('Error fetching exchange rate:', rateError);
+    return errorResponse(new Error(`Donations in ${currency} are not supported`));
+  }
+
+  const provider = getPaymentProvider();
+
+  // A pledge is charged again while the donor is away, which needs the first payment's
+  // method saved to a customer
+  const customer = body.cadence && donorId ? await provider.createCustomer({ metadata: { donor_id: donorId } }) : null;
+
+  const intent = await provider.createIntent({
+    amount,
+    currency: currency.toLowerCase(),
+    metadata: { project_id: project.id, donor_id: donorId ?? 'guest' },
+    ...(customer ? { customerId: customer.id, setupFutureUsage: 'off_session' as const } : {}),
+  });
+
+  // Guests have no session, so a one-time token proves they own the donation
+  const guestToken = donorId ? null : crypto.randomUUID();
+
+  const { data: donation, error: recordError } = await supabaseAdmin.rpc('record_donation', {
+    p_donor_id: donorId,
+    p_project_id: project.id,
+    p_amount: intent.amount,
+    p_transaction_id: intent.id,
+    p_payment_provider: provider.name,
+    p_message: body.message ?? '',
+    p_is_anonymous: body.isAnonymous ?? false,
+    p_guest_name: donorId ? null : guestName,
+    p_guest_email: donorId ? null : guestEmail,
+    p_guest_token_hash: guestToken ? await sha256Hex(guestToken) : null,
+    p_currency: currency,
+    p_exchange_rate: exchangeRate.rate,
+  });
+
+  if (recordError) throw recordError;
+
+  // The first charge of a recurring pledge is an ordinary donation linked to it
+  if (body.cadence && donorId) {
+    const { data: pledge, error: pledgeError } = await supabaseAdmin.rpc('create_pledge', {
+      p_donor_id: donorId,
+      p_project_id: project.id,
+      p_amount: intent.amount,
+      p_cadence: body.cadence,
+      p_payment_provider: provider.name,
+      p_message: body.message ?? '',
+      p_is_anonymous: body.isAnonymous ?? false,
+      p_currency: currency,
+    });
+    if (pledgeError) throw pledgeError;
+
+    const { error: linkError } = await supabaseAdmin
+      .from('donations')
+      .update({ pledge_id: pledge.id })
+      .eq('id', donation.id);
+    if (linkError) throw linkError;
+  }
+
+  return jsonResponse({
+    donationId: donation.id,
+    provider: provider.name,
+    clientSecret: intent.clientSecret,
+    guestToken,
+  });
+}
+
+async function ownsDonation(
+  donorId: string | null,
+  donation: { donor_id: string | null; guest_token_hash: string | null },
+  guestToken?: string
+) {
+  if (donorId) return donation.donor_id === donorId;
+  if (!guestToken || !donation.guest_token_hash) return false;
+  return timingSafeEqual(await sha256Hex(guestToken), donation.guest_token_hash);
+}
+
+async function handleConfirm(donorId: string | null, body: ConfirmRequest) {
+  const { data: donation, error } = await supabaseAdmin
+    .from('donations')
+    .select('id, donor_id, guest_token_hash, status, transaction_id, receipt_number, pledge_id')
+    .eq('id', body.donationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!donation || !donation.transaction_id || !(await ownsDonation(donorId, donation, body.guestToken))) {
+    return errorResponse(new Error('Donation not found'), 404);
+  }
+  if (donation.status !== 'pending') {
+    return jsonResponse({
+      donationId: donation.id,
+      status: donation.status,
+      receiptNumber: donation.receipt_number,
+    });
+  }
+
+  const provider = getPaymentProvider();
+  const intent =
+    provider.confirmation === 'client'
+      ? await provider.retrieveIntent(donation.transaction_id)
+      : await provider.confirmIntent(donation.transaction_id, { paymentMethod: body.paymentMethod });
+
+  if (intent.status !== 'succeeded' && intent.status !== 'failed') {
+    return jsonResponse({ donationId: donation.id, status: 'pending' });
+  }
+
+  const { data: settled, error: settleError } = await supabaseAdmin.rpc('settle_donation', {
+    p_transaction_id: donation.transaction_id,
+    p_status: intent.status === 'succeeded' ? 'completed' : 'failed',
+  });
+
+  if (settleError) throw settleError;
+
+  if (donation.pledge_id) {
+    // Keep the saved payment method for later charges, or drop a pledge whose first charge failed
+    const { error: pledgeError } = await supabaseAdmin
+      .from('recurring_pledges')
+      .update(
+        settled.status === 'completed'
+          ? {
+              payment_method: intent.paymentMethod ?? body.paymentMethod ?? null,
+              payment_customer: intent.customerId,
+              last_charged_at: new Date().toISOString(),
+            }
+          : { status: 'cancelled', cancelled_at: new Date().toISOString() }
+      )
+      .eq('id', donation.pledge_id);
+    if (pledgeError) throw pledgeError;
+  }
+
+  return jsonResponse({
+    donationId: settled.id,
+    status: settled.status,
+    receiptNumber: settled.receipt_number,
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    const body = (await req.json()) as PaymentsRequest;
+    switch (body.action) {
+      case 'create':
+        return await handleCreate(user?.id ?? null, body);
+      case 'confirm':
+        return await handleConfirm(user?.id ?? null, body);
+      default:
+        return errorResponse(new Error('Unknown action'));
+    }
+  } catch (error) {
+    console.error('Error handling payment request:', error);
+    return errorResponse(error, 500);
+  }
+});
@@ -0,0 +1,121 @@
+import { isServiceRoleRequest } from '../_shared/auth.ts';
+import { errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import { getExchangeRateSource } from '../_shared/rates/index.ts';
+import { supabaseAdmin } from '../_shared/supabase.ts';
+import type { Database, PledgeChargeOutcome } from '../../../src/lib/database.types.ts';
+
+type Pledge = Database['public']['Tables']['recurring_pledges']['Row'] & {
+  projects: { status: string; currency: string } | null;
+};
+
+interface ChargeResult {
+  pledgeId: string;
+  outcome: PledgeChargeOutcome;
+  donationId?: string;
+}
+
+async function chargePledge(pledge: Pledge): Promise<ChargeResult> {
+  // Fully funded projects don't take donations; move on to the next period without a charge
+  if (!pledge.projects || pledge.projects.status !== 'active') {
+    const { error } = await supabaseAdmin.rpc('advance_pledge', {
+      p_pledge_id: pledge.id,
+      p_outcome: 'skipped',
+    });
+    if (error) throw error;
+    return { pledgeId: pledge.id, outcome: 'skipped' };
+  }
+
+  // Each charge converts at that day's rate
+  const exchangeRate = await getExchangeRateSource().getRate(pledge.currency, pledge.projects.currency);
+
+  const provider = getPaymentProvider();
+  const intent = await provider.createIntent({
+    amount: pledge.amount,
+    currency: pledge.currency.toLowerCase(),
+    metadata: { project_id: pledge.project_id, donor_id: pledge.donor_id, pledge_id: pledge.id },
+    customerId: pledge.payment_customer ?? undefined,
+    offSession: true,
+  });
+
+  const { data: donation, error: recordError } = await supabaseAdmin.rpc('record_donation', {
+    p_donor_id: pledge.donor_id,
+    p_project_id: pledge.project_id,
+    p_amount: intent.amount,
+    p_transaction_id: intent.id,
+    p_payment_provider: provider.name,
+    p_message: pledge.message,
+    p_is_anonymous: pledge.is_anonymous,
+    p_currency: pledge.currency,
+    p_exchange_rate: exchangeRate.rate,
+  });
+  if (recordError) throw recordError;
+
+  const { error: linkError } = await supabaseAdmin
+    .from('donations')
+    .update({ pledge_id: pledge.id })
+    .eq('id', donation.id);
+  if (linkError) throw linkError;
+
+  // The donor isn't present, so the saved method is charged off-session
+  const confirmed = await provider.confirmIntent(intent.id, {
+    paymentMethod: pledge.payment_method ?? undefined,
+    offSession: true,
+  });
+
+  // Processing payments settle later through the webhook; count them as charged
+  if (confirmed.status === 'succeeded' || confirmed.status === 'failed') {
+    const { error: settleError } = await supabaseAdmin.rpc('settle_donation', {
+      p_transaction_id: intent.id,
+      p_status: confirmed.status === 'succeeded' ? 'completed' : 'failed',
+    });
+    if (settleError) throw settleError;
+  }
+
+  const outcome = confirmed.status === 'failed' ? 'failed' : 'charged';
+  const { error: advanceError } = await supabaseAdmin.rpc('advance_pledge', {
+    p_pledge_id: pledge.id,
+    p_outcome: outcome,
+  });
+  if (advanceError) throw advanceError;
+
+  return { pledgeId: pledge.id, outcome, donationId: donation.id };
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') {
+    return errorResponse(new Error('Method not allowed'), 405);
+  }
+  if (!isServiceRoleRequest(req)) {
+    return errorResponse(new Error('Unauthorized'), 401);
+  }
+
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const { data: pledges, error } = await supabaseAdmin
+      .from('recurring_pledges')
+      .select('*, projects (status, currency)')
+      .eq('status', 'active')
+      .lte('next_charge_date', today)
+      .order('next_charge_date');
+
+    if (error) throw error;
+
+    const results: ChargeResult[] = [];
+    for (const pledge of pledges ?? []) {
+      try {
+        results.push(await chargePledge(pledge));
+      } catch (chargeError) {
+        console.error(`Error charging pledge ${pledge.id}:`, chargeError);
+        // Count the error as a failed attempt so a broken pledge can't retry forever
+        await supabaseAdmin.rpc('advance_pledge', { p_pledge_id: pledge.id, p_outcome: 'failed' });
+        results.push({ pledgeId: pledge.id, outcome: 'failed' });
+      }
+    }
+
+    return jsonResponse({ processed: results.length, results });
+  } catch (error) {
+    console.error('Error processing pledges:', error);
+    return errorResponse(error, 500);
+  }
+});
@@ -0,0 +1,158 @@
+import { isAdmin } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse } from '../_shared/http.ts';
+import {
+  renderReceiptPdf,
+  renderStatementPdf,
+  type DocumentDonation,
+  type DocumentDonor,
+  type ReceiptIssuer,
+} from '../_shared/receipts/index.ts';
+import { getRequestUser, supabaseAdmin } from '../_shared/supabase.ts';
+
+type DocumentRequest =
+  | { action: 'receipt'; donationId: string }
+  | { action: 'statement'; year: number; donorId?: string };
+
+const DONATION_COLUMNS =
+  'donor_id, guest_name, guest_email, amount, currency, status, receipt_number, receipt_voided_at, transaction_id, payment_provider, completed_at, created_at, projects (title)';
+
+class DocumentError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+async function loadIssuer(): Promise<ReceiptIssuer> {
+  const { data, error } = await supabaseAdmin
+    .from('platform_settings')
+    .select('value')
+    .eq('key', 'receipt_issuer')
+    .maybeSingle();
+
+  if (error) throw error;
+  const value = (data?.value ?? {}) as Partial<ReceiptIssuer>;
+  return {
+    name: value.name || 'Hope Bridge',
+    address: value.address ?? '',
+    registration_number: value.registration_number ?? '',
+    tax_note: value.tax_note ?? '',
+  };
+}
+
+// Guests have no profile, so their receipts use the details given at checkout
+async function loadDonor(donorId: string | null, guest?: { name: string | null; email: string | null }) {
+  const donor: DocumentDonor = { name: guest?.name || 'Guest donor', email: guest?.email ?? null };
+  if (!donorId) return donor;
+
+  const [{ data: profile, error }, { data: account }] = await Promise.all([
+    supabaseAdmin.from('profiles').select('full_name').eq('id', donorId).maybeSingle(),
+    supabaseAdmin.auth.admin.getUserById(donorId),
+  ]);
+  if (error) throw error;
+
+  donor.email = account.user?.email ?? donor.email;
+  donor.name = profile?.full_name || donor.email || donor.name;
+  return donor;
+}
+
+function toDocumentDonation({ projects, ...donation }: Record<string, unknown> & { projects: { title: string } | null }) {
+  return { ...donation, projectTitle: projects?.title ?? 'Deleted project' } as DocumentDonation;
+}
+
+function pdfResponse(pdf: Uint8Array, filename: string) {
+  return new Response(pdf, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+async function receipt(donationId: string, userId: string, admin: boolean) {
+  const { data: donation, error } = await supabaseAdmin
+    .from('donations')
+    .select(DONATION_COLUMNS)
+    .eq('id', donationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!donation || (donation.donor_id !== userId && !admin)) {
+    throw new DocumentError('Donation not found', 404);
+  }
+  if (!donation.receipt_number) {
+    throw new DocumentError('Receipts are issued once a donation has completed', 409);
+  }
+
+  const pdf = await renderReceiptPdf({
+    issuer: await loadIssuer(),
+    donor: await loadDonor(donation.donor_id, { name: donation.guest_name, email: donation.guest_email }),
+    donation: toDocumentDonation(donation),
+  });
+  return pdfResponse(pdf, `receipt-${donation.receipt_number}.pdf`);
+}
+
+async function statement(year: number, donorId: string) {
+  if (!Number.isInteger(year)) throw new DocumentError('Choose a year for the statement', 400);
+
+  const { data: issued, error } = await supabaseAdmin.rpc('issue_donation_statement', {
+    p_donor_id: donorId,
+    p_year: year,
+  });
+  if (error) throw new DocumentError(error.message, 409);
+
+  // Donations belong to the year they completed in, matching issue_donation_statement
+  const start = `${year}-01-01T00:00:00Z`;
+  const end = `${year + 1}-01-01T00:00:00Z`;
+  const { data: donations, error: donationsError } = await supabaseAdmin
+    .from('donations')
+    .select(DONATION_COLUMNS)
+    .eq('donor_id', donorId)
+    .not('receipt_number', 'is', null)
+    .or(
+      `and(completed_at.gte.${start},completed_at.lt.${end}),` +
+        `and(completed_at.is.null,created_at.gte.${start},created_at.lt.${end})`
+    )
+    .order('receipt_number', { ascending: true });
+
+  if (donationsError) throw donationsError;
+
+  const pdf = await renderStatementPdf({
+    issuer: await loadIssuer(),
+    donor: await loadDonor(donorId),
+    statement: issued,
+    donations: donations.map(toDocumentDonation),
+  });
+  return pdfResponse(pdf, `statement-${issued.statement_number}.pdf`);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return errorResponse(new Error('Sign in to download your documents'), 401);
+
+    const body = (await req.json()) as DocumentRequest;
+    const admin = await isAdmin(user.id);
+
+    if (body.action === 'receipt') {
+      return await receipt(body.donationId, user.id, admin);
+    }
+    if (body.action === 'statement') {
+      const donorId = body.donorId ?? user.id;
+      if (donorId !== user.id && !admin) {
+        return errorResponse(new Error("Only admins can download another donor's statement"), 403);
+      }
+      return await statement(Number(body.year), donorId);
+    }
+    return errorResponse(new Error('Unknown action'));
+  } catch (error) {
+    if (error instanceof DocumentError) return errorResponse(error, error.status);
+    console.error('Error generating donation document:', error);
+    return errorResponse(error, 500);
+  }
+});
@@ -0,0 +1,69 @@
+import { isAdmin } from '../_shared/auth.ts';
+import { corsHeaders, errorResponse, jsonResponse } from '../_shared/http.ts';
+import { getPaymentProvider } from '../_shared/payments/index.ts';
+import { getRequestUser, supabaseAdmin } from '../_shared/supabase.ts';
+
+interface ReviewRequest {
+  action: 'approve' | 'deny';
+  requestId: string;
+  note?: string;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user || !(await isAdmin(user.id))) {
+      return errorResponse(new Error('Only admins can review refund requests'), 403);
+    }
+
+    const body = (await req.json()) as ReviewRequest;
+    if (body.action !== 'approve' && body.action !== 'deny') {
+      return errorResponse(new Error('Unknown action'));
+    }
+
+    const { data: request, error } = await supabaseAdmin
+      .from('refund_requests')
+      .select('id, status, donations (transaction_id, status)')
+      .eq('id', body.requestId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!request) return errorResponse(new Error('Refund request not found'), 404);
+    if (request.status !== 'pending') {
+      return errorResponse(new Error(`This refund request has already been ${request.status}`), 409);
+    }
+
+    let refundPending = false;
+    if (body.action === 'approve') {
+      const donation = request.donations;
+      if (!donation?.transaction_id || donation.status !== 'completed') {
+        return errorResponse(new Error('Only completed donations can be refunded'), 409);
+      }
+
+      const refund = await getPaymentProvider().refund(donation.transaction_id);
+      if (refund.status === 'failed') {
+        return errorResponse(new Error('The payment provider rejected the refund'), 502);
+      }
+      // The refund.succeeded webhook settles the donation once the provider has paid it out
+      refundPending = refund.status === 'pending';
+    }
+
+    const { data: resolved, error: resolveError } = await supabaseAdmin.rpc('resolve_refund_request', {
+      p_request_id: request.id,
+      p_approved: body.action === 'approve',
+      p_reviewer_id: user.id,
+      p_note: body.note ?? '',
+      p_refund_pending: refundPending,
+    });
+
+    if (resolveError) throw resolveError;
+    return jsonResponse(resolved);
+  } catch (error) {
+    console.error('Error reviewing refund request:', error);
+    return errorResponse(error, 500);
+  }
+});
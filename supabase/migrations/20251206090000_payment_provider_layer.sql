@@ -0,0 +1,26 @@
+/*
+  # Payment Provider Layer
+
+  ## Overview
+  Donations are no longer written by the browser. The `payments` edge function
+  creates a payment intent with the configured provider (Stripe or the local
+  mock gateway), records the donation as `pending`, and only moves it to
+  `completed` once the provider confirms the payment.
+
+  ## Changes
+
+  1. **donations**
+     - `status` gains a `failed` value for declined payments
+     - `payment_provider` (text) - Provider that issued `transaction_id`
+     - `completed_at` (timestamptz) - When the provider confirmed the payment
+
+  2. **Donation inserts**
+     - Dropped the client insert policy; rows are created with the service role
+*/
+
+ALTER TYPE donation_status ADD VALUE IF NOT EXISTS 'failed';
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS payment_provider text NOT NULL DEFAULT 'mock';
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS completed_at timestamptz;
+
+DROP POLICY IF EXISTS "Authenticated users can create donations" ON donations;
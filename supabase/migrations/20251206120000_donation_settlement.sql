@@ -0,0 +1,210 @@
+/*
+  # Donation Settlement
+
+  ## Overview
+  `projects.raised_amount` used to move only when a donation was updated to
+  `completed`, so donations inserted as completed never counted. Funding is now
+  applied by a single trigger on every donation insert or status change, and
+  the payments edge function records and settles donations through RPCs so the
+  donation row and the project total change in one transaction.
+
+  ## Changes
+
+  1. **apply_project_funding(project_id, delta)**
+     - Adds `delta` to `raised_amount` (never below zero)
+     - Moves `active` projects to `fully_funded` once the goal is reached
+     - Moves `fully_funded` projects back to `active` when a refund drops them below the goal
+
+  2. **on_donation_settled trigger** (replaces `on_donation_completed`)
+     - Fires after INSERT and after UPDATE of `status`/`amount`
+     - Counts a donation only while its status is `completed`, so refunds subtract
+
+  3. **record_donation(...)** / **settle_donation(transaction_id, status)**
+     - Service-role RPCs used by the payments edge function
+     - `settle_donation` locks the donation and only allows
+       pending -> completed/failed and completed -> refunded
+
+  4. **reconcile_raised_amounts()**
+     - Recomputes `raised_amount` from completed donations for every project
+     - Returns the projects whose totals drifted; callable by admins
+*/
+
+-- Replace the update-only trigger
+DROP TRIGGER IF EXISTS on_donation_completed ON donations;
+DROP FUNCTION IF EXISTS update_project_raised_amount() CASCADE;
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS refunded_at timestamptz;
+
+CREATE OR REPLACE FUNCTION apply_project_funding(p_project_id uuid, p_delta decimal)
+RETURNS void AS $$
+BEGIN
+  UPDATE projects
+  SET raised_amount = GREATEST(0, raised_amount + p_delta),
+      status = CASE
+        WHEN status = 'active' AND GREATEST(0, raised_amount + p_delta) >= goal_amount
+          THEN 'fully_funded'::project_status
+        WHEN status = 'fully_funded' AND GREATEST(0, raised_amount + p_delta) < goal_amount
+          THEN 'active'::project_status
+        ELSE status
+      END
+  WHERE id = p_project_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION apply_donation_settlement()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_counted decimal := 0;
+  new_counted decimal := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'completed' THEN
+    old_counted := OLD.amount;
+  END IF;
+  IF NEW.status = 'completed' THEN
+    new_counted := NEW.amount;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.project_id <> NEW.project_id THEN
+    PERFORM apply_project_funding(OLD.project_id, -old_counted);
+    PERFORM apply_project_funding(NEW.project_id, new_counted);
+  ELSIF new_counted <> old_counted THEN
+    PERFORM apply_project_funding(NEW.project_id, new_counted - old_counted);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_donation_settled
+  AFTER INSERT OR UPDATE OF status, amount, project_id ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_donation_settlement();
+
+-- Record a donation and apply it to the project in one transaction
+CREATE OR REPLACE FUNCTION record_donation(
+  p_donor_id uuid,
+  p_project_id uuid,
+  p_amount decimal,
+  p_transaction_id text,
+  p_payment_provider text,
+  p_message text DEFAULT '',
+  p_is_anonymous boolean DEFAULT false,
+  p_status donation_status DEFAULT 'pending'
+)
+RETURNS donations AS $$
+DECLARE
+  project_status_value project_status;
+  donation donations;
+BEGIN
+  SELECT status INTO project_status_value
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF project_status_value IS NULL THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+  IF project_status_value <> 'active' THEN
+    RAISE EXCEPTION 'This project is not accepting donations';
+  END IF;
+  IF p_status NOT IN ('pending', 'completed') THEN
+    RAISE EXCEPTION 'New donations must be pending or completed';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, project_id, amount, transaction_id, payment_provider,
+    message, is_anonymous, status, completed_at
+  )
+  VALUES (
+    p_donor_id, p_project_id, p_amount, p_transaction_id, p_payment_provider,
+    COALESCE(p_message, ''), p_is_anonymous, p_status,
+    CASE WHEN p_status = 'completed' THEN now() END
+  )
+  RETURNING * INTO donation;
+
+  RETURN donation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move a donation to its settled state; the trigger adjusts the project total
+CREATE OR REPLACE FUNCTION settle_donation(p_transaction_id text, p_status donation_status)
+RETURNS donations AS $$
+DECLARE
+  donation donations;
+BEGIN
+  SELECT * INTO donation
+  FROM donations
+  WHERE transaction_id = p_transaction_id
+  FOR UPDATE;
+
+  IF donation.id IS NULL THEN
+    RAISE EXCEPTION 'Donation with transaction % not found', p_transaction_id;
+  END IF;
+
+  -- Settlement is idempotent so provider webhooks can be retried safely
+  IF donation.status = p_status THEN
+    RETURN donation;
+  END IF;
+
+  IF NOT (
+    (donation.status = 'pending' AND p_status IN ('completed', 'failed'))
+    OR (donation.status = 'completed' AND p_status = 'refunded')
+  ) THEN
+    RAISE EXCEPTION 'Cannot move donation from % to %', donation.status, p_status;
+  END IF;
+
+  UPDATE donations
+  SET status = p_status,
+      completed_at = CASE WHEN p_status = 'completed' THEN now() ELSE completed_at END,
+      refunded_at = CASE WHEN p_status = 'refunded' THEN now() ELSE refunded_at END
+  WHERE id = donation.id
+  RETURNING * INTO donation;
+
+  RETURN donation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Repair drift between raised_amount and the completed donations
+CREATE OR REPLACE FUNCTION reconcile_raised_amounts()
+RETURNS TABLE (project_id uuid, previous_amount decimal, reconciled_amount decimal) AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reconcile project totals';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT p.id, p.raised_amount AS previous, COALESCE(SUM(d.amount), 0)::decimal(12, 2) AS actual
+    FROM projects p
+    LEFT JOIN donations d ON d.project_id = p.id AND d.status = 'completed'
+    GROUP BY p.id
+  ),
+  fixed AS (
+    UPDATE projects
+    SET raised_amount = totals.actual,
+        status = CASE
+          WHEN projects.status = 'active' AND totals.actual >= projects.goal_amount
+            THEN 'fully_funded'::project_status
+          WHEN projects.status = 'fully_funded' AND totals.actual < projects.goal_amount
+            THEN 'active'::project_status
+          ELSE projects.status
+        END
+    FROM totals
+    WHERE projects.id = totals.id
+    AND projects.raised_amount IS DISTINCT FROM totals.actual
+    RETURNING projects.id, totals.previous, totals.actual
+  )
+  SELECT fixed.id, fixed.previous, fixed.actual FROM fixed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal helpers are not part of the public API
+REVOKE EXECUTE ON FUNCTION apply_project_funding(uuid, decimal) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_donation(uuid, uuid, decimal, text, text, text, boolean, donation_status) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION settle_donation(text, donation_status) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reconcile_raised_amounts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION reconcile_raised_amounts() TO authenticated;
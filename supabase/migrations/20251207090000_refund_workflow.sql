@@ -0,0 +1,202 @@
+/*
+  # Refund Workflow
+
+  ## Overview
+  Donors can ask for a refund of a completed donation within a configurable
+  window. Admins approve or deny each request; an approval refunds the payment
+  with the provider and moves the donation to `refunded`, which subtracts it
+  from the project (and can move a `fully_funded` project back to `active`).
+
+  ## New Tables
+
+  ### 1. platform_settings
+  Key/value configuration readable by signed-in users, managed by admins
+  - `key` (text) - Setting name
+  - `value` (jsonb) - Setting value
+  - `updated_at` (timestamptz)
+
+  ### 2. refund_requests
+  - `id` (uuid) - Request identifier
+  - `donation_id` (uuid, FK) - Donation to refund
+  - `requested_by` (uuid, FK) - Donor who asked for the refund
+  - `reason` (text) - Why the donor wants the refund
+  - `status` (refund_request_status) - pending, approved, denied
+  - `reviewed_by` (uuid, FK) - Admin who decided
+  - `review_note` (text) - Admin's note to the donor
+  - `reviewed_at` (timestamptz)
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `request_refund(donation_id, reason)` - Donor RPC enforcing ownership, status and window
+  - `resolve_refund_request(request_id, approved, reviewer_id, note)` - Service-role RPC
+    used by the refunds edge function after the provider refund succeeds
+*/
+
+DO $$ BEGIN
+  CREATE TYPE refund_request_status AS ENUM ('pending', 'approved', 'denied');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS platform_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('refund_window_days', '30')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS refund_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donation_id uuid NOT NULL REFERENCES donations(id) ON DELETE CASCADE,
+  requested_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  status refund_request_status NOT NULL DEFAULT 'pending',
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  review_note text DEFAULT '',
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_requests_donation ON refund_requests(donation_id);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_status ON refund_requests(status);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_requested_by ON refund_requests(requested_by);
+CREATE INDEX IF NOT EXISTS idx_refund_requests_reviewed_by ON refund_requests(reviewed_by);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_one_open
+  ON refund_requests(donation_id)
+  WHERE status = 'pending';
+
+ALTER TABLE platform_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE refund_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_platform_settings_updated_at
+  BEFORE UPDATE ON platform_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Platform settings policies
+CREATE POLICY "Settings are viewable by signed-in users"
+  ON platform_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage settings"
+  ON platform_settings FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+-- Refund request policies (writes go through the RPCs below)
+CREATE POLICY "Donors and admins can view refund requests"
+  ON refund_requests FOR SELECT
+  TO authenticated
+  USING (
+    requested_by = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION refund_window_days()
+RETURNS integer AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM platform_settings WHERE key = 'refund_window_days'), 30);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_refund(p_donation_id uuid, p_reason text)
+RETURNS refund_requests AS $$
+DECLARE
+  donation donations;
+  request refund_requests;
+BEGIN
+  SELECT * INTO donation
+  FROM donations
+  WHERE id = p_donation_id
+  FOR UPDATE;
+
+  IF donation.id IS NULL OR donation.donor_id IS DISTINCT FROM (select auth.uid()) THEN
+    RAISE EXCEPTION 'Donation not found';
+  END IF;
+  IF donation.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed donations can be refunded';
+  END IF;
+  IF COALESCE(donation.completed_at, donation.created_at) + make_interval(days => refund_window_days()) < now() THEN
+    RAISE EXCEPTION 'The refund window for this donation has closed';
+  END IF;
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please tell us why you are requesting a refund';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM refund_requests
+    WHERE donation_id = p_donation_id
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'A refund has already been requested for this donation';
+  END IF;
+
+  INSERT INTO refund_requests (donation_id, requested_by, reason)
+  VALUES (p_donation_id, donation.donor_id, trim(p_reason))
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_refund_request(
+  p_request_id uuid,
+  p_approved boolean,
+  p_reviewer_id uuid,
+  p_note text DEFAULT ''
+)
+RETURNS refund_requests AS $$
+DECLARE
+  request refund_requests;
+  transaction text;
+BEGIN
+  SELECT * INTO request
+  FROM refund_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Refund request not found';
+  END IF;
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This refund request has already been %', request.status;
+  END IF;
+
+  IF p_approved THEN
+    SELECT transaction_id INTO transaction FROM donations WHERE id = request.donation_id;
+    PERFORM settle_donation(transaction, 'refunded');
+  END IF;
+
+  UPDATE refund_requests
+  SET status = CASE WHEN p_approved THEN 'approved'::refund_request_status ELSE 'denied'::refund_request_status END,
+      reviewed_by = p_reviewer_id,
+      review_note = COALESCE(p_note, ''),
+      reviewed_at = now()
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_refund(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_refund(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_refund_request(uuid, boolean, uuid, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,166 @@
+/*
+  # Threaded Comments and Moderation
+
+  ## Overview
+  Comments on `ProjectDetail` support replies, editing within a time window,
+  soft deletion by their author, and hiding by admins.
+
+  ## Changes
+
+  1. **comments**
+     - `parent_id` (uuid, FK) - Comment being replied to (same project only)
+     - `edited_at` (timestamptz) - Last edit by the author
+     - `deleted_at` (timestamptz) - Soft delete; content is cleared, replies stay
+     - `is_hidden` (boolean) - Hidden by an admin
+     - `hidden_by` (uuid, FK) - Admin who hid the comment
+     - `hidden_at` (timestamptz)
+
+  2. **guard_comment_changes trigger**
+     - Authors may only change `content` within `comment_edit_window_minutes`,
+       or soft delete their own comment
+     - Only admins may hide or unhide comments
+     - Replies must belong to the same project as their parent
+
+  3. **Policies**
+     - Hidden comments are only visible to admins
+     - Authors and admins may update comments (the trigger restricts columns)
+*/
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES comments(id) ON DELETE CASCADE;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hidden_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS hidden_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_comments_parent ON comments(parent_id);
+CREATE INDEX IF NOT EXISTS idx_comments_hidden_by ON comments(hidden_by);
+CREATE INDEX IF NOT EXISTS idx_comments_project_created ON comments(project_id, created_at DESC);
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('comment_edit_window_minutes', '15')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION comment_edit_window_minutes()
+RETURNS integer AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM platform_settings WHERE key = 'comment_edit_window_minutes'), 15);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION guard_comment_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  caller_is_admin boolean;
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM comments
+    WHERE id = NEW.parent_id
+    AND project_id = NEW.project_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must belong to the same project';
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_hidden := false;
+    NEW.hidden_by := NULL;
+    NEW.hidden_at := NULL;
+    NEW.edited_at := NULL;
+    NEW.deleted_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(auth.role(), '') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  caller_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  );
+
+  IF NEW.project_id <> OLD.project_id
+    OR NEW.user_id <> OLD.user_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Comments cannot be moved';
+  END IF;
+
+  IF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden THEN
+    IF NOT caller_is_admin THEN
+      RAISE EXCEPTION 'Only admins can hide comments';
+    END IF;
+    NEW.hidden_by := CASE WHEN NEW.is_hidden THEN (select auth.uid()) END;
+    NEW.hidden_at := CASE WHEN NEW.is_hidden THEN now() END;
+  ELSE
+    NEW.hidden_by := OLD.hidden_by;
+    NEW.hidden_at := OLD.hidden_at;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF NEW.content <> OLD.content OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at THEN
+      RAISE EXCEPTION 'Deleted comments cannot be changed';
+    END IF;
+  ELSIF NEW.deleted_at IS NOT NULL THEN
+    IF OLD.user_id <> (select auth.uid()) AND NOT caller_is_admin THEN
+      RAISE EXCEPTION 'Only the author can delete this comment';
+    END IF;
+    NEW.deleted_at := now();
+    NEW.content := '';
+  ELSIF NEW.content <> OLD.content THEN
+    IF OLD.user_id <> (select auth.uid()) THEN
+      RAISE EXCEPTION 'Only the author can edit this comment';
+    END IF;
+    IF OLD.created_at + make_interval(mins => comment_edit_window_minutes()) < now() THEN
+      RAISE EXCEPTION 'The edit window for this comment has closed';
+    END IF;
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_comment_changes
+  BEFORE INSERT OR UPDATE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_comment_changes();
+
+DROP POLICY IF EXISTS "Comments are viewable on active projects" ON comments;
+CREATE POLICY "Comments are viewable on active projects"
+  ON comments FOR SELECT
+  TO authenticated
+  USING (
+    (
+      is_hidden = false
+      AND EXISTS (
+        SELECT 1 FROM projects
+        WHERE projects.id = comments.project_id
+        AND projects.status IN ('active', 'fully_funded', 'completed')
+      )
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Authors and admins can update comments"
+  ON comments FOR UPDATE
+  TO authenticated
+  USING (
+    user_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  )
+  WITH CHECK (
+    user_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
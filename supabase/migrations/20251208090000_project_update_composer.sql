@@ -0,0 +1,115 @@
+/*
+  # Creator Project Updates
+
+  ## Overview
+  Creators publish updates from their dashboard. Updates are written in
+  markdown, can carry image attachments and be tagged as a milestone, and
+  publishing one queues a notification for every donor of the project.
+
+  ## Changes
+
+  1. **project_updates**
+     - `author_id` (uuid, FK) - Creator who published the update
+     - `image_urls` (text[]) - Attached images in the `project-updates` bucket
+     - `is_milestone` (boolean) - Tagged as "milestone reached"
+     - `milestone_label` (text) - Optional milestone description
+
+  2. **notifications** (new)
+     - `id` (uuid)
+     - `user_id` (uuid, FK) - Recipient
+     - `type` (text) - Event type, e.g. `project_update`
+     - `title` (text), `body` (text)
+     - `project_id` (uuid, FK) - Related project
+     - `data` (jsonb) - Extra payload for the UI
+     - `read_at` (timestamptz)
+     - `created_at` (timestamptz)
+
+  3. **queue_update_notifications trigger**
+     - After an update is inserted, one notification per distinct donor with a
+       completed donation to the project
+
+  4. **Storage**
+     - Public `project-updates` bucket; creators upload under `<project_id>/`
+*/
+
+ALTER TABLE project_updates ADD COLUMN IF NOT EXISTS author_id uuid REFERENCES profiles(id) ON DELETE SET NULL DEFAULT auth.uid();
+ALTER TABLE project_updates ADD COLUMN IF NOT EXISTS image_urls text[] NOT NULL DEFAULT '{}';
+ALTER TABLE project_updates ADD COLUMN IF NOT EXISTS is_milestone boolean NOT NULL DEFAULT false;
+ALTER TABLE project_updates ADD COLUMN IF NOT EXISTS milestone_label text DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_project_updates_author ON project_updates(author_id);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text DEFAULT '',
+  project_id uuid REFERENCES projects(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}',
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_project ON notifications(project_id);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE OR REPLACE FUNCTION queue_update_notifications()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notifications (user_id, type, title, body, project_id, data)
+  SELECT DISTINCT
+    donations.donor_id,
+    'project_update',
+    CASE WHEN NEW.is_milestone THEN 'Milestone reached: ' ELSE 'New update: ' END || projects.title,
+    NEW.title,
+    NEW.project_id,
+    jsonb_build_object('update_id', NEW.id, 'is_milestone', NEW.is_milestone)
+  FROM donations
+  JOIN projects ON projects.id = donations.project_id
+  WHERE donations.project_id = NEW.project_id
+  AND donations.status = 'completed'
+  AND donations.donor_id IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_project_update_published
+  AFTER INSERT ON project_updates
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_update_notifications();
+
+-- Storage bucket for update attachments
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('project-updates', 'project-updates', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Update images are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'project-updates');
+
+CREATE POLICY "Creators can upload update images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'project-updates'
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id::text = (storage.foldername(name))[1]
+      AND projects.creator_id = (select auth.uid())
+    )
+  );
@@ -0,0 +1,77 @@
+/*
+  # Public Browsing
+
+  ## Overview
+  Logged-out visitors can browse the landing page and project pages. Every
+  existing SELECT policy is `TO authenticated`, so these policies grant the
+  `anon` role read access to public data only.
+
+  ## Changes
+
+  1. **Policies (anon)**
+     - `categories` - all rows
+     - `projects` - status `active`, `fully_funded` or `completed`
+     - `project_updates` - updates on those projects
+     - `donations` - completed, non-anonymous donations on those projects
+     - `profiles` - creators of those projects and their non-anonymous donors
+
+  2. **Column privileges**
+     - `anon` may only read donation columns shown on project pages;
+       `transaction_id` and `payment_provider` stay private
+*/
+
+CREATE POLICY "Anonymous visitors can view categories"
+  ON categories FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE POLICY "Anonymous visitors can view public projects"
+  ON projects FOR SELECT
+  TO anon
+  USING (status IN ('active', 'fully_funded', 'completed'));
+
+CREATE POLICY "Anonymous visitors can view public project updates"
+  ON project_updates FOR SELECT
+  TO anon
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_updates.project_id
+      AND projects.status IN ('active', 'fully_funded', 'completed')
+    )
+  );
+
+CREATE POLICY "Anonymous visitors can view public donations"
+  ON donations FOR SELECT
+  TO anon
+  USING (
+    status = 'completed'
+    AND is_anonymous = false
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = donations.project_id
+      AND projects.status IN ('active', 'fully_funded', 'completed')
+    )
+  );
+
+CREATE POLICY "Anonymous visitors can view public profiles"
+  ON profiles FOR SELECT
+  TO anon
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.creator_id = profiles.id
+      AND projects.status IN ('active', 'fully_funded', 'completed')
+    )
+    OR EXISTS (
+      SELECT 1 FROM donations
+      JOIN projects ON projects.id = donations.project_id
+      WHERE donations.donor_id = profiles.id
+      AND donations.status = 'completed'
+      AND donations.is_anonymous = false
+      AND projects.status IN ('active', 'fully_funded', 'completed')
+    )
+  );
+
+REVOKE SELECT ON donations FROM anon;
+GRANT SELECT (id, donor_id, project_id, amount, message, is_anonymous, status, created_at) ON donations TO anon;
@@ -0,0 +1,157 @@
+/*
+  # Guest Checkout
+
+  ## Overview
+  Visitors can donate without an account by giving a name and email. Every
+  completed donation gets a receipt number, and guests who later sign up with
+  the same (confirmed) email can claim their donations into their profile.
+
+  ## Changes
+
+  1. **donations**
+     - `guest_name` (text) - Donor name for guest donations
+     - `guest_email` (text) - Receipt and claim address for guest donations
+     - `guest_token_hash` (text) - SHA-256 of the token that lets the guest
+       confirm their own payment; cleared once the donation is claimed
+     - `receipt_number` (text, unique) - Assigned when the donation completes
+     - `claimed_at` (timestamptz) - When a guest donation was claimed
+
+  2. **record_donation**
+     - Accepts guest details; a donation needs either a donor or a guest email
+
+  3. **assign_receipt_number trigger**
+     - Numbers completed donations as `HB-<year>-<sequence>`
+
+  4. **claim_guest_donations()**
+     - Links unclaimed guest donations whose email matches the caller's
+       confirmed email; returns the number claimed
+
+  5. **Column privileges**
+     - `anon` may read `guest_name` for the public donor list
+*/
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS guest_name text;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS guest_email text;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS guest_token_hash text;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS receipt_number text UNIQUE;
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS claimed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_donations_unclaimed_guest_email
+  ON donations(lower(guest_email))
+  WHERE donor_id IS NULL;
+
+CREATE SEQUENCE IF NOT EXISTS donation_receipt_seq;
+
+CREATE OR REPLACE FUNCTION assign_receipt_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND NEW.receipt_number IS NULL THEN
+    NEW.receipt_number := 'HB-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('donation_receipt_seq')::text, 6, '0');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER assign_receipt_number
+  BEFORE INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_receipt_number();
+
+-- Backfill receipts for donations completed before this migration
+UPDATE donations
+SET receipt_number = 'HB-' || to_char(created_at, 'YYYY') || '-' || lpad(nextval('donation_receipt_seq')::text, 6, '0')
+WHERE receipt_number IS NULL
+AND status IN ('completed', 'refunded');
+
+DROP FUNCTION IF EXISTS record_donation(uuid, uuid, decimal, text, text, text, boolean, donation_status);
+
+CREATE OR REPLACE FUNCTION record_donation(
+  p_donor_id uuid,
+  p_project_id uuid,
+  p_amount decimal,
+  p_transaction_id text,
+  p_payment_provider text,
+  p_message text DEFAULT '',
+  p_is_anonymous boolean DEFAULT false,
+  p_status donation_status DEFAULT 'pending',
+  p_guest_name text DEFAULT NULL,
+  p_guest_email text DEFAULT NULL,
+  p_guest_token_hash text DEFAULT NULL
+)
+RETURNS donations AS $$
+DECLARE
+  project_status_value project_status;
+  donation donations;
+BEGIN
+  SELECT status INTO project_status_value
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF project_status_value IS NULL THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+  IF project_status_value <> 'active' THEN
+    RAISE EXCEPTION 'This project is not accepting donations';
+  END IF;
+  IF p_status NOT IN ('pending', 'completed') THEN
+    RAISE EXCEPTION 'New donations must be pending or completed';
+  END IF;
+  IF p_donor_id IS NULL AND (COALESCE(trim(p_guest_name), '') = '' OR COALESCE(trim(p_guest_email), '') = '') THEN
+    RAISE EXCEPTION 'Guest donations need a name and email';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, project_id, amount, transaction_id, payment_provider,
+    message, is_anonymous, status, completed_at,
+    guest_name, guest_email, guest_token_hash
+  )
+  VALUES (
+    p_donor_id, p_project_id, p_amount, p_transaction_id, p_payment_provider,
+    COALESCE(p_message, ''), p_is_anonymous, p_status,
+    CASE WHEN p_status = 'completed' THEN now() END,
+    CASE WHEN p_donor_id IS NULL THEN trim(p_guest_name) END,
+    CASE WHEN p_donor_id IS NULL THEN lower(trim(p_guest_email)) END,
+    CASE WHEN p_donor_id IS NULL THEN p_guest_token_hash END
+  )
+  RETURNING * INTO donation;
+
+  RETURN donation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION claim_guest_donations()
+RETURNS integer AS $$
+DECLARE
+  claimer_email text;
+  claimed integer;
+BEGIN
+  SELECT email INTO claimer_email
+  FROM auth.users
+  WHERE id = (select auth.uid())
+  AND email_confirmed_at IS NOT NULL;
+
+  IF claimer_email IS NULL OR NOT EXISTS (
+    SELECT 1 FROM profiles WHERE id = (select auth.uid())
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE donations
+  SET donor_id = (select auth.uid()),
+      claimed_at = now(),
+      guest_token_hash = NULL
+  WHERE donor_id IS NULL
+  AND guest_email IS NOT NULL
+  AND lower(guest_email) = lower(claimer_email);
+
+  GET DIAGNOSTICS claimed = ROW_COUNT;
+  RETURN claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_donation(uuid, uuid, decimal, text, text, text, boolean, donation_status, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_guest_donations() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_guest_donations() TO authenticated;
+
+GRANT SELECT (guest_name) ON donations TO anon;
@@ -0,0 +1,242 @@
+/*
+  # Recurring Pledges
+
+  ## Overview
+  Donors can give on a schedule. A pledge records the amount and cadence; the
+  `process-pledges` edge function runs daily, charges every due pledge through
+  the payment layer and records the result as a normal donation.
+
+  ## Changes
+
+  1. **Enums**
+     - `pledge_cadence`: monthly, quarterly, yearly
+     - `pledge_status`: active, paused, cancelled, ended
+
+  2. **recurring_pledges** (new)
+     - `id` (uuid)
+     - `donor_id` (uuid, FK) - Donor who owns the pledge
+     - `project_id` (uuid, FK) - Project being supported
+     - `amount` (decimal) - Amount charged each period
+     - `cadence` (pledge_cadence)
+     - `status` (pledge_status)
+     - `next_charge_date` (date) - Next day the pledge is due
+     - `payment_provider` (text), `payment_method` (text) - Saved payment details
+     - `message` (text), `is_anonymous` (boolean) - Copied onto each donation
+     - `failed_attempts` (integer) - Consecutive failed charges
+     - `last_charged_at`, `cancelled_at`, `created_at`, `updated_at` (timestamptz)
+
+  3. **donations**
+     - `pledge_id` (uuid, FK) - Pledge that generated the donation
+
+  4. **Rules**
+     - Donors may change the amount and cadence, pause, resume or cancel their
+       own pledges (`guard_pledge_changes` trigger)
+     - Pledges end automatically when their project is completed or cancelled
+     - `advance_pledge()` moves a pledge to its next period after a charge;
+       three failed charges in a row pause the pledge
+*/
+
+DO $$ BEGIN
+  CREATE TYPE pledge_cadence AS ENUM ('monthly', 'quarterly', 'yearly');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE pledge_status AS ENUM ('active', 'paused', 'cancelled', 'ended');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS recurring_pledges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  amount decimal(12,2) NOT NULL CHECK (amount > 0),
+  cadence pledge_cadence NOT NULL DEFAULT 'monthly',
+  status pledge_status NOT NULL DEFAULT 'active',
+  next_charge_date date NOT NULL,
+  payment_provider text NOT NULL DEFAULT 'mock',
+  payment_method text,
+  message text DEFAULT '',
+  is_anonymous boolean NOT NULL DEFAULT false,
+  failed_attempts integer NOT NULL DEFAULT 0,
+  last_charged_at timestamptz,
+  cancelled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_pledges_donor ON recurring_pledges(donor_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_pledges_project ON recurring_pledges(project_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_pledges_due ON recurring_pledges(next_charge_date) WHERE status = 'active';
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS pledge_id uuid REFERENCES recurring_pledges(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_donations_pledge ON donations(pledge_id);
+
+ALTER TABLE recurring_pledges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Donors can view own pledges"
+  ON recurring_pledges FOR SELECT
+  TO authenticated
+  USING (
+    donor_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Donors can manage own pledges"
+  ON recurring_pledges FOR UPDATE
+  TO authenticated
+  USING (donor_id = (select auth.uid()))
+  WITH CHECK (donor_id = (select auth.uid()));
+
+CREATE OR REPLACE FUNCTION pledge_interval(p_cadence pledge_cadence)
+RETURNS interval AS $$
+  SELECT CASE p_cadence
+    WHEN 'monthly' THEN interval '1 month'
+    WHEN 'quarterly' THEN interval '3 months'
+    WHEN 'yearly' THEN interval '1 year'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION guard_pledge_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  -- Service role jobs and the project-closed trigger manage pledges freely
+  IF COALESCE(auth.role(), '') = 'service_role' OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.donor_id <> OLD.donor_id
+    OR NEW.project_id <> OLD.project_id
+    OR NEW.next_charge_date <> OLD.next_charge_date
+    OR NEW.payment_provider <> OLD.payment_provider
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.failed_attempts <> OLD.failed_attempts
+    OR NEW.last_charged_at IS DISTINCT FROM OLD.last_charged_at
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only the amount, cadence and status of a pledge can be changed';
+  END IF;
+
+  IF OLD.status IN ('cancelled', 'ended') THEN
+    RAISE EXCEPTION 'This pledge has already %', CASE OLD.status WHEN 'cancelled' THEN 'been cancelled' ELSE 'ended' END;
+  END IF;
+
+  IF NEW.status = 'ended' AND OLD.status <> 'ended' THEN
+    RAISE EXCEPTION 'Pledges end automatically when their project closes';
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := now();
+  ELSE
+    NEW.cancelled_at := OLD.cancelled_at;
+  END IF;
+
+  -- Resuming starts a fresh run of attempts and never back-dates a charge
+  IF NEW.status = 'active' AND OLD.status = 'paused' THEN
+    NEW.failed_attempts := 0;
+    NEW.next_charge_date := GREATEST(OLD.next_charge_date, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_pledge_changes
+  BEFORE UPDATE ON recurring_pledges
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_pledge_changes();
+
+-- Stop pledges once their project no longer needs funding
+CREATE OR REPLACE FUNCTION end_project_pledges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    UPDATE recurring_pledges
+    SET status = 'ended', updated_at = now()
+    WHERE project_id = NEW.id
+    AND status IN ('active', 'paused');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_project_closed_end_pledges
+  AFTER UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION end_project_pledges();
+
+-- Create a pledge alongside its first donation (service role only)
+CREATE OR REPLACE FUNCTION create_pledge(
+  p_donor_id uuid,
+  p_project_id uuid,
+  p_amount decimal,
+  p_cadence pledge_cadence,
+  p_payment_provider text,
+  p_message text DEFAULT '',
+  p_is_anonymous boolean DEFAULT false
+)
+RETURNS recurring_pledges AS $$
+DECLARE
+  pledge recurring_pledges;
+BEGIN
+  INSERT INTO recurring_pledges (
+    donor_id, project_id, amount, cadence, payment_provider,
+    message, is_anonymous, next_charge_date
+  )
+  VALUES (
+    p_donor_id, p_project_id, p_amount, p_cadence, p_payment_provider,
+    COALESCE(p_message, ''), p_is_anonymous,
+    (CURRENT_DATE + pledge_interval(p_cadence))::date
+  )
+  RETURNING * INTO pledge;
+
+  RETURN pledge;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Record the outcome of a charge and schedule the next one (service role only)
+CREATE OR REPLACE FUNCTION advance_pledge(p_pledge_id uuid, p_succeeded boolean, p_payment_method text DEFAULT NULL)
+RETURNS recurring_pledges AS $$
+DECLARE
+  pledge recurring_pledges;
+BEGIN
+  SELECT * INTO pledge
+  FROM recurring_pledges
+  WHERE id = p_pledge_id
+  FOR UPDATE;
+
+  IF pledge.id IS NULL THEN
+    RAISE EXCEPTION 'Pledge % not found', p_pledge_id;
+  END IF;
+
+  IF p_succeeded THEN
+    UPDATE recurring_pledges
+    SET next_charge_date = (GREATEST(next_charge_date, CURRENT_DATE) + pledge_interval(cadence))::date,
+        failed_attempts = 0,
+        last_charged_at = now(),
+        payment_method = COALESCE(p_payment_method, payment_method)
+    WHERE id = p_pledge_id
+    RETURNING * INTO pledge;
+  ELSE
+    UPDATE recurring_pledges
+    SET failed_attempts = failed_attempts + 1,
+        next_charge_date = (CURRENT_DATE + 1),
+        status = CASE WHEN failed_attempts + 1 >= 3 THEN 'paused'::pledge_status ELSE status END
+    WHERE id = p_pledge_id
+    RETURNING * INTO pledge;
+  END IF;
+
+  RETURN pledge;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_pledge(uuid, uuid, decimal, pledge_cadence, text, text, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION advance_pledge(uuid, boolean, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,118 @@
+/*
+  # Project Search
+
+  ## Overview
+  `ProjectList` searches, filters, sorts and pages projects in the database
+  instead of downloading every project to the browser.
+
+  ## Changes
+
+  1. **projects**
+     - `country` (text, generated) - Last comma-separated part of `location`
+       ("Nairobi, Kenya" -> "Kenya")
+     - `search_vector` (tsvector, generated) - Weighted full-text index over
+       title, description and location
+
+  2. **search_projects()**
+     - Full-text query plus category, status, country, funding-percentage and
+       ending-soon filters
+     - Sorts: `newest`, `most_funded`, `closest_to_goal`, `ending_soon`
+     - Cursor pagination: pass the id of the last project received as `p_after`
+     - Runs with the caller's privileges, so RLS still applies
+
+  3. **list_project_countries()**
+     - Distinct countries of visible projects, for the filter menu
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS country text
+  GENERATED ALWAYS AS (NULLIF(trim(regexp_replace(location, '^.*,', '')), '')) STORED;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search_vector ON projects USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_projects_country ON projects(lower(country));
+CREATE INDEX IF NOT EXISTS idx_projects_created_at ON projects(created_at DESC);
+
+-- Ascending sort key for each sort order; ties are broken by id
+CREATE OR REPLACE FUNCTION project_sort_key(p_project projects, p_sort text)
+RETURNS numeric AS $$
+  SELECT CASE p_sort
+    WHEN 'most_funded' THEN -(p_project.raised_amount / NULLIF(p_project.goal_amount, 0))
+    WHEN 'closest_to_goal' THEN
+      CASE WHEN p_project.raised_amount >= p_project.goal_amount THEN 1e15
+      ELSE p_project.goal_amount - p_project.raised_amount END
+    WHEN 'ending_soon' THEN COALESCE(extract(epoch FROM p_project.end_date), 1e15)
+    ELSE -extract(epoch FROM p_project.created_at)
+  END::numeric;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION search_projects(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_statuses project_status[] DEFAULT NULL,
+  p_country text DEFAULT NULL,
+  p_min_funded_percent numeric DEFAULT NULL,
+  p_max_funded_percent numeric DEFAULT NULL,
+  p_ending_within_days integer DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_after uuid DEFAULT NULL,
+  p_limit integer DEFAULT 12
+)
+RETURNS SETOF projects AS $$
+DECLARE
+  after_key numeric;
+  search_query tsquery;
+BEGIN
+  IF p_sort NOT IN ('newest', 'most_funded', 'closest_to_goal', 'ending_soon') THEN
+    RAISE EXCEPTION 'Unknown sort order %', p_sort;
+  END IF;
+
+  IF NULLIF(trim(p_query), '') IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', p_query);
+  END IF;
+
+  IF p_after IS NOT NULL THEN
+    SELECT project_sort_key(projects, p_sort) INTO after_key
+    FROM projects
+    WHERE id = p_after;
+  END IF;
+
+  RETURN QUERY
+  SELECT projects.*
+  FROM projects
+  WHERE (search_query IS NULL OR projects.search_vector @@ search_query)
+  AND (p_category_id IS NULL OR projects.category_id = p_category_id)
+  AND (p_statuses IS NULL OR projects.status = ANY(p_statuses))
+  AND (p_country IS NULL OR lower(projects.country) = lower(p_country))
+  AND (p_min_funded_percent IS NULL OR projects.raised_amount * 100 >= projects.goal_amount * p_min_funded_percent)
+  AND (p_max_funded_percent IS NULL OR projects.raised_amount * 100 <= projects.goal_amount * p_max_funded_percent)
+  AND (
+    p_ending_within_days IS NULL
+    OR (projects.end_date >= now() AND projects.end_date <= now() + make_interval(days => p_ending_within_days))
+  )
+  AND (
+    p_after IS NULL
+    OR after_key IS NULL
+    OR (project_sort_key(projects, p_sort), projects.id) > (after_key, p_after)
+  )
+  ORDER BY project_sort_key(projects, p_sort), projects.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION list_project_countries()
+RETURNS SETOF text AS $$
+  SELECT DISTINCT country
+  FROM projects
+  WHERE country IS NOT NULL
+  AND status IN ('active', 'fully_funded', 'completed')
+  ORDER BY country;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION search_projects(text, uuid, project_status[], text, numeric, numeric, integer, text, uuid, integer) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION list_project_countries() TO anon, authenticated;
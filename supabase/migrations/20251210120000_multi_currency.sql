@@ -0,0 +1,237 @@
+/*
+  # Multi-Currency Projects and Donations
+
+  ## Overview
+  Projects raise money in their own currency (KES, NGN, INR, PHP, USD...) and
+  donors can give in any supported currency. The payments edge function
+  captures the exchange rate from the configured rate source when a donation
+  is recorded, and the converted amount is what counts toward the project.
+
+  ## Changes
+
+  1. **projects**
+     - `currency` (text) - ISO 4217 code for `goal_amount` and `raised_amount`;
+       locked once the project has donations
+
+  2. **donations**
+     - `currency` (text) - Currency the donor paid in (`amount`)
+     - `exchange_rate` (decimal) - Rate from donation to project currency at donation time
+     - `project_amount` (decimal) - `amount` converted to the project currency
+
+  3. **recurring_pledges**
+     - `currency` (text) - Currency each charge is made in
+
+  4. **Settlement**
+     - `apply_donation_settlement()` and `reconcile_raised_amounts()` count
+       `project_amount` instead of `amount`
+     - `record_donation()` takes the currency and rate and stores the converted amount
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD'
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD'
+  CHECK (currency ~ '^[A-Z]{3}$');
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS exchange_rate decimal(18,8) NOT NULL DEFAULT 1
+  CHECK (exchange_rate > 0);
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS project_amount decimal(12,2);
+
+UPDATE donations SET project_amount = amount WHERE project_amount IS NULL;
+ALTER TABLE donations ALTER COLUMN project_amount SET NOT NULL;
+
+ALTER TABLE recurring_pledges ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD'
+  CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Totals are kept in the project currency, so it cannot change after money arrives
+CREATE OR REPLACE FUNCTION guard_project_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.currency <> OLD.currency AND EXISTS (
+    SELECT 1 FROM donations WHERE donations.project_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'The currency of a project cannot change once it has donations';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_project_currency
+  BEFORE UPDATE OF currency ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_project_currency();
+
+CREATE OR REPLACE FUNCTION apply_donation_settlement()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_counted decimal := 0;
+  new_counted decimal := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'completed' THEN
+    old_counted := OLD.project_amount;
+  END IF;
+  IF NEW.status = 'completed' THEN
+    new_counted := NEW.project_amount;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.project_id <> NEW.project_id THEN
+    PERFORM apply_project_funding(OLD.project_id, -old_counted);
+    PERFORM apply_project_funding(NEW.project_id, new_counted);
+  ELSIF new_counted <> old_counted THEN
+    PERFORM apply_project_funding(NEW.project_id, new_counted - old_counted);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_donation_settled ON donations;
+CREATE TRIGGER on_donation_settled
+  AFTER INSERT OR UPDATE OF status, project_amount, project_id ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_donation_settlement();
+
+CREATE OR REPLACE FUNCTION reconcile_raised_amounts()
+RETURNS TABLE (project_id uuid, previous_amount decimal, reconciled_amount decimal) AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reconcile project totals';
+  END IF;
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT p.id, p.raised_amount AS previous, COALESCE(SUM(d.project_amount), 0)::decimal(12, 2) AS actual
+    FROM projects p
+    LEFT JOIN donations d ON d.project_id = p.id AND d.status = 'completed'
+    GROUP BY p.id
+  ),
+  fixed AS (
+    UPDATE projects
+    SET raised_amount = totals.actual,
+        status = CASE
+          WHEN projects.status = 'active' AND totals.actual >= projects.goal_amount
+            THEN 'fully_funded'::project_status
+          WHEN projects.status = 'fully_funded' AND totals.actual < projects.goal_amount
+            THEN 'active'::project_status
+          ELSE projects.status
+        END
+    FROM totals
+    WHERE projects.id = totals.id
+    AND projects.raised_amount IS DISTINCT FROM totals.actual
+    RETURNING projects.id, totals.previous, totals.actual
+  )
+  SELECT fixed.id, fixed.previous, fixed.actual FROM fixed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS record_donation(uuid, uuid, decimal, text, text, text, boolean, donation_status, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_donation(
+  p_donor_id uuid,
+  p_project_id uuid,
+  p_amount decimal,
+  p_transaction_id text,
+  p_payment_provider text,
+  p_message text DEFAULT '',
+  p_is_anonymous boolean DEFAULT false,
+  p_status donation_status DEFAULT 'pending',
+  p_guest_name text DEFAULT NULL,
+  p_guest_email text DEFAULT NULL,
+  p_guest_token_hash text DEFAULT NULL,
+  p_currency text DEFAULT NULL,
+  p_exchange_rate decimal DEFAULT 1
+)
+RETURNS donations AS $$
+DECLARE
+  project_status_value project_status;
+  project_currency text;
+  donation_currency text;
+  donation donations;
+BEGIN
+  SELECT status, currency INTO project_status_value, project_currency
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF project_status_value IS NULL THEN
+    RAISE EXCEPTION 'Project % not found', p_project_id;
+  END IF;
+  IF project_status_value <> 'active' THEN
+    RAISE EXCEPTION 'This project is not accepting donations';
+  END IF;
+  IF p_status NOT IN ('pending', 'completed') THEN
+    RAISE EXCEPTION 'New donations must be pending or completed';
+  END IF;
+  IF p_donor_id IS NULL AND (COALESCE(trim(p_guest_name), '') = '' OR COALESCE(trim(p_guest_email), '') = '') THEN
+    RAISE EXCEPTION 'Guest donations need a name and email';
+  END IF;
+
+  donation_currency := upper(COALESCE(p_currency, project_currency));
+  IF donation_currency = project_currency AND p_exchange_rate <> 1 THEN
+    RAISE EXCEPTION 'Donations in the project currency must use an exchange rate of 1';
+  END IF;
+  IF p_exchange_rate IS NULL OR p_exchange_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be positive';
+  END IF;
+
+  INSERT INTO donations (
+    donor_id, project_id, amount, transaction_id, payment_provider,
+    message, is_anonymous, status, completed_at,
+    guest_name, guest_email, guest_token_hash,
+    currency, exchange_rate, project_amount
+  )
+  VALUES (
+    p_donor_id, p_project_id, p_amount, p_transaction_id, p_payment_provider,
+    COALESCE(p_message, ''), p_is_anonymous, p_status,
+    CASE WHEN p_status = 'completed' THEN now() END,
+    CASE WHEN p_donor_id IS NULL THEN trim(p_guest_name) END,
+    CASE WHEN p_donor_id IS NULL THEN lower(trim(p_guest_email)) END,
+    CASE WHEN p_donor_id IS NULL THEN p_guest_token_hash END,
+    donation_currency, p_exchange_rate, round(p_amount * p_exchange_rate, 2)
+  )
+  RETURNING * INTO donation;
+
+  RETURN donation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS create_pledge(uuid, uuid, decimal, pledge_cadence, text, text, boolean);
+
+CREATE OR REPLACE FUNCTION create_pledge(
+  p_donor_id uuid,
+  p_project_id uuid,
+  p_amount decimal,
+  p_cadence pledge_cadence,
+  p_payment_provider text,
+  p_message text DEFAULT '',
+  p_is_anonymous boolean DEFAULT false,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS recurring_pledges AS $$
+DECLARE
+  pledge recurring_pledges;
+BEGIN
+  INSERT INTO recurring_pledges (
+    donor_id, project_id, amount, cadence, payment_provider,
+    message, is_anonymous, next_charge_date, currency
+  )
+  VALUES (
+    p_donor_id, p_project_id, p_amount, p_cadence, p_payment_provider,
+    COALESCE(p_message, ''), p_is_anonymous,
+    (CURRENT_DATE + pledge_interval(p_cadence))::date,
+    upper(p_currency)
+  )
+  RETURNING * INTO pledge;
+
+  RETURN pledge;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_donation(uuid, uuid, decimal, text, text, text, boolean, donation_status, text, text, text, text, decimal) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION create_pledge(uuid, uuid, decimal, pledge_cadence, text, text, boolean, text) FROM PUBLIC, anon, authenticated;
+
+GRANT SELECT (currency, project_amount) ON donations TO anon;
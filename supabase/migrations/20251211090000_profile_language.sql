@@ -0,0 +1,16 @@
+/*
+  # Profile Language Preference
+
+  ## Overview
+  The interface is available in several languages. Signed-in users keep their
+  choice on their profile so it follows them across devices; visitors keep it
+  in the browser only.
+
+  ## Changes
+
+  1. **profiles**
+     - `preferred_language` (text) - Interface language: `en`, `fr`, `sw` or `es`
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS preferred_language text NOT NULL DEFAULT 'en'
+  CHECK (preferred_language IN ('en', 'fr', 'sw', 'es'));
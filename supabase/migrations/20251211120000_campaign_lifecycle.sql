@@ -0,0 +1,244 @@
+/*
+  # Campaign Lifecycle
+
+  ## Overview
+  Projects move through their lifecycle on their own: campaigns stop taking
+  donations at `end_date`, are completed when the creator files a final
+  report, and abandoned drafts are cancelled. A scheduled call to
+  `run_project_lifecycle()` does the time-based work; triggers enforce the
+  rest whenever a project or donation is written.
+
+  ## Changes
+
+  1. **projects**
+     - `closed_at` (timestamptz) - When the campaign stopped accepting donations
+     - `deadline_reminder_sent_at` (timestamptz) - When the creator was warned
+       that `end_date` is near
+
+  2. **project_updates**
+     - `is_final_report` (boolean) - Publishing one completes a closed or fully
+       funded project
+
+  3. **Status transitions** (`enforce_project_lifecycle` trigger)
+     - New projects start as `draft` or `pending_review`
+     - draft -> pending_review, cancelled
+     - pending_review -> draft, active, cancelled
+     - active -> fully_funded, completed, cancelled
+     - fully_funded -> active, completed, cancelled
+     - completed and cancelled are final
+     - `completed` needs a closed (or fully funded) campaign and a final report
+     - `closed_at` cannot be cleared once set
+
+  4. **Donations**
+     - `project_accepts_donations()`: active, not closed and before `end_date`
+     - Every donation insert is rejected for projects that are not accepting funds
+     - Pledges end when their project's campaign closes
+
+  5. **run_project_lifecycle()** (service role / scheduler only)
+     - Closes campaigns whose `end_date` has passed and tells the creator
+     - Reminds creators `deadline_reminder_days` before `end_date`
+     - Cancels drafts untouched for `stale_draft_days`
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS deadline_reminder_sent_at timestamptz;
+
+ALTER TABLE project_updates ADD COLUMN IF NOT EXISTS is_final_report boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_projects_open_end_date ON projects(end_date)
+  WHERE closed_at IS NULL AND status IN ('active', 'fully_funded');
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('deadline_reminder_days', '3'),
+  ('stale_draft_days', '90')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION project_accepts_donations(p_project projects)
+RETURNS boolean AS $$
+  SELECT p_project.status = 'active'
+    AND p_project.closed_at IS NULL
+    AND (p_project.end_date IS NULL OR p_project.end_date > now());
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION enforce_project_lifecycle()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'pending_review') THEN
+      RAISE EXCEPTION 'New projects must start as a draft or pending review';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.closed_at IS NOT NULL AND NEW.closed_at IS DISTINCT FROM OLD.closed_at THEN
+    RAISE EXCEPTION 'A closed campaign cannot be reopened';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('pending_review', 'cancelled'))
+    OR (OLD.status = 'pending_review' AND NEW.status IN ('draft', 'active', 'cancelled'))
+    OR (OLD.status = 'active' AND NEW.status IN ('fully_funded', 'completed', 'cancelled'))
+    OR (OLD.status = 'fully_funded' AND NEW.status IN ('active', 'completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'A project cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    IF OLD.status = 'active' AND NEW.closed_at IS NULL THEN
+      RAISE EXCEPTION 'Only closed or fully funded campaigns can be completed';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM project_updates
+      WHERE project_updates.project_id = NEW.id
+      AND project_updates.is_final_report
+    ) THEN
+      RAISE EXCEPTION 'A final report is needed before the project can be completed';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_project_lifecycle
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_project_lifecycle();
+
+CREATE OR REPLACE FUNCTION guard_donation_project()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.id = NEW.project_id
+    AND project_accepts_donations(projects)
+  ) THEN
+    RAISE EXCEPTION 'This project is not accepting donations';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_donation_project
+  BEFORE INSERT ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_donation_project();
+
+-- Filing the final report is what completes a project
+CREATE OR REPLACE FUNCTION complete_project_on_final_report()
+RETURNS TRIGGER AS $$
+DECLARE
+  project projects;
+BEGIN
+  SELECT * INTO project FROM projects WHERE id = NEW.project_id FOR UPDATE;
+
+  IF NOT (project.status = 'fully_funded' OR (project.status = 'active' AND project.closed_at IS NOT NULL)) THEN
+    RAISE EXCEPTION 'A final report can only be filed once the campaign has closed or is fully funded';
+  END IF;
+
+  UPDATE projects SET status = 'completed' WHERE id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_final_report_published
+  AFTER INSERT ON project_updates
+  FOR EACH ROW
+  WHEN (NEW.is_final_report)
+  EXECUTE FUNCTION complete_project_on_final_report();
+
+-- Stop pledges once their project no longer needs funding
+CREATE OR REPLACE FUNCTION end_project_pledges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.status IN ('completed', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status)
+    OR (NEW.closed_at IS NOT NULL AND OLD.closed_at IS NULL) THEN
+    UPDATE recurring_pledges
+    SET status = 'ended', updated_at = now()
+    WHERE project_id = NEW.id
+    AND status IN ('active', 'paused');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_project_closed_end_pledges ON projects;
+CREATE TRIGGER on_project_closed_end_pledges
+  AFTER UPDATE OF status, closed_at ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION end_project_pledges();
+
+CREATE OR REPLACE FUNCTION run_project_lifecycle()
+RETURNS TABLE (project_id uuid, action text) AS $$
+DECLARE
+  reminder_days integer;
+  stale_days integer;
+BEGIN
+  SELECT COALESCE((SELECT value::integer FROM platform_settings WHERE key = 'deadline_reminder_days'), 3)
+  INTO reminder_days;
+  SELECT COALESCE((SELECT value::integer FROM platform_settings WHERE key = 'stale_draft_days'), 90)
+  INTO stale_days;
+
+  RETURN QUERY
+  WITH closed AS (
+    UPDATE projects
+    SET closed_at = now()
+    WHERE projects.status IN ('active', 'fully_funded')
+    AND projects.closed_at IS NULL
+    AND projects.end_date <= now()
+    RETURNING projects.id, projects.creator_id, projects.title
+  ),
+  closed_notices AS (
+    INSERT INTO notifications (user_id, type, title, body, project_id)
+    SELECT creator_id, 'campaign_closed', 'Your campaign has ended: ' || title,
+      'Post a final report from your dashboard to complete the project.', id
+    FROM closed
+  )
+  SELECT closed.id, 'closed'::text FROM closed;
+
+  RETURN QUERY
+  WITH reminded AS (
+    UPDATE projects
+    SET deadline_reminder_sent_at = now()
+    WHERE projects.status IN ('active', 'fully_funded')
+    AND projects.closed_at IS NULL
+    AND projects.deadline_reminder_sent_at IS NULL
+    AND projects.end_date > now()
+    AND projects.end_date <= now() + make_interval(days => reminder_days)
+    RETURNING projects.id, projects.creator_id, projects.title, projects.end_date
+  ),
+  reminder_notices AS (
+    INSERT INTO notifications (user_id, type, title, body, project_id, data)
+    SELECT creator_id, 'deadline_reminder', 'Your campaign ends soon: ' || title,
+      'Donations close on ' || to_char(end_date, 'YYYY-MM-DD') || '.', id,
+      jsonb_build_object('end_date', end_date)
+    FROM reminded
+  )
+  SELECT reminded.id, 'reminded'::text FROM reminded;
+
+  RETURN QUERY
+  WITH expired AS (
+    UPDATE projects
+    SET status = 'cancelled'
+    WHERE projects.status = 'draft'
+    AND projects.updated_at < now() - make_interval(days => stale_days)
+    RETURNING projects.id, projects.creator_id, projects.title
+  ),
+  expired_notices AS (
+    INSERT INTO notifications (user_id, type, title, body, project_id)
+    SELECT creator_id, 'draft_expired', 'Draft cancelled: ' || title,
+      'This draft was cancelled after ' || stale_days || ' days without changes.', id
+    FROM expired
+  )
+  SELECT expired.id, 'cancelled'::text FROM expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION run_project_lifecycle() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,171 @@
+/*
+  # Project Status Permissions
+
+  ## Overview
+  The "Creators can update own projects" policy lets a creator write any
+  column of their project, so they could approve their own campaign or inflate
+  `raised_amount`. A trigger now checks every project write against the
+  caller's role. `enforce_project_lifecycle` still decides which transitions
+  exist at all; this decides who may perform them.
+
+  ## Changes
+
+  1. **Status transitions by role** (`guard_project_changes` trigger)
+     - Creators: draft -> pending_review, pending_review -> draft, and
+       cancelling their project before it goes live
+     - Admins: pending_review -> active (approval), pending_review -> draft,
+       and cancelling any project
+     - active <-> fully_funded only through the settlement path
+     - completed only by filing a final report
+     - The service role, scheduled jobs and internal triggers are not restricted
+
+  2. **Protected columns**
+     - `raised_amount` can only be changed by `apply_project_funding()` and
+       `reconcile_raised_amounts()`; new projects always start at 0
+     - `creator_id`, `closed_at` and `deadline_reminder_sent_at` are managed by
+       the platform; `start_date` is set by the admin who approves the project
+*/
+
+CREATE OR REPLACE FUNCTION guard_project_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  settling boolean := COALESCE(current_setting('hope_bridge.settling_funds', true), '') = 'on';
+  caller_is_admin boolean;
+  caller_is_creator boolean;
+BEGIN
+  IF NEW.raised_amount IS DISTINCT FROM COALESCE(OLD.raised_amount, 0) AND NOT settling THEN
+    RAISE EXCEPTION 'raised_amount is updated by donations only';
+  END IF;
+
+  -- Service role requests, scheduled jobs (no JWT) and internal triggers
+  IF COALESCE(auth.role(), 'service_role') = 'service_role' OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.closed_at := NULL;
+    NEW.deadline_reminder_sent_at := NULL;
+    NEW.start_date := NULL;
+    RETURN NEW;
+  END IF;
+
+  caller_is_admin := EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  );
+  caller_is_creator := OLD.creator_id = (select auth.uid());
+
+  IF NEW.creator_id <> OLD.creator_id THEN
+    RAISE EXCEPTION 'Projects cannot be transferred to another creator';
+  END IF;
+
+  IF NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR NEW.deadline_reminder_sent_at IS DISTINCT FROM OLD.deadline_reminder_sent_at THEN
+    RAISE EXCEPTION 'Campaign deadlines are managed by the platform';
+  END IF;
+
+  IF NEW.start_date IS DISTINCT FROM OLD.start_date AND NOT caller_is_admin THEN
+    RAISE EXCEPTION 'Only admins can set the start date of a project';
+  END IF;
+
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF settling AND OLD.status IN ('active', 'fully_funded') AND NEW.status IN ('active', 'fully_funded') THEN
+    RETURN NEW;
+  END IF;
+
+  IF caller_is_admin AND (
+    (OLD.status = 'pending_review' AND NEW.status IN ('active', 'draft'))
+    OR NEW.status = 'cancelled'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF caller_is_creator AND (
+    (OLD.status = 'draft' AND NEW.status = 'pending_review')
+    OR (OLD.status = 'pending_review' AND NEW.status = 'draft')
+    OR (OLD.status IN ('draft', 'pending_review') AND NEW.status = 'cancelled')
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    RAISE EXCEPTION 'Projects are completed by publishing a final report';
+  END IF;
+  IF NEW.status IN ('active', 'fully_funded') AND OLD.status IN ('active', 'fully_funded') THEN
+    RAISE EXCEPTION 'Funding status follows the donations a project receives';
+  END IF;
+
+  RAISE EXCEPTION 'You are not allowed to move this project from % to %', OLD.status, NEW.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_project_changes
+  BEFORE INSERT OR UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_project_changes();
+
+-- The settlement path marks its own writes so the guard lets them through
+CREATE OR REPLACE FUNCTION apply_project_funding(p_project_id uuid, p_delta decimal)
+RETURNS void AS $$
+BEGIN
+  PERFORM set_config('hope_bridge.settling_funds', 'on', true);
+
+  UPDATE projects
+  SET raised_amount = GREATEST(0, raised_amount + p_delta),
+      status = CASE
+        WHEN status = 'active' AND GREATEST(0, raised_amount + p_delta) >= goal_amount
+          THEN 'fully_funded'::project_status
+        WHEN status = 'fully_funded' AND GREATEST(0, raised_amount + p_delta) < goal_amount
+          THEN 'active'::project_status
+        ELSE status
+      END
+  WHERE id = p_project_id;
+
+  PERFORM set_config('hope_bridge.settling_funds', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reconcile_raised_amounts()
+RETURNS TABLE (project_id uuid, previous_amount decimal, reconciled_amount decimal) AS $$
+BEGIN
+  IF COALESCE(auth.role(), '') <> 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reconcile project totals';
+  END IF;
+
+  PERFORM set_config('hope_bridge.settling_funds', 'on', true);
+
+  RETURN QUERY
+  WITH totals AS (
+    SELECT p.id, p.raised_amount AS previous, COALESCE(SUM(d.project_amount), 0)::decimal(12, 2) AS actual
+    FROM projects p
+    LEFT JOIN donations d ON d.project_id = p.id AND d.status = 'completed'
+    GROUP BY p.id
+  ),
+  fixed AS (
+    UPDATE projects
+    SET raised_amount = totals.actual,
+        status = CASE
+          WHEN projects.status = 'active' AND totals.actual >= projects.goal_amount
+            THEN 'fully_funded'::project_status
+          WHEN projects.status = 'fully_funded' AND totals.actual < projects.goal_amount
+            THEN 'active'::project_status
+          ELSE projects.status
+        END
+    FROM totals
+    WHERE projects.id = totals.id
+    AND projects.raised_amount IS DISTINCT FROM totals.actual
+    RETURNING projects.id, totals.previous, totals.actual
+  )
+  SELECT fixed.id, fixed.previous, fixed.actual FROM fixed;
+
+  PERFORM set_config('hope_bridge.settling_funds', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,280 @@
+/*
+  # Project Review Workflow
+
+  ## Overview
+  Admins used to approve or reject projects by flipping `status`, leaving the
+  creator with no explanation and no record of who decided. Projects waiting
+  for review now form a queue: an admin claims a project, works through the
+  verification checklist and records a decision with a reason. Every decision
+  is kept in `project_reviews`, which the creator can read, and the creator is
+  notified.
+
+  ## New Tables
+
+  ### project_reviews
+  - `id` (uuid) - Review identifier
+  - `project_id` (uuid, FK) - Reviewed project
+  - `reviewer_id` (uuid, FK) - Admin who decided
+  - `decision` (project_review_decision) - approved, rejected, changes_requested
+  - `reason` (text) - Explanation for the creator; required unless approved
+  - `checklist` (jsonb) - Checklist items with whether each one was checked
+  - `created_at` (timestamptz)
+
+  ## Changes
+
+  1. **projects**
+     - `review_claimed_by` (uuid, FK) / `review_claimed_at` (timestamptz) - Admin
+       currently reviewing the project; cleared when it leaves `pending_review`
+
+  2. **platform_settings**
+     - `review_checklist` - Items an admin must check before approving
+     - `review_claim_hours` - After this long another admin can take over a claim
+
+  3. **Decisions** (`submit_project_review`)
+     - approved -> `active`, rejected -> `cancelled`,
+       changes_requested -> back to `draft` for the creator to edit and resubmit
+     - Projects can only be approved from the review queue
+*/
+
+DO $$ BEGIN
+  CREATE TYPE project_review_decision AS ENUM ('approved', 'rejected', 'changes_requested');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS review_claimed_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS review_claimed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_projects_review_claimed_by ON projects(review_claimed_by);
+
+CREATE TABLE IF NOT EXISTS project_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  reviewer_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  decision project_review_decision NOT NULL,
+  reason text NOT NULL DEFAULT '',
+  checklist jsonb NOT NULL DEFAULT '[]',
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT reason_required CHECK (decision = 'approved' OR length(trim(reason)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_reviews_project ON project_reviews(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_project_reviews_reviewer ON project_reviews(reviewer_id);
+
+ALTER TABLE project_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through submit_project_review()
+CREATE POLICY "Creators and admins can view project reviews"
+  ON project_reviews FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = project_reviews.project_id
+      AND projects.creator_id = (select auth.uid())
+    )
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('review_checklist', '[
+    {"id": "identity", "label": "Creator identity and organisation confirmed"},
+    {"id": "beneficiaries", "label": "Location and beneficiaries are verifiable"},
+    {"id": "budget", "label": "Funding goal matches a realistic budget"},
+    {"id": "content", "label": "Description and images are accurate and appropriate"}
+  ]'),
+  ('review_claim_hours', '24')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION review_checklist()
+RETURNS jsonb AS $$
+  SELECT COALESCE((SELECT value FROM platform_settings WHERE key = 'review_checklist'), '[]'::jsonb);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_claim_hours()
+RETURNS integer AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM platform_settings WHERE key = 'review_claim_hours'), 24);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION guard_project_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  reviewing boolean := COALESCE(current_setting('hope_bridge.reviewing', true), '') = 'on'
+    OR COALESCE(auth.role(), 'service_role') = 'service_role'
+    OR pg_trigger_depth() > 1;
+BEGIN
+  IF NEW.status <> 'pending_review' THEN
+    NEW.review_claimed_by := NULL;
+    NEW.review_claimed_at := NULL;
+  ELSIF (NEW.review_claimed_by IS DISTINCT FROM OLD.review_claimed_by
+    OR NEW.review_claimed_at IS DISTINCT FROM OLD.review_claimed_at) AND NOT reviewing THEN
+    RAISE EXCEPTION 'Projects are claimed from the review queue';
+  END IF;
+
+  IF OLD.status = 'pending_review' AND NEW.status = 'active' AND NOT reviewing THEN
+    RAISE EXCEPTION 'Projects are approved from the review queue';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER guard_project_review
+  BEFORE UPDATE ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_project_review();
+
+CREATE OR REPLACE FUNCTION claim_project_review(p_project_id uuid)
+RETURNS projects AS $$
+DECLARE
+  project projects;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review projects';
+  END IF;
+
+  SELECT * INTO project
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+  IF project.status <> 'pending_review' THEN
+    RAISE EXCEPTION 'This project is not waiting for review';
+  END IF;
+  IF project.review_claimed_by <> (select auth.uid())
+    AND project.review_claimed_at > now() - make_interval(hours => review_claim_hours()) THEN
+    RAISE EXCEPTION 'Another admin is already reviewing this project';
+  END IF;
+
+  PERFORM set_config('hope_bridge.reviewing', 'on', true);
+  UPDATE projects
+  SET review_claimed_by = (select auth.uid()),
+      review_claimed_at = now()
+  WHERE id = p_project_id
+  RETURNING * INTO project;
+  PERFORM set_config('hope_bridge.reviewing', 'off', true);
+
+  RETURN project;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION release_project_review(p_project_id uuid)
+RETURNS projects AS $$
+DECLARE
+  project projects;
+BEGIN
+  SELECT * INTO project
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF project.id IS NULL OR project.review_claimed_by IS DISTINCT FROM (select auth.uid()) THEN
+    RAISE EXCEPTION 'You are not reviewing this project';
+  END IF;
+
+  PERFORM set_config('hope_bridge.reviewing', 'on', true);
+  UPDATE projects
+  SET review_claimed_by = NULL,
+      review_claimed_at = NULL
+  WHERE id = p_project_id
+  RETURNING * INTO project;
+  PERFORM set_config('hope_bridge.reviewing', 'off', true);
+
+  RETURN project;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- p_checklist maps checklist item ids to whether the admin checked them
+CREATE OR REPLACE FUNCTION submit_project_review(
+  p_project_id uuid,
+  p_decision project_review_decision,
+  p_reason text DEFAULT '',
+  p_checklist jsonb DEFAULT '{}'
+)
+RETURNS project_reviews AS $$
+DECLARE
+  project projects;
+  checklist jsonb;
+  review project_reviews;
+BEGIN
+  SELECT * INTO project
+  FROM projects
+  WHERE id = p_project_id
+  FOR UPDATE;
+
+  IF project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+  IF project.status <> 'pending_review' THEN
+    RAISE EXCEPTION 'This project is not waiting for review';
+  END IF;
+  IF project.review_claimed_by IS DISTINCT FROM (select auth.uid()) THEN
+    RAISE EXCEPTION 'Claim this project before reviewing it';
+  END IF;
+  IF p_decision <> 'approved' AND length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please tell the creator why';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(
+    item || jsonb_build_object('checked', COALESCE((p_checklist ->> (item ->> 'id'))::boolean, false))
+  ), '[]'::jsonb)
+  INTO checklist
+  FROM jsonb_array_elements(review_checklist()) AS item;
+
+  IF p_decision = 'approved' AND EXISTS (
+    SELECT 1 FROM jsonb_array_elements(checklist) AS item
+    WHERE NOT (item ->> 'checked')::boolean
+  ) THEN
+    RAISE EXCEPTION 'Every checklist item must be checked before approval';
+  END IF;
+
+  PERFORM set_config('hope_bridge.reviewing', 'on', true);
+  UPDATE projects
+  SET status = CASE p_decision
+        WHEN 'approved' THEN 'active'::project_status
+        WHEN 'rejected' THEN 'cancelled'::project_status
+        ELSE 'draft'::project_status
+      END,
+      start_date = CASE WHEN p_decision = 'approved' THEN now() ELSE start_date END
+  WHERE id = p_project_id;
+  PERFORM set_config('hope_bridge.reviewing', 'off', true);
+
+  INSERT INTO project_reviews (project_id, reviewer_id, decision, reason, checklist)
+  VALUES (p_project_id, (select auth.uid()), p_decision, trim(COALESCE(p_reason, '')), checklist)
+  RETURNING * INTO review;
+
+  INSERT INTO notifications (user_id, type, title, body, project_id, data)
+  VALUES (
+    project.creator_id,
+    'project_review',
+    CASE p_decision
+      WHEN 'approved' THEN 'Your project is live: '
+      WHEN 'rejected' THEN 'Your project was not approved: '
+      ELSE 'Changes requested: '
+    END || project.title,
+    review.reason,
+    project.id,
+    jsonb_build_object('decision', p_decision, 'review_id', review.id)
+  );
+
+  RETURN review;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_project_review(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION release_project_review(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION submit_project_review(uuid, project_review_decision, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_project_review(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION release_project_review(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_project_review(uuid, project_review_decision, text, jsonb) TO authenticated;
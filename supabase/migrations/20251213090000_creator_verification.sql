@@ -0,0 +1,351 @@
+/*
+  # Creator Verification
+
+  ## Overview
+  `profiles.is_verified` drives the "Verified Creator" badge but nothing could
+  set it. Creators now apply for verification with their registration
+  documents, tax ID and payout bank details; admins approve, reject or expire
+  each application. Approval lasts `verification_valid_days`, after which
+  `expire_verifications()` lapses it. Only verified creators can submit a
+  project for review.
+
+  ## New Tables
+
+  ### verification_applications
+  - `id` (uuid) - Application identifier
+  - `applicant_id` (uuid, FK) - Creator applying
+  - `organization_name` (text) - Registered name of the NGO or individual
+  - `registration_number` (text) - Official registration number
+  - `tax_id` (text) - Tax identification number
+  - `document_paths` (text[]) - Files in the private `verification-documents` bucket
+  - `bank_account_name`, `bank_name`, `bank_account_number`, `bank_routing_code` (text) - Payout details
+  - `status` (verification_status) - pending, approved, rejected, expired
+  - `reviewed_by` (uuid, FK) - Admin who decided
+  - `review_note` (text) - Admin's note to the applicant
+  - `reviewed_at` (timestamptz)
+  - `expires_at` (timestamptz) - When an approval lapses
+  - `created_at`, `updated_at` (timestamptz)
+
+  ## Changes
+
+  1. **profiles**
+     - `verified_until` (timestamptz) - Set on approval; `is_verified` is
+       cleared when it passes
+
+  2. **Functions**
+     - `submit_verification_application(...)` - Creator RPC
+     - `review_verification_application(id, decision, note)` - Admin RPC for
+       approved, rejected and expired
+     - `expire_verifications()` - Scheduler only; lapses overdue approvals
+     - `is_creator_verified(profile_id)` - Used to gate project submission
+
+  3. **Storage**
+     - Private `verification-documents` bucket; each creator uploads into a
+       folder named after their user id, admins can read every folder
+*/
+
+DO $$ BEGIN
+  CREATE TYPE verification_status AS ENUM ('pending', 'approved', 'rejected', 'expired');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS verified_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS verification_applications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  applicant_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  organization_name text NOT NULL CHECK (length(trim(organization_name)) > 0),
+  registration_number text NOT NULL DEFAULT '',
+  tax_id text NOT NULL CHECK (length(trim(tax_id)) > 0),
+  document_paths text[] NOT NULL CHECK (cardinality(document_paths) > 0),
+  bank_account_name text NOT NULL,
+  bank_name text NOT NULL,
+  bank_account_number text NOT NULL,
+  bank_routing_code text NOT NULL DEFAULT '',
+  status verification_status NOT NULL DEFAULT 'pending',
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  review_note text DEFAULT '',
+  reviewed_at timestamptz,
+  expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_applications_applicant ON verification_applications(applicant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_verification_applications_status ON verification_applications(status);
+CREATE INDEX IF NOT EXISTS idx_verification_applications_reviewed_by ON verification_applications(reviewed_by);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_verification_applications_one_open
+  ON verification_applications(applicant_id)
+  WHERE status = 'pending';
+
+ALTER TABLE verification_applications ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_verification_applications_updated_at
+  BEFORE UPDATE ON verification_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Writes go through the RPCs below
+CREATE POLICY "Applicants and admins can view verification applications"
+  ON verification_applications FOR SELECT
+  TO authenticated
+  USING (
+    applicant_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('verification_valid_days', '365')
+ON CONFLICT (key) DO NOTHING;
+
+-- Private bucket for registration documents
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('verification-documents', 'verification-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Creators can upload their verification documents"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'verification-documents'
+    AND (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+
+CREATE POLICY "Creators and admins can read verification documents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'verification-documents'
+    AND (
+      (storage.foldername(name))[1] = (select auth.uid())::text
+      OR EXISTS (
+        SELECT 1 FROM profiles
+        WHERE profiles.id = (select auth.uid())
+        AND profiles.role = 'admin'
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION verification_valid_days()
+RETURNS integer AS $$
+  SELECT COALESCE((SELECT (value #>> '{}')::integer FROM platform_settings WHERE key = 'verification_valid_days'), 365);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_creator_verified(p_profile_id uuid)
+RETURNS boolean AS $$
+  SELECT COALESCE((
+    SELECT is_verified AND (verified_until IS NULL OR verified_until > now())
+    FROM profiles
+    WHERE id = p_profile_id
+  ), false);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION submit_verification_application(
+  p_organization_name text,
+  p_registration_number text,
+  p_tax_id text,
+  p_document_paths text[],
+  p_bank_account_name text,
+  p_bank_name text,
+  p_bank_account_number text,
+  p_bank_routing_code text DEFAULT ''
+)
+RETURNS verification_applications AS $$
+DECLARE
+  application verification_applications;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role IN ('project_creator', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only project creators can apply for verification';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM verification_applications
+    WHERE applicant_id = (select auth.uid())
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Your previous application is still being reviewed';
+  END IF;
+  IF COALESCE(cardinality(p_document_paths), 0) = 0 THEN
+    RAISE EXCEPTION 'Please upload at least one registration document';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_document_paths) AS path
+    WHERE split_part(path, '/', 1) <> (select auth.uid())::text
+  ) THEN
+    RAISE EXCEPTION 'Documents must be uploaded to your own folder';
+  END IF;
+  IF length(trim(COALESCE(p_bank_account_name, ''))) = 0
+    OR length(trim(COALESCE(p_bank_name, ''))) = 0
+    OR length(trim(COALESCE(p_bank_account_number, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please provide the bank account for payouts';
+  END IF;
+
+  INSERT INTO verification_applications (
+    applicant_id, organization_name, registration_number, tax_id, document_paths,
+    bank_account_name, bank_name, bank_account_number, bank_routing_code
+  )
+  VALUES (
+    (select auth.uid()), trim(p_organization_name), trim(COALESCE(p_registration_number, '')), trim(p_tax_id),
+    p_document_paths, trim(p_bank_account_name), trim(p_bank_name), trim(p_bank_account_number),
+    trim(COALESCE(p_bank_routing_code, ''))
+  )
+  RETURNING * INTO application;
+
+  RETURN application;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_verification_application(
+  p_application_id uuid,
+  p_decision verification_status,
+  p_note text DEFAULT ''
+)
+RETURNS verification_applications AS $$
+DECLARE
+  application verification_applications;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review verification applications';
+  END IF;
+
+  SELECT * INTO application
+  FROM verification_applications
+  WHERE id = p_application_id
+  FOR UPDATE;
+
+  IF application.id IS NULL THEN
+    RAISE EXCEPTION 'Verification application not found';
+  END IF;
+  IF NOT (
+    (application.status = 'pending' AND p_decision IN ('approved', 'rejected'))
+    OR (application.status = 'approved' AND p_decision = 'expired')
+  ) THEN
+    RAISE EXCEPTION 'Cannot move an application from % to %', application.status, p_decision;
+  END IF;
+  IF p_decision = 'rejected' AND length(trim(COALESCE(p_note, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please tell the applicant why';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    -- A new approval supersedes the previous one
+    UPDATE verification_applications
+    SET status = 'expired'
+    WHERE applicant_id = application.applicant_id
+    AND status = 'approved';
+  END IF;
+
+  UPDATE verification_applications
+  SET status = p_decision,
+      reviewed_by = (select auth.uid()),
+      review_note = trim(COALESCE(p_note, '')),
+      reviewed_at = now(),
+      expires_at = CASE
+        WHEN p_decision = 'approved' THEN now() + make_interval(days => verification_valid_days())
+        WHEN p_decision = 'expired' THEN LEAST(expires_at, now())
+        ELSE expires_at
+      END
+  WHERE id = application.id
+  RETURNING * INTO application;
+
+  IF p_decision = 'approved' THEN
+    UPDATE profiles
+    SET is_verified = true,
+        verified_until = application.expires_at
+    WHERE id = application.applicant_id;
+  ELSIF p_decision = 'expired' THEN
+    UPDATE profiles
+    SET is_verified = false,
+        verified_until = NULL
+    WHERE id = application.applicant_id;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, data)
+  VALUES (
+    application.applicant_id,
+    'verification_review',
+    CASE p_decision
+      WHEN 'approved' THEN 'Your account is verified'
+      WHEN 'rejected' THEN 'Your verification application was not approved'
+      ELSE 'Your verification has expired'
+    END,
+    application.review_note,
+    jsonb_build_object('decision', p_decision, 'application_id', application.id)
+  );
+
+  RETURN application;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION expire_verifications()
+RETURNS TABLE (application_id uuid, applicant_id uuid) AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    UPDATE verification_applications
+    SET status = 'expired'
+    WHERE verification_applications.status = 'approved'
+    AND verification_applications.expires_at <= now()
+    RETURNING verification_applications.id, verification_applications.applicant_id
+  ),
+  lapsed AS (
+    UPDATE profiles
+    SET is_verified = false,
+        verified_until = NULL
+    FROM expired
+    WHERE profiles.id = expired.applicant_id
+  ),
+  notices AS (
+    INSERT INTO notifications (user_id, type, title, body, data)
+    SELECT expired.applicant_id, 'verification_expired', 'Your verification has expired',
+      'Apply again from your dashboard to keep submitting projects.',
+      jsonb_build_object('application_id', expired.id)
+    FROM expired
+  )
+  SELECT expired.id, expired.applicant_id FROM expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only verified creators can send a project for review
+CREATE OR REPLACE FUNCTION require_verified_creator()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'pending_review'
+    OR (TG_OP = 'UPDATE' AND OLD.status = 'pending_review')
+    OR COALESCE(auth.role(), 'service_role') = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_creator_verified(NEW.creator_id) AND NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = NEW.creator_id
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Verify your account before submitting a project for review';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER require_verified_creator
+  BEFORE INSERT OR UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION require_verified_creator();
+
+REVOKE EXECUTE ON FUNCTION submit_verification_application(text, text, text, text[], text, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION submit_verification_application(text, text, text, text[], text, text, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION review_verification_application(uuid, verification_status, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_verification_application(uuid, verification_status, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION expire_verifications() FROM PUBLIC, anon, authenticated;
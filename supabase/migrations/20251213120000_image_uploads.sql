@@ -0,0 +1,54 @@
+/*
+  # Image Uploads
+
+  ## Overview
+  Project images and avatars were free-text URLs, usually hotlinked from other
+  sites and prone to breaking. Both are now uploaded to storage. The client
+  resizes and compresses each image before upload and generates a thumbnail
+  for project cards; the buckets enforce the size and type limits.
+
+  ## Changes
+
+  1. **projects**
+     - `gallery_urls` (text[]) - Project images in display order; the first is
+       also stored in `image_url` as the cover
+     - `thumbnail_url` (text) - Small version of the cover for project cards
+
+  2. **Storage**
+     - `project-images` (public, 5 MB, JPEG/PNG/WebP) - Folder per uploader
+     - `avatars` (public, 2 MB, JPEG/PNG/WebP) - Folder per user
+     - Users can only write to their own folder
+*/
+
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS gallery_urls text[] NOT NULL DEFAULT '{}';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS thumbnail_url text;
+
+UPDATE projects
+SET gallery_urls = ARRAY[image_url]
+WHERE image_url IS NOT NULL
+AND cardinality(gallery_urls) = 0;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types) VALUES
+  ('project-images', 'project-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp']),
+  ('avatars', 'avatars', true, 2097152, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Project images and avatars are publicly readable"
+  ON storage.objects FOR SELECT
+  USING (bucket_id IN ('project-images', 'avatars'));
+
+CREATE POLICY "Users can upload images to their own folder"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id IN ('project-images', 'avatars')
+    AND (storage.foldername(name))[1] = (select auth.uid())::text
+  );
+
+CREATE POLICY "Users can delete images in their own folder"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id IN ('project-images', 'avatars')
+    AND (storage.foldername(name))[1] = (select auth.uid())::text
+  );
@@ -0,0 +1,55 @@
+/*
+  # Profile Settings
+
+  ## Overview
+  Users can now edit their profile from a settings page, choose which
+  notifications they receive and delete their account. Account deletion runs
+  in the `account` edge function, which needs the service role to remove the
+  auth user; the profile and everything owned by it cascade from there.
+
+  ## Changes
+
+  1. **profiles**
+     - `notification_preferences` (jsonb) - Per-type opt-outs; a missing key
+       counts as opted in
+
+  2. **Functions**
+     - `account_deletion_blocker(uuid)` - Explains why an account cannot be
+       deleted yet, or returns NULL when it can
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS notification_preferences jsonb NOT NULL
+  DEFAULT '{"donations": true, "project_updates": true, "comments": true, "project_status": true}'::jsonb;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_notification_preferences_object;
+ALTER TABLE profiles ADD CONSTRAINT profiles_notification_preferences_object
+  CHECK (jsonb_typeof(notification_preferences) = 'object');
+
+-- Deleting a profile cascades to its projects and their donations, so only
+-- accounts without launched projects can be removed
+CREATE OR REPLACE FUNCTION account_deletion_blocker(p_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (SELECT 1 FROM profiles WHERE id = p_user_id AND role = 'admin')
+      THEN 'Admin accounts cannot be deleted; ask another admin to remove your admin role first'
+    WHEN EXISTS (
+      SELECT 1 FROM projects
+      WHERE creator_id = p_user_id
+      AND status NOT IN ('draft', 'cancelled')
+    )
+      THEN 'You have projects that have been submitted or launched; cancel or complete them first'
+    WHEN EXISTS (
+      SELECT 1 FROM projects p
+      JOIN donations d ON d.project_id = p.id
+      WHERE p.creator_id = p_user_id
+    )
+      THEN 'Your cancelled projects still hold donation records; contact support to close your account'
+  END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION account_deletion_blocker(uuid) FROM PUBLIC, anon, authenticated;
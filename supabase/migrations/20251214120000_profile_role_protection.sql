@@ -0,0 +1,420 @@
+/*
+  # Profile Role Protection
+
+  ## Overview
+  The profile update policy had no column restrictions, so any user could make
+  themselves an admin or mark themselves verified, and sign-up let the client
+  pick its own role when inserting the profile. Profiles are now created by a
+  trigger on `auth.users` (always as donors), role and verification changes go
+  through admin-only functions, and donors ask to become project creators
+  through a request that admins approve or reject.
+
+  ## Changes
+
+  1. **New Types**
+     - `role_request_status` - pending, approved, rejected
+
+  2. **New Tables**
+     - `role_change_requests` - A user's request for a new role, with the
+       admin's decision; at most one pending request per user
+
+  3. **Triggers**
+     - `handle_new_user` on `auth.users` - Creates the profile from the sign-up
+       metadata (`full_name`, `preferred_language`); a `requested_role` of
+       `project_creator` files a role change request instead of granting it
+     - `guard_profile_changes` - Rejects changes to `role`, `is_verified` and
+       `verified_until` unless made through the functions below or by the
+       service role
+
+  4. **Functions**
+     - `set_user_role(user, role)` - Admin only; admins can't change their own role
+     - `set_user_verification(user, verified, until)` - Admin only; manual override
+       of the verification badge
+     - `request_role_change(reason)` - Donors ask to become project creators
+     - `review_role_change_request(request, approve, note)` - Admin only
+     - `review_verification_application` - Now marks its profile update as trusted
+
+  5. **Security**
+     - Users can no longer insert their own profile
+     - Users can view their own role change requests; admins can view all
+     - Only signed-in users can call the role and verification functions
+*/
+
+DO $$ BEGIN
+  CREATE TYPE role_request_status AS ENUM ('pending', 'approved', 'rejected');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE TABLE IF NOT EXISTS role_change_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  requested_role user_role NOT NULL CHECK (requested_role = 'project_creator'),
+  reason text NOT NULL DEFAULT '',
+  status role_request_status NOT NULL DEFAULT 'pending',
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  review_note text NOT NULL DEFAULT '',
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_role_change_requests_user ON role_change_requests(user_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_role_change_requests_one_pending
+  ON role_change_requests(user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE role_change_requests ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the RPCs below
+CREATE POLICY "Users and admins can view role change requests"
+  ON role_change_requests FOR SELECT
+  TO authenticated
+  USING (
+    user_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert own profile" ON profiles;
+
+-- Profiles are created with the account; the role is never taken from the client
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  language text := NEW.raw_user_meta_data ->> 'preferred_language';
+BEGIN
+  INSERT INTO profiles (id, full_name, role, preferred_language)
+  VALUES (
+    NEW.id,
+    COALESCE(NULLIF(trim(NEW.raw_user_meta_data ->> 'full_name'), ''), split_part(COALESCE(NEW.email, ''), '@', 1)),
+    'donor',
+    CASE WHEN language IN ('en', 'fr', 'sw', 'es') THEN language ELSE 'en' END
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NEW.raw_user_meta_data ->> 'requested_role' = 'project_creator' THEN
+    INSERT INTO role_change_requests (user_id, requested_role, reason)
+    VALUES (NEW.id, 'project_creator', 'Requested at sign-up')
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
+
+-- Accounts that signed up before the trigger existed but never got a profile
+INSERT INTO profiles (id, full_name)
+SELECT users.id, split_part(COALESCE(users.email, ''), '@', 1)
+FROM auth.users users
+WHERE NOT EXISTS (SELECT 1 FROM profiles WHERE profiles.id = users.id);
+
+CREATE OR REPLACE FUNCTION guard_profile_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') = 'service_role'
+    OR current_setting('hope_bridge.managing_profiles', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.id IS DISTINCT FROM OLD.id THEN
+    RAISE EXCEPTION 'A profile cannot be moved to another account';
+  END IF;
+  IF NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Roles can only be changed by an admin';
+  END IF;
+  IF NEW.is_verified IS DISTINCT FROM OLD.is_verified
+    OR NEW.verified_until IS DISTINCT FROM OLD.verified_until THEN
+    RAISE EXCEPTION 'Verification can only be changed by an admin';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_profile_changes ON profiles;
+CREATE TRIGGER guard_profile_changes
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_profile_changes();
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id uuid, p_role user_role)
+RETURNS profiles AS $$
+DECLARE
+  profile profiles;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  -- Keeps an admin from locking themselves (or the platform) out
+  IF p_user_id = (select auth.uid()) THEN
+    RAISE EXCEPTION 'You cannot change your own role';
+  END IF;
+
+  PERFORM set_config('hope_bridge.managing_profiles', 'on', true);
+  UPDATE profiles
+  SET role = p_role
+  WHERE id = p_user_id
+  RETURNING * INTO profile;
+  PERFORM set_config('hope_bridge.managing_profiles', 'off', true);
+
+  IF profile.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- A direct role change settles any open request
+  UPDATE role_change_requests
+  SET status = CASE WHEN requested_role = p_role THEN 'approved'::role_request_status ELSE 'rejected'::role_request_status END,
+      reviewed_by = (select auth.uid()),
+      review_note = 'Role changed by an admin',
+      reviewed_at = now()
+  WHERE user_id = p_user_id
+  AND status = 'pending';
+
+  RETURN profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_verification(
+  p_user_id uuid,
+  p_verified boolean,
+  p_until timestamptz DEFAULT NULL
+)
+RETURNS profiles AS $$
+DECLARE
+  profile profiles;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can change verification';
+  END IF;
+  IF p_verified AND p_until IS NOT NULL AND p_until <= now() THEN
+    RAISE EXCEPTION 'Verification must last into the future';
+  END IF;
+
+  PERFORM set_config('hope_bridge.managing_profiles', 'on', true);
+  UPDATE profiles
+  SET is_verified = p_verified,
+      verified_until = CASE
+        WHEN p_verified THEN COALESCE(p_until, now() + make_interval(days => verification_valid_days()))
+      END
+  WHERE id = p_user_id
+  RETURNING * INTO profile;
+  PERFORM set_config('hope_bridge.managing_profiles', 'off', true);
+
+  IF profile.id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Revoking ends the approval the badge came from
+  IF NOT p_verified THEN
+    UPDATE verification_applications
+    SET status = 'expired',
+        expires_at = LEAST(expires_at, now())
+    WHERE applicant_id = p_user_id
+    AND status = 'approved';
+  END IF;
+
+  RETURN profile;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_role_change(p_reason text DEFAULT '')
+RETURNS role_change_requests AS $$
+DECLARE
+  request role_change_requests;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'donor'
+  ) THEN
+    RAISE EXCEPTION 'Only donors can ask to become project creators';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM role_change_requests
+    WHERE user_id = (select auth.uid())
+    AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a request waiting for review';
+  END IF;
+
+  INSERT INTO role_change_requests (user_id, requested_role, reason)
+  VALUES ((select auth.uid()), 'project_creator', trim(COALESCE(p_reason, '')))
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_role_change_request(
+  p_request_id uuid,
+  p_approve boolean,
+  p_note text DEFAULT ''
+)
+RETURNS role_change_requests AS $$
+DECLARE
+  request role_change_requests;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review role change requests';
+  END IF;
+
+  SELECT * INTO request
+  FROM role_change_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Role change request not found';
+  END IF;
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request has already been %', request.status;
+  END IF;
+  IF NOT p_approve AND length(trim(COALESCE(p_note, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please tell the user why';
+  END IF;
+
+  UPDATE role_change_requests
+  SET status = CASE WHEN p_approve THEN 'approved'::role_request_status ELSE 'rejected'::role_request_status END,
+      reviewed_by = (select auth.uid()),
+      review_note = trim(COALESCE(p_note, '')),
+      reviewed_at = now()
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  IF p_approve THEN
+    PERFORM set_config('hope_bridge.managing_profiles', 'on', true);
+    UPDATE profiles
+    SET role = request.requested_role
+    WHERE id = request.user_id
+    AND role = 'donor';
+    PERFORM set_config('hope_bridge.managing_profiles', 'off', true);
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, data)
+  VALUES (
+    request.user_id,
+    'role_change_review',
+    CASE WHEN p_approve THEN 'You can now create projects' ELSE 'Your request to create projects was not approved' END,
+    request.review_note,
+    jsonb_build_object('approved', p_approve, 'request_id', request.id)
+  );
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_verification_application(
+  p_application_id uuid,
+  p_decision verification_status,
+  p_note text DEFAULT ''
+)
+RETURNS verification_applications AS $$
+DECLARE
+  application verification_applications;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = (select auth.uid())
+    AND profiles.role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review verification applications';
+  END IF;
+
+  SELECT * INTO application
+  FROM verification_applications
+  WHERE id = p_application_id
+  FOR UPDATE;
+
+  IF application.id IS NULL THEN
+    RAISE EXCEPTION 'Verification application not found';
+  END IF;
+  IF NOT (
+    (application.status = 'pending' AND p_decision IN ('approved', 'rejected'))
+    OR (application.status = 'approved' AND p_decision = 'expired')
+  ) THEN
+    RAISE EXCEPTION 'Cannot move an application from % to %', application.status, p_decision;
+  END IF;
+  IF p_decision = 'rejected' AND length(trim(COALESCE(p_note, ''))) = 0 THEN
+    RAISE EXCEPTION 'Please tell the applicant why';
+  END IF;
+
+  IF p_decision = 'approved' THEN
+    -- A new approval supersedes the previous one
+    UPDATE verification_applications
+    SET status = 'expired'
+    WHERE applicant_id = application.applicant_id
+    AND status = 'approved';
+  END IF;
+
+  UPDATE verification_applications
+  SET status = p_decision,
+      reviewed_by = (select auth.uid()),
+      review_note = trim(COALESCE(p_note, '')),
+      reviewed_at = now(),
+      expires_at = CASE
+        WHEN p_decision = 'approved' THEN now() + make_interval(days => verification_valid_days())
+        WHEN p_decision = 'expired' THEN LEAST(expires_at, now())
+        ELSE expires_at
+      END
+  WHERE id = application.id
+  RETURNING * INTO application;
+
+  PERFORM set_config('hope_bridge.managing_profiles', 'on', true);
+  IF p_decision = 'approved' THEN
+    UPDATE profiles
+    SET is_verified = true,
+        verified_until = application.expires_at
+    WHERE id = application.applicant_id;
+  ELSIF p_decision = 'expired' THEN
+    UPDATE profiles
+    SET is_verified = false,
+        verified_until = NULL
+    WHERE id = application.applicant_id;
+  END IF;
+  PERFORM set_config('hope_bridge.managing_profiles', 'off', true);
+
+  INSERT INTO notifications (user_id, type, title, body, data)
+  VALUES (
+    application.applicant_id,
+    'verification_review',
+    CASE p_decision
+      WHEN 'approved' THEN 'Your account is verified'
+      WHEN 'rejected' THEN 'Your verification application was not approved'
+      ELSE 'Your verification has expired'
+    END,
+    application.review_note,
+    jsonb_build_object('decision', p_decision, 'application_id', application.id)
+  );
+
+  RETURN application;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_user_role(uuid, user_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_user_role(uuid, user_role) TO authenticated;
+REVOKE EXECUTE ON FUNCTION set_user_verification(uuid, boolean, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_user_verification(uuid, boolean, timestamptz) TO authenticated;
+REVOKE EXECUTE ON FUNCTION request_role_change(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_role_change(text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION review_role_change_request(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_role_change_request(uuid, boolean, text) TO authenticated;
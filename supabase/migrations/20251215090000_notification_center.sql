@@ -0,0 +1,378 @@
+/*
+  # Notification Center
+
+  ## Overview
+  Creators hear about donations, comments and status changes on their
+  projects; donors hear about updates, completion and cancellation of projects
+  they funded. Everything lands in `notifications`, filtered by the user's
+  `notification_preferences`, and every delivered row is also queued in a
+  durable outbox for channels other than the in-app inbox (email, push).
+
+  ## Changes
+
+  1. **notifications**
+     - `category` (text) - Preference group the type belongs to, NULL for
+       account notices that cannot be turned off
+     - Users no longer update rows directly; `mark_notifications_read` only
+       touches `read_at`
+
+  2. **notification_channels**
+     - `channel` (text, PK) - Delivery channel name, e.g. `email`
+     - `enabled` (boolean) - Whether new notifications are queued for it
+
+  3. **notification_outbox**
+     - One row per notification and enabled channel
+     - `status` (outbox_status) - pending, processing, delivered, failed
+     - `attempts`, `available_at`, `locked_at`, `last_error`, `delivered_at`
+
+  4. **Triggers**
+     - `apply_notification_preferences` drops opted-out notifications and
+       fills `category`
+     - `queue_notification_outbox` fans each notification out to enabled channels
+     - `notify_donation_received` on donations reaching `completed`
+     - `notify_comment_posted` on new comments and replies
+     - `notify_project_status_change` on fully funded, completed and cancelled
+       projects; review decisions and expired drafts already notify
+
+  5. **Functions**
+     - `notification_category(text)` - Maps a notification type to its preference key
+     - `mark_notifications_read(uuid[])` - Marks the given (or all) notifications read
+     - `claim_notification_outbox(text, integer)` - Service role; locks a batch for a channel
+     - `finish_notification_outbox(uuid, text)` - Service role; records delivery or schedules a retry
+*/
+
+DO $$ BEGIN
+  CREATE TYPE outbox_status AS ENUM ('pending', 'processing', 'delivered', 'failed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION notification_category(p_type text)
+RETURNS text AS $$
+  SELECT CASE
+    WHEN p_type IN ('donation_received') THEN 'donations'
+    WHEN p_type IN ('project_update') THEN 'project_updates'
+    WHEN p_type IN ('comment', 'comment_reply') THEN 'comments'
+    WHEN p_type IN ('project_review', 'project_status', 'campaign_closed', 'deadline_reminder', 'draft_expired')
+      THEN 'project_status'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS category text;
+
+UPDATE notifications SET category = notification_category(type) WHERE category IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can mark own notifications read" ON notifications;
+
+CREATE OR REPLACE FUNCTION apply_notification_preferences()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.category := notification_category(NEW.type);
+
+  IF NEW.category IS NOT NULL AND EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = NEW.user_id
+    AND notification_preferences ->> NEW.category = 'false'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_notification_preferences
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_notification_preferences();
+
+-- Outbox for delivery channels beyond the in-app inbox
+CREATE TABLE IF NOT EXISTS notification_channels (
+  channel text PRIMARY KEY,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  channel text NOT NULL REFERENCES notification_channels(channel) ON DELETE CASCADE,
+  status outbox_status NOT NULL DEFAULT 'pending',
+  attempts integer NOT NULL DEFAULT 0,
+  available_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (notification_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_ready
+  ON notification_outbox(channel, available_at)
+  WHERE status IN ('pending', 'processing');
+
+-- Only the service role reads or changes the outbox
+ALTER TABLE notification_channels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION queue_notification_outbox()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO notification_outbox (notification_id, channel)
+  SELECT NEW.id, channel
+  FROM notification_channels
+  WHERE enabled;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_notification_outbox
+  AFTER INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_notification_outbox();
+
+-- Hands a batch to a channel worker; rows locked for over 10 minutes are
+-- treated as abandoned and handed out again
+CREATE OR REPLACE FUNCTION claim_notification_outbox(p_channel text, p_limit integer DEFAULT 50)
+RETURNS SETOF notification_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_outbox
+  SET status = 'processing',
+      attempts = notification_outbox.attempts + 1,
+      locked_at = now()
+  WHERE notification_outbox.id IN (
+    SELECT candidate.id FROM notification_outbox candidate
+    WHERE candidate.channel = p_channel
+    AND (
+      (candidate.status = 'pending' AND candidate.available_at <= now())
+      OR (candidate.status = 'processing' AND candidate.locked_at < now() - interval '10 minutes')
+    )
+    ORDER BY candidate.available_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 500)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING notification_outbox.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A NULL error marks the row delivered; otherwise it is retried with
+-- exponential backoff until the fifth attempt fails
+CREATE OR REPLACE FUNCTION finish_notification_outbox(p_outbox_id uuid, p_error text DEFAULT NULL)
+RETURNS notification_outbox AS $$
+DECLARE
+  entry notification_outbox;
+BEGIN
+  UPDATE notification_outbox
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'delivered'::outbox_status
+        WHEN attempts >= 5 THEN 'failed'::outbox_status
+        ELSE 'pending'::outbox_status
+      END,
+      delivered_at = CASE WHEN p_error IS NULL THEN now() END,
+      available_at = CASE
+        WHEN p_error IS NULL THEN available_at
+        ELSE now() + make_interval(mins => power(2, attempts)::integer)
+      END,
+      locked_at = NULL,
+      last_error = p_error
+  WHERE id = p_outbox_id
+  AND status = 'processing'
+  RETURNING * INTO entry;
+
+  IF entry.id IS NULL THEN
+    RAISE EXCEPTION 'Outbox entry is not being processed';
+  END IF;
+
+  RETURN entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_outbox(text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_notification_outbox(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  marked integer;
+BEGIN
+  IF (select auth.uid()) IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE notifications
+  SET read_at = now()
+  WHERE user_id = (select auth.uid())
+  AND read_at IS NULL
+  AND (p_ids IS NULL OR id = ANY(p_ids));
+
+  GET DIAGNOSTICS marked = ROW_COUNT;
+  RETURN marked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mark_notifications_read(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
+
+-- Donations
+CREATE OR REPLACE FUNCTION notify_donation_received()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'completed' OR (TG_OP = 'UPDATE' AND OLD.status = 'completed') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, project_id, data)
+  SELECT
+    projects.creator_id,
+    'donation_received',
+    'New donation to ' || projects.title,
+    CASE
+      WHEN NEW.is_anonymous THEN 'An anonymous supporter'
+      ELSE COALESCE(donor.full_name, NULLIF(NEW.guest_name, ''), 'A supporter')
+    END || ' donated ' || to_char(NEW.amount, 'FM999999999990.00') || ' ' || NEW.currency || '.',
+    projects.id,
+    jsonb_build_object('donation_id', NEW.id, 'amount', NEW.amount, 'currency', NEW.currency)
+  FROM projects
+  LEFT JOIN profiles donor ON donor.id = NEW.donor_id
+  WHERE projects.id = NEW.project_id
+  AND projects.creator_id IS DISTINCT FROM NEW.donor_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_donation_received
+  AFTER INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_donation_received();
+
+-- Comments: the project creator hears about new threads, the parent author
+-- about replies, and nobody about their own comments
+CREATE OR REPLACE FUNCTION notify_comment_posted()
+RETURNS TRIGGER AS $$
+DECLARE
+  project projects;
+  author_name text;
+  parent_author uuid;
+BEGIN
+  SELECT * INTO project FROM projects WHERE id = NEW.project_id;
+  SELECT full_name INTO author_name FROM profiles WHERE id = NEW.user_id;
+
+  IF NEW.parent_id IS NOT NULL THEN
+    SELECT user_id INTO parent_author FROM comments WHERE id = NEW.parent_id;
+  END IF;
+
+  IF parent_author IS NOT NULL AND parent_author <> NEW.user_id THEN
+    INSERT INTO notifications (user_id, type, title, body, project_id, data)
+    VALUES (
+      parent_author,
+      'comment_reply',
+      COALESCE(author_name, 'Someone') || ' replied to your comment on ' || project.title,
+      left(NEW.content, 200),
+      project.id,
+      jsonb_build_object('comment_id', NEW.id, 'parent_id', NEW.parent_id)
+    );
+  END IF;
+
+  IF project.creator_id <> NEW.user_id AND project.creator_id IS DISTINCT FROM parent_author THEN
+    INSERT INTO notifications (user_id, type, title, body, project_id, data)
+    VALUES (
+      project.creator_id,
+      'comment',
+      COALESCE(author_name, 'Someone') || ' commented on ' || project.title,
+      left(NEW.content, 200),
+      project.id,
+      jsonb_build_object('comment_id', NEW.id, 'parent_id', NEW.parent_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_comment_posted
+  AFTER INSERT ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_comment_posted();
+
+-- Project status: review decisions and expired drafts send their own notices,
+-- and creators are not told about changes they made themselves
+CREATE OR REPLACE FUNCTION notify_project_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status
+    OR NEW.status NOT IN ('fully_funded', 'completed', 'cancelled')
+    OR OLD.status NOT IN ('active', 'fully_funded')
+    OR COALESCE(current_setting('hope_bridge.reviewing', true), '') = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.creator_id IS DISTINCT FROM (select auth.uid()) THEN
+    INSERT INTO notifications (user_id, type, title, body, project_id, data)
+    VALUES (
+      NEW.creator_id,
+      'project_status',
+      CASE NEW.status
+        WHEN 'fully_funded' THEN 'Fully funded: '
+        WHEN 'completed' THEN 'Project completed: '
+        ELSE 'Project cancelled: '
+      END || NEW.title,
+      CASE NEW.status
+        WHEN 'fully_funded' THEN 'Your campaign reached its goal of '
+          || to_char(NEW.goal_amount, 'FM999999999990.00') || ' ' || NEW.currency || '.'
+        WHEN 'completed' THEN 'The project has been marked as completed.'
+        ELSE 'The campaign no longer accepts donations.'
+      END,
+      NEW.id,
+      jsonb_build_object('status', NEW.status, 'previous_status', OLD.status)
+    );
+  END IF;
+
+  IF NEW.status IN ('completed', 'cancelled') THEN
+    INSERT INTO notifications (user_id, type, title, body, project_id, data)
+    SELECT DISTINCT
+      donations.donor_id,
+      'project_status',
+      CASE NEW.status
+        WHEN 'completed' THEN 'A project you supported is complete: '
+        ELSE 'A project you supported was cancelled: '
+      END || NEW.title,
+      CASE NEW.status
+        WHEN 'completed' THEN 'Read the final report on the project page.'
+        ELSE 'The campaign no longer accepts donations.'
+      END,
+      NEW.id,
+      jsonb_build_object('status', NEW.status, 'previous_status', OLD.status)
+    FROM donations
+    WHERE donations.project_id = NEW.id
+    AND donations.status = 'completed'
+    AND donations.donor_id IS NOT NULL
+    AND donations.donor_id <> NEW.creator_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_project_status_change
+  AFTER UPDATE OF status ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_project_status_change();
+
+-- Lets the header bell update without polling
+DO $$ BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+      AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
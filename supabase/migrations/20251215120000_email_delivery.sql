@@ -0,0 +1,281 @@
+/*
+  # Email Delivery
+
+  ## Overview
+  Transactional email goes through a queue worked by the `email-worker` edge
+  function. Donation receipts are queued by a trigger when a donation
+  completes; everything else arrives through the `email` notification outbox
+  channel, where the worker picks a template and queues the message. Project
+  updates are collected into one digest per user per day.
+
+  ## Changes
+
+  1. **email_deliveries**
+     - `template` (text) - Template the worker renders
+     - `user_id` (uuid, FK, nullable) - Recipient account; NULL for guest donors
+     - `to_email` (text) - Recipient address, resolved when queued
+     - `locale` (text) - Recipient's language when queued
+     - `payload` (jsonb) - Ids of the rows the template is rendered from
+     - `dedupe_key` (text, unique) - Stops duplicate receipts; groups digest items
+     - `status` (email_status) - queued, sending, sent, failed, bounced, suppressed
+     - `attempts`, `available_at`, `locked_at`, `last_error`
+     - `provider_message_id`, `sent_at`, `bounced_at`, `bounce_reason`
+
+  2. **email_suppressions**
+     - Addresses that bounced permanently or complained; never emailed again
+
+  3. **notification_channels**
+     - Registers the `email` channel
+
+  4. **Functions**
+     - `queue_email(...)` - Service role; queues (or merges into) a delivery
+     - `claim_email_deliveries(integer)` - Service role; locks a batch to send
+     - `finish_email_delivery(...)` - Service role; records the send, schedules
+       a retry or marks the message failed or bounced
+     - `record_email_bounce(text, text)` - Service role; provider bounce webhooks
+
+  5. **queue_donation_receipt trigger**
+     - Queues a receipt for the donor or guest when a donation completes
+*/
+
+DO $$ BEGIN
+  CREATE TYPE email_status AS ENUM ('queued', 'sending', 'sent', 'failed', 'bounced', 'suppressed');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS email_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  template text NOT NULL,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  to_email text NOT NULL,
+  locale text NOT NULL DEFAULT 'en',
+  payload jsonb NOT NULL DEFAULT '{}',
+  dedupe_key text UNIQUE,
+  status email_status NOT NULL DEFAULT 'queued',
+  attempts integer NOT NULL DEFAULT 0,
+  available_at timestamptz NOT NULL DEFAULT now(),
+  locked_at timestamptz,
+  last_error text,
+  provider_message_id text,
+  sent_at timestamptz,
+  bounced_at timestamptz,
+  bounce_reason text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_ready
+  ON email_deliveries(available_at)
+  WHERE status IN ('queued', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_user ON email_deliveries(user_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_provider_message ON email_deliveries(provider_message_id);
+CREATE INDEX IF NOT EXISTS idx_email_deliveries_created ON email_deliveries(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email text PRIMARY KEY,
+  reason text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE email_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email deliveries"
+  ON email_deliveries FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Admins can view email suppressions"
+  ON email_suppressions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO notification_channels (channel) VALUES ('email')
+ON CONFLICT (channel) DO NOTHING;
+
+-- Digest items arrive as `{"items": [...]}` and are appended to the queued
+-- delivery sharing their dedupe key; any other duplicate is ignored
+CREATE OR REPLACE FUNCTION queue_email(
+  p_template text,
+  p_user_id uuid,
+  p_to_email text DEFAULT NULL,
+  p_payload jsonb DEFAULT '{}',
+  p_dedupe_key text DEFAULT NULL,
+  p_available_at timestamptz DEFAULT now()
+)
+RETURNS uuid AS $$
+DECLARE
+  recipient text;
+  recipient_locale text;
+  delivery_id uuid;
+BEGIN
+  recipient := lower(trim(COALESCE(
+    NULLIF(p_to_email, ''),
+    (SELECT email FROM auth.users WHERE id = p_user_id)
+  )));
+  IF recipient IS NULL OR recipient = '' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT preferred_language INTO recipient_locale FROM profiles WHERE id = p_user_id;
+
+  INSERT INTO email_deliveries (template, user_id, to_email, locale, payload, dedupe_key, status, available_at)
+  VALUES (
+    p_template,
+    p_user_id,
+    recipient,
+    COALESCE(recipient_locale, 'en'),
+    COALESCE(p_payload, '{}'),
+    p_dedupe_key,
+    CASE
+      WHEN EXISTS (SELECT 1 FROM email_suppressions WHERE email = recipient) THEN 'suppressed'::email_status
+      ELSE 'queued'::email_status
+    END,
+    COALESCE(p_available_at, now())
+  )
+  ON CONFLICT (dedupe_key) DO UPDATE
+  SET payload = jsonb_set(
+    email_deliveries.payload,
+    '{items}',
+    COALESCE(email_deliveries.payload -> 'items', '[]'::jsonb) || (EXCLUDED.payload -> 'items')
+  )
+  WHERE email_deliveries.status = 'queued'
+  AND EXCLUDED.payload ? 'items'
+  RETURNING id INTO delivery_id;
+
+  RETURN delivery_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Same locking rules as claim_notification_outbox
+CREATE OR REPLACE FUNCTION claim_email_deliveries(p_limit integer DEFAULT 50)
+RETURNS SETOF email_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_deliveries
+  SET status = 'sending',
+      attempts = email_deliveries.attempts + 1,
+      locked_at = now()
+  WHERE email_deliveries.id IN (
+    SELECT candidate.id FROM email_deliveries candidate
+    WHERE (candidate.status = 'queued' AND candidate.available_at <= now())
+    OR (candidate.status = 'sending' AND candidate.locked_at < now() - interval '10 minutes')
+    ORDER BY candidate.available_at
+    LIMIT LEAST(GREATEST(p_limit, 1), 500)
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING email_deliveries.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A NULL error records the send. Otherwise the message is retried with
+-- exponential backoff, unless it bounced (the address is suppressed), the
+-- error is permanent, or this was the fifth attempt
+CREATE OR REPLACE FUNCTION finish_email_delivery(
+  p_delivery_id uuid,
+  p_provider_message_id text DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_permanent boolean DEFAULT false,
+  p_bounced boolean DEFAULT false
+)
+RETURNS email_deliveries AS $$
+DECLARE
+  delivery email_deliveries;
+BEGIN
+  UPDATE email_deliveries
+  SET status = CASE
+        WHEN p_error IS NULL THEN 'sent'::email_status
+        WHEN p_bounced THEN 'bounced'::email_status
+        WHEN p_permanent OR attempts >= 5 THEN 'failed'::email_status
+        ELSE 'queued'::email_status
+      END,
+      provider_message_id = COALESCE(p_provider_message_id, provider_message_id),
+      sent_at = CASE WHEN p_error IS NULL THEN now() END,
+      bounced_at = CASE WHEN p_bounced THEN now() END,
+      bounce_reason = CASE WHEN p_bounced THEN p_error END,
+      available_at = CASE
+        WHEN p_error IS NULL THEN available_at
+        ELSE now() + make_interval(mins => power(2, attempts)::integer)
+      END,
+      locked_at = NULL,
+      last_error = p_error
+  WHERE id = p_delivery_id
+  AND status = 'sending'
+  RETURNING * INTO delivery;
+
+  IF delivery.id IS NULL THEN
+    RAISE EXCEPTION 'Email delivery is not being sent';
+  END IF;
+
+  IF p_bounced THEN
+    INSERT INTO email_suppressions (email, reason)
+    VALUES (delivery.to_email, p_error)
+    ON CONFLICT (email) DO NOTHING;
+  END IF;
+
+  RETURN delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Providers report bounces and complaints after accepting the message
+CREATE OR REPLACE FUNCTION record_email_bounce(p_provider_message_id text, p_reason text DEFAULT '')
+RETURNS email_deliveries AS $$
+DECLARE
+  delivery email_deliveries;
+BEGIN
+  UPDATE email_deliveries
+  SET status = 'bounced',
+      bounced_at = now(),
+      bounce_reason = p_reason
+  WHERE provider_message_id = p_provider_message_id
+  RETURNING * INTO delivery;
+
+  IF delivery.id IS NOT NULL THEN
+    INSERT INTO email_suppressions (email, reason)
+    VALUES (delivery.to_email, p_reason)
+    ON CONFLICT (email) DO NOTHING;
+  END IF;
+
+  RETURN delivery;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION queue_email(text, uuid, text, jsonb, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_email_deliveries(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_email_delivery(uuid, text, text, boolean, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_email_bounce(text, text) FROM PUBLIC, anon, authenticated;
+
+-- Receipts are transactional and ignore notification preferences
+CREATE OR REPLACE FUNCTION queue_donation_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM queue_email(
+      'donation_receipt',
+      NEW.donor_id,
+      CASE WHEN NEW.donor_id IS NULL THEN NEW.guest_email END,
+      jsonb_build_object('donation_id', NEW.id),
+      'donation_receipt:' || NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER queue_donation_receipt
+  AFTER INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_donation_receipt();
@@ -0,0 +1,126 @@
+/*
+  # Live Donation Feed
+
+  ## Overview
+  Project pages, project cards and the creator dashboard follow funding as it
+  happens through Supabase Realtime. `donations` holds private columns and is
+  only readable by the donor and the project's creator, so completed
+  donations are copied into a public feed with the donor's name already
+  resolved (or hidden, for anonymous gifts).
+
+  ## Changes
+
+  1. **donation_feed**
+     - `donation_id` (uuid, PK, FK) - The completed donation
+     - `project_id` (uuid, FK) - Project it was given to
+     - `donor_name` (text, nullable) - Donor's name at the time; NULL when anonymous
+     - `amount`, `currency` - What the donor gave
+     - `project_amount` (decimal) - The amount in the project's currency
+     - `created_at` (timestamptz) - When the donation completed
+
+  2. **sync_donation_feed trigger**
+     - Adds a donation when it completes and removes it when it is refunded
+       or otherwise leaves `completed`
+
+  3. **Security**
+     - Anyone can read the feed of public projects; creators can read their own
+
+  4. **Realtime**
+     - `donation_feed` and `projects` are added to `supabase_realtime`
+*/
+
+CREATE TABLE IF NOT EXISTS donation_feed (
+  donation_id uuid PRIMARY KEY REFERENCES donations(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  donor_name text,
+  amount decimal(12,2) NOT NULL,
+  currency text NOT NULL,
+  project_amount decimal(12,2) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_feed_project ON donation_feed(project_id, created_at DESC);
+
+ALTER TABLE donation_feed ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the donation feed of public projects"
+  ON donation_feed FOR SELECT
+  TO anon, authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = donation_feed.project_id
+      AND (
+        projects.status IN ('active', 'fully_funded', 'completed')
+        OR projects.creator_id = (select auth.uid())
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION sync_donation_feed()
+RETURNS TRIGGER AS $$
+DECLARE
+  display_name text;
+BEGIN
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    IF NOT NEW.is_anonymous THEN
+      SELECT NULLIF(full_name, '') INTO display_name FROM profiles WHERE id = NEW.donor_id;
+      display_name := COALESCE(display_name, NEW.guest_name);
+    END IF;
+
+    INSERT INTO donation_feed (donation_id, project_id, donor_name, amount, currency, project_amount, created_at)
+    VALUES (
+      NEW.id,
+      NEW.project_id,
+      display_name,
+      NEW.amount,
+      NEW.currency,
+      NEW.project_amount,
+      COALESCE(NEW.completed_at, now())
+    )
+    ON CONFLICT (donation_id) DO NOTHING;
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+    DELETE FROM donation_feed WHERE donation_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_donation_feed
+  AFTER INSERT OR UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_donation_feed();
+
+INSERT INTO donation_feed (donation_id, project_id, donor_name, amount, currency, project_amount, created_at)
+SELECT
+  donations.id,
+  donations.project_id,
+  CASE WHEN donations.is_anonymous THEN NULL ELSE COALESCE(NULLIF(profiles.full_name, ''), donations.guest_name) END,
+  donations.amount,
+  donations.currency,
+  donations.project_amount,
+  COALESCE(donations.completed_at, donations.created_at)
+FROM donations
+LEFT JOIN profiles ON profiles.id = donations.donor_id
+WHERE donations.status = 'completed'
+ON CONFLICT (donation_id) DO NOTHING;
+
+-- Realtime applies the same RLS policies, so clients only receive rows they
+-- could already select
+DO $$
+DECLARE
+  published text;
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    FOREACH published IN ARRAY ARRAY['donation_feed', 'projects'] LOOP
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND tablename = published
+      ) THEN
+        EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', published);
+      END IF;
+    END LOOP;
+  END IF;
+END $$;
@@ -0,0 +1,136 @@
+/*
+  # Donation Documents
+
+  ## Overview
+  Donors download a PDF receipt for each completed donation and a yearly
+  statement of their giving. Both are rendered on demand by the `receipts`
+  edge function, so a copy can be regenerated at any time and always reflects
+  the donation's current state. Receipts keep the number assigned when the
+  donation completed; statements get their own sequence the first time they
+  are issued. Refunding a donation voids its receipt.
+
+  ## Changes
+
+  1. **donations**
+     - `receipt_voided_at` (timestamptz) - When a refund voided the receipt
+
+  2. **donation_statements**
+     - `donor_id` (uuid, FK) - The donor the statement is for
+     - `year` (integer) - Calendar year covered (UTC)
+     - `statement_number` (text, unique) - `HB-ST-<year>-<sequence>`
+     - `generation_count` (integer) - How many times it has been downloaded
+     - `last_generated_at` (timestamptz)
+
+  3. **platform_settings**
+     - `receipt_issuer` - Organization name, address, registration number and
+       tax note printed on every document
+
+  4. **Functions**
+     - `issue_donation_statement(uuid, integer)` - Service role; returns the
+       donor's statement for the year, numbering it on first issue
+
+  5. **void_donation_receipt trigger**
+     - Stamps `receipt_voided_at` when a numbered donation is refunded
+*/
+
+ALTER TABLE donations ADD COLUMN IF NOT EXISTS receipt_voided_at timestamptz;
+
+CREATE OR REPLACE FUNCTION void_donation_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'refunded' AND OLD.status IS DISTINCT FROM 'refunded' AND NEW.receipt_number IS NOT NULL THEN
+    NEW.receipt_voided_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER void_donation_receipt
+  BEFORE UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION void_donation_receipt();
+
+-- Donations refunded before this migration
+UPDATE donations
+SET receipt_voided_at = now()
+WHERE status = 'refunded'
+AND receipt_number IS NOT NULL
+AND receipt_voided_at IS NULL;
+
+CREATE SEQUENCE IF NOT EXISTS donation_statement_seq;
+
+CREATE TABLE IF NOT EXISTS donation_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  year integer NOT NULL,
+  statement_number text NOT NULL UNIQUE,
+  generation_count integer NOT NULL DEFAULT 1,
+  last_generated_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (donor_id, year)
+);
+
+ALTER TABLE donation_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Donors can view own statements"
+  ON donation_statements FOR SELECT
+  TO authenticated
+  USING (
+    donor_id = (select auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = (select auth.uid())
+      AND profiles.role = 'admin'
+    )
+  );
+
+INSERT INTO platform_settings (key, value) VALUES
+  ('receipt_issuer', jsonb_build_object(
+    'name', 'Hope Bridge',
+    'address', '',
+    'registration_number', '',
+    'tax_note', 'No goods or services were provided in exchange for this donation. Whether it is tax-deductible depends on the rules where you pay tax; keep this document for your records.'
+  ))
+ON CONFLICT (key) DO NOTHING;
+
+-- Regenerating keeps the original number, so the sequence has no gaps
+CREATE OR REPLACE FUNCTION issue_donation_statement(p_donor_id uuid, p_year integer)
+RETURNS donation_statements AS $$
+DECLARE
+  statement donation_statements;
+BEGIN
+  IF p_year > extract(year FROM now() AT TIME ZONE 'UTC') THEN
+    RAISE EXCEPTION 'Statements are only available for past and current years';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM donations
+    WHERE donor_id = p_donor_id
+    AND receipt_number IS NOT NULL
+    AND extract(year FROM COALESCE(completed_at, created_at) AT TIME ZONE 'UTC') = p_year
+  ) THEN
+    RAISE EXCEPTION 'No donations to report for %', p_year;
+  END IF;
+
+  UPDATE donation_statements
+  SET generation_count = generation_count + 1,
+      last_generated_at = now()
+  WHERE donor_id = p_donor_id
+  AND year = p_year
+  RETURNING * INTO statement;
+
+  IF statement.id IS NULL THEN
+    INSERT INTO donation_statements (donor_id, year, statement_number)
+    VALUES (
+      p_donor_id,
+      p_year,
+      'HB-ST-' || p_year || '-' || lpad(nextval('donation_statement_seq')::text, 6, '0')
+    )
+    RETURNING * INTO statement;
+  END IF;
+
+  RETURN statement;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION issue_donation_statement(uuid, integer) FROM PUBLIC, anon, authenticated;
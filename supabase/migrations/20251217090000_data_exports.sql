@@ -0,0 +1,169 @@
+/*
+  # Data Exports
+
+  ## Overview
+  Creators and admins download donations and projects as CSV or XLSX from the
+  `exports` edge function. The function reads one page at a time from the
+  functions below and streams the file as it goes, so large exports neither
+  time out nor sit in memory. Filtering and donor privacy live here so every
+  format gets the same rules: a creator only sees their own projects and never
+  the identity of a donor who gave anonymously.
+
+  ## Changes
+
+  1. **Functions** (service role only)
+     - `export_donations(...)` - A page of donations with the project title and
+       the donor's name and email resolved; both are NULL for anonymous
+       donations in a creator's export
+     - `export_projects(...)` - A page of projects with their funding totals
+
+     Both take `p_creator_id` (NULL for an admin export), an optional date range
+     (`p_from` inclusive, `p_to` exclusive), project and status, and a keyset
+     cursor (`p_after_created_at`, `p_after_id`) for the next page.
+
+  2. **Indexes**
+     - `donations(created_at, id)` and `projects(created_at, id)` back the cursor
+*/
+
+CREATE INDEX IF NOT EXISTS idx_donations_created_at ON donations(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_projects_created_at_id ON projects(created_at, id);
+
+CREATE OR REPLACE FUNCTION export_donations(
+  p_creator_id uuid,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_project_id uuid DEFAULT NULL,
+  p_status donation_status DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  completed_at timestamptz,
+  status donation_status,
+  project_id uuid,
+  project_title text,
+  donor_name text,
+  donor_email text,
+  is_anonymous boolean,
+  amount decimal,
+  currency text,
+  project_amount decimal,
+  project_currency text,
+  receipt_number text,
+  payment_provider text,
+  transaction_id text,
+  message text
+) AS $$
+  SELECT
+    donations.id,
+    donations.created_at,
+    donations.completed_at,
+    donations.status,
+    donations.project_id,
+    projects.title,
+    CASE WHEN p_creator_id IS NOT NULL AND donations.is_anonymous THEN NULL
+      ELSE COALESCE(NULLIF(profiles.full_name, ''), donations.guest_name) END,
+    CASE WHEN p_creator_id IS NOT NULL AND donations.is_anonymous THEN NULL
+      ELSE COALESCE(users.email, donations.guest_email) END,
+    donations.is_anonymous,
+    donations.amount,
+    donations.currency,
+    donations.project_amount,
+    projects.currency,
+    donations.receipt_number,
+    donations.payment_provider,
+    donations.transaction_id,
+    donations.message
+  FROM donations
+  JOIN projects ON projects.id = donations.project_id
+  LEFT JOIN profiles ON profiles.id = donations.donor_id
+  LEFT JOIN auth.users users ON users.id = donations.donor_id
+  WHERE (p_creator_id IS NULL OR projects.creator_id = p_creator_id)
+  AND (p_from IS NULL OR donations.created_at >= p_from)
+  AND (p_to IS NULL OR donations.created_at < p_to)
+  AND (p_project_id IS NULL OR donations.project_id = p_project_id)
+  AND (p_status IS NULL OR donations.status = p_status)
+  AND (
+    p_after_created_at IS NULL
+    OR (donations.created_at, donations.id) > (p_after_created_at, p_after_id)
+  )
+  ORDER BY donations.created_at, donations.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION export_projects(
+  p_creator_id uuid,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_project_id uuid DEFAULT NULL,
+  p_status project_status DEFAULT NULL,
+  p_after_created_at timestamptz DEFAULT NULL,
+  p_after_id uuid DEFAULT NULL,
+  p_limit integer DEFAULT 1000
+)
+RETURNS TABLE (
+  id uuid,
+  created_at timestamptz,
+  title text,
+  status project_status,
+  category text,
+  creator_name text,
+  location text,
+  country text,
+  currency text,
+  goal_amount decimal,
+  raised_amount decimal,
+  donation_count bigint,
+  donor_count bigint,
+  start_date timestamptz,
+  end_date timestamptz,
+  closed_at timestamptz
+) AS $$
+  SELECT
+    projects.id,
+    projects.created_at,
+    projects.title,
+    projects.status,
+    categories.name,
+    profiles.full_name,
+    projects.location,
+    projects.country,
+    projects.currency,
+    projects.goal_amount,
+    projects.raised_amount,
+    totals.donation_count,
+    totals.donor_count,
+    projects.start_date,
+    projects.end_date,
+    projects.closed_at
+  FROM projects
+  LEFT JOIN categories ON categories.id = projects.category_id
+  LEFT JOIN profiles ON profiles.id = projects.creator_id
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) AS donation_count,
+      count(DISTINCT COALESCE(donations.donor_id::text, donations.guest_email)) AS donor_count
+    FROM donations
+    WHERE donations.project_id = projects.id
+    AND donations.status = 'completed'
+  ) totals
+  WHERE (p_creator_id IS NULL OR projects.creator_id = p_creator_id)
+  AND (p_from IS NULL OR projects.created_at >= p_from)
+  AND (p_to IS NULL OR projects.created_at < p_to)
+  AND (p_project_id IS NULL OR projects.id = p_project_id)
+  AND (p_status IS NULL OR projects.status = p_status)
+  AND (
+    p_after_created_at IS NULL
+    OR (projects.created_at, projects.id) > (p_after_created_at, p_after_id)
+  )
+  ORDER BY projects.created_at, projects.id
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION export_donations(uuid, timestamptz, timestamptz, uuid, donation_status, timestamptz, uuid, integer)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION export_projects(uuid, timestamptz, timestamptz, uuid, project_status, timestamptz, uuid, integer)
+  FROM PUBLIC, anon, authenticated;
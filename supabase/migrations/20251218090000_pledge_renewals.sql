@@ -0,0 +1,128 @@
+/*
+  # Pledge Renewals
+
+  ## Overview
+  Renewing a pledge charges the donor while they are away. Stripe only allows
+  that for a payment method saved to a Customer, so the first payment of a
+  pledge now saves its method to one and the pledge keeps the customer id.
+  Pledges whose project is not taking donations are skipped for a period
+  without counting as a charge.
+
+  ## Changes
+
+  1. **recurring_pledges**
+     - `payment_customer` (text) - Provider customer the saved payment method
+       belongs to; managed by the platform like `payment_method`
+
+  2. **Enums**
+     - `pledge_charge_outcome`: charged, failed, skipped
+
+  3. **advance_pledge()**
+     - Takes the outcome instead of a success flag. A skipped period moves
+       `next_charge_date` on but leaves `last_charged_at` and
+       `failed_attempts` alone
+*/
+
+ALTER TABLE recurring_pledges ADD COLUMN IF NOT EXISTS payment_customer text;
+
+DO $$ BEGIN
+  CREATE TYPE pledge_charge_outcome AS ENUM ('charged', 'failed', 'skipped');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION guard_pledge_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  -- Service role jobs and the project-closed trigger manage pledges freely
+  IF COALESCE(auth.role(), '') = 'service_role' OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.donor_id <> OLD.donor_id
+    OR NEW.project_id <> OLD.project_id
+    OR NEW.next_charge_date <> OLD.next_charge_date
+    OR NEW.payment_provider <> OLD.payment_provider
+    OR NEW.payment_method IS DISTINCT FROM OLD.payment_method
+    OR NEW.payment_customer IS DISTINCT FROM OLD.payment_customer
+    OR NEW.failed_attempts <> OLD.failed_attempts
+    OR NEW.last_charged_at IS DISTINCT FROM OLD.last_charged_at
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Only the amount, cadence and status of a pledge can be changed';
+  END IF;
+
+  IF OLD.status IN ('cancelled', 'ended') THEN
+    RAISE EXCEPTION 'This pledge has already %', CASE OLD.status WHEN 'cancelled' THEN 'been cancelled' ELSE 'ended' END;
+  END IF;
+
+  IF NEW.status = 'ended' AND OLD.status <> 'ended' THEN
+    RAISE EXCEPTION 'Pledges end automatically when their project closes';
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := now();
+  ELSE
+    NEW.cancelled_at := OLD.cancelled_at;
+  END IF;
+
+  -- Resuming starts a fresh run of attempts and never back-dates a charge
+  IF NEW.status = 'active' AND OLD.status = 'paused' THEN
+    NEW.failed_attempts := 0;
+    NEW.next_charge_date := GREATEST(OLD.next_charge_date, CURRENT_DATE);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS advance_pledge(uuid, boolean, text);
+
+-- Record the outcome of a charge and schedule the next one (service role only)
+CREATE OR REPLACE FUNCTION advance_pledge(
+  p_pledge_id uuid,
+  p_outcome pledge_charge_outcome,
+  p_payment_method text DEFAULT NULL
+)
+RETURNS recurring_pledges AS $$
+DECLARE
+  pledge recurring_pledges;
+BEGIN
+  SELECT * INTO pledge
+  FROM recurring_pledges
+  WHERE id = p_pledge_id
+  FOR UPDATE;
+
+  IF pledge.id IS NULL THEN
+    RAISE EXCEPTION 'Pledge % not found', p_pledge_id;
+  END IF;
+
+  CASE p_outcome
+    WHEN 'charged' THEN
+      UPDATE recurring_pledges
+      SET next_charge_date = (GREATEST(next_charge_date, CURRENT_DATE) + pledge_interval(cadence))::date,
+          failed_attempts = 0,
+          last_charged_at = now(),
+          payment_method = COALESCE(p_payment_method, payment_method)
+      WHERE id = p_pledge_id
+      RETURNING * INTO pledge;
+    WHEN 'skipped' THEN
+      UPDATE recurring_pledges
+      SET next_charge_date = (GREATEST(next_charge_date, CURRENT_DATE) + pledge_interval(cadence))::date
+      WHERE id = p_pledge_id
+      RETURNING * INTO pledge;
+    ELSE
+      UPDATE recurring_pledges
+      SET failed_attempts = failed_attempts + 1,
+          next_charge_date = (CURRENT_DATE + 1),
+          status = CASE WHEN failed_attempts + 1 >= 3 THEN 'paused'::pledge_status ELSE status END
+      WHERE id = p_pledge_id
+      RETURNING * INTO pledge;
+  END CASE;
+
+  RETURN pledge;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION advance_pledge(uuid, pledge_charge_outcome, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,24 @@
+/*
+  # Guest Identity Privacy
+
+  ## Overview
+  Project creators can read the donations to their projects, and until now that
+  included the name and email a guest gave at checkout, even when the guest
+  asked to donate anonymously. Guest identity is only needed by receipts,
+  emails and exports, which all run with the service role, so signed-in users
+  no longer get those columns at all.
+
+  ## Changes
+
+  1. **donations**
+     - `authenticated` loses table-wide SELECT and is granted every column
+       except `guest_name`, `guest_email` and `guest_token_hash`. Row access is
+       still decided by the existing policies
+*/
+
+REVOKE SELECT ON donations FROM authenticated;
+GRANT SELECT (
+  id, donor_id, project_id, amount, transaction_id, status, message, is_anonymous,
+  payment_provider, completed_at, refunded_at, receipt_number, claimed_at, pledge_id,
+  currency, exchange_rate, project_amount, receipt_voided_at, created_at
+) ON donations TO authenticated;
@@ -0,0 +1,18 @@
+/*
+  # Update Image Limits
+
+  ## Overview
+  The `project-updates` bucket accepted any file of any size, so a creator
+  could publish an SVG (which can carry scripts) or a very large upload on a
+  public URL. It now has the same limits as the project image buckets.
+
+  ## Changes
+
+  1. **Storage**
+     - `project-updates` bucket: 5 MB per file, JPEG, PNG and WebP only
+*/
+
+UPDATE storage.buckets
+SET file_size_limit = 5242880,
+    allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp']
+WHERE id = 'project-updates';
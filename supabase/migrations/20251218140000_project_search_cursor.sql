@@ -0,0 +1,82 @@
+/*
+  # Project Search Cursor
+
+  ## Overview
+  `search_projects()` used to take only the id of the last project shown and
+  looked up that project's current sort key. A donation to that project
+  between two pages moved the cursor, and a project that had since been
+  deleted or hidden gave no key at all, so the first page came back again.
+  The cursor now carries the values the client already has for the last
+  project, so the next page starts exactly where the previous one ended.
+
+  ## Changes
+
+  1. **search_projects()**
+     - `p_after` (jsonb) replaces the uuid argument: the last project received,
+       with at least `id`, `created_at`, `end_date`, `raised_amount` and
+       `goal_amount`
+     - A cursor missing its id or sort key is rejected instead of restarting
+       from the first page
+*/
+
+DROP FUNCTION IF EXISTS search_projects(text, uuid, project_status[], text, numeric, numeric, integer, text, uuid, integer);
+
+CREATE OR REPLACE FUNCTION search_projects(
+  p_query text DEFAULT NULL,
+  p_category_id uuid DEFAULT NULL,
+  p_statuses project_status[] DEFAULT NULL,
+  p_country text DEFAULT NULL,
+  p_min_funded_percent numeric DEFAULT NULL,
+  p_max_funded_percent numeric DEFAULT NULL,
+  p_ending_within_days integer DEFAULT NULL,
+  p_sort text DEFAULT 'newest',
+  p_after jsonb DEFAULT NULL,
+  p_limit integer DEFAULT 12
+)
+RETURNS SETOF projects AS $$
+DECLARE
+  after_project projects;
+  after_key numeric;
+  search_query tsquery;
+BEGIN
+  IF p_sort NOT IN ('newest', 'most_funded', 'closest_to_goal', 'ending_soon') THEN
+    RAISE EXCEPTION 'Unknown sort order %', p_sort;
+  END IF;
+
+  IF NULLIF(trim(p_query), '') IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', p_query);
+  END IF;
+
+  -- The sort key is worked out from the values the client saw, not the project as it is now
+  IF p_after IS NOT NULL THEN
+    after_project := jsonb_populate_record(NULL::projects, p_after);
+    after_key := project_sort_key(after_project, p_sort);
+
+    IF after_project.id IS NULL OR after_key IS NULL THEN
+      RAISE EXCEPTION 'Invalid search cursor';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT projects.*
+  FROM projects
+  WHERE (search_query IS NULL OR projects.search_vector @@ search_query)
+  AND (p_category_id IS NULL OR projects.category_id = p_category_id)
+  AND (p_statuses IS NULL OR projects.status = ANY(p_statuses))
+  AND (p_country IS NULL OR lower(projects.country) = lower(p_country))
+  AND (p_min_funded_percent IS NULL OR projects.raised_amount * 100 >= projects.goal_amount * p_min_funded_percent)
+  AND (p_max_funded_percent IS NULL OR projects.raised_amount * 100 <= projects.goal_amount * p_max_funded_percent)
+  AND (
+    p_ending_within_days IS NULL
+    OR (projects.end_date >= now() AND projects.end_date <= now() + make_interval(days => p_ending_within_days))
+  )
+  AND (
+    p_after IS NULL
+    OR (project_sort_key(projects, p_sort), projects.id) > (after_key, after_project.id)
+  )
+  ORDER BY project_sort_key(projects, p_sort), projects.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 12), 1), 50);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION search_projects(text, uuid, project_status[], text, numeric, numeric, integer, text, jsonb, integer) TO anon, authenticated;
@@ -0,0 +1,146 @@
+/*
+  # Pending Provider Refunds
+
+  ## Overview
+  A provider can accept a refund without settling it yet (Stripe reports these
+  as `pending`). Approving such a request used to mark the donation `refunded`
+  straight away, so the project total dropped for money that had not moved and
+  might never move. The request now waits in `processing` until the provider's
+  `refund.succeeded` webhook settles the donation.
+
+  ## Changes
+
+  1. **refund_requests**
+     - `status` gains a `processing` value: approved, waiting for the provider
+     - At most one `pending` or `processing` request per donation
+
+  2. **Functions**
+     - `resolve_refund_request` takes `p_refund_pending`; when set, an approval
+       leaves the donation `completed` and moves the request to `processing`
+     - `request_refund` treats a `processing` request as still open
+
+  3. **Triggers**
+     - `complete_refund_requests` on donations: once a donation is `refunded`,
+       its `processing` request becomes `approved`
+*/
+
+ALTER TYPE refund_request_status ADD VALUE IF NOT EXISTS 'processing';
+
+-- The new value can't be used until this migration commits, so name the closed states instead
+DROP INDEX IF EXISTS idx_refund_requests_one_open;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refund_requests_one_open
+  ON refund_requests(donation_id)
+  WHERE status NOT IN ('approved', 'denied');
+
+CREATE OR REPLACE FUNCTION request_refund(p_donation_id uuid, p_reason text)
+RETURNS refund_requests AS $$
+DECLARE
+  donation donations;
+  request refund_requests;
+BEGIN
+  SELECT * INTO donation
+  FROM donations
+  WHERE id = p_donation_id
+  FOR UPDATE;
+
+  IF donation.id IS NULL OR donation.donor_id IS DISTINCT FROM (select auth.uid()) THEN
+    RAISE EXCEPTION 'Donation not found';
+  END IF;
+  IF donation.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed donations can be refunded';
+  END IF;
+  IF COALESCE(donation.completed_at, donation.created_at) + make_interval(days => refund_window_days()) < now() THEN
+    RAISE EXCEPTION 'The refund window for this donation has closed';
+  END IF;
+  IF p_reason IS NULL OR length(trim(p_reason)) = 0 THEN
+    RAISE EXCEPTION 'Please tell us why you are requesting a refund';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM refund_requests
+    WHERE donation_id = p_donation_id
+    AND status IN ('pending', 'processing')
+  ) THEN
+    RAISE EXCEPTION 'A refund has already been requested for this donation';
+  END IF;
+
+  INSERT INTO refund_requests (donation_id, requested_by, reason)
+  VALUES (p_donation_id, donation.donor_id, trim(p_reason))
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS resolve_refund_request(uuid, boolean, uuid, text);
+
+CREATE OR REPLACE FUNCTION resolve_refund_request(
+  p_request_id uuid,
+  p_approved boolean,
+  p_reviewer_id uuid,
+  p_note text DEFAULT '',
+  p_refund_pending boolean DEFAULT false
+)
+RETURNS refund_requests AS $$
+DECLARE
+  request refund_requests;
+  donation donations;
+  next_status refund_request_status;
+BEGIN
+  SELECT * INTO request
+  FROM refund_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Refund request not found';
+  END IF;
+  IF request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This refund request has already been %', request.status;
+  END IF;
+
+  IF NOT p_approved THEN
+    next_status := 'denied';
+  ELSE
+    SELECT * INTO donation FROM donations WHERE id = request.donation_id FOR UPDATE;
+
+    -- The webhook may have settled the refund before the reviewer's call got here
+    IF p_refund_pending AND donation.status <> 'refunded' THEN
+      next_status := 'processing';
+    ELSE
+      PERFORM settle_donation(donation.transaction_id, 'refunded');
+      next_status := 'approved';
+    END IF;
+  END IF;
+
+  UPDATE refund_requests
+  SET status = next_status,
+      reviewed_by = p_reviewer_id,
+      review_note = COALESCE(p_note, ''),
+      reviewed_at = now()
+  WHERE id = request.id
+  RETURNING * INTO request;
+
+  RETURN request;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION resolve_refund_request(uuid, boolean, uuid, text, boolean) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION complete_refund_requests()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'refunded' AND OLD.status IS DISTINCT FROM 'refunded' THEN
+    UPDATE refund_requests
+    SET status = 'approved'
+    WHERE donation_id = NEW.id
+    AND status = 'processing';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER complete_refund_requests
+  AFTER UPDATE OF status ON donations
+  FOR EACH ROW
+  EXECUTE FUNCTION complete_refund_requests();
@@ -0,0 +1,28 @@
+/*
+  # Closest To Goal Share
+
+  ## Overview
+  The `closest_to_goal` sort ordered projects by the amount still missing,
+  `goal_amount - raised_amount`, in each project's own currency. A KES project
+  5,000 short of a 100,000 goal sorted after a USD project 50 short of a 100
+  goal, although it is much nearer to being funded. The sort now uses the
+  share of the goal still missing, which is the same in every currency.
+
+  ## Changes
+
+  1. **project_sort_key()**
+     - `closest_to_goal` sorts on `1 - raised_amount / goal_amount`; fully
+       funded projects still come last
+*/
+
+CREATE OR REPLACE FUNCTION project_sort_key(p_project projects, p_sort text)
+RETURNS numeric AS $$
+  SELECT CASE p_sort
+    WHEN 'most_funded' THEN -(p_project.raised_amount / NULLIF(p_project.goal_amount, 0))
+    WHEN 'closest_to_goal' THEN
+      CASE WHEN p_project.raised_amount >= p_project.goal_amount THEN 1e15
+      ELSE 1 - p_project.raised_amount / NULLIF(p_project.goal_amount, 0) END
+    WHEN 'ending_soon' THEN COALESCE(extract(epoch FROM p_project.end_date), 1e15)
+    ELSE -extract(epoch FROM p_project.created_at)
+  END::numeric;
+$$ LANGUAGE sql IMMUTABLE;
@@ -0,0 +1,111 @@
+import { PGlite } from '@electric-sql/pglite';
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const MIGRATIONS_DIR = join(import.meta.dirname, '..', 'migrations');
+
+/*
+  The parts of a Supabase project the migrations build on: the auth and storage
+  schemas, the API roles with their default grants, and auth helpers that read
+  the JWT claims PostgREST would set for the request.
+*/
+const SUPABASE_STUBS = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    email text,
+    raw_user_meta_data jsonb DEFAULT '{}'::jsonb,
+    email_confirmed_at timestamptz,
+    created_at timestamptz DEFAULT now()
+  );
+  CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql STABLE AS
+    $$ SELECT nullif(current_setting('request.jwt.claim.sub', true), '')::uuid $$;
+  CREATE FUNCTION auth.role() RETURNS text LANGUAGE sql STABLE AS
+    $$ SELECT nullif(current_setting('request.jwt.claim.role', true), '') $$;
+  CREATE FUNCTION auth.email() RETURNS text LANGUAGE sql STABLE AS
+    $$ SELECT nullif(current_setting('request.jwt.claim.email', true), '') $$;
+
+  CREATE SCHEMA storage;
+  CREATE TABLE storage.buckets (
+    id text PRIMARY KEY,
+    name text,
+    public boolean DEFAULT false,
+    file_size_limit bigint,
+    allowed_mime_types text[]
+  );
+  CREATE TABLE storage.objects (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    bucket_id text REFERENCES storage.buckets (id),
+    name text,
+    owner uuid
+  );
+  ALTER TABLE storage.objects ENABLE ROW LEVEL SECURITY;
+  CREATE FUNCTION storage.foldername(name text) RETURNS text[] LANGUAGE sql IMMUTABLE AS
+    $$ SELECT (string_to_array(name, '/'))[1:array_length(string_to_array(name, '/'), 1) - 1] $$;
+
+  GRANT USAGE ON SCHEMA public, auth, storage TO anon, authenticated, service_role;
+  GRANT ALL ON ALL TABLES IN SCHEMA storage TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+`;
+
+export type Actor = { userId: string } | 'anon' | 'service_role' | null;
+
+export interface TestDatabase {
+  db: PGlite;
+  // Runs the statement as the actor, the way PostgREST would for their request.
+  // `null` is a trusted connection with no JWT, like a scheduled job.
+  query<T = Record<string, unknown>>(actor: Actor, sql: string, params?: unknown[]): Promise<T[]>;
+  createUser(options?: { email?: string; role?: string; fullName?: string }): Promise<string>;
+}
+
+// A fresh in-memory database with every migration applied in order
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = new PGlite();
+  await db.exec(SUPABASE_STUBS);
+
+  for (const file of readdirSync(MIGRATIONS_DIR).sort()) {
+    try {
+      await db.exec(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+    } catch (error) {
+      throw new Error(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const query = async <T>(actor: Actor, sql: string, params: unknown[] = []) => {
+    const role = actor === null ? '' : typeof actor === 'string' ? actor : 'authenticated';
+    const userId = actor !== null && typeof actor === 'object' ? actor.userId : '';
+
+    await db.exec('RESET ROLE');
+    await db.query(
+      `SELECT set_config('request.jwt.claim.role', $1, false), set_config('request.jwt.claim.sub', $2, false)`,
+      [role, userId]
+    );
+    if (role) await db.exec(`SET ROLE ${role}`);
+
+    try {
+      return (await db.query<T>(sql, params)).rows;
+    } finally {
+      await db.exec('RESET ROLE');
+    }
+  };
+
+  const createUser = async ({ email, role, fullName }: { email?: string; role?: string; fullName?: string } = {}) => {
+    const [user] = await query<{ id: string }>(
+      null,
+      `INSERT INTO auth.users (email, raw_user_meta_data, email_confirmed_at)
+       VALUES ($1, jsonb_build_object('full_name', $2::text), now())
+       RETURNING id`,
+      [email ?? `${crypto.randomUUID()}@example.com`, fullName ?? 'Test User']
+    );
+    if (role) await query(null, 'UPDATE profiles SET role = $1 WHERE id = $2', [role, user.id]);
+    return user.id;
+  };
+
+  return { db, query, createUser };
+}
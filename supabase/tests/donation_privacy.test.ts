@@ -0,0 +1,84 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './db';
+
+let test: TestDatabase;
+let adminId: string;
+let creatorId: string;
+let donorId: string;
+let projectId: string;
+
+beforeAll(async () => {
+  test = await createTestDatabase();
+  adminId = await test.createUser({ role: 'admin' });
+  creatorId = await test.createUser({ role: 'project_creator' });
+  donorId = await test.createUser();
+
+  const [project] = await test.query<{ id: string }>(
+    null,
+    `INSERT INTO projects (creator_id, title, description, goal_amount, location, status, end_date)
+     VALUES ($1, 'Library books', 'Books for a school', 2000, 'Arusha', 'draft', now() + interval '30 days')
+     RETURNING id`,
+    [creatorId]
+  );
+  await test.query(null, `UPDATE projects SET status = 'pending_review' WHERE id = $1`, [project.id]);
+  await test.query(null, `UPDATE projects SET status = 'active' WHERE id = $1`, [project.id]);
+  projectId = project.id;
+
+  await test.query(
+    'service_role',
+    `INSERT INTO donations (project_id, amount, project_amount, status, is_anonymous, guest_name, guest_email)
+     VALUES ($1, 30, 30, 'completed', true, 'Quiet Giver', 'quiet@example.com')`,
+    [projectId]
+  );
+  await test.query(
+    'service_role',
+    `INSERT INTO donations (donor_id, project_id, amount, project_amount, status)
+     VALUES ($1, $2, 15, 15, 'completed')`,
+    [donorId, projectId]
+  );
+}, 60_000);
+
+describe('guest identity on donations', () => {
+  it('is hidden from the project creator', async () => {
+    await expect(
+      test.query({ userId: creatorId }, 'SELECT guest_name, guest_email FROM donations WHERE project_id = $1', [
+        projectId,
+      ])
+    ).rejects.toThrow('permission denied');
+  });
+
+  it('is hidden from admins using the API', async () => {
+    await expect(test.query({ userId: adminId }, 'SELECT * FROM donations')).rejects.toThrow('permission denied');
+  });
+
+  it('is still available to the service role', async () => {
+    const rows = await test.query<{ guest_email: string | null }>(
+      'service_role',
+      'SELECT guest_email FROM donations WHERE project_id = $1 AND is_anonymous',
+      [projectId]
+    );
+    expect(rows).toEqual([{ guest_email: 'quiet@example.com' }]);
+  });
+});
+
+describe('donation columns signed-in users still read', () => {
+  it('cover the creator view of an anonymous donation', async () => {
+    const rows = await test.query<{ amount: string; is_anonymous: boolean }>(
+      { userId: creatorId },
+      'SELECT amount, is_anonymous FROM donations WHERE project_id = $1 AND is_anonymous',
+      [projectId]
+    );
+    expect(rows).toHaveLength(1);
+    expect(Number(rows[0].amount)).toBe(30);
+  });
+
+  it('cover the donor dashboard', async () => {
+    const rows = await test.query<{ id: string }>(
+      { userId: donorId },
+      `SELECT id, project_id, amount, currency, status, created_at, completed_at, receipt_number, receipt_voided_at
+       FROM donations WHERE donor_id = $1`,
+      [donorId]
+    );
+    expect(rows).toHaveLength(1);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createStripeProvider } from '../functions/_shared/payments/stripe.ts';
+import { hmacSha256Hex } from '../functions/_shared/payments/signature.ts';
+
+describe('stripe webhooks', () => {
+  const webhookSecret = 'whsec_test';
+  const stripe = createStripeProvider({ secretKey: 'sk_test', webhookSecret });
+
+  async function signedEvent(type: string, object: Record<string, unknown>) {
+    const payload = JSON.stringify({ id: `evt_${type}`, type, data: { object } });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await hmacSha256Hex(webhookSecret, `${timestamp}.${payload}`);
+    return { payload, header: `t=${timestamp},v1=${signature}` };
+  }
+
+  it('maps payment events', async () => {
+    const { payload, header } = await signedEvent('payment_intent.succeeded', { id: 'pi_1', object: 'payment_intent' });
+
+    await expect(stripe.verifyWebhook(payload, header)).resolves.toEqual({
+      id: 'evt_payment_intent.succeeded',
+      type: 'payment.succeeded',
+      intentId: 'pi_1',
+      amount: null,
+    });
+  });
+
+  it('ignores event types it does not handle', async () => {
+    const { payload, header } = await signedEvent('customer.created', { id: 'cus_1', object: 'customer' });
+
+    await expect(stripe.verifyWebhook(payload, header)).resolves.toMatchObject({ type: 'ignored' });
+  });
+
+  it('rejects events with a bad signature', async () => {
+    const { payload } = await signedEvent('payment_intent.succeeded', { id: 'pi_1', object: 'payment_intent' });
+
+    await expect(stripe.verifyWebhook(payload, `t=${Math.floor(Date.now() / 1000)},v1=deadbeef`)).rejects.toThrow(
+      'Invalid webhook signature'
+    );
+  });
+});
+
+describe('stripe pledge charges', () => {
+  const stripe = createStripeProvider({ secretKey: 'sk_test', webhookSecret: 'whsec_test' });
+
+  const intent = {
+    id: 'pi_1',
+    amount: 2500,
+    currency: 'usd',
+    status: 'succeeded',
+    client_secret: 'pi_1_secret',
+    metadata: {},
+    customer: 'cus_1',
+    payment_method: 'pm_1',
+  };
+
+  function stubStripe(status: number, body: unknown) {
+    const fetch = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+    vi.stubGlobal('fetch', fetch);
+    return (call = 0) => {
+      const [url, init] = fetch.mock.calls[call] as unknown as [string, RequestInit];
+      return { url, params: Object.fromEntries(new URLSearchParams(String(init.body))) };
+    };
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('saves the first payment method to the customer for later', async () => {
+    const request = stubStripe(200, { ...intent, status: 'requires_payment_method' });
+
+    await stripe.createIntent({ amount: 25, currency: 'usd', customerId: 'cus_1', setupFutureUsage: 'off_session' });
+    expect(request().params).toMatchObject({ customer: 'cus_1', setup_future_usage: 'off_session' });
+  });
+
+  it('charges renewals off-session with the saved method', async () => {
+    const request = stubStripe(200, intent);
+
+    await stripe.createIntent({ amount: 25, currency: 'usd', customerId: 'cus_1', offSession: true });
+    expect(request().params).toMatchObject({ customer: 'cus_1', 'automatic_payment_methods[allow_redirects]': 'never' });
+
+    await expect(stripe.confirmIntent('pi_1', { paymentMethod: 'pm_1', offSession: true })).resolves.toMatchObject({
+      status: 'succeeded',
+      customerId: 'cus_1',
+      paymentMethod: 'pm_1',
+    });
+    expect(request(1)).toEqual({
+      url: 'https://api.stripe.com/v1/payment_intents/pi_1/confirm',
+      params: { payment_method: 'pm_1', off_session: 'true' },
+    });
+  });
+
+  it('reports a declined renewal as a failed payment', async () => {
+    stubStripe(402, {
+      error: {
+        type: 'card_error',
+        code: 'authentication_required',
+        message: 'This payment requires authentication',
+        payment_intent: { ...intent, status: 'requires_payment_method' },
+      },
+    });
+
+    await expect(stripe.confirmIntent('pi_1', { paymentMethod: 'pm_1', offSession: true })).resolves.toMatchObject({
+      id: 'pi_1',
+      status: 'failed',
+    });
+  });
+});
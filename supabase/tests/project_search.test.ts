@@ -0,0 +1,109 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './db';
+
+let test: TestDatabase;
+let creatorId: string;
+let donorId: string;
+// Most funded first
+let projectIds: string[];
+
+beforeAll(async () => {
+  test = await createTestDatabase();
+  creatorId = await test.createUser({ role: 'project_creator' });
+  donorId = await test.createUser();
+
+  projectIds = [];
+  for (const raised of [40, 30, 20, 10]) {
+    const projectId = await createActiveProject();
+    await donate(projectId, raised);
+    projectIds.push(projectId);
+  }
+}, 60_000);
+
+async function createActiveProject(title = 'Seed bank', goal = 100, currency = 'USD') {
+  const [project] = await test.query<{ id: string }>(
+    null,
+    `INSERT INTO projects (creator_id, title, description, goal_amount, currency, location, status, end_date)
+     VALUES ($1, $2, 'Seeds for farmers', $3, $4, 'Mbale, Uganda', 'draft', now() + interval '30 days')
+     RETURNING id`,
+    [creatorId, title, goal, currency]
+  );
+  await test.query(null, `UPDATE projects SET status = 'pending_review' WHERE id = $1`, [project.id]);
+  await test.query(null, `UPDATE projects SET status = 'active' WHERE id = $1`, [project.id]);
+  return project.id;
+}
+
+async function donate(projectId: string, amount: number) {
+  const transactionId = `test_${crypto.randomUUID()}`;
+  await test.query(
+    'service_role',
+    `INSERT INTO donations (donor_id, project_id, amount, project_amount, status, transaction_id)
+     VALUES ($1, $2, $3, $3, 'pending', $4)`,
+    [donorId, projectId, amount, transactionId]
+  );
+  await test.query('service_role', `SELECT settle_donation($1, 'completed')`, [transactionId]);
+}
+
+// The last project of a page as the client received it
+async function cursorFor(projectId: string) {
+  const [{ cursor }] = await test.query<{ cursor: unknown }>(
+    null,
+    'SELECT to_jsonb(projects) AS cursor FROM projects WHERE id = $1',
+    [projectId]
+  );
+  return cursor;
+}
+
+async function page(after: unknown = null) {
+  const rows = await test.query<{ id: string }>(
+    'anon',
+    `SELECT id FROM search_projects(p_sort => 'most_funded', p_after => $1::jsonb, p_limit => 2)`,
+    [after === null ? null : JSON.stringify(after)]
+  );
+  return rows.map((row) => row.id);
+}
+
+describe('search_projects pagination', () => {
+  it('pages through every project once', async () => {
+    const first = await page();
+    const second = await page(await cursorFor(first[1]));
+
+    expect([...first, ...second]).toEqual(projectIds);
+  });
+
+  it('continues from the cursor when the last project gets a donation in between', async () => {
+    const first = await page();
+    const cursor = await cursorFor(first[1]);
+    await donate(first[1], 25);
+
+    expect(await page(cursor)).toEqual(projectIds.slice(2));
+  });
+
+  it('continues from the cursor when the last project is no longer listed', async () => {
+    const first = await page();
+    const cursor = await cursorFor(first[1]);
+    await test.query(null, `UPDATE projects SET status = 'cancelled' WHERE id = $1`, [first[1]]);
+
+    expect(await page(cursor)).toEqual(projectIds.slice(2));
+  });
+
+  it('rejects a cursor without a sort key', async () => {
+    await expect(page({ id: projectIds[0] })).rejects.toThrow('Invalid search cursor');
+  });
+});
+
+describe('search_projects closest to goal', () => {
+  it('compares the share of each goal still missing, whatever the currency', async () => {
+    const nearlyFunded = await createActiveProject('Borehole pump', 100_000, 'KES');
+    await donate(nearlyFunded, 95_000);
+    const halfFunded = await createActiveProject('Borehole repair', 100, 'USD');
+    await donate(halfFunded, 50);
+
+    const rows = await test.query<{ id: string }>(
+      'anon',
+      `SELECT id FROM search_projects(p_query => 'borehole', p_sort => 'closest_to_goal')`
+    );
+
+    expect(rows.map((row) => row.id)).toEqual([nearlyFunded, halfFunded]);
+  });
+});
@@ -0,0 +1,194 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './db';
+
+interface Project {
+  id: string;
+  status: string;
+  raised_amount: string;
+  creator_id: string;
+  start_date: string | null;
+}
+
+let test: TestDatabase;
+let adminId: string;
+let creatorId: string;
+let otherCreatorId: string;
+let donorId: string;
+
+beforeAll(async () => {
+  test = await createTestDatabase();
+  adminId = await test.createUser({ role: 'admin' });
+  creatorId = await test.createUser({ role: 'project_creator' });
+  otherCreatorId = await test.createUser({ role: 'project_creator' });
+  donorId = await test.createUser();
+  await test.query(null, 'UPDATE profiles SET is_verified = true WHERE id IN ($1, $2)', [creatorId, otherCreatorId]);
+}, 60_000);
+
+async function createProject(status = 'draft', goal = 100) {
+  const [project] = await test.query<Project>(
+    { userId: creatorId },
+    `INSERT INTO projects (creator_id, title, description, goal_amount, location, status, end_date)
+     VALUES ($1, 'Clean water', 'A new well', $2, 'Kisumu', $3, now() + interval '30 days')
+     RETURNING *`,
+    [creatorId, goal, status]
+  );
+  return project;
+}
+
+async function getProject(id: string) {
+  const [project] = await test.query<Project>(null, 'SELECT * FROM projects WHERE id = $1', [id]);
+  return project;
+}
+
+async function approve(projectId: string) {
+  await test.query({ userId: adminId }, 'SELECT claim_project_review($1)', [projectId]);
+  await test.query(
+    { userId: adminId },
+    `SELECT submit_project_review($1, 'approved', '',
+       (SELECT COALESCE(jsonb_object_agg(item ->> 'id', true), '{}') FROM jsonb_array_elements(review_checklist()) AS item))`,
+    [projectId]
+  );
+}
+
+async function createActiveProject(goal = 100) {
+  const project = await createProject('pending_review', goal);
+  await approve(project.id);
+  return getProject(project.id);
+}
+
+async function donate(projectId: string, amount: number) {
+  const transactionId = `test_${crypto.randomUUID()}`;
+  await test.query(
+    'service_role',
+    `INSERT INTO donations (donor_id, project_id, amount, project_amount, status, transaction_id)
+     VALUES ($1, $2, $3, $3, 'pending', $4)`,
+    [donorId, projectId, amount, transactionId]
+  );
+  await test.query('service_role', `SELECT settle_donation($1, 'completed')`, [transactionId]);
+}
+
+describe('creators', () => {
+  it('cannot set raised_amount', async () => {
+    const project = await createActiveProject();
+
+    await expect(
+      test.query({ userId: creatorId }, 'UPDATE projects SET raised_amount = 5000 WHERE id = $1', [project.id])
+    ).rejects.toThrow('raised_amount is updated by donations only');
+    expect(Number((await getProject(project.id)).raised_amount)).toBe(0);
+  });
+
+  it('cannot create a project with money already raised', async () => {
+    await expect(
+      test.query(
+        { userId: creatorId },
+        `INSERT INTO projects (creator_id, title, description, goal_amount, location, raised_amount, end_date)
+         VALUES ($1, 'Clean water', 'A new well', 100, 'Kisumu', 50, now() + interval '30 days')`,
+        [creatorId]
+      )
+    ).rejects.toThrow('raised_amount is updated by donations only');
+  });
+
+  it.each(['active', 'fully_funded', 'completed'])('cannot insert a project as %s', async (status) => {
+    await expect(createProject(status)).rejects.toThrow('New projects must start as a draft or pending review');
+  });
+
+  it('can insert drafts and submit them for review', async () => {
+    const project = await createProject();
+    await test.query({ userId: creatorId }, `UPDATE projects SET status = 'pending_review' WHERE id = $1`, [project.id]);
+
+    expect((await getProject(project.id)).status).toBe('pending_review');
+  });
+
+  it('cannot approve their own project', async () => {
+    const project = await createProject('pending_review');
+
+    await expect(
+      test.query({ userId: creatorId }, `UPDATE projects SET status = 'active' WHERE id = $1`, [project.id])
+    ).rejects.toThrow('You are not allowed to move this project from pending_review to active');
+    await expect(test.query({ userId: creatorId }, 'SELECT claim_project_review($1)', [project.id])).rejects.toThrow(
+      'Only admins can review projects'
+    );
+    expect((await getProject(project.id)).status).toBe('pending_review');
+  });
+
+  it('cannot mark their project fully funded', async () => {
+    const project = await createActiveProject();
+
+    await expect(
+      test.query({ userId: creatorId }, `UPDATE projects SET status = 'fully_funded' WHERE id = $1`, [project.id])
+    ).rejects.toThrow('Funding status follows the donations a project receives');
+  });
+
+  it('cannot change creator_id', async () => {
+    const project = await createProject();
+
+    await expect(
+      test.query({ userId: creatorId }, 'UPDATE projects SET creator_id = $1 WHERE id = $2', [otherCreatorId, project.id])
+    ).rejects.toThrow('Projects cannot be transferred to another creator');
+    expect((await getProject(project.id)).creator_id).toBe(creatorId);
+  });
+
+  it('cannot set the start date', async () => {
+    const project = await createActiveProject();
+
+    await expect(
+      test.query({ userId: creatorId }, `UPDATE projects SET start_date = now() - interval '1 day' WHERE id = $1`, [
+        project.id,
+      ])
+    ).rejects.toThrow('Only admins can set the start date of a project');
+  });
+});
+
+describe('admins', () => {
+  it('approve projects from the review queue', async () => {
+    const project = await createActiveProject();
+
+    expect(project.status).toBe('active');
+    expect(project.start_date).not.toBeNull();
+  });
+
+  it('cannot set raised_amount directly', async () => {
+    const project = await createActiveProject();
+
+    await expect(
+      test.query({ userId: adminId }, 'UPDATE projects SET raised_amount = 5000 WHERE id = $1', [project.id])
+    ).rejects.toThrow('raised_amount is updated by donations only');
+  });
+
+  it('can cancel any project', async () => {
+    const project = await createActiveProject();
+    await test.query({ userId: adminId }, `UPDATE projects SET status = 'cancelled' WHERE id = $1`, [project.id]);
+
+    expect((await getProject(project.id)).status).toBe('cancelled');
+  });
+});
+
+describe('settlement', () => {
+  it('adds completed donations and marks the goal as reached', async () => {
+    const project = await createActiveProject(100);
+
+    await donate(project.id, 40);
+    expect(await getProject(project.id)).toMatchObject({ raised_amount: '40.00', status: 'active' });
+
+    await donate(project.id, 60);
+    expect(await getProject(project.id)).toMatchObject({ raised_amount: '100.00', status: 'fully_funded' });
+  });
+
+  it('lets admins reconcile totals that drifted', async () => {
+    const project = await createActiveProject(100);
+    await donate(project.id, 100);
+    await test.query(null, `SELECT set_config('hope_bridge.settling_funds', 'on', false)`);
+    await test.query(null, `UPDATE projects SET raised_amount = 10, status = 'active' WHERE id = $1`, [project.id]);
+    await test.query(null, `SELECT set_config('hope_bridge.settling_funds', 'off', false)`);
+
+    const fixed = await test.query<{ project_id: string }>({ userId: adminId }, 'SELECT * FROM reconcile_raised_amounts()');
+    expect(fixed.map((row) => row.project_id)).toContain(project.id);
+    expect(await getProject(project.id)).toMatchObject({ raised_amount: '100.00', status: 'fully_funded' });
+  });
+
+  it('does not let creators reconcile totals', async () => {
+    await expect(test.query({ userId: creatorId }, 'SELECT * FROM reconcile_raised_amounts()')).rejects.toThrow(
+      'Only admins can reconcile project totals'
+    );
+  });
+});
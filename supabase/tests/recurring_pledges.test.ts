@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './db';
+
+interface Pledge {
+  id: string;
+  status: string;
+  failed_attempts: number;
+  last_charged_at: Date | null;
+  payment_method: string | null;
+  payment_customer: string | null;
+}
+
+let test: TestDatabase;
+let donorId: string;
+let projectId: string;
+
+beforeAll(async () => {
+  test = await createTestDatabase();
+  const creatorId = await test.createUser({ role: 'project_creator' });
+  donorId = await test.createUser();
+
+  const [project] = await test.query<{ id: string }>(
+    null,
+    `INSERT INTO projects (creator_id, title, description, goal_amount, location, status, end_date)
+     VALUES ($1, 'Solar lamps', 'Lamps for a village', 5000, 'Mwanza', 'draft', now() + interval '90 days')
+     RETURNING id`,
+    [creatorId]
+  );
+  await test.query(null, `UPDATE projects SET status = 'pending_review' WHERE id = $1`, [project.id]);
+  await test.query(null, `UPDATE projects SET status = 'active' WHERE id = $1`, [project.id]);
+  projectId = project.id;
+}, 60_000);
+
+// A pledge that is due today and was last charged a month ago
+async function createDuePledge() {
+  const [pledge] = await test.query<Pledge>(
+    'service_role',
+    `SELECT * FROM create_pledge($1, $2, 25, 'monthly', 'stripe', '', false, 'USD')`,
+    [donorId, projectId]
+  );
+  const [due] = await test.query<Pledge>(
+    'service_role',
+    `UPDATE recurring_pledges
+     SET next_charge_date = CURRENT_DATE, last_charged_at = now() - interval '1 month',
+         payment_method = 'pm_card', payment_customer = 'cus_donor'
+     WHERE id = $1
+     RETURNING *`,
+    [pledge.id]
+  );
+  return due;
+}
+
+async function advance(pledgeId: string, outcome: string) {
+  const [pledge] = await test.query<Pledge>('service_role', 'SELECT * FROM advance_pledge($1, $2)', [
+    pledgeId,
+    outcome,
+  ]);
+  return pledge;
+}
+
+async function isDueNextMonth(pledgeId: string) {
+  const [{ due }] = await test.query<{ due: boolean }>(
+    null,
+    `SELECT next_charge_date = (CURRENT_DATE + interval '1 month')::date AS due FROM recurring_pledges WHERE id = $1`,
+    [pledgeId]
+  );
+  return due;
+}
+
+describe('advance_pledge', () => {
+  it('schedules the next period and records the charge', async () => {
+    const pledge = await createDuePledge();
+    await test.query('service_role', 'UPDATE recurring_pledges SET failed_attempts = 2 WHERE id = $1', [pledge.id]);
+
+    const charged = await advance(pledge.id, 'charged');
+    expect(await isDueNextMonth(pledge.id)).toBe(true);
+    expect(charged.failed_attempts).toBe(0);
+    expect(charged.last_charged_at!.getTime()).toBeGreaterThan(pledge.last_charged_at!.getTime());
+  });
+
+  it('skips a period without counting it as a charge', async () => {
+    const pledge = await createDuePledge();
+    await test.query('service_role', 'UPDATE recurring_pledges SET failed_attempts = 1 WHERE id = $1', [pledge.id]);
+
+    const skipped = await advance(pledge.id, 'skipped');
+    expect(await isDueNextMonth(pledge.id)).toBe(true);
+    expect(skipped).toMatchObject({
+      status: 'active',
+      failed_attempts: 1,
+      last_charged_at: pledge.last_charged_at,
+      payment_method: 'pm_card',
+      payment_customer: 'cus_donor',
+    });
+  });
+
+  it('retries failed charges and pauses after three in a row', async () => {
+    const pledge = await createDuePledge();
+
+    expect(await advance(pledge.id, 'failed')).toMatchObject({ status: 'active', failed_attempts: 1 });
+    expect(await advance(pledge.id, 'failed')).toMatchObject({ status: 'active', failed_attempts: 2 });
+    expect(await advance(pledge.id, 'failed')).toMatchObject({
+      status: 'paused',
+      failed_attempts: 3,
+      last_charged_at: pledge.last_charged_at,
+    });
+  });
+
+  it('is not open to donors', async () => {
+    const pledge = await createDuePledge();
+
+    await expect(
+      test.query({ userId: donorId }, `SELECT advance_pledge($1, 'charged')`, [pledge.id])
+    ).rejects.toThrow('permission denied');
+  });
+});
+
+describe('saved payment details', () => {
+  it('cannot be changed by the donor', async () => {
+    const pledge = await createDuePledge();
+
+    await expect(
+      test.query({ userId: donorId }, `UPDATE recurring_pledges SET payment_customer = 'cus_other' WHERE id = $1`, [
+        pledge.id,
+      ])
+    ).rejects.toThrow('Only the amount, cadence and status of a pledge can be changed');
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createMockGateway } from '../functions/_shared/payments/mock.ts';
+import { createTestDatabase, type TestDatabase } from './db';
+
+const webhookSecret = 'mock_test_secret';
+
+let test: TestDatabase;
+let adminId: string;
+let creatorId: string;
+let donorId: string;
+
+beforeAll(async () => {
+  test = await createTestDatabase();
+  adminId = await test.createUser({ role: 'admin' });
+  creatorId = await test.createUser({ role: 'project_creator' });
+  donorId = await test.createUser();
+}, 60_000);
+
+async function createActiveProject() {
+  const [project] = await test.query<{ id: string }>(
+    null,
+    `INSERT INTO projects (creator_id, title, description, goal_amount, location, status, end_date)
+     VALUES ($1, 'School roof', 'New roof', 1000, 'Gulu', 'draft', now() + interval '30 days')
+     RETURNING id`,
+    [creatorId]
+  );
+  await test.query(null, `UPDATE projects SET status = 'pending_review' WHERE id = $1`, [project.id]);
+  await test.query(null, `UPDATE projects SET status = 'active' WHERE id = $1`, [project.id]);
+  return project.id;
+}
+
+// What the payments function does: create and confirm the intent, then settle the donation
+async function donate(projectId: string, amount: number) {
+  const gateway = createMockGateway({ webhookSecret });
+  const intent = await gateway.createIntent({ amount, currency: 'usd' });
+  const [donation] = await test.query<{ id: string }>(
+    'service_role',
+    `INSERT INTO donations (donor_id, project_id, amount, project_amount, status, transaction_id, payment_provider)
+     VALUES ($1, $2, $3, $3, 'pending', $4, 'mock')
+     RETURNING id`,
+    [donorId, projectId, amount, intent.id]
+  );
+  const confirmed = await gateway.confirmIntent(intent.id);
+  await test.query('service_role', 'SELECT settle_donation($1, $2)', [
+    intent.id,
+    confirmed.status === 'succeeded' ? 'completed' : 'failed',
+  ]);
+  return { donationId: donation.id, intentId: intent.id };
+}
+
+describe('mock gateway across invocations', () => {
+  it('refunds a payment confirmed by another invocation', async () => {
+    const confirming = createMockGateway({ webhookSecret });
+    const intent = await confirming.createIntent({ amount: 25, currency: 'usd' });
+    await confirming.confirmIntent(intent.id);
+
+    const refunding = createMockGateway({ webhookSecret });
+    await expect(refunding.refund(intent.id)).resolves.toMatchObject({
+      intentId: intent.id,
+      amount: 25,
+      status: 'succeeded',
+    });
+  });
+
+  it('does not refund a declined payment', async () => {
+    const intent = await createMockGateway({ webhookSecret }).createIntent({ amount: 13.13, currency: 'usd' });
+
+    await expect(createMockGateway({ webhookSecret }).refund(intent.id)).rejects.toThrow(
+      'Only succeeded payments can be refunded'
+    );
+  });
+
+  it('still declines the test amount when another invocation confirms it', async () => {
+    const intent = await createMockGateway({ webhookSecret }).createIntent({ amount: 13.13, currency: 'usd' });
+
+    await expect(createMockGateway({ webhookSecret }).confirmIntent(intent.id)).resolves.toMatchObject({
+      status: 'failed',
+    });
+  });
+});
+
+describe('approving a refund request', () => {
+  it('refunds the payment, the donation and the project total', async () => {
+    const projectId = await createActiveProject();
+    const { donationId, intentId } = await donate(projectId, 40);
+
+    const [request] = await test.query<{ id: string }>(
+      { userId: donorId },
+      `SELECT id FROM request_refund($1, 'Gave to the wrong project')`,
+      [donationId]
+    );
+
+    // The refunds function runs in its own invocation, with a fresh gateway
+    const refund = await createMockGateway({ webhookSecret }).refund(intentId);
+    expect(refund.status).toBe('succeeded');
+
+    const [resolved] = await test.query<{ status: string; reviewed_by: string }>(
+      'service_role',
+      `SELECT * FROM resolve_refund_request($1, true, $2, 'Refunded')`,
+      [request.id, adminId]
+    );
+    expect(resolved).toMatchObject({ status: 'approved', reviewed_by: adminId });
+
+    const [donation] = await test.query<{ status: string }>(null, 'SELECT status FROM donations WHERE id = $1', [
+      donationId,
+    ]);
+    const [project] = await test.query<{ raised_amount: string }>(
+      null,
+      'SELECT raised_amount FROM projects WHERE id = $1',
+      [projectId]
+    );
+    expect(donation.status).toBe('refunded');
+    expect(Number(project.raised_amount)).toBe(0);
+  });
+
+  it('waits for the provider webhook when the refund is still pending', async () => {
+    const projectId = await createActiveProject();
+    const { donationId, intentId } = await donate(projectId, 30);
+    const [request] = await test.query<{ id: string }>(
+      { userId: donorId },
+      `SELECT id FROM request_refund($1, 'Duplicate payment')`,
+      [donationId]
+    );
+
+    const [resolved] = await test.query<{ status: string }>(
+      'service_role',
+      `SELECT * FROM resolve_refund_request($1, true, $2, '', true)`,
+      [request.id, adminId]
+    );
+    expect(resolved.status).toBe('processing');
+
+    const raised = async () => {
+      const [project] = await test.query<{ raised_amount: string }>(
+        null,
+        'SELECT raised_amount FROM projects WHERE id = $1',
+        [projectId]
+      );
+      return Number(project.raised_amount);
+    };
+    expect(await raised()).toBe(30);
+    await expect(
+      test.query({ userId: donorId }, `SELECT request_refund($1, 'Still waiting')`, [donationId])
+    ).rejects.toThrow('already been requested');
+
+    // What the payment webhook does on refund.succeeded
+    await test.query('service_role', `SELECT settle_donation($1, 'refunded')`, [intentId]);
+
+    const [settled] = await test.query<{ status: string }>(null, 'SELECT status FROM refund_requests WHERE id = $1', [
+      request.id,
+    ]);
+    expect(settled.status).toBe('approved');
+    expect(await raised()).toBe(0);
+  });
+
+  it('is not open to donors', async () => {
+    const projectId = await createActiveProject();
+    const { donationId } = await donate(projectId, 10);
+    const [request] = await test.query<{ id: string }>(
+      { userId: donorId },
+      `SELECT id FROM request_refund($1, 'Changed my mind')`,
+      [donationId]
+    );
+
+    await expect(
+      test.query({ userId: donorId }, 'SELECT resolve_refund_request($1, true, $2)', [request.id, donorId])
+    ).rejects.toThrow('permission denied');
+  });
+});
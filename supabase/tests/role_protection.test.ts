@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createTestDatabase, type TestDatabase } from './db';
+
+let test: TestDatabase;
+let adminId: string;
+let donorId: string;
+
+beforeAll(async () => {
+  test = await createTestDatabase();
+  adminId = await test.createUser({ role: 'admin' });
+  donorId = await test.createUser();
+}, 60_000);
+
+describe('role and verification functions', () => {
+  it.each([
+    ['set_user_role', `SELECT set_user_role($1, 'admin')`],
+    ['set_user_verification', 'SELECT set_user_verification($1, true)'],
+    ['review_role_change_request', 'SELECT review_role_change_request($1, true)'],
+  ])('%s cannot be called anonymously', async (_name, sql) => {
+    await expect(test.query('anon', sql, [donorId])).rejects.toThrow('permission denied');
+  });
+
+  it('request_role_change cannot be called anonymously', async () => {
+    await expect(test.query('anon', `SELECT request_role_change('Water project')`)).rejects.toThrow(
+      'permission denied'
+    );
+  });
+
+  it('still let an admin change a role', async () => {
+    const [profile] = await test.query<{ role: string }>(
+      { userId: adminId },
+      `SELECT role FROM set_user_role($1, 'project_creator')`,
+      [donorId]
+    );
+    expect(profile.role).toBe('project_creator');
+  });
+});
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite';
+import { defineConfig } from 'vitest/config';
 import react from '@vitejs/plugin-react';
 
 // https://vitejs.dev/config/
@@ -7,4 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    include: ['src/**/*.test.ts', 'supabase/tests/**/*.test.ts'],
+    // Each database suite boots its own Postgres in memory
+    fileParallelism: false,
+    testTimeout: 30_000,
+  },
 });